@@ -0,0 +1,94 @@
+// Service worker for the static export: keeps the app shell and built assets
+// available offline. API data is cached by the app itself (IndexedDB), so requests
+// to other origins are never touched here.
+
+// Written by scripts/precache-manifest.js after `next build`: the build ID and every
+// /_next/static asset. Missing outside an exported build, where nothing is precached.
+try {
+  importScripts('/precache-manifest.js')
+} catch (error) {
+  self.__PRECACHE_MANIFEST = null
+}
+
+const PRECACHE = self.__PRECACHE_MANIFEST || { version: 'dev', urls: [] }
+const CACHE_VERSION = PRECACHE.version
+const SHELL_CACHE = `wanikani-shell-${CACHE_VERSION}`
+const ASSET_CACHE = `wanikani-assets-${CACHE_VERSION}`
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg']
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL_URLS)),
+      // The chunks the first visit loaded before this worker was in control
+      caches.open(ASSET_CACHE).then(cache => cache.addAll(PRECACHE.urls))
+    ])
+      .then(() => self.skipWaiting())
+  )
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('wanikani-') && key !== SHELL_CACHE && key !== ASSET_CACHE)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', event => {
+  const request = event.request
+  if (request.method !== 'GET') return
+  const url = new URL(request.url)
+  if (url.origin !== self.location.origin) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request))
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    // Hashed file names never change content
+    event.respondWith(cacheFirst(request))
+  } else {
+    event.respondWith(staleWhileRevalidate(request))
+  }
+})
+
+// Pages: fresh when online, the cached shell when not
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  try {
+    const response = await fetch(request)
+    if (response.ok) cache.put(request, response.clone())
+    return response
+  } catch (error) {
+    const cached = await cache.match(request) || await cache.match('/')
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(ASSET_CACHE)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) cache.put(request, response.clone())
+  return response
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(ASSET_CACHE)
+  const cached = await cache.match(request)
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok) cache.put(request, response.clone())
+      return response
+    })
+    .catch(error => {
+      if (cached) return cached
+      throw error
+    })
+  return cached || network
+}
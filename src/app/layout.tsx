@@ -1,9 +1,10 @@
 import './globals.css'
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import { Analytics } from "@vercel/analytics/next"
 import { SpeedInsights } from "@vercel/speed-insights/next"
 import { LanguageProvider } from '@/contexts/LanguageContext'
 import { ThemeProvider } from '@/contexts/ThemeContext'
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration'
 
 export const metadata: Metadata = {
     title: 'WaniKani Dashboard',
@@ -11,6 +12,14 @@ export const metadata: Metadata = {
     icons: {
         icon: 'data:image/svg+xml,<svg xmlns=%22http://www.w3.org/2000/svg%22 viewBox=%220 0 100 100%22><text y=%22.9em%22 font-size=%2290%22>🦀</text></svg>',
     },
+    appleWebApp: {
+        capable: true,
+        title: 'WK Dashboard',
+    },
+}
+
+export const viewport: Viewport = {
+    themeColor: '#ff00aa',
 }
 
 export default function RootLayout({
@@ -44,6 +53,7 @@ export default function RootLayout({
                         {children}
                     </LanguageProvider>
                 </ThemeProvider>
+                <ServiceWorkerRegistration />
                 <Analytics />
                 <SpeedInsights />
             </body>
@@ -0,0 +1,18 @@
+import type { MetadataRoute } from 'next'
+
+// Generated as /manifest.webmanifest by the static export
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'WaniKani Dashboard',
+    short_name: 'WK Dashboard',
+    description: 'Advanced WaniKani statistics and progress tracking',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    background_color: '#f5f5f5',
+    theme_color: '#ff00aa',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' }
+    ]
+  }
+}
@@ -1,59 +1,69 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import Dashboard from '@/components/Dashboard'
 import ApiTokenInput from '@/components/ApiTokenInput'
+import UnlockScreen from '@/components/UnlockScreen'
+import SecuritySettings from '@/components/SecuritySettings'
 import { useLanguage } from '@/contexts/LanguageContext'
+import { useProfiles } from '@/hooks/useProfiles'
+import { usePassphraseLock } from '@/hooks/usePassphraseLock'
+import { WaniKaniService } from '@/services/wanikani'
 
 export default function Home() {
-  const [apiToken, setApiToken] = useState('')
-  const [isLoading, setIsLoading] = useState(true)
-  const [isClient, setIsClient] = useState(false)
+  const lock = usePassphraseLock()
+  const { profiles, activeProfile, loaded, addProfile, updateProfile, removeProfile, selectProfile } = useProfiles(
+    lock.status === 'disabled' || lock.status === 'unlocked',
+    lock.key
+  )
+  const [addingProfile, setAddingProfile] = useState(false)
+  const [resolvingProfile, setResolvingProfile] = useState(false)
+  const resolveAttemptsRef = useRef<Set<string>>(new Set())
   const { t } = useLanguage()
 
-  // Ensure we're on the client side before accessing localStorage
+  // Caches are namespaced by the /user id, so look it up before opening the dashboard
   useEffect(() => {
-    setIsClient(true)
-  }, [])
+    if (!activeProfile || activeProfile.userId || resolveAttemptsRef.current.has(activeProfile.id)) return
 
-  // Load token from localStorage on component mount
-  useEffect(() => {
-    if (isClient) {
-      try {
-        const savedToken = localStorage.getItem('wanikani-api-token')
-        console.log('Loading saved token:', savedToken ? 'Token found' : 'No token found')
-        if (savedToken) {
-          setApiToken(savedToken)
-        }
-      } catch (error) {
-        console.error('Error loading token from localStorage:', error)
-      }
-      setIsLoading(false)
-    }
-  }, [isClient])
+    const profile = activeProfile
+    resolveAttemptsRef.current.add(profile.id)
+    setResolvingProfile(true)
+    new WaniKaniService(profile.token).identifyAndMigrate()
+      .then(user => {
+        updateProfile(profile.id, { userId: user.id, username: user.username, level: user.level })
+      })
+      .catch(error => {
+        // The dashboard reports the error; until then the token suffix namespaces the cache
+        console.warn('Could not identify profile:', error)
+      })
+      .finally(() => setResolvingProfile(false))
+  }, [activeProfile, updateProfile])
+
+  const handleTokenSubmit = (token: string, label: string, color: string) => {
+    addProfile(token, label, color)
+    setAddingProfile(false)
+  }
 
-  // Save token to localStorage when it changes
+  // An empty token logs the active profile out (removes it)
   const handleTokenChange = (token: string) => {
-    console.log('Token change:', token ? 'Setting token' : 'Clearing token')
-    setApiToken(token)
-    
-    if (isClient) {
-      try {
-        if (token) {
-          localStorage.setItem('wanikani-api-token', token)
-          console.log('Token saved to localStorage')
-        } else {
-          localStorage.removeItem('wanikani-api-token')
-          console.log('Token removed from localStorage')
-        }
-      } catch (error) {
-        console.error('Error saving token to localStorage:', error)
-      }
+    if (!activeProfile) return
+    if (token) {
+      updateProfile(activeProfile.id, { token })
+    } else {
+      removeProfile(activeProfile.id)
     }
   }
 
-  // Show loading state while checking for saved token
-  if (isLoading) {
+  if (lock.status === 'locked') {
+    return (
+      <main className="min-h-screen">
+        <UnlockScreen onUnlock={lock.unlock} onReset={lock.reset} />
+      </main>
+    )
+  }
+
+  // Show loading state while reading profiles or resolving the account
+  if (!loaded || resolvingProfile) {
     return (
       <main className="min-h-screen bg-wanikani-bg flex items-center justify-center">
         <div className="text-center">
@@ -68,10 +78,26 @@ export default function Home() {
 
   return (
     <main className="min-h-screen">
-      {apiToken ? (
-        <Dashboard apiToken={apiToken} onTokenChange={handleTokenChange} />
+      {activeProfile && !addingProfile ? (
+        <Dashboard
+          // A new service picks up the cache storage matching the encryption setting
+          key={`${activeProfile.id}:${lock.key && lock.options?.encryptCache ? 'encrypted' : 'plain'}`}
+          apiToken={activeProfile.token}
+          userId={activeProfile.userId}
+          profiles={profiles}
+          activeProfileId={activeProfile.id}
+          onSelectProfile={selectProfile}
+          onAddProfile={() => setAddingProfile(true)}
+          onProfileUpdate={updateProfile}
+          onTokenChange={handleTokenChange}
+          securityControls={<SecuritySettings lock={lock} />}
+        />
       ) : (
-        <ApiTokenInput onTokenSubmit={handleTokenChange} />
+        <ApiTokenInput
+          onTokenSubmit={handleTokenSubmit}
+          onCancel={activeProfile ? () => setAddingProfile(false) : undefined}
+          usedColors={profiles.map(p => p.color)}
+        />
       )}
     </main>
   )
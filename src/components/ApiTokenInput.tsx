@@ -1,17 +1,25 @@
 'use client'
 
 import { useState } from 'react'
-import { Key } from 'lucide-react'
+import { Key, FlaskConical } from 'lucide-react'
 import { useLanguage } from '@/contexts/LanguageContext'
+import { DEMO_API_TOKEN } from '@/services/transport'
+import { PROFILE_COLORS } from '@/utils/profiles'
 import LanguageToggle from './LanguageToggle'
 import ThemeToggle from './ThemeToggle'
 
 interface ApiTokenInputProps {
-  onTokenSubmit: (token: string) => void
+  onTokenSubmit: (token: string, label: string, color: string) => void
+  // Shown when adding another profile, to go back to the dashboard
+  onCancel?: () => void
+  // Colors of saved profiles, so a new profile picks a different one
+  usedColors?: string[]
 }
 
-export default function ApiTokenInput({ onTokenSubmit }: ApiTokenInputProps) {
+export default function ApiTokenInput({ onTokenSubmit, onCancel, usedColors = [] }: ApiTokenInputProps) {
   const [token, setToken] = useState('')
+  const [label, setLabel] = useState('')
+  const [color, setColor] = useState(() => PROFILE_COLORS.find(c => !usedColors.includes(c)) || PROFILE_COLORS[0])
   const [error, setError] = useState('')
   const { t } = useLanguage()
 
@@ -22,7 +30,7 @@ export default function ApiTokenInput({ onTokenSubmit }: ApiTokenInputProps) {
       return
     }
     setError('')
-    onTokenSubmit(token.trim())
+    onTokenSubmit(token.trim(), label.trim(), color)
   }
 
   return (
@@ -56,14 +64,72 @@ export default function ApiTokenInput({ onTokenSubmit }: ApiTokenInputProps) {
             {error && <p className="text-wanikani-pink text-sm mt-2">{error}</p>}
           </div>
 
+          <div>
+            <label htmlFor="profile-label" className="block text-sm font-medium text-wanikani-text dark:text-wanikani-text-dark mb-2">
+              {t('profiles.label')}
+            </label>
+            <div className="flex items-center gap-3">
+              <span
+                className="w-10 h-10 flex-shrink-0 rounded-full flex items-center justify-center text-white font-bold"
+                style={{ backgroundColor: color }}
+              >
+                {(label.trim()[0] || '?').toUpperCase()}
+              </span>
+              <input
+                type="text"
+                id="profile-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder={t('profiles.labelPlaceholder')}
+                className="w-full px-4 py-2 bg-white dark:bg-wanikani-card-dark border border-wanikani-border dark:border-wanikani-border-dark rounded-lg text-wanikani-text dark:text-wanikani-text-dark placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-wanikani-pink focus:border-transparent transition-colors"
+              />
+            </div>
+            <div className="flex gap-2 mt-3" role="radiogroup" aria-label={t('profiles.color')}>
+              {PROFILE_COLORS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  role="radio"
+                  aria-checked={color === option}
+                  onClick={() => setColor(option)}
+                  className={`w-6 h-6 rounded-full transition-transform ${color === option ? 'ring-2 ring-offset-2 ring-wanikani-text dark:ring-wanikani-text-dark scale-110' : ''}`}
+                  style={{ backgroundColor: option }}
+                />
+              ))}
+            </div>
+          </div>
+
           <button
             type="submit"
             className="w-full bg-wanikani-pink hover:bg-pink-600 text-white font-semibold py-3 px-4 rounded-lg transition-colors"
           >
             {t('token.submit')}
           </button>
+          {onCancel && (
+            <button
+              type="button"
+              onClick={onCancel}
+              className="w-full border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark py-2 px-4 rounded-lg transition-colors text-sm"
+            >
+              {t('profiles.cancel')}
+            </button>
+          )}
         </form>
 
+        <div className="mt-4">
+          <button
+            type="button"
+            onClick={() => onTokenSubmit(DEMO_API_TOKEN, t('header.demo'), color)}
+            className="w-full flex items-center justify-center gap-2 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark py-2 px-4 rounded-lg transition-colors text-sm"
+          >
+            <FlaskConical className="w-4 h-4" />
+            {t('token.demo')}
+          </button>
+          <p className="text-xs text-center text-wanikani-text-light dark:text-wanikani-text-light-dark mt-2">
+            {t('token.demoHint')}
+          </p>
+        </div>
+
         <div className="mt-6 text-center space-y-4">
           <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">
             {t('token.help')}{' '}
@@ -0,0 +1,279 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Download, Headphones, Trash2, X } from 'lucide-react'
+import type { Assignment, SpacedRepetitionSystem, Subject } from '@/types/wanikani'
+import { useLanguage } from '@/contexts/LanguageContext'
+import type { UseAudioLibraryResult } from '@/hooks/useAudioLibrary'
+import { pickPreferredAudio } from '@/utils/pronunciationAudio'
+import { SRS_STAGE_GROUPS, createSrsModels, getSrsModel, getStageGroup, type SrsStageGroup, type StartedStageGroup } from '@/utils/srsModel'
+
+interface AudioLibraryPanelProps {
+  library: UseAudioLibraryResult
+  subjects: Subject[]
+  assignments: Assignment[]
+  srsSystems: SpacedRepetitionSystem[]
+  // Voice actor chosen here, else the account's WaniKani preference
+  preferredVoiceActorId?: number
+  // null goes back to the WaniKani preference
+  onPreferredVoiceActorChange: (voiceActorId: number | null) => void
+}
+
+type SelectionMode = 'levels' | 'stages'
+
+const STAGE_GROUP_LABELS: Record<StartedStageGroup, string> = {
+  apprentice: 'vocabStudy.filterApprentice',
+  guru: 'vocabStudy.filterGuru',
+  master: 'vocabStudy.filterMaster',
+  enlightened: 'vocabStudy.filterEnlightened',
+  burned: 'vocabStudy.filterBurned'
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${bytes} B`
+}
+
+export default function AudioLibraryPanel({
+  library,
+  subjects,
+  assignments,
+  srsSystems,
+  preferredVoiceActorId,
+  onPreferredVoiceActorChange
+}: AudioLibraryPanelProps) {
+  const { t } = useLanguage()
+  const [mode, setMode] = useState<SelectionMode>('levels')
+  const [selectedLevels, setSelectedLevels] = useState<Set<number>>(new Set())
+  const [selectedStages, setSelectedStages] = useState<Set<SrsStageGroup>>(new Set<SrsStageGroup>(['apprentice']))
+  const [allVoices, setAllVoices] = useState(false)
+
+  // Only vocabulary has recordings
+  const vocabulary = useMemo(
+    () => subjects.filter(subject => (subject.data.pronunciation_audios ?? []).length > 0),
+    [subjects]
+  )
+
+  const levels = useMemo(
+    () => Array.from(new Set(vocabulary.map(subject => subject.data.level))).sort((a, b) => a - b),
+    [vocabulary]
+  )
+
+  const voiceActors = useMemo(() => {
+    const actors = new Map<number, string>()
+    vocabulary.forEach(subject => {
+      (subject.data.pronunciation_audios ?? []).forEach(audio => {
+        if (!actors.has(audio.metadata.voice_actor_id)) {
+          actors.set(audio.metadata.voice_actor_id, audio.metadata.voice_actor_name)
+        }
+      })
+    })
+    return Array.from(actors.entries()).sort((a, b) => a[1].localeCompare(b[1]))
+  }, [vocabulary])
+
+  // SRS stage group per subject, from the subject's own SRS
+  const groupBySubject = useMemo(() => {
+    const subjectById = new Map(subjects.map(subject => [subject.id, subject]))
+    const srsModels = createSrsModels(srsSystems)
+    return new Map(assignments.map(assignment => [
+      assignment.data.subject_id,
+      getStageGroup(getSrsModel(srsModels, subjectById.get(assignment.data.subject_id)), assignment.data.srs_stage)
+    ]))
+  }, [assignments, subjects, srsSystems])
+
+  const selectedUrls = useMemo(() => {
+    const urls: string[] = []
+    vocabulary.forEach(subject => {
+      const included = mode === 'levels'
+        ? selectedLevels.has(subject.data.level)
+        : selectedStages.has(groupBySubject.get(subject.id) ?? 'lesson')
+      if (!included) return
+
+      const mp3s = (subject.data.pronunciation_audios ?? []).filter(audio => audio.content_type === 'audio/mpeg')
+      if (allVoices) {
+        mp3s.forEach(audio => urls.push(audio.url))
+      } else {
+        const preferred = pickPreferredAudio(mp3s, preferredVoiceActorId)
+        if (preferred) urls.push(preferred.url)
+      }
+    })
+    return urls
+  }, [vocabulary, mode, selectedLevels, selectedStages, groupBySubject, allVoices, preferredVoiceActorId])
+
+  const alreadyStored = selectedUrls.filter(url => library.storedUrls.has(url)).length
+  const { progress } = library
+
+  const toggleLevel = (level: number) => {
+    setSelectedLevels(previous => {
+      const next = new Set(previous)
+      if (next.has(level)) next.delete(level)
+      else next.add(level)
+      return next
+    })
+  }
+
+  const toggleStage = (key: SrsStageGroup) => {
+    setSelectedStages(previous => {
+      const next = new Set(previous)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const handleClear = () => {
+    if (window.confirm(t('audioLibrary.clearConfirm'))) library.clear()
+  }
+
+  if (!library.supported) {
+    return (
+      <div>
+        <h2 className="text-xl font-bold text-wanikani-text dark:text-wanikani-text-dark mb-1">{t('audioLibrary.title')}</h2>
+        <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('audioLibrary.unsupported')}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold text-wanikani-text dark:text-wanikani-text-dark flex items-center gap-2">
+            <Headphones className="w-5 h-5 text-wanikani-vocabulary" />
+            {t('audioLibrary.title')}
+          </h2>
+          <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('audioLibrary.subtitle')}</p>
+        </div>
+        <div className="text-sm text-right">
+          <div className="text-wanikani-text dark:text-wanikani-text-dark font-bold">
+            {library.stats
+              ? t('audioLibrary.librarySize')
+                  .replace('{count}', String(library.stats.count))
+                  .replace('{size}', formatBytes(library.stats.bytes))
+              : '—'}
+          </div>
+          <button
+            onClick={handleClear}
+            disabled={!library.stats || library.stats.count === 0}
+            className="inline-flex items-center gap-1 text-xs text-red-500 hover:underline disabled:opacity-50 disabled:no-underline"
+          >
+            <Trash2 className="w-3 h-3" />
+            {t('audioLibrary.clear')}
+          </button>
+        </div>
+      </div>
+
+      <label className="block text-sm text-wanikani-text dark:text-wanikani-text-dark">
+        <span className="block text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-1">{t('audioLibrary.voiceActor')}</span>
+        <select
+          value={preferredVoiceActorId ?? ''}
+          onChange={event => onPreferredVoiceActorChange(event.target.value ? Number(event.target.value) : null)}
+          className="w-full sm:w-64 px-2 py-1.5 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark bg-white dark:bg-gray-800 text-sm"
+        >
+          <option value="">{t('audioLibrary.voiceActorDefault')}</option>
+          {voiceActors.map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex gap-2 text-sm">
+        {(['levels', 'stages'] as SelectionMode[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`px-3 py-1.5 rounded-lg transition-colors ${
+              mode === option
+                ? 'bg-wanikani-pink text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {option === 'levels' ? t('audioLibrary.byLevel') : t('audioLibrary.byStage')}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'levels' ? (
+        <div className="flex flex-wrap gap-1">
+          {levels.map(level => (
+            <button
+              key={level}
+              onClick={() => toggleLevel(level)}
+              className={`w-9 py-1 rounded text-xs font-medium transition-colors ${
+                selectedLevels.has(level)
+                  ? 'bg-wanikani-vocabulary text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark hover:bg-gray-200 dark:hover:bg-gray-600'
+              }`}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-3 text-sm">
+          {SRS_STAGE_GROUPS.map(group => (
+            <label key={group} className="flex items-center gap-1.5 text-wanikani-text dark:text-wanikani-text-dark">
+              <input type="checkbox" checked={selectedStages.has(group)} onChange={() => toggleStage(group)} />
+              {t(STAGE_GROUP_LABELS[group])}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-wanikani-text dark:text-wanikani-text-dark">
+        <input type="checkbox" checked={allVoices} onChange={event => setAllVoices(event.target.checked)} />
+        {t('audioLibrary.allVoices')}
+      </label>
+
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        {library.downloading ? (
+          <button
+            onClick={library.cancel}
+            className="flex items-center justify-center gap-2 px-4 py-2 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark rounded-lg transition-colors text-sm"
+          >
+            <X className="w-4 h-4" />
+            {t('audioLibrary.cancel')}
+          </button>
+        ) : (
+          <button
+            onClick={() => library.download(selectedUrls)}
+            disabled={selectedUrls.length === alreadyStored}
+            className="flex items-center justify-center gap-2 px-4 py-2 bg-wanikani-pink hover:bg-pink-600 text-white rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {t('audioLibrary.download').replace('{count}', String(selectedUrls.length - alreadyStored))}
+          </button>
+        )}
+        <span className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+          {t('audioLibrary.selection')
+            .replace('{count}', String(selectedUrls.length))
+            .replace('{stored}', String(alreadyStored))}
+        </span>
+      </div>
+
+      {progress && progress.total > 0 && (
+        <div>
+          <div className="flex justify-between text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-1">
+            <span>
+              {t('audioLibrary.progress')
+                .replace('{done}', String(progress.done))
+                .replace('{total}', String(progress.total))
+                .replace('{size}', formatBytes(progress.bytes))}
+            </span>
+            {progress.failed > 0 && (
+              <span className="text-red-500">{t('audioLibrary.failed').replace('{count}', String(progress.failed))}</span>
+            )}
+          </div>
+          <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+            <div
+              className="h-full bg-wanikani-vocabulary transition-all"
+              style={{ width: `${(progress.done / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
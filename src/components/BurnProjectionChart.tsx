@@ -12,9 +12,10 @@ import {
   Legend,
 } from 'chart.js'
 import 'chartjs-adapter-date-fns'
-import type { Assignment, LevelProgression, UserData, Subject } from '@/types/wanikani'
+import type { Assignment, LevelProgression, Reset, UserData, Subject } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
 import { useTheme } from '@/contexts/ThemeContext'
+import { getCurrentProgressions, getLevelDurations, getResetMarkers } from '@/utils/levelRuns'
 
 ChartJS.register(
   TimeScale,
@@ -30,6 +31,7 @@ interface BurnProjectionChartProps {
   levelProgressions: LevelProgression[]
   userData: UserData
   subjects: Subject[]
+  resets: Reset[]
 }
 
 const DAY_MS = 1000 * 60 * 60 * 24
@@ -37,7 +39,7 @@ const MIN_BURN_DAYS_FROM_UNLOCK = 180 // ~6 months
 const TOTAL_WK_ITEMS_APPROX = 9000
 const LEVEL_COUNT = 60
 
-export default function BurnProjectionChart({ assignments, levelProgressions, userData, subjects }: BurnProjectionChartProps) {
+export default function BurnProjectionChart({ assignments, levelProgressions, userData, subjects, resets }: BurnProjectionChartProps) {
   const { t } = useLanguage()
   const { isDark } = useTheme()
   const {
@@ -48,6 +50,7 @@ export default function BurnProjectionChart({ assignments, levelProgressions, us
     burnedCount,
     totalBurnable,
     averageDaysPerLevel,
+    resetPoints,
   } = useMemo(() => {
     const activeAssignments = assignments.filter(a => !a.data.hidden)
     const assignmentBySubject = new Map(activeAssignments.map(a => [a.data.subject_id, a]))
@@ -87,18 +90,12 @@ export default function BurnProjectionChart({ assignments, levelProgressions, us
       return { x: new Date(date), y: cumulative }
     })
 
-    // Calculate average level duration (use recent 5)
-    const completedLevels = levelProgressions
+    // Calculate average level duration (use recent 5, from the run after the latest reset)
+    const completedLevels = getCurrentProgressions(levelProgressions)
       .filter(lp => lp.data.passed_at)
-      .sort((a, b) => a.data.level - b.data.level)
 
-    const levelDurations = completedLevels.map((lp, idx) => {
-      const start = lp.data.unlocked_at || lp.data.started_at || lp.data.passed_at
-      const end = lp.data.passed_at!
-      const previousPassed = completedLevels[idx - 1]?.data.passed_at
-      const startDate = start || previousPassed || userData.started_at
-      return (new Date(end).getTime() - new Date(startDate).getTime()) / DAY_MS
-    }).filter(d => d > 0)
+    const levelDurations = getLevelDurations(levelProgressions, resets, userData.started_at)
+      .map(duration => duration.durationMs / DAY_MS)
 
     const recentDurations = levelDurations.slice(-5)
     const averageDaysPerLevel = recentDurations.length
@@ -169,6 +166,12 @@ export default function BurnProjectionChart({ assignments, levelProgressions, us
 
     const etaDate = projectionPoints.length ? projectionPoints[projectionPoints.length - 1].x : null
 
+    // Resets are drawn as vertical lines across the chart; null points break the line between them
+    const resetPoints = getResetMarkers(resets).reduce<{ x: Date; y: number | null }[]>((points, marker) => {
+      points.push({ x: marker.date, y: 0 }, { x: marker.date, y: burnableCount }, { x: marker.date, y: null })
+      return points
+    }, [])
+
     const remaining = Math.max(burnableCount - burnedAssignments.length, 0)
     const impliedBurnRatePerDay = etaDate
       ? remaining / Math.max(1, (etaDate.getTime() - today.getTime()) / DAY_MS)
@@ -182,8 +185,9 @@ export default function BurnProjectionChart({ assignments, levelProgressions, us
       burnedCount: burnedAssignments.length,
       totalBurnable: burnableCount,
       averageDaysPerLevel,
+      resetPoints,
     }
-  }, [assignments, levelProgressions, userData, subjects])
+  }, [assignments, levelProgressions, resets, userData, subjects])
 
   const data = {
     datasets: [
@@ -206,6 +210,16 @@ export default function BurnProjectionChart({ assignments, levelProgressions, us
         pointRadius: 3,
         tension: 0.25,
       },
+      ...(resetPoints.length > 0 ? [{
+        label: t('projection.reset'),
+        data: resetPoints,
+        borderColor: '#ef4444',
+        backgroundColor: '#ef4444',
+        borderWidth: 2,
+        borderDash: [2, 4],
+        pointRadius: 0,
+        spanGaps: false,
+      }] : []),
     ],
   }
 
@@ -220,6 +234,7 @@ export default function BurnProjectionChart({ assignments, levelProgressions, us
         callbacks: {
           label: (context: any) => {
             const date = new Date(context.parsed.x).toLocaleDateString()
+            if (context.dataset.label === t('projection.reset')) return `${t('projection.reset')}: ${date}`
             return `${context.parsed.y} burned by ${date}`
           }
         }
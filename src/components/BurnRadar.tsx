@@ -13,6 +13,7 @@ import {
 import type { Assignment, Subject, SpacedRepetitionSystem } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
 import { useTheme } from '@/contexts/ThemeContext'
+import { createSrsModels, getSrsModel, getTimeToStage } from '@/utils/srsModel'
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend)
 
@@ -29,32 +30,6 @@ type BurnCandidate = {
   link?: string
 }
 
-function intervalToMs(interval: number | null, unit: SpacedRepetitionSystem['data']['stages'][number]['interval_unit']) {
-  if (!interval || !unit) return 0
-  switch (unit) {
-    case 'milliseconds': return interval
-    case 'seconds': return interval * 1000
-    case 'minutes': return interval * 60 * 1000
-    case 'hours': return interval * 60 * 60 * 1000
-    case 'days': return interval * 24 * 60 * 60 * 1000
-    case 'weeks': return interval * 7 * 24 * 60 * 60 * 1000
-    default: return 0
-  }
-}
-
-function timeToBurn(assignment: Assignment, targetStage: number, stages: SpacedRepetitionSystem['data']['stages']) {
-  const now = Date.now()
-  const currentStage = assignment.data.srs_stage || 0
-  if (currentStage >= targetStage) return 0
-  const availableAt = assignment.data.available_at ? new Date(assignment.data.available_at).getTime() : now
-  let remaining = Math.max(0, availableAt - now)
-  for (let pos = currentStage + 1; pos < targetStage; pos++) {
-    const stageInfo = stages.find(s => s.position === pos)
-    remaining += intervalToMs(stageInfo?.interval ?? null, stageInfo?.interval_unit ?? null)
-  }
-  return remaining
-}
-
 function weekKey(date: Date): string {
   const d = new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()))
   const day = d.getUTCDay() || 7
@@ -72,7 +47,7 @@ export default function BurnRadar({ assignments, subjects, srsSystems }: BurnRad
     weeklyCounts
   } = useMemo(() => {
     const subjectById = new Map(subjects.map(s => [s.id, s]))
-    const srsById = new Map(srsSystems.map(s => [s.id, s]))
+    const srsModels = createSrsModels(srsSystems)
 
     const upcoming: BurnCandidate[] = []
     const burnedByWeek = new Map<string, number>()
@@ -80,8 +55,7 @@ export default function BurnRadar({ assignments, subjects, srsSystems }: BurnRad
     assignments.forEach(a => {
       if (a.data.hidden) return
       const subject = subjectById.get(a.data.subject_id)
-      const srs = subject?.data.spaced_repetition_system_id ? srsById.get(subject.data.spaced_repetition_system_id) : undefined
-      const burningStage = srs?.data.burning_stage_position ?? 9
+      const srs = getSrsModel(srsModels, subject)
 
       if (a.data.burned_at) {
         const wk = weekKey(new Date(a.data.burned_at))
@@ -93,7 +67,7 @@ export default function BurnRadar({ assignments, subjects, srsSystems }: BurnRad
       // This prevents showing "Item 3243" placeholders
       if (!subject) return
 
-      const etaMs = timeToBurn(a, burningStage, srs?.data.stages || [])
+      const etaMs = getTimeToStage(srs, a.data.srs_stage || 0, a.data.available_at, srs.burningStage)
       if (etaMs === 0) return
       
       // Use characters if available, otherwise slug (required for radicals with images)
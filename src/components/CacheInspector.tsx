@@ -0,0 +1,245 @@
+'use client'
+
+import { Database, Loader2, RefreshCw, Trash2 } from 'lucide-react'
+import type { CacheConfig } from '@/types/wanikani'
+import { WaniKaniService } from '@/services/wanikani'
+import { WaniKaniError, errorMessageKey } from '@/services/errors'
+import { useLanguage } from '@/contexts/LanguageContext'
+import type { UseCacheInspectorResult } from '@/hooks/useCacheInspector'
+
+interface CacheInspectorProps {
+  cache: UseCacheInspectorResult
+}
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+const TTL_PRESETS = [5 * MINUTE_MS, 15 * MINUTE_MS, 30 * MINUTE_MS, HOUR_MS, 4 * HOUR_MS, 12 * HOUR_MS, DAY_MS, 2 * DAY_MS, 7 * DAY_MS]
+
+const DATA_TYPES: Array<keyof CacheConfig> = [
+  'subjects',
+  'assignments',
+  'reviewStats',
+  'reviews',
+  'levelProgressions',
+  'studyMaterials',
+  'resets',
+  'spacedRepetitionSystems',
+  'user',
+  'summary'
+]
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${bytes} B`
+}
+
+function formatDuration(ms: number): string {
+  if (ms >= DAY_MS) return `${Math.round(ms / DAY_MS * 10) / 10}d`
+  if (ms >= HOUR_MS) return `${Math.round(ms / HOUR_MS * 10) / 10}h`
+  if (ms >= MINUTE_MS) return `${Math.round(ms / MINUTE_MS)}m`
+  return `${Math.max(0, Math.round(ms / 1000))}s`
+}
+
+export default function CacheInspector({ cache }: CacheInspectorProps) {
+  const { t } = useLanguage()
+  const { entries, stats, estimate, cacheConfig, loading, error, busy } = cache
+  const now = Date.now()
+  const accountSize = entries.reduce((sum, entry) => sum + entry.size, 0)
+
+  const handleClearAll = () => {
+    if (window.confirm(t('cache.clearAllConfirm'))) cache.clearAll()
+  }
+
+  const typeLabel = (dataType: keyof CacheConfig | null) => (dataType ? t(`cache.type.${dataType}`) : t('cache.type.other'))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold text-wanikani-text dark:text-wanikani-text-dark flex items-center gap-2">
+            <Database className="w-5 h-5 text-wanikani-cyan" />
+            {t('cache.title')}
+          </h2>
+          <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('cache.subtitle')}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => cache.reload()}
+            disabled={loading}
+            className="flex items-center gap-2 px-3 py-2 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            {t('cache.reload')}
+          </button>
+          <button
+            onClick={handleClearAll}
+            disabled={busy !== null || entries.length === 0}
+            className="flex items-center gap-2 px-3 py-2 border border-red-300 dark:border-red-800 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            {t('cache.clearAll')}
+          </button>
+        </div>
+      </div>
+
+      {error !== null && (
+        <p className="text-sm text-red-500">
+          {t(errorMessageKey(error))
+            .replace('{seconds}', '60')
+            .replace('{status}', error instanceof WaniKaniError && error.status ? String(error.status) : '')}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+          <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('cache.thisAccount')}</div>
+          <div className="text-wanikani-text dark:text-wanikani-text-dark font-bold">
+            {t('cache.entriesSize').replace('{count}', String(entries.length)).replace('{size}', formatBytes(accountSize))}
+          </div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+          <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('cache.allAccounts')}</div>
+          <div className="text-wanikani-text dark:text-wanikani-text-dark font-bold">
+            {stats
+              ? t('cache.entriesSize').replace('{count}', String(stats.entries)).replace('{size}', formatBytes(stats.totalSize))
+              : '—'}
+          </div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+          <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('cache.browserStorage')}</div>
+          {estimate && estimate.quota > 0 ? (
+            <>
+              <div className="text-wanikani-text dark:text-wanikani-text-dark font-bold">
+                {t('cache.quotaUsage')
+                  .replace('{usage}', formatBytes(estimate.usage))
+                  .replace('{quota}', formatBytes(estimate.quota))}
+              </div>
+              <div className="mt-2 h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div
+                  className="h-full bg-wanikani-cyan"
+                  style={{ width: `${Math.min(100, (estimate.usage / estimate.quota) * 100)}%` }}
+                />
+              </div>
+            </>
+          ) : (
+            <div className="text-wanikani-text dark:text-wanikani-text-dark font-bold">{t('cache.quotaUnavailable')}</div>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-1">{t('cache.ttlTitle')}</h3>
+        <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-3">{t('cache.ttlHint')}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+          {DATA_TYPES.map(dataType => {
+            const value = cacheConfig[dataType]
+            const defaultValue = WaniKaniService.defaultCacheConfig[dataType]
+            const options = TTL_PRESETS.indexOf(value) >= 0 ? TTL_PRESETS : TTL_PRESETS.concat(value).sort((a, b) => a - b)
+            return (
+              <label key={dataType} className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                <span className="block mb-1">{typeLabel(dataType)}</span>
+                <select
+                  value={value}
+                  onChange={event => {
+                    const ttl = Number(event.target.value)
+                    cache.setTtl(dataType, ttl === defaultValue ? null : ttl)
+                  }}
+                  className="w-full px-2 py-1.5 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark bg-white dark:bg-gray-800 text-sm text-wanikani-text dark:text-wanikani-text-dark"
+                >
+                  {options.map(option => (
+                    <option key={option} value={option}>
+                      {formatDuration(option)}{option === defaultValue ? ` (${t('cache.default')})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )
+          })}
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-3">{t('cache.entriesTitle')}</h3>
+        {loading && entries.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            {t('loading')}
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('cache.empty')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark border-b border-wanikani-border dark:border-wanikani-border-dark">
+                  <th className="py-2 pr-3 font-medium">{t('cache.endpoint')}</th>
+                  <th className="py-2 pr-3 font-medium text-right">{t('cache.size')}</th>
+                  <th className="py-2 pr-3 font-medium text-right">{t('cache.age')}</th>
+                  <th className="py-2 pr-3 font-medium text-right">{t('cache.ttl')}</th>
+                  <th className="py-2 pr-3 font-medium">{t('cache.etag')}</th>
+                  <th className="py-2 pr-3 font-medium">{t('cache.lastAccessed')}</th>
+                  <th className="py-2 font-medium" />
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => {
+                  const age = now - entry.timestamp
+                  const expired = entry.ttl !== null && age > entry.ttl
+                  return (
+                    <tr key={entry.key} className="border-b border-wanikani-border dark:border-wanikani-border-dark last:border-0">
+                      <td className="py-2 pr-3">
+                        <div className="font-mono text-xs text-wanikani-text dark:text-wanikani-text-dark break-all">{entry.endpoint}</div>
+                        <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                          {typeLabel(entry.dataType)}
+                          {entry.collection && ` · ${t('cache.syncedCollection')}`}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-3 text-right tabular-nums text-wanikani-text dark:text-wanikani-text-dark">{formatBytes(entry.size)}</td>
+                      <td className="py-2 pr-3 text-right tabular-nums text-wanikani-text dark:text-wanikani-text-dark">{formatDuration(age)}</td>
+                      <td className={`py-2 pr-3 text-right tabular-nums ${expired ? 'text-orange-500' : 'text-wanikani-text dark:text-wanikani-text-dark'}`}>
+                        {entry.ttl !== null ? formatDuration(entry.ttl) : '—'}
+                        {expired && <div className="text-xs">{t('cache.stale')}</div>}
+                      </td>
+                      <td className="py-2 pr-3 font-mono text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark max-w-[8rem] truncate" title={entry.etag ?? undefined}>
+                        {entry.etag ?? '—'}
+                      </td>
+                      <td className="py-2 pr-3 text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark whitespace-nowrap">
+                        {entry.lastAccessed ? new Date(entry.lastAccessed).toLocaleString() : '—'}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex justify-end gap-1">
+                          {entry.collection && entry.dataType && (
+                            <button
+                              onClick={() => cache.refresh(entry.dataType!)}
+                              disabled={busy !== null}
+                              className="p-1.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 text-wanikani-text-light dark:text-wanikani-text-light-dark disabled:opacity-50"
+                              title={t('cache.refresh')}
+                            >
+                              <RefreshCw className={`w-4 h-4 ${busy === entry.dataType ? 'animate-spin' : ''}`} />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => cache.purge(entry.key)}
+                            disabled={busy !== null}
+                            className="p-1.5 rounded hover:bg-red-50 dark:hover:bg-red-900/20 text-red-500 disabled:opacity-50"
+                            title={entry.collection ? t('cache.purgeCollection') : t('cache.purge')}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
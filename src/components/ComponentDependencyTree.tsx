@@ -3,10 +3,13 @@
 import { useState, useMemo, useCallback, useEffect, useRef } from 'react'
 import dynamic from 'next/dynamic'
 import { ChevronRight, ChevronDown, Search, ExternalLink } from 'lucide-react'
-import type { Subject, Assignment } from '@/types/wanikani'
+import type { Subject, Assignment, SpacedRepetitionSystem } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
 import { useWanaKanaBind, toHiragana, isRomaji } from '@/hooks/useWanaKana'
 import type { RawNodeDatum, CustomNodeElementProps, TreeProps } from 'react-d3-tree'
+import type { UseStudyMaterialsResult } from '@/hooks/useStudyMaterials'
+import StudyMaterialPanel from './StudyMaterialPanel'
+import { createSrsModels, getSrsModel, getStageGroup, type SrsStageGroup } from '@/utils/srsModel'
 
 // Dynamically import react-d3-tree to avoid SSR issues
 const Tree = dynamic<TreeProps>(
@@ -20,6 +23,11 @@ const Tree = dynamic<TreeProps>(
 interface ComponentDependencyTreeProps {
   subjects: Subject[]
   assignments: Assignment[]
+  // Stage groups come from each subject's SRS system
+  srsSystems: SpacedRepetitionSystem[]
+  studyMaterials: UseStudyMaterialsResult
+  canEditStudyMaterials: boolean
+  onEnableWrites: () => void
 }
 
 type Direction = 'components' | 'usedIn'
@@ -29,7 +37,7 @@ interface TreeNodeData extends RawNodeDatum {
   attributes?: {
     subjectId: number
     type: string
-    srsStage: number
+    stageGroup: SrsStageGroup
     documentUrl?: string
     hasMoreChildren?: boolean
     depth: number
@@ -41,7 +49,7 @@ interface FlatNode {
   id: number
   label: string
   type: string
-  srsStage: number
+  stageGroup: SrsStageGroup
   documentUrl?: string
   depth: number
   hasChildren: boolean
@@ -49,22 +57,26 @@ interface FlatNode {
 }
 
 // SRS stage colors matching WaniKani
-const getSrsColor = (stage: number): string => {
-  if (stage === 0) return '#a0a0a0'      // Locked - gray
-  if (stage <= 4) return '#dd0093'       // Apprentice - pink
-  if (stage <= 6) return '#882d9e'       // Guru - purple
-  if (stage === 7) return '#294ddb'      // Master - blue
-  if (stage === 8) return '#0093dd'      // Enlightened - cyan
-  return '#fbc042'                        // Burned - gold
+const getSrsColor = (group: SrsStageGroup): string => {
+  switch (group) {
+    case 'lesson': return '#a0a0a0'      // Locked - gray
+    case 'apprentice': return '#dd0093'  // Apprentice - pink
+    case 'guru': return '#882d9e'        // Guru - purple
+    case 'master': return '#294ddb'      // Master - blue
+    case 'enlightened': return '#0093dd' // Enlightened - cyan
+    case 'burned': return '#fbc042'      // Burned - gold
+  }
 }
 
-const getSrsLabel = (stage: number, t: (key: string) => string): string => {
-  if (stage === 0) return t('dependencyTree.locked')
-  if (stage <= 4) return t('dependencyTree.apprentice')
-  if (stage <= 6) return t('dependencyTree.guru')
-  if (stage === 7) return t('dependencyTree.master')
-  if (stage === 8) return t('dependencyTree.enlightened')
-  return t('dependencyTree.burned')
+const getSrsLabel = (group: SrsStageGroup, t: (key: string) => string): string => {
+  switch (group) {
+    case 'lesson': return t('dependencyTree.locked')
+    case 'apprentice': return t('dependencyTree.apprentice')
+    case 'guru': return t('dependencyTree.guru')
+    case 'master': return t('dependencyTree.master')
+    case 'enlightened': return t('dependencyTree.enlightened')
+    case 'burned': return t('dependencyTree.burned')
+  }
 }
 
 const getSubjectBgColor = (type: string): string => {
@@ -77,7 +89,14 @@ const getSubjectBgColor = (type: string): string => {
   }
 }
 
-export default function ComponentDependencyTree({ subjects, assignments }: ComponentDependencyTreeProps) {
+export default function ComponentDependencyTree({
+  subjects,
+  assignments,
+  srsSystems,
+  studyMaterials,
+  canEditStudyMaterials,
+  onEnableWrites
+}: ComponentDependencyTreeProps) {
   const { t } = useLanguage()
   const [searchQuery, setSearchQuery] = useState('')
   const [selectedSubject, setSelectedSubject] = useState<Subject | null>(null)
@@ -86,10 +105,9 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
   const [isMobile, setIsMobile] = useState(false)
   const [showSearchResults, setShowSearchResults] = useState(false)
   const containerRef = useRef<HTMLDivElement>(null)
-  const searchInputRef = useRef<HTMLInputElement>(null)
 
   // Bind WanaKana for romaji to kana conversion (disabled by default for English/kanji input)
-  const { enabled: kanaMode, toggle: toggleKanaMode } = useWanaKanaBind(searchInputRef, { enabled: false })
+  const { ref: searchInputRef, enabled: kanaMode, toggle: toggleKanaMode } = useWanaKanaBind({ enabled: false })
 
   // Check for mobile breakpoint (768px) - use stable callback ref
   useEffect(() => {
@@ -110,11 +128,14 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
     return map
   }, [assignments])
 
-  // Get SRS stage for a subject
-  const getSrsStage = useCallback((subjectId: number): number => {
+  const srsModels = useMemo(() => createSrsModels(srsSystems), [srsSystems])
+
+  // Get SRS stage group for a subject (lesson when not started)
+  const getSrsStageGroup = useCallback((subjectId: number): SrsStageGroup => {
     const assignment = assignmentBySubjectId.get(subjectId)
-    return assignment?.data.srs_stage ?? 0
-  }, [assignmentBySubjectId])
+    const model = getSrsModel(srsModels, subjectById.get(subjectId))
+    return getStageGroup(model, assignment?.data.srs_stage ?? model.unlockingStage)
+  }, [assignmentBySubjectId, srsModels, subjectById])
 
   // Search subjects with WanaKana support for romaji input
   const searchResults = useMemo(() => {
@@ -152,7 +173,7 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
 
     visited.add(subjectId)
     const label = subject.data.characters || subject.data.slug || '?'
-    const srsStage = getSrsStage(subjectId)
+    const stageGroup = getSrsStageGroup(subjectId)
 
     const relatedIds = dir === 'components' 
       ? subject.data.component_subject_ids || []
@@ -171,14 +192,14 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
       attributes: {
         subjectId,
         type: subject.object,
-        srsStage,
+        stageGroup,
         documentUrl: subject.data.document_url,
         hasMoreChildren: depth >= maxDepth && relatedIds.length > 0,
         depth
       },
       children: children.length > 0 ? children : undefined
     }
-  }, [subjectById, getSrsStage])
+  }, [subjectById, getSrsStageGroup])
 
   // Tree data for selected subject
   const treeData = useMemo((): TreeNodeData | null => {
@@ -201,7 +222,7 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
 
     visited.add(subjectId)
     const label = subject.data.characters || subject.data.slug || '?'
-    const srsStage = getSrsStage(subjectId)
+    const stageGroup = getSrsStageGroup(subjectId)
 
     const relatedIds = dir === 'components'
       ? subject.data.component_subject_ids || []
@@ -212,7 +233,7 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
       id: subjectId,
       label,
       type: subject.object,
-      srsStage,
+      stageGroup,
       documentUrl: subject.data.document_url,
       depth,
       hasChildren: relatedIds.length > 0,
@@ -226,7 +247,7 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
     }
 
     return nodes
-  }, [subjectById, getSrsStage, expandedNodes])
+  }, [subjectById, getSrsStageGroup, expandedNodes])
 
   const flatNodes = useMemo((): FlatNode[] => {
     if (!selectedSubject) return []
@@ -259,7 +280,7 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
     if (!attrs) return <g />
 
     const bgColor = getSubjectBgColor(attrs.type)
-    const ringColor = getSrsColor(attrs.srsStage)
+    const ringColor = getSrsColor(attrs.stageGroup)
     const size = 40
 
     return (
@@ -313,7 +334,7 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
   // Mobile list item component
   const MobileListRow = useCallback(({ node }: { node: FlatNode }) => {
     const bgColor = getSubjectBgColor(node.type)
-    const ringColor = getSrsColor(node.srsStage)
+    const ringColor = getSrsColor(node.stageGroup)
 
     return (
       <div 
@@ -364,7 +385,7 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
             color: ringColor
           }}
         >
-          {getSrsLabel(node.srsStage, t)}
+          {getSrsLabel(node.stageGroup, t)}
         </span>
 
         {/* Link to WaniKani */}
@@ -458,9 +479,9 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
         {showSearchResults && searchResults.length > 0 && (
           <div className="absolute z-10 w-full mt-1 bg-white dark:bg-wanikani-card-dark border border-wanikani-border dark:border-wanikani-border-dark rounded-lg shadow-lg max-h-64 overflow-auto">
             {searchResults.map(subject => {
-              const srsStage = getSrsStage(subject.id)
+              const stageGroup = getSrsStageGroup(subject.id)
               const bgColor = getSubjectBgColor(subject.object)
-              const ringColor = getSrsColor(srsStage)
+              const ringColor = getSrsColor(stageGroup)
               
               return (
                 <button
@@ -591,6 +612,20 @@ export default function ComponentDependencyTree({ subjects, assignments }: Compo
           </div>
         </div>
       )}
+
+      {/* Notes and synonyms of the selected subject */}
+      {selectedSubject && (
+        <div className="mt-4 border border-wanikani-border dark:border-wanikani-border-dark rounded-lg p-4">
+          <StudyMaterialPanel
+            key={selectedSubject.id}
+            material={studyMaterials.bySubject?.get(selectedSubject.id)}
+            loading={studyMaterials.bySubject === null && !studyMaterials.error}
+            canEdit={canEditStudyMaterials}
+            onEnableEditing={onEnableWrites}
+            onSave={fields => studyMaterials.save(selectedSubject.id, fields)}
+          />
+        </div>
+      )}
     </div>
   )
 }
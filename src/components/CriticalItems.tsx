@@ -3,6 +3,7 @@
 import { useMemo } from 'react'
 import type { Assignment, Subject, SpacedRepetitionSystem } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
+import { createSrsModels, getSrsModel, getStageGroup, getStageName, type SrsStageGroup } from '@/utils/srsModel'
 
 interface CriticalItemsProps {
   assignments: Assignment[]
@@ -16,38 +17,24 @@ type CriticalItem = {
   subjectType: 'radical' | 'kanji' | 'vocabulary' | 'kana_vocabulary'
   currentStage: number
   stageName: string
+  stageGroup: SrsStageGroup
   wasAtStage: number
   wasAtStageName: string
+  wasAtGroup: SrsStageGroup
   droppedStages: number
   availableAt: Date | null
   link?: string
 }
 
-// SRS stage names
-const SRS_STAGES = [
-  'Locked',
-  'Apprentice 1',
-  'Apprentice 2', 
-  'Apprentice 3',
-  'Apprentice 4',
-  'Guru 1',
-  'Guru 2',
-  'Master',
-  'Enlightened',
-  'Burned'
-]
-
-function getStageName(stage: number): string {
-  return SRS_STAGES[stage] || `Stage ${stage}`
-}
-
-function getStageColor(stage: number): string {
-  if (stage === 0) return 'text-gray-400'
-  if (stage <= 4) return 'text-wanikani-apprentice'
-  if (stage <= 6) return 'text-wanikani-guru'
-  if (stage === 7) return 'text-wanikani-master'
-  if (stage === 8) return 'text-wanikani-enlightened'
-  return 'text-wanikani-burned'
+function getStageColor(group: SrsStageGroup): string {
+  switch (group) {
+    case 'apprentice': return 'text-wanikani-apprentice'
+    case 'guru': return 'text-wanikani-guru'
+    case 'master': return 'text-wanikani-master'
+    case 'enlightened': return 'text-wanikani-enlightened'
+    case 'burned': return 'text-wanikani-burned'
+    default: return 'text-gray-400'
+  }
 }
 
 function getSubjectTypeColor(type: string): string {
@@ -71,6 +58,7 @@ export default function CriticalItems({ assignments, subjects, srsSystems }: Cri
 
   const criticalItems = useMemo(() => {
     const subjectById = new Map(subjects.map(s => [s.id, s]))
+    const srsModels = createSrsModels(srsSystems)
     const items: CriticalItem[] = []
 
     for (const assignment of assignments) {
@@ -85,13 +73,14 @@ export default function CriticalItems({ assignments, subjects, srsSystems }: Cri
       if (!label) continue
 
       const currentStage = assignment.data.srs_stage
+      const srs = getSrsModel(srsModels, subject)
 
       // Determine if item has "dropped" - was at a higher stage before
       // We can infer this from passed_at: if passed (was at Guru+) but now back in Apprentice
       const wasPassed = assignment.data.passed_at !== undefined && assignment.data.passed_at !== null
       
       // An item is "critical" if:
-      // 1. It was passed (reached Guru) but is now back in Apprentice stages (1-4)
+      // 1. It was passed (reached Guru) but is now back in Apprentice stages
       // 2. OR it's been resurrected (was burned, now back)
       
       let isCritical = false
@@ -99,14 +88,14 @@ export default function CriticalItems({ assignments, subjects, srsSystems }: Cri
       let droppedStages = 0
 
       if (assignment.data.resurrected_at) {
-        // Resurrected items - they were at stage 9 (burned)
+        // Resurrected items - they were burned
         isCritical = true
-        wasAtStage = 9
-        droppedStages = 9 - currentStage
-      } else if (wasPassed && currentStage <= 4) {
-        // Was passed (Guru+, stage 5+) but now back in Apprentice
+        wasAtStage = srs.burningStage
+        droppedStages = srs.burningStage - currentStage
+      } else if (wasPassed && currentStage < srs.passingStage) {
+        // Was passed (Guru+) but now back in Apprentice
         isCritical = true
-        wasAtStage = 5 // At minimum was at Guru 1
+        wasAtStage = srs.passingStage // At minimum was at Guru 1
         droppedStages = wasAtStage - currentStage
       }
 
@@ -116,9 +105,11 @@ export default function CriticalItems({ assignments, subjects, srsSystems }: Cri
           label,
           subjectType: assignment.data.subject_type,
           currentStage,
-          stageName: getStageName(currentStage),
+          stageName: getStageName(srs, currentStage),
+          stageGroup: getStageGroup(srs, currentStage),
           wasAtStage,
-          wasAtStageName: getStageName(wasAtStage),
+          wasAtStageName: getStageName(srs, wasAtStage),
+          wasAtGroup: getStageGroup(srs, wasAtStage),
           droppedStages,
           availableAt: assignment.data.available_at ? new Date(assignment.data.available_at) : null,
           link: subject.data.document_url
@@ -133,11 +124,11 @@ export default function CriticalItems({ assignments, subjects, srsSystems }: Cri
         return a.currentStage - b.currentStage
       })
       .slice(0, 15)
-  }, [assignments, subjects])
+  }, [assignments, subjects, srsSystems])
 
   const stats = useMemo(() => {
-    const resurrected = criticalItems.filter(i => i.wasAtStage === 9).length
-    const droppedFromGuru = criticalItems.filter(i => i.wasAtStage >= 5 && i.wasAtStage < 9).length
+    const resurrected = criticalItems.filter(i => i.wasAtGroup === 'burned').length
+    const droppedFromGuru = criticalItems.filter(i => i.wasAtGroup !== 'burned').length
     const avgDrop = criticalItems.length > 0
       ? criticalItems.reduce((sum, i) => sum + i.droppedStages, 0) / criticalItems.length
       : 0
@@ -227,11 +218,11 @@ export default function CriticalItems({ assignments, subjects, srsSystems }: Cri
                 
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-1 text-sm">
-                    <span className={`font-medium ${getStageColor(item.wasAtStage)}`}>
+                    <span className={`font-medium ${getStageColor(item.wasAtGroup)}`}>
                       {item.wasAtStageName}
                     </span>
                     <span className="text-wanikani-text-light dark:text-wanikani-text-light-dark">→</span>
-                    <span className={`font-medium ${getStageColor(item.currentStage)}`}>
+                    <span className={`font-medium ${getStageColor(item.stageGroup)}`}>
                       {item.stageName}
                     </span>
                     <span className="text-red-500 text-xs ml-1">
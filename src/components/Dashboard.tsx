@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
-import { LogOut } from 'lucide-react'
+import { LogOut, RefreshCw, WifiOff } from 'lucide-react'
 import StatsOverview from './StatsOverview'
 import LevelProgress from './LevelProgress'
 import AccuracyChart from './AccuracyChart'
@@ -9,7 +9,10 @@ import SubscriptionInfo from './SubscriptionInfo'
 import LevelProjectionChart from './LevelProjectionChart'
 import BurnProjectionChart from './BurnProjectionChart'
 import { WaniKaniService } from '@/services/wanikani'
-import type { UserData, ReviewStatistic, Subject, Assignment, LevelProgression, SpacedRepetitionSystem, Summary } from '@/types/wanikani'
+import { WaniKaniError, WaniKaniRateLimitError, errorMessageKey } from '@/services/errors'
+import { isDemoToken } from '@/services/transport'
+import { createSyncWorker } from '@/workers/createSyncWorker'
+import type { UserData, ReviewStatistic, Subject, Assignment, LevelProgression, Reset, SpacedRepetitionSystem, Summary, SyncProgress, RateLimitBudget } from '@/types/wanikani'
 import StudyHeatmap from './StudyHeatmap'
 import { useTabState, TabButton } from './Tabs'
 import LevelPacingCoach from './LevelPacingCoach'
@@ -17,10 +20,12 @@ import BurnRadar from './BurnRadar'
 import LeechDetector from './LeechDetector'
 import SimilarKanjiWarnings from './SimilarKanjiWarnings'
 import LessonBatchingHelper from './LessonBatchingHelper'
+import WorkloadSimulator from './WorkloadSimulator'
 import SrsStageHistogram from './SrsStageHistogram'
 import StreakAnalysis from './StreakAnalysis'
 import CriticalItems from './CriticalItems'
 import LanguageToggle from './LanguageToggle'
+import RateLimitIndicator from './RateLimitIndicator'
 import ThemeToggle from './ThemeToggle'
 import ExportData from './ExportData'
 import ReviewForecast from './ReviewForecast'
@@ -30,25 +35,63 @@ import ReadingVsMeaningAnalysis from './ReadingVsMeaningAnalysis'
 import VacationRecoveryPlanner from './VacationRecoveryPlanner'
 import VocabularyStudy from './VocabularyStudy'
 import ReadingAloudPractice from './ReadingAloudPractice'
+import ReviewHistory from './ReviewHistory'
+import RetentionAnalysis from './RetentionAnalysis'
+import SessionAnalysis from './SessionAnalysis'
+import ProfileSwitcher from './ProfileSwitcher'
+import ProfileComparison from './ProfileComparison'
+import CacheInspector from './CacheInspector'
+import AudioLibraryPanel from './AudioLibraryPanel'
+import ReviewQuiz from './ReviewQuiz'
+import type { Profile } from '@/utils/profiles'
+import { useReviewHistory } from '@/hooks/useReviewHistory'
+import { useStudyMaterials } from '@/hooks/useStudyMaterials'
+import { useCacheInspector } from '@/hooks/useCacheInspector'
+import { useOnlineStatus } from '@/hooks/useOnlineStatus'
+import { useAudioLibrary } from '@/hooks/useAudioLibrary'
+import { DEFAULT_DAILY_REVIEW_TARGET, expectedReviewsPerLesson, getStageAccuracy } from '@/utils/workloadSimulation'
 import { useLanguage } from '@/contexts/LanguageContext'
 
+// Cache writes (see WaniKaniService.onCacheUpdate) that change what the dashboard shows
+const DASHBOARD_CACHE_SCOPES = ['/user', '/summary', 'assignments', 'reviewStats', 'levelProgressions', 'resets', 'subjects']
+
 interface DashboardProps {
   apiToken: string
+  userId?: string
+  profiles: Profile[]
+  activeProfileId: string
+  onSelectProfile: (id: string) => void
+  onAddProfile: () => void
+  onProfileUpdate: (id: string, changes: Partial<Omit<Profile, 'id'>>) => void
   onTokenChange: (token: string) => void
+  // Passphrase lock settings, rendered in the header
+  securityControls?: React.ReactNode
 }
 
-export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
+export default function Dashboard({
+  apiToken,
+  userId,
+  profiles,
+  activeProfileId,
+  onSelectProfile,
+  onAddProfile,
+  onProfileUpdate,
+  onTokenChange,
+  securityControls
+}: DashboardProps) {
   const [userData, setUserData] = useState<UserData | null>(null)
   const [reviewStats, setReviewStats] = useState<ReviewStatistic[]>([])
   const [subjects, setSubjects] = useState<Subject[]>([])
   const [assignments, setAssignments] = useState<Assignment[]>([])
   const [levelProgressions, setLevelProgressions] = useState<LevelProgression[]>([])
+  const [resets, setResets] = useState<Reset[]>([])
   const [srsSystems, setSrsSystems] = useState<SpacedRepetitionSystem[]>([])
   const [summary, setSummary] = useState<Summary | null>(null)
   const [loading, setLoading] = useState(true)
-  const [error, setError] = useState('')
+  const [error, setError] = useState<unknown>(null)
   const [refreshMessage, setRefreshMessage] = useState('')
-  const { activeTab, setActiveTab } = useTabState<'projection' | 'burn' | 'heatmap' | 'forecast' | 'dependencies' | 'burned' | 'vocabulary' | 'reading'>('projection')
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(null)
+  const { activeTab, setActiveTab } = useTabState<'projection' | 'burn' | 'heatmap' | 'forecast' | 'dependencies' | 'burned' | 'vocabulary' | 'reading' | 'history' | 'quiz' | 'workload' | 'retention' | 'sessions' | 'compare' | 'cache'>('projection')
   
   // Track mounted state for safe async cleanup
   const mountedRef = useRef(true)
@@ -58,7 +101,45 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
   }, [])
 
   // Memoize the WaniKani service to prevent unnecessary re-creation
-  const wanikaniService = useMemo(() => new WaniKaniService(apiToken), [apiToken])
+  const wanikaniService = useMemo(() => new WaniKaniService(apiToken, userId), [apiToken, userId])
+
+  // Share syncs with other open tabs on this account (one tab fetches for all)
+  useEffect(() => wanikaniService.connectTabs(), [wanikaniService])
+
+  // Page through collections in a Web Worker so large accounts do not freeze the UI
+  useEffect(() => wanikaniService.startBackgroundSync(createSyncWorker), [wanikaniService])
+  useEffect(() => wanikaniService.onSyncProgress(setSyncProgress), [wanikaniService])
+
+  // Live API budget for the header indicator
+  const [rateLimitBudget, setRateLimitBudget] = useState<RateLimitBudget>(() => wanikaniService.getRateLimitBudget())
+  useEffect(() => wanikaniService.onRateLimitChange(setRateLimitBudget), [wanikaniService])
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId)
+
+  // Starting lessons writes to the account, so it stays off until the profile opts in
+  const writesEnabled = !!activeProfile?.allowWrites
+  useEffect(() => wanikaniService.setWritesEnabled(writesEnabled), [wanikaniService, writesEnabled])
+
+  // Review history is large, so it is only synced once a view needs it
+  const reviewHistory = useReviewHistory(
+    wanikaniService,
+    activeTab === 'history' || activeTab === 'heatmap' || activeTab === 'workload' || activeTab === 'retention' || activeTab === 'sessions'
+  )
+  // Notes and synonyms, shown (and edited) in the vocabulary and dependency views; synonyms count in the quiz
+  const studyMaterials = useStudyMaterials(
+    wanikaniService,
+    activeTab === 'vocabulary' || activeTab === 'dependencies' || activeTab === 'quiz'
+  )
+  // Cache entries and storage usage, read while the cache tab is open
+  const cacheInspector = useCacheInspector(wanikaniService, activeTab === 'cache')
+  const audioLibrary = useAudioLibrary(activeTab === 'cache')
+
+  // Accuracy per SRS stage for the workload simulator and the lesson recommendation
+  const stageAccuracy = useMemo(
+    () => getStageAccuracy(reviewHistory.reviews ?? [], reviewStats),
+    [reviewHistory.reviews, reviewStats]
+  )
+  const reviewsPerLesson = useMemo(() => expectedReviewsPerLesson(stageAccuracy), [stageAccuracy])
 
   // Use ref to track if we have user data without causing stale closure
   const hasUserDataRef = useRef(false)
@@ -73,10 +154,18 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
     return () => clearTimeout(timer)
   }, [refreshMessage])
 
+  // Keeps the switcher's level/username current without making fetchData depend on it
+  const onProfileUpdateRef = useRef((changes: Partial<Omit<Profile, 'id'>>) => onProfileUpdate(activeProfileId, changes))
+  onProfileUpdateRef.current = changes => onProfileUpdate(activeProfileId, changes)
+
+  // Set while fetchData runs, so cache updates it causes do not trigger another fetch
+  const fetchingRef = useRef(false)
+
   const fetchData = useCallback(async (forceRefresh: boolean = false) => {
+    fetchingRef.current = true
     // Stale-while-revalidate: Try to show cached data immediately
     if (!forceRefresh) {
-      const staleUser = wanikaniService.getStaleCache<{ data: UserData }>('/user')
+      const staleUser = await wanikaniService.getStaleCache<{ data: UserData }>('/user')
       if (staleUser?.data) {
         // We have stale data - show it immediately while we refresh in background
         setUserData(staleUser.data)
@@ -87,18 +176,25 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
     if (forceRefresh || !hasUserDataRef.current) {
       setLoading(true)
     }
-    setError('')
+    setError(null)
     setRefreshMessage('')
     
     try {
       // Get user data first to check subscription
       const userResponse = await wanikaniService.getUser()
       setUserData(userResponse)
+      onProfileUpdateRef.current({ username: userResponse.username, level: userResponse.level })
 
-      const [reviewStatsResponse, assignmentsResponse, levelProgressionsResponse, srsResponse, summaryResponse] = await Promise.all([
-        wanikaniService.getReviewStatistics(),
-        wanikaniService.getAssignments(),
-        wanikaniService.getLevelProgressions(),
+      // Collections are synced incrementally: only records changed since the last sync are fetched
+      const [reviewStatsResponse, assignmentsResponse, levelProgressionsResponse, resetsResponse, srsResponse, summaryResponse] = await Promise.all([
+        wanikaniService.syncReviewStatistics(forceRefresh),
+        wanikaniService.syncAssignments(forceRefresh),
+        wanikaniService.syncLevelProgressions(forceRefresh),
+        // Only used to separate runs on the projections, so failures fall back to "no resets"
+        wanikaniService.syncResets(forceRefresh).catch(resetsError => {
+          console.warn('Failed to load resets:', resetsError)
+          return [] as Reset[]
+        }),
         wanikaniService.getSpacedRepetitionSystems(),
         wanikaniService.getSummary()
       ])
@@ -110,9 +206,10 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
           userResponse.subscription?.max_level_granted || userResponse.level
         )
         const levelsToLoad = Array.from({ length: maxAccessibleLevel }, (_, i) => i + 1)
-        subjectsResponse = await wanikaniService.getSubjectsWithSubscriptionFilter(
-          userResponse, 
-          levelsToLoad
+        subjectsResponse = await wanikaniService.syncSubjects(
+          userResponse,
+          levelsToLoad,
+          forceRefresh
         )
         console.log('Subjects loaded for levels 1-', maxAccessibleLevel, 'Count:', subjectsResponse.length)
       } catch (subjectError) {
@@ -123,6 +220,7 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
       setAssignments(assignmentsResponse)
       setReviewStats(reviewStatsResponse)
       setLevelProgressions(levelProgressionsResponse)
+      setResets(resetsResponse)
       setSrsSystems(srsResponse)
       setSummary(summaryResponse)
       setSubjects(subjectsResponse)
@@ -132,9 +230,11 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
       }
     } catch (err) {
       console.error('Error fetching data:', err)
-      setError(err instanceof Error ? err.message : 'Failed to fetch data')
+      setError(err)
     } finally {
+      fetchingRef.current = false
       setLoading(false)
+      setSyncProgress(null)
     }
   }, [wanikaniService])
 
@@ -144,12 +244,103 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
     }
   }, [apiToken, fetchData])
 
+  // Another tab refreshed the shared cache: re-read it so every open dashboard matches
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const unsubscribe = wanikaniService.onCacheUpdate(update => {
+      if (fetchingRef.current || !DASHBOARD_CACHE_SCOPES.includes(update.scope)) return
+      clearTimeout(timer)
+      timer = setTimeout(() => {
+        if (mountedRef.current && !fetchingRef.current) fetchData(false)
+      }, 500)
+    })
+    return () => {
+      clearTimeout(timer)
+      unsubscribe()
+    }
+  }, [wanikaniService, fetchData])
+
+  // Offline, the dashboard shows cached data; refreshes wait for the connection
+  const offline = !useOnlineStatus() && !isDemoToken(apiToken)
+  const [cachedAt, setCachedAt] = useState<number | null>(null)
+  const [refreshQueued, setRefreshQueued] = useState(false)
+
+  useEffect(() => {
+    if (!offline) return
+    let cancelled = false
+    wanikaniService.getCachedDataTimestamp().then(timestamp => {
+      if (!cancelled) setCachedAt(timestamp)
+    })
+    return () => { cancelled = true }
+  }, [offline, wanikaniService])
+
+  // Back online: run the queued refresh, or at least catch up on what changed
+  const wasOfflineRef = useRef(false)
+  useEffect(() => {
+    if (offline) {
+      wasOfflineRef.current = true
+      return
+    }
+    if (!wasOfflineRef.current) return
+    wasOfflineRef.current = false
+    fetchData(refreshQueued)
+    setRefreshQueued(false)
+  }, [offline, refreshQueued, fetchData])
+
+  const handleRefresh = () => {
+    if (offline) {
+      setRefreshQueued(true)
+    } else {
+      fetchData(true)
+    }
+  }
+
   const { t } = useLanguage()
 
   const handleLogout = () => {
     onTokenChange('')
   }
 
+  const setWritesEnabled = (enabled: boolean) => onProfileUpdate(activeProfileId, { allowWrites: enabled })
+  const setPreferredVoiceActor = (voiceActorId: number | null) =>
+    onProfileUpdate(activeProfileId, { preferredVoiceActorId: voiceActorId ?? undefined })
+  const enableWrites = () => setWritesEnabled(true)
+  const setDailyReviewTarget = (target: number) => onProfileUpdate(activeProfileId, { dailyReviewTarget: target })
+
+  // Start the picked lessons, then show the updated queue and assignments
+  const handleStartLessons = async (assignmentIds: number[]) => {
+    const { started, failed } = await wanikaniService.startAssignments(assignmentIds)
+    if (started.length > 0) {
+      const [summaryResponse, assignmentsResponse] = await Promise.all([
+        wanikaniService.refreshSummary(),
+        wanikaniService.syncAssignments()
+      ])
+      if (mountedRef.current) {
+        setSummary(summaryResponse)
+        setAssignments(assignmentsResponse)
+      }
+    }
+    return { started: started.length, failed: failed.length }
+  }
+
+  // Reviews submitted from the quiz leave the queue; show the new summary and stages
+  const handleReviewsSubmitted = async () => {
+    try {
+      const [summaryResponse, assignmentsResponse, reviewStatsResponse] = await Promise.all([
+        wanikaniService.refreshSummary(),
+        wanikaniService.syncAssignments(),
+        wanikaniService.syncReviewStatistics()
+      ])
+      if (mountedRef.current) {
+        setSummary(summaryResponse)
+        setAssignments(assignmentsResponse)
+        setReviewStats(reviewStatsResponse)
+      }
+    } catch (err) {
+      console.error('Error reloading after reviews:', err)
+    }
+  }
+
   if (loading) {
     return (
       <div className="min-h-screen bg-wanikani-bg dark:bg-wanikani-bg-dark flex items-center justify-center transition-colors">
@@ -158,23 +349,54 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
             <span className="text-3xl">🦀</span>
           </div>
           <p className="text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('loading')}</p>
+          {syncProgress && (
+            <p className="mt-2 text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">
+              {(syncProgress.totalPages ? t('loading.syncProgress') : t('loading.syncPage'))
+                .replace('{collection}', t(`sync.collection.${syncProgress.collection}`))
+                .replace('{page}', String(syncProgress.page))
+                .replace('{total}', String(syncProgress.totalPages))}
+            </p>
+          )}
         </div>
       </div>
     )
   }
 
   if (error) {
+    const retryAfterSeconds = error instanceof WaniKaniRateLimitError && error.retryAfterMs !== null
+      ? Math.ceil(error.retryAfterMs / 1000)
+      : 60
+    const errorMessage = t(errorMessageKey(error))
+      .replace('{seconds}', String(retryAfterSeconds))
+      .replace('{status}', error instanceof WaniKaniError && error.status ? String(error.status) : '')
+    const isAuthProblem = error instanceof WaniKaniError && (error.kind === 'auth' || error.kind === 'forbidden')
+
     return (
       <div className="min-h-screen bg-wanikani-bg dark:bg-wanikani-bg-dark flex items-center justify-center p-4 transition-colors">
         <div className="wk-card rounded-lg p-6 max-w-md text-center">
           <div className="text-4xl mb-4">😿</div>
-          <p className="text-red-500 mb-4">{error}</p>
-          <button
-            onClick={() => onTokenChange('')}
-            className="bg-wanikani-pink hover:bg-pink-600 text-white px-6 py-2 rounded-lg transition-colors"
-          >
-            {t('error.updateToken')}
-          </button>
+          <p className="text-red-500 mb-2">{errorMessage}</p>
+          {error instanceof WaniKaniError && (
+            <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-4">
+              {error.endpoint}{error.status ? ` · ${error.status}` : ''}
+            </p>
+          )}
+          <div className="flex justify-center gap-3">
+            {!isAuthProblem && (
+              <button
+                onClick={handleRefresh}
+                className="border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark px-6 py-2 rounded-lg transition-colors"
+              >
+                {t('error.retry')}
+              </button>
+            )}
+            <button
+              onClick={() => onTokenChange('')}
+              className="bg-wanikani-pink hover:bg-pink-600 text-white px-6 py-2 rounded-lg transition-colors"
+            >
+              {t('error.updateToken')}
+            </button>
+          </div>
         </div>
       </div>
     )
@@ -182,6 +404,9 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
 
   if (!userData) return null
 
+  const preferredVoiceActorId = activeProfile?.preferredVoiceActorId ?? userData.preferences?.default_voice_actor_id
+  const dailyReviewTarget = activeProfile?.dailyReviewTarget ?? DEFAULT_DAILY_REVIEW_TARGET
+
   return (
     <div className="min-h-screen bg-wanikani-bg dark:bg-wanikani-bg-dark transition-colors">
       {/* Header */}
@@ -192,13 +417,27 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
               <span className="text-2xl">🦀</span>
               <span className="text-xl font-bold text-wanikani-pink">{t('header.title')}</span>
             </div>
+            <ProfileSwitcher
+              profiles={profiles}
+              activeProfileId={activeProfileId}
+              onSelect={onSelectProfile}
+              onAdd={onAddProfile}
+              onCompare={() => setActiveTab('compare')}
+            />
             <div className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">
               {t('header.level')} <span className="font-bold text-wanikani-text dark:text-wanikani-text-dark">{userData.level}</span> · {userData.username}
             </div>
+            {isDemoToken(apiToken) && (
+              <span className="px-2 py-0.5 rounded-full bg-wanikani-cyan text-white text-xs font-semibold">
+                {t('header.demo')}
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-3">
+            <RateLimitIndicator budget={rateLimitBudget} />
             <ThemeToggle />
             <LanguageToggle />
+            {securityControls}
             <ExportData
               assignments={assignments}
               reviewStats={reviewStats}
@@ -206,6 +445,14 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
               subjects={subjects}
               srsSystems={srsSystems}
             />
+            <button
+              onClick={handleRefresh}
+              className="flex items-center gap-2 px-4 py-2 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark rounded-lg transition-colors text-sm"
+              title={t('header.refresh')}
+            >
+              <RefreshCw className="w-4 h-4" />
+              {t('header.refresh')}
+            </button>
             <button
               onClick={handleLogout}
               className="flex items-center gap-2 px-4 py-2 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark rounded-lg transition-colors text-sm"
@@ -217,6 +464,23 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
         </div>
       </header>
 
+      {/* Offline Notification */}
+      {offline && (
+        <div className="max-w-7xl mx-auto px-6 mt-4">
+          <div className="flex items-start gap-2 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg p-3">
+            <WifiOff className="w-4 h-4 mt-0.5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+            <div className="text-sm text-amber-700 dark:text-amber-300">
+              <p>
+                {cachedAt
+                  ? t('offline.banner').replace('{time}', new Date(cachedAt).toLocaleString())
+                  : t('offline.bannerNoTimestamp')}
+              </p>
+              {refreshQueued && <p className="text-xs mt-1">{t('offline.refreshQueued')}</p>}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Refresh Message Notification */}
       {refreshMessage && (
         <div className="max-w-7xl mx-auto px-6 mt-4">
@@ -239,11 +503,21 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
             srsSystems={srsSystems}
             userData={userData}
           />
-          <LessonBatchingHelper summary={summary} />
+          <LessonBatchingHelper
+            summary={summary}
+            batchSize={userData.preferences?.lessons_batch_size}
+            dailyReviewTarget={dailyReviewTarget}
+            reviewsPerLesson={reviewsPerLesson}
+            subjects={subjects}
+            assignments={assignments}
+            writesEnabled={writesEnabled}
+            onWritesEnabledChange={setWritesEnabled}
+            onStartLessons={handleStartLessons}
+          />
         </div>
 
         <div className="wk-card rounded-lg overflow-hidden">
-          <div className="flex gap-1 p-3 bg-gray-50 border-b border-wanikani-border">
+          <div className="flex flex-wrap gap-1 p-3 bg-gray-50 border-b border-wanikani-border">
             <TabButton
               label={t('tabs.levelProjection')}
               isActive={activeTab === 'projection'}
@@ -284,12 +558,53 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
               isActive={activeTab === 'reading'}
               onClick={() => setActiveTab('reading')}
             />
+            <TabButton
+              label={t('tabs.reviewHistory')}
+              isActive={activeTab === 'history'}
+              onClick={() => setActiveTab('history')}
+            />
+            <TabButton
+              label={t('tabs.retention')}
+              isActive={activeTab === 'retention'}
+              onClick={() => setActiveTab('retention')}
+            />
+            <TabButton
+              label={t('tabs.sessions')}
+              isActive={activeTab === 'sessions'}
+              onClick={() => setActiveTab('sessions')}
+            />
+            <TabButton
+              label={t('tabs.reviewQuiz')}
+              isActive={activeTab === 'quiz'}
+              onClick={() => setActiveTab('quiz')}
+            />
+            <TabButton
+              label={t('tabs.workload')}
+              isActive={activeTab === 'workload'}
+              onClick={() => setActiveTab('workload')}
+            />
+            {profiles.length > 1 && (
+              <TabButton
+                label={t('tabs.compareProfiles')}
+                isActive={activeTab === 'compare'}
+                onClick={() => setActiveTab('compare')}
+              />
+            )}
+            <TabButton
+              label={t('tabs.cache')}
+              isActive={activeTab === 'cache'}
+              onClick={() => setActiveTab('cache')}
+            />
           </div>
           <div className="p-5">
             {activeTab === 'projection' ? (
               <LevelProjectionChart
                 userData={userData}
                 levelProgressions={levelProgressions}
+                resets={resets}
+                reviewStats={reviewStats}
+                subjects={subjects}
+                srsSystems={srsSystems}
               />
             ) : activeTab === 'burn' ? (
               <BurnProjectionChart
@@ -297,34 +612,116 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
                 levelProgressions={levelProgressions}
                 userData={userData}
                 subjects={subjects}
+                resets={resets}
               />
             ) : activeTab === 'heatmap' ? (
               <StudyHeatmap
                 assignments={assignments}
                 userData={userData}
+                subjects={subjects}
+                srsSystems={srsSystems}
+                reviews={reviewHistory.reviews}
               />
             ) : activeTab === 'forecast' ? (
               <ReviewForecast
                 assignments={assignments}
                 summary={summary}
+                subjects={subjects}
+                srsSystems={srsSystems}
               />
             ) : activeTab === 'dependencies' ? (
               <ComponentDependencyTree
                 subjects={subjects}
                 assignments={assignments}
+                srsSystems={srsSystems}
+                studyMaterials={studyMaterials}
+                canEditStudyMaterials={writesEnabled}
+                onEnableWrites={enableWrites}
               />
             ) : activeTab === 'vocabulary' ? (
               <VocabularyStudy
                 subjects={subjects}
                 assignments={assignments}
-                apiToken={apiToken}
+                srsSystems={srsSystems}
+                service={wanikaniService}
+                studyMaterials={studyMaterials}
+                canEditStudyMaterials={writesEnabled}
+                onEnableWrites={enableWrites}
+                preferredVoiceActorId={preferredVoiceActorId}
+              />
+            ) : activeTab === 'history' ? (
+              <ReviewHistory
+                reviews={reviewHistory.reviews}
+                loading={reviewHistory.loading}
+                error={reviewHistory.error}
+                onRefresh={reviewHistory.refresh}
+                srsSystems={srsSystems}
+              />
+            ) : activeTab === 'retention' ? (
+              <RetentionAnalysis
+                reviews={reviewHistory.reviews}
+                loading={reviewHistory.loading}
+                error={reviewHistory.error}
+                onRefresh={reviewHistory.refresh}
+                subjects={subjects}
+                srsSystems={srsSystems}
+              />
+            ) : activeTab === 'sessions' ? (
+              <SessionAnalysis
+                reviews={reviewHistory.reviews}
+                loading={reviewHistory.loading}
+                error={reviewHistory.error}
+                onRefresh={reviewHistory.refresh}
               />
             ) : activeTab === 'reading' ? (
               <ReadingAloudPractice
                 subjects={subjects}
                 assignments={assignments}
-                apiToken={apiToken}
+                srsSystems={srsSystems}
+                service={wanikaniService}
+                preferredVoiceActorId={preferredVoiceActorId}
+              />
+            ) : activeTab === 'quiz' ? (
+              <ReviewQuiz
+                service={wanikaniService}
+                subjects={subjects}
+                assignments={assignments}
+                studyMaterials={studyMaterials}
+                writesEnabled={writesEnabled}
+                onWritesEnabledChange={setWritesEnabled}
+                onReviewsSubmitted={handleReviewsSubmitted}
+              />
+            ) : activeTab === 'workload' ? (
+              <WorkloadSimulator
+                assignments={assignments}
+                subjects={subjects}
+                srsSystems={srsSystems}
+                stageAccuracy={stageAccuracy}
+                accuracySource={reviewHistory.reviews && reviewHistory.reviews.length > 0 ? 'history' : 'statistics'}
+                userLevel={userData.level}
+                dailyReviewTarget={dailyReviewTarget}
+                onDailyReviewTargetChange={setDailyReviewTarget}
+              />
+            ) : activeTab === 'compare' && profiles.length > 1 ? (
+              <ProfileComparison
+                profiles={profiles}
+                activeProfileId={activeProfileId}
+                activeUserData={userData}
+                activeReviewStats={reviewStats}
+                onProfileUpdate={onProfileUpdate}
               />
+            ) : activeTab === 'cache' ? (
+              <div className="space-y-8">
+                <CacheInspector cache={cacheInspector} />
+                <AudioLibraryPanel
+                  library={audioLibrary}
+                  subjects={subjects}
+                  assignments={assignments}
+                  srsSystems={srsSystems}
+                  preferredVoiceActorId={preferredVoiceActorId}
+                  onPreferredVoiceActorChange={setPreferredVoiceActor}
+                />
+              </div>
             ) : (
               <BurnedItemsGallery
                 subjects={subjects}
@@ -349,15 +746,15 @@ export default function Dashboard({ apiToken, onTokenChange }: DashboardProps) {
           <ReadingVsMeaningAnalysis reviewStats={reviewStats} subjects={subjects} />
         </div>
 
-        <SrsStageHistogram assignments={assignments} subjects={subjects} />
+        <SrsStageHistogram assignments={assignments} subjects={subjects} srsSystems={srsSystems} />
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <LevelProgress userData={userData} subjects={subjects} assignments={assignments} />
+          <LevelProgress userData={userData} subjects={subjects} assignments={assignments} srsSystems={srsSystems} />
           <AccuracyChart reviewStats={reviewStats} subjects={subjects} />
         </div>
 
         {/* Vacation Recovery Planner */}
-        <VacationRecoveryPlanner userData={userData} assignments={assignments} />
+        <VacationRecoveryPlanner userData={userData} assignments={assignments} srsSystems={srsSystems} />
 
         {/* Footer */}
         <footer className="text-center py-6 border-t border-wanikani-border">
@@ -55,7 +55,7 @@ export default function ExportData({
   }, [])
 
   const exportAssignments = () => {
-    const data = transformAssignments(assignments)
+    const data = transformAssignments(assignments, subjects, srsSystems)
     const csv = arrayToCSV(data, assignmentColumns)
     downloadCSV(csv, `wanikani-assignments-${getTimestamp()}.csv`)
   }
@@ -83,7 +83,7 @@ export default function ExportData({
     const zip = new JSZip()
 
     setExportProgress(t('export.exportingAssignments'))
-    const assignmentsData = transformAssignments(assignments)
+    const assignmentsData = transformAssignments(assignments, subjects, srsSystems)
     const assignmentsCsv = arrayToCSV(assignmentsData, assignmentColumns)
     zip.file(`wanikani-assignments-${timestamp}.csv`, assignmentsCsv)
 
@@ -1,15 +1,69 @@
 'use client'
 
-import { useMemo } from 'react'
-import type { Summary } from '@/types/wanikani'
+import { useMemo, useState } from 'react'
+import { ListChecks, Loader2, Play } from 'lucide-react'
+import type { Assignment, Subject, Summary } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
+import { WaniKaniError, errorMessageKey } from '@/services/errors'
+import { DEFAULT_DAILY_REVIEW_TARGET } from '@/utils/workloadSimulation'
 
 interface LessonBatchingHelperProps {
   summary: Summary | null
+  subjects: Subject[]
+  assignments: Assignment[]
+  // Lessons per batch from the user's WaniKani preferences
+  batchSize?: number
+  // Reviews a day the user is willing to do (profile setting)
+  dailyReviewTarget?: number
+  // Reviews one lesson causes until it burns, from the user's accuracy per stage
+  reviewsPerLesson?: number
+  // Opt-in for write calls; the token needs the assignments:start permission
+  writesEnabled: boolean
+  onWritesEnabledChange: (enabled: boolean) => void
+  onStartLessons: (assignmentIds: number[]) => Promise<{ started: number; failed: number }>
 }
 
-export default function LessonBatchingHelper({ summary }: LessonBatchingHelperProps) {
+interface LessonItem {
+  subjectId: number
+  assignmentId: number
+  subject: Subject | undefined
+}
+
+// WaniKani's default lessons batch size
+const DEFAULT_BATCH_SIZE = 5
+// Reviews per lesson at about 85% accuracy, until the user's own numbers are in
+const DEFAULT_REVIEWS_PER_LESSON = 9
+
+const TYPE_ORDER: Record<string, number> = { radical: 0, kanji: 1, vocabulary: 2, kana_vocabulary: 3 }
+
+function getSubjectTypeColor(type: string): string {
+  switch (type) {
+    case 'radical': return 'bg-wanikani-radical'
+    case 'kanji': return 'bg-wanikani-kanji'
+    case 'vocabulary':
+    case 'kana_vocabulary': return 'bg-wanikani-vocabulary'
+    default: return 'bg-gray-500'
+  }
+}
+
+export default function LessonBatchingHelper({
+  summary,
+  subjects,
+  assignments,
+  batchSize: preferredBatchSize,
+  dailyReviewTarget = DEFAULT_DAILY_REVIEW_TARGET,
+  reviewsPerLesson = DEFAULT_REVIEWS_PER_LESSON,
+  writesEnabled,
+  onWritesEnabledChange,
+  onStartLessons
+}: LessonBatchingHelperProps) {
   const { t } = useLanguage()
+  const [pickerOpen, setPickerOpen] = useState(false)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [isStarting, setIsStarting] = useState(false)
+  const [result, setResult] = useState<{ started: number; failed: number } | null>(null)
+  const [startError, setStartError] = useState<unknown>(null)
+  const batchSize = preferredBatchSize && preferredBatchSize > 0 ? preferredBatchSize : DEFAULT_BATCH_SIZE
   const {
     lessonsAvailable,
     nextReviewsAt,
@@ -29,11 +83,13 @@ export default function LessonBatchingHelper({ summary }: LessonBatchingHelperPr
       return best
     }, null as null | { hour: string; count: number })
 
-    // Simple heuristic: aim for ~150 reviews/day; a new lesson creates ~9 reviews over time
-    const targetReviewsPerDay = 150
-    const estimatedReviewsFromLessons = 9
-    const headroom = Math.max(0, targetReviewsPerDay - reviewsNext24h)
-    const recommendedLessons = Math.min(lessonsAvailable, Math.max(0, Math.round(headroom / estimatedReviewsFromLessons)))
+    // Fill the room left under the daily target; each lesson brings its reviews over time
+    const headroom = Math.max(0, dailyReviewTarget - reviewsNext24h)
+    const headroomLessons = Math.min(lessonsAvailable, Math.max(0, Math.round(headroom / Math.max(1, reviewsPerLesson))))
+    // Whole batches, since lessons are done a batch at a time
+    const recommendedLessons = headroomLessons >= batchSize
+      ? Math.floor(headroomLessons / batchSize) * batchSize
+      : headroomLessons
 
     return {
       lessonsAvailable,
@@ -42,7 +98,67 @@ export default function LessonBatchingHelper({ summary }: LessonBatchingHelperPr
       peakHour: peak,
       recommendedLessons
     }
-  }, [summary])
+  }, [summary, batchSize, dailyReviewTarget, reviewsPerLesson])
+
+  // Lessons in the queue, ordered like WaniKani's default lesson order: level, then type
+  const lessonItems = useMemo<LessonItem[]>(() => {
+    if (!summary) return []
+    const subjectMap = new Map(subjects.map(subject => [subject.id, subject]))
+    const assignmentBySubject = new Map(assignments.map(a => [a.data.subject_id, a]))
+
+    const items: LessonItem[] = []
+    summary.data.lessons.forEach(lesson => {
+      lesson.subject_ids.forEach(subjectId => {
+        const assignment = assignmentBySubject.get(subjectId)
+        // Without its assignment a lesson cannot be started (assignments not synced yet)
+        if (!assignment || assignment.data.started_at) return
+        items.push({ subjectId, assignmentId: assignment.id, subject: subjectMap.get(subjectId) })
+      })
+    })
+
+    return items.sort((a, b) => {
+      const levelDiff = (a.subject?.data.level ?? Infinity) - (b.subject?.data.level ?? Infinity)
+      if (levelDiff !== 0) return levelDiff
+      const typeDiff = (TYPE_ORDER[a.subject?.object ?? ''] ?? 4) - (TYPE_ORDER[b.subject?.object ?? ''] ?? 4)
+      return typeDiff !== 0 ? typeDiff : a.subjectId - b.subjectId
+    })
+  }, [summary, subjects, assignments])
+
+  const openPicker = () => {
+    // Start with the recommended batch selected
+    setSelected(new Set(lessonItems.slice(0, recommendedLessons).map(item => item.subjectId)))
+    setResult(null)
+    setStartError(null)
+    setPickerOpen(true)
+  }
+
+  const toggle = (subjectId: number) => {
+    setSelected(previous => {
+      const next = new Set(previous)
+      if (next.has(subjectId)) {
+        next.delete(subjectId)
+      } else {
+        next.add(subjectId)
+      }
+      return next
+    })
+  }
+
+  const handleStart = async () => {
+    const assignmentIds = lessonItems.filter(item => selected.has(item.subjectId)).map(item => item.assignmentId)
+    if (assignmentIds.length === 0) return
+    setIsStarting(true)
+    setResult(null)
+    setStartError(null)
+    try {
+      setResult(await onStartLessons(assignmentIds))
+      setSelected(new Set())
+    } catch (error) {
+      setStartError(error)
+    } finally {
+      setIsStarting(false)
+    }
+  }
 
   return (
     <div className="wk-card rounded-lg p-6 space-y-4">
@@ -52,10 +168,20 @@ export default function LessonBatchingHelper({ summary }: LessonBatchingHelperPr
             {t('batching.title')}
           </h2>
           <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('batching.subtitle')}</p>
+          <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mt-1">
+            {t('batching.basis')
+              .replace('{target}', String(dailyReviewTarget))
+              .replace('{perLesson}', reviewsPerLesson.toFixed(1))}
+          </p>
         </div>
         <div className="wk-card-pink rounded-lg p-3">
           <div className="text-white/80 text-xs">{t('batching.recommendedToday')}</div>
           <div className="text-white font-bold text-xl">{recommendedLessons} {t('common.lessons')}</div>
+          <div className="text-white/80 text-xs">
+            {t('batching.batchesOf')
+              .replace('{batches}', String(Math.ceil(recommendedLessons / batchSize)))
+              .replace('{size}', String(batchSize))}
+          </div>
         </div>
       </div>
 
@@ -85,6 +211,113 @@ export default function LessonBatchingHelper({ summary }: LessonBatchingHelperPr
           </div>
         </div>
       )}
+
+      {summary && lessonItems.length > 0 && !pickerOpen && (
+        <button
+          onClick={openPicker}
+          className="flex items-center gap-2 px-4 py-2 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark rounded-lg transition-colors text-sm"
+        >
+          <ListChecks className="w-4 h-4" />
+          {t('batching.pickLessons')}
+        </button>
+      )}
+
+      {summary && pickerOpen && (
+        <div className="border border-wanikani-border dark:border-wanikani-border-dark rounded-lg p-4 space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+            <h3 className="font-semibold text-wanikani-text dark:text-wanikani-text-dark">{t('batching.pickerTitle')}</h3>
+            <div className="flex gap-2 text-xs">
+              <button
+                onClick={() => setSelected(new Set(lessonItems.slice(0, batchSize).map(item => item.subjectId)))}
+                className="text-wanikani-pink hover:underline"
+              >
+                {t('batching.selectBatch').replace('{size}', String(batchSize))}
+              </button>
+              <button
+                onClick={() => setSelected(new Set(lessonItems.map(item => item.subjectId)))}
+                className="text-wanikani-pink hover:underline"
+              >
+                {t('batching.selectAll')}
+              </button>
+              <button onClick={() => setSelected(new Set())} className="text-wanikani-pink hover:underline">
+                {t('batching.selectNone')}
+              </button>
+              <button
+                onClick={() => setPickerOpen(false)}
+                className="text-wanikani-text-light dark:text-wanikani-text-light-dark hover:underline"
+              >
+                {t('batching.closePicker')}
+              </button>
+            </div>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-wanikani-text dark:text-wanikani-text-dark bg-gray-50 dark:bg-gray-800 rounded-lg p-3">
+            <input
+              type="checkbox"
+              checked={writesEnabled}
+              onChange={(e) => onWritesEnabledChange(e.target.checked)}
+              className="mt-0.5 accent-wanikani-pink"
+            />
+            <span>
+              {t('batching.allowWrites')}
+              <span className="block text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                {t('batching.allowWritesHint')}
+              </span>
+            </span>
+          </label>
+
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {lessonItems.map(item => (
+              <label
+                key={item.subjectId}
+                className="flex items-center gap-3 px-2 py-1 rounded hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(item.subjectId)}
+                  onChange={() => toggle(item.subjectId)}
+                  className="accent-wanikani-pink"
+                />
+                <span className={`${getSubjectTypeColor(item.subject?.object ?? '')} text-white rounded px-2 py-0.5 font-japanese min-w-[2.5rem] text-center`}>
+                  {item.subject?.data.characters || item.subject?.data.slug || `#${item.subjectId}`}
+                </span>
+                <span className="flex-1 min-w-0 truncate text-sm text-wanikani-text dark:text-wanikani-text-dark">
+                  {item.subject?.data.meanings.find(m => m.primary)?.meaning ?? ''}
+                </span>
+                {item.subject && (
+                  <span className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                    {t('header.level')} {item.subject.data.level}
+                  </span>
+                )}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <button
+              onClick={handleStart}
+              disabled={!writesEnabled || isStarting || selected.size === 0}
+              className="flex items-center justify-center gap-2 bg-wanikani-pink hover:bg-pink-600 text-white px-4 py-2 rounded-lg transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isStarting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              {t('batching.startLessons').replace('{count}', String(selected.size))}
+            </button>
+            {result && (
+              <span className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                {t('batching.startedResult').replace('{count}', String(result.started))}
+                {result.failed > 0 && ` ${t('batching.failedResult').replace('{count}', String(result.failed))}`}
+              </span>
+            )}
+            {startError !== null && (
+              <span className="text-sm text-red-500">
+                {t(errorMessageKey(startError))
+                  .replace('{seconds}', '60')
+                  .replace('{status}', startError instanceof WaniKaniError && startError.status ? String(startError.status) : '')}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
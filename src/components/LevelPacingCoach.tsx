@@ -3,6 +3,8 @@
 import { useMemo } from 'react'
 import type { Assignment, LevelProgression, Subject, UserData, SpacedRepetitionSystem } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
+import { getCurrentProgressions } from '@/utils/levelRuns'
+import { createSrsModels, getSrsModel, getTimeToStage } from '@/utils/srsModel'
 
 interface LevelPacingCoachProps {
   assignments: Assignment[]
@@ -21,42 +23,6 @@ type GatingKanji = {
   link?: string
 }
 
-function intervalToMs(interval: number | null, unit: SpacedRepetitionSystem['data']['stages'][number]['interval_unit']): number {
-  if (!interval || !unit) return 0
-  switch (unit) {
-    case 'milliseconds': return interval
-    case 'seconds': return interval * 1000
-    case 'minutes': return interval * 60 * 1000
-    case 'hours': return interval * 60 * 60 * 1000
-    case 'days': return interval * 24 * 60 * 60 * 1000
-    case 'weeks': return interval * 7 * 24 * 60 * 60 * 1000
-    default: return 0
-  }
-}
-
-function calculateTimeToStage(
-  assignment: Assignment,
-  targetStage: number,
-  srs: SpacedRepetitionSystem | undefined
-): number {
-  const stages = srs?.data.stages || []
-  const now = Date.now()
-  const currentStage = assignment.data.srs_stage || 0
-
-  // If already at/past target, no time needed
-  if (currentStage >= targetStage) return 0
-
-  const availableAt = assignment.data.available_at ? new Date(assignment.data.available_at).getTime() : now
-  let remaining = Math.max(0, availableAt - now)
-
-  for (let pos = currentStage + 1; pos < targetStage; pos++) {
-    const stageInfo = stages.find(s => s.position === pos)
-    remaining += intervalToMs(stageInfo?.interval ?? null, stageInfo?.interval_unit ?? null)
-  }
-
-  return remaining
-}
-
 export default function LevelPacingCoach({
   assignments,
   subjects,
@@ -72,7 +38,7 @@ export default function LevelPacingCoach({
     currentLevelDurationDays
   } = useMemo(() => {
     const subjectById = new Map(subjects.map(s => [s.id, s]))
-    const srsById = new Map(srsSystems.map(s => [s.id, s]))
+    const srsModels = createSrsModels(srsSystems)
 
     const kanjiAssignments = assignments.filter(a => a.data.subject_type === 'kanji' && !a.data.hidden)
     const gating: GatingKanji[] = []
@@ -85,9 +51,9 @@ export default function LevelPacingCoach({
       const label = subject.data.characters || subject.data.slug
       if (!label) return
       
-      const srs = subject.data.spaced_repetition_system_id ? srsById.get(subject.data.spaced_repetition_system_id) : undefined
-      const passingStage = srs?.data.passing_stage_position ?? 5
-      const etaMs = calculateTimeToStage(a, passingStage, srs)
+      const srs = getSrsModel(srsModels, subject)
+      const passingStage = srs.passingStage
+      const etaMs = getTimeToStage(srs, a.data.srs_stage || 0, a.data.available_at, passingStage)
       if (a.data.srs_stage < passingStage) {
         gating.push({
           subjectId: subject.id,
@@ -104,7 +70,8 @@ export default function LevelPacingCoach({
     const etaDays = etaMs / (1000 * 60 * 60 * 24)
 
     // Current level duration so far
-    const currentLevelStart = levelProgressions.find(lp => lp.data.level === userData.level)?.data.unlocked_at || userData.started_at
+    // After a reset the level may have an abandoned progression too; use the current one
+    const currentLevelStart = getCurrentProgressions(levelProgressions).find(lp => lp.data.level === userData.level)?.data.unlocked_at || userData.started_at
     const currentLevelDurationDays = (Date.now() - new Date(currentLevelStart).getTime()) / (1000 * 60 * 60 * 24)
 
     return {
@@ -1,16 +1,18 @@
 'use client'
 
 import { useEffect, useMemo, useState } from 'react'
-import type { UserData, Subject, Assignment } from '@/types/wanikani'
+import type { UserData, Subject, Assignment, SpacedRepetitionSystem } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
+import { createSrsModels, getSrsModel, isPassedStage } from '@/utils/srsModel'
 
 interface LevelProgressProps {
   userData: UserData
   subjects: Subject[]
   assignments: Assignment[]
+  srsSystems: SpacedRepetitionSystem[]
 }
 
-export default function LevelProgress({ userData, subjects, assignments }: LevelProgressProps) {
+export default function LevelProgress({ userData, subjects, assignments, srsSystems }: LevelProgressProps) {
   const { t } = useLanguage()
   const [selectedLevel, setSelectedLevel] = useState(userData.level)
 
@@ -49,11 +51,13 @@ export default function LevelProgress({ userData, subjects, assignments }: Level
   const kanji = selectedLevelSubjects.filter(s => s.object === 'kanji')
   const vocabulary = selectedLevelSubjects.filter(s => s.object === 'vocabulary' || s.object === 'kana_vocabulary')
 
-  // Calculate completed items (SRS stage 5+ means passed/guru+)
+  const srsModels = useMemo(() => createSrsModels(srsSystems), [srsSystems])
+
+  // Calculate completed items (passed means Guru+ in the subject's SRS)
   const getCompletedCount = (subjectList: Subject[]) => {
     return subjectList.filter(subject => {
       const assignment = assignmentLookup.get(subject.id)
-      return assignment && assignment.data.srs_stage >= 5
+      return assignment && isPassedStage(getSrsModel(srsModels, subject), assignment.data.srs_stage)
     }).length
   }
 
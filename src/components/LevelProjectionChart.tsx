@@ -1,6 +1,6 @@
 'use client'
 
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import { Line } from 'react-chartjs-2'
 import {
   Chart as ChartJS,
@@ -8,19 +8,24 @@ import {
   LinearScale,
   PointElement,
   LineElement,
+  Filler,
   Tooltip,
   Legend,
 } from 'chart.js'
 import 'chartjs-adapter-date-fns'
-import type { LevelProgression, UserData } from '@/types/wanikani'
+import { ChevronDown, ChevronUp } from 'lucide-react'
+import type { LevelProgression, Reset, ReviewStatistic, SpacedRepetitionSystem, Subject, UserData } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
 import { useTheme } from '@/contexts/ThemeContext'
+import { getActiveRunProgressions, getLevelDurations, getResetMarkers } from '@/utils/levelRuns'
+import { simulateLevelUps } from '@/utils/levelSimulation'
 
 ChartJS.register(
   TimeScale,
   LinearScale,
   PointElement,
   LineElement,
+  Filler,
   Tooltip,
   Legend
 )
@@ -28,125 +33,88 @@ ChartJS.register(
 interface LevelProjectionChartProps {
   userData: UserData
   levelProgressions: LevelProgression[]
+  resets: Reset[]
+  // Pass rates per item for the simulated reviews
+  reviewStats: ReviewStatistic[]
+  // Radical and kanji counts per level
+  subjects: Subject[]
+  // Apprentice intervals of the standard and accelerated schedules
+  srsSystems: SpacedRepetitionSystem[]
 }
 
 const DAY_MS = 1000 * 60 * 60 * 24
-const MIN_DAYS_PER_LEVEL = 3.5 // Theoretical minimum based on SRS intervals
 
-// Pace multipliers
-const FAST_MULTIPLIER = 0.7
-const SLOW_MULTIPLIER = 1.5
-
-// Helper to generate projection points
-function generateProjectionPoints(
-  startDate: Date,
-  startingLevel: number,
-  daysPerLevel: number
-): { x: Date; y: number }[] {
-  const points: { x: Date; y: number }[] = []
-  const durationMs = daysPerLevel * DAY_MS
-  let currentDate = startDate
-  
-  for (let level = startingLevel; level <= 60; level++) {
-    currentDate = new Date(currentDate.getTime() + durationMs)
-    points.push({ x: currentDate, y: level })
-  }
-  
-  return points
-}
-
-export default function LevelProjectionChart({ userData, levelProgressions }: LevelProjectionChartProps) {
+export default function LevelProjectionChart({
+  userData,
+  levelProgressions,
+  resets,
+  reviewStats,
+  subjects,
+  srsSystems
+}: LevelProjectionChartProps) {
   const { t } = useLanguage()
   const { isDark } = useTheme()
+  const [showLevels, setShowLevels] = useState(false)
   const {
     actualPoints,
-    fastProjectionPoints,
-    avgProjectionPoints,
-    slowProjectionPoints,
-    fastDaysPerLevel,
-    averageDaysPerLevel,
-    slowDaysPerLevel,
-    fastEta,
-    avgEta,
-    slowEta,
-    sampleSize,
+    simulation,
     latestDurationDays,
     projectionStartLevel,
     levelsRemaining,
+    resetPoints,
   } = useMemo(() => {
-    const completedLevels = levelProgressions
+    // After a reset, pace comes from the new run only (abandoned levels would skew it)
+    const completedLevels = getActiveRunProgressions(levelProgressions, resets)
       .filter(lp => lp.data.passed_at)
-      .sort((a, b) => a.data.level - b.data.level)
 
     const reachedLevel60 = completedLevels.some(lp => lp.data.level === 60 && lp.data.passed_at)
 
-    // Derive durations between level unlock/start and level-up (passed_at)
-    const durationsMs: number[] = completedLevels.map((progression, index) => {
-      const startReference = progression.data.unlocked_at || progression.data.started_at
-      const previousPassed = completedLevels[index - 1]?.data.passed_at
-      const startDate = startReference || previousPassed || userData.started_at
-      const endDate = progression.data.passed_at!
-      return new Date(endDate).getTime() - new Date(startDate).getTime()
-    }).filter(duration => duration > 0)
-
-    const recentDurations = durationsMs.slice(-5)
-    const averageDurationMs = recentDurations.length > 0
-      ? recentDurations.reduce((sum, d) => sum + d, 0) / recentDurations.length
-      : 7 * DAY_MS // fallback pace
-
-    const averageDaysPerLevel = averageDurationMs / DAY_MS
-    const fastDaysPerLevel = Math.max(averageDaysPerLevel * FAST_MULTIPLIER, MIN_DAYS_PER_LEVEL)
-    const slowDaysPerLevel = averageDaysPerLevel * SLOW_MULTIPLIER
+    const durationsMs: number[] = getLevelDurations(levelProgressions, resets, userData.started_at)
+      .map(duration => duration.durationMs)
     const latestDurationDays = durationsMs.length > 0 ? durationsMs[durationsMs.length - 1] / DAY_MS : null
 
-    const actualPoints = completedLevels.map(lp => ({
-      x: new Date(lp.data.passed_at!),
-      y: lp.data.level,
-    }))
-
-    const lastActualLevel = completedLevels[completedLevels.length - 1]
-    const projectionStartDate = new Date(
-      lastActualLevel?.data.passed_at || userData.started_at
-    )
-    const startingLevel = Math.max(
-      (lastActualLevel?.data.level || 0) + 1,
-      userData.level
-    )
+    // The actual line shows every level-up, including runs that were later reset
+    const actualPoints = levelProgressions
+      .filter(lp => lp.data.passed_at)
+      .map(lp => ({ x: new Date(lp.data.passed_at!), y: lp.data.level }))
+      .sort((a, b) => a.x.getTime() - b.x.getTime())
 
-    // Generate all three projection lines
-    const fastProjectionPoints = generateProjectionPoints(projectionStartDate, startingLevel, fastDaysPerLevel)
-    const avgProjectionPoints = generateProjectionPoints(projectionStartDate, startingLevel, averageDaysPerLevel)
-    const slowProjectionPoints = generateProjectionPoints(projectionStartDate, startingLevel, slowDaysPerLevel)
+    // Each reset is drawn as a drop from the original to the target level;
+    // null points break the line between resets
+    const resetPoints = getResetMarkers(resets).reduce<{ x: Date; y: number | null }[]>((points, marker) => {
+      points.push({ x: marker.date, y: marker.originalLevel }, { x: marker.date, y: marker.targetLevel }, { x: marker.date, y: null })
+      return points
+    }, [])
 
-    // Get Level 60 ETAs
-    const fastEta = fastProjectionPoints.find(p => p.y === 60)?.x || actualPoints.find(p => p.y === 60)?.x
-    const avgEta = avgProjectionPoints.find(p => p.y === 60)?.x || actualPoints.find(p => p.y === 60)?.x
-    const slowEta = slowProjectionPoints.find(p => p.y === 60)?.x || actualPoints.find(p => p.y === 60)?.x
+    const simulation = reachedLevel60
+      ? null
+      : simulateLevelUps({
+          levelProgressions,
+          resets,
+          reviewStats,
+          subjects,
+          srsSystems,
+          userLevel: userData.level,
+          userStartedAt: userData.started_at
+        })
 
-    const projectionStartLevel = avgProjectionPoints[0]?.y ?? (lastActualLevel?.data.level || userData.level)
-    const levelsRemaining = reachedLevel60
-      ? 0
-      : projectionStartLevel > 60
-        ? 0
-        : Math.max(60 - projectionStartLevel + 1, 0)
+    const lastActualLevel = completedLevels[completedLevels.length - 1]
+    const projectionStartLevel = simulation?.levels[0]?.level ?? (lastActualLevel?.data.level || userData.level)
+    const levelsRemaining = simulation ? simulation.levels.length : 0
 
     return {
       actualPoints,
-      fastProjectionPoints,
-      avgProjectionPoints,
-      slowProjectionPoints,
-      fastDaysPerLevel,
-      averageDaysPerLevel,
-      slowDaysPerLevel,
-      fastEta,
-      avgEta,
-      slowEta,
-      sampleSize: recentDurations.length,
+      simulation,
       latestDurationDays,
       projectionStartLevel,
       levelsRemaining,
+      resetPoints,
     }
-  }, [levelProgressions, userData.started_at, userData.level])
+  }, [levelProgressions, resets, reviewStats, subjects, srsSystems, userData.started_at, userData.level])
+
+  const levels = simulation?.levels ?? []
+  const level60 = levels.find(eta => eta.level === 60)
+  const reached60At = actualPoints.find(p => p.y === 60)?.x
 
   const data = {
     datasets: [
@@ -160,35 +128,48 @@ export default function LevelProjectionChart({ userData, levelProgressions }: Le
         tension: 0.25,
       },
       {
-        label: t('projection.fastPace'),
-        data: fastProjectionPoints,
-        borderColor: '#00cc66',
+        label: t('projection.p10'),
+        data: levels.map(eta => ({ x: eta.p10, y: eta.level })),
+        borderColor: 'rgba(0,204,102,0.8)',
         backgroundColor: 'rgba(0,204,102,0.1)',
-        borderWidth: 2,
-        borderDash: [6, 6],
-        pointRadius: 2,
+        borderWidth: 1,
+        pointRadius: 0,
         tension: 0.25,
+        fill: false,
       },
       {
-        label: t('projection.projected'),
-        data: avgProjectionPoints,
-        borderColor: '#ff00aa',
-        backgroundColor: 'rgba(255,0,170,0.1)',
-        borderWidth: 2,
-        borderDash: [6, 6],
-        pointRadius: 2,
+        label: t('projection.p90'),
+        data: levels.map(eta => ({ x: eta.p90, y: eta.level })),
+        borderColor: 'rgba(255,102,0,0.8)',
+        backgroundColor: 'rgba(255,0,170,0.15)',
+        borderWidth: 1,
+        pointRadius: 0,
         tension: 0.25,
+        // Shade the band down to the P10 line
+        fill: '-1',
       },
       {
-        label: t('projection.slowPace'),
-        data: slowProjectionPoints,
-        borderColor: '#ff6600',
-        backgroundColor: 'rgba(255,102,0,0.1)',
+        label: t('projection.p50'),
+        data: levels.map(eta => ({ x: eta.p50, y: eta.level })),
+        borderColor: '#ff00aa',
+        backgroundColor: 'rgba(255,0,170,0.1)',
         borderWidth: 2,
         borderDash: [6, 6],
         pointRadius: 2,
         tension: 0.25,
+        fill: false,
       },
+      ...(resetPoints.length > 0 ? [{
+        label: t('projection.reset'),
+        data: resetPoints,
+        borderColor: '#ef4444',
+        backgroundColor: '#ef4444',
+        borderWidth: 2,
+        borderDash: [2, 4],
+        pointRadius: 3,
+        pointStyle: 'triangle' as const,
+        spanGaps: false,
+      }] : []),
     ],
   }
 
@@ -203,7 +184,9 @@ export default function LevelProjectionChart({ userData, levelProgressions }: Le
         callbacks: {
           label: (context: any) => {
             const date = new Date(context.parsed.x).toLocaleDateString()
-            return `Level ${context.parsed.y}: ${date}`
+            if (context.dataset.label === t('projection.reset')) return `${t('projection.reset')}: ${date}`
+            if (context.datasetIndex === 0) return `Level ${context.parsed.y}: ${date}`
+            return `${context.dataset.label} · Level ${context.parsed.y}: ${date}`
           }
         }
       }
@@ -232,21 +215,33 @@ export default function LevelProjectionChart({ userData, levelProgressions }: Le
             {t('projection.title')}
           </h2>
           <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">
-            {t('projection.basedOnPace').replace('{count}', String(sampleSize > 0 ? sampleSize : 5))}
+            {simulation
+              ? (simulation.sampleSize > 0 ? t('projection.basedOnSimulation') : t('projection.basedOnDefaultPace'))
+                  .replace('{trials}', String(simulation.trials))
+                  .replace('{count}', String(simulation.sampleSize))
+              : t('projection.complete')}
           </p>
         </div>
         <div className="text-right">
-          <div className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark mb-1">{t('projection.paceComparison')}</div>
-          <div className="flex gap-3 text-xs font-medium">
-            <span className="text-green-500">{t('projection.fastPace')}: {fastDaysPerLevel.toFixed(1)}d</span>
-            <span className="text-wanikani-pink">{t('projection.avgPace')}: {averageDaysPerLevel.toFixed(1)}d</span>
-            <span className="text-orange-500">{t('projection.slowPace')}: {slowDaysPerLevel.toFixed(1)}d</span>
-          </div>
-          {avgEta && (
-            <div className="mt-2 text-xs space-y-0.5">
-              <div className="text-green-500">{t('projection.level60Eta')}: {new Date(fastEta!).toLocaleDateString()}</div>
-              <div className="text-wanikani-pink">{t('projection.level60Eta')}: {new Date(avgEta).toLocaleDateString()}</div>
-              <div className="text-orange-500">{t('projection.level60Eta')}: {new Date(slowEta!).toLocaleDateString()}</div>
+          {simulation && (
+            <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-1">
+              {t('projection.medianPace').replace('{days}', simulation.medianDaysPerLevel.toFixed(1))}
+              {' · '}
+              {t('projection.passRate').replace('{percent}', String(Math.round(simulation.passRate * 100)))}
+            </div>
+          )}
+          {level60 ? (
+            <div className="text-xs space-y-0.5">
+              <div className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('projection.level60Eta')}</div>
+              <div className="flex gap-3 font-medium justify-end">
+                <span className="text-green-500">{t('projection.p10')}: {level60.p10.toLocaleDateString()}</span>
+                <span className="text-wanikani-pink">{t('projection.p50')}: {level60.p50.toLocaleDateString()}</span>
+                <span className="text-orange-500">{t('projection.p90')}: {level60.p90.toLocaleDateString()}</span>
+              </div>
+            </div>
+          ) : reached60At && (
+            <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+              {t('projection.level60Eta')}: {reached60At.toLocaleDateString()}
             </div>
           )}
         </div>
@@ -276,6 +271,47 @@ export default function LevelProjectionChart({ userData, levelProgressions }: Le
           </div>
         </div>
       </div>
+
+      {levels.length > 0 && (
+        <div className="mt-4">
+          <button
+            onClick={() => setShowLevels(!showLevels)}
+            className="flex items-center gap-1 text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark hover:text-wanikani-text dark:hover:text-wanikani-text-dark"
+          >
+            {showLevels ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            {t('projection.perLevel')}
+          </button>
+          {showLevels && (
+            <div className="mt-2 max-h-64 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                  <tr>
+                    <th className="text-left py-1">{t('common.level')}</th>
+                    <th className="text-right py-1">{t('projection.p10')}</th>
+                    <th className="text-right py-1">{t('projection.p50')}</th>
+                    <th className="text-right py-1">{t('projection.p90')}</th>
+                  </tr>
+                </thead>
+                <tbody className="text-wanikani-text dark:text-wanikani-text-dark">
+                  {levels.map(eta => (
+                    <tr key={eta.level} className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+                      <td className="py-1">
+                        {eta.level}
+                        {eta.accelerated && (
+                          <span className="ml-2 text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('projection.fastLevel')}</span>
+                        )}
+                      </td>
+                      <td className="text-right py-1 text-green-600 dark:text-green-400">{eta.p10.toLocaleDateString()}</td>
+                      <td className="text-right py-1 text-wanikani-pink">{eta.p50.toLocaleDateString()}</td>
+                      <td className="text-right py-1 text-orange-500">{eta.p90.toLocaleDateString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { Loader2 } from 'lucide-react'
+import type { ReviewStatistic, UserData } from '@/types/wanikani'
+import { WaniKaniService } from '@/services/wanikani'
+import { errorMessageKey } from '@/services/errors'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { type Profile, profileDisplayName } from '@/utils/profiles'
+import { ProfileAvatar } from './ProfileSwitcher'
+
+interface ProfileComparisonProps {
+  profiles: Profile[]
+  activeProfileId: string
+  // The open dashboard's data, so the active account is not loaded twice
+  activeUserData: UserData
+  activeReviewStats: ReviewStatistic[]
+  onProfileUpdate: (id: string, changes: Partial<Omit<Profile, 'id'>>) => void
+}
+
+type ProfileData =
+  | { status: 'loading' }
+  | { status: 'ready'; user: UserData; reviewStats: ReviewStatistic[] }
+  | { status: 'error'; error: unknown }
+
+interface AccuracySummary {
+  overall: number
+  meaning: number
+  reading: number
+  reviews: number
+  items: number
+}
+
+function summarizeAccuracy(reviewStats: ReviewStatistic[]): AccuracySummary {
+  const visible = reviewStats.filter(stat => !stat.data.hidden)
+  let meaningCorrect = 0
+  let meaningTotal = 0
+  let readingCorrect = 0
+  let readingTotal = 0
+
+  visible.forEach(stat => {
+    meaningCorrect += stat.data.meaning_correct
+    meaningTotal += stat.data.meaning_correct + stat.data.meaning_incorrect
+    readingCorrect += stat.data.reading_correct
+    readingTotal += stat.data.reading_correct + stat.data.reading_incorrect
+  })
+
+  const percent = (correct: number, total: number) => (total > 0 ? (correct / total) * 100 : 0)
+  return {
+    overall: percent(meaningCorrect + readingCorrect, meaningTotal + readingTotal),
+    meaning: percent(meaningCorrect, meaningTotal),
+    reading: percent(readingCorrect, readingTotal),
+    reviews: meaningTotal + readingTotal,
+    items: visible.length
+  }
+}
+
+async function loadProfile(
+  profile: Profile,
+  onProfileUpdate: ProfileComparisonProps['onProfileUpdate']
+): Promise<{ user: UserData; reviewStats: ReviewStatistic[] }> {
+  let userId = profile.userId
+  if (!userId) {
+    const user = await new WaniKaniService(profile.token).identifyAndMigrate()
+    userId = user.id
+    onProfileUpdate(profile.id, { userId, username: user.username, level: user.level })
+  }
+
+  const service = new WaniKaniService(profile.token, userId)
+  const [user, reviewStats] = await Promise.all([service.getUser(), service.syncReviewStatistics()])
+  return { user, reviewStats }
+}
+
+export default function ProfileComparison({
+  profiles,
+  activeProfileId,
+  activeUserData,
+  activeReviewStats,
+  onProfileUpdate
+}: ProfileComparisonProps) {
+  const { t } = useLanguage()
+  const [data, setData] = useState<Record<string, ProfileData>>({})
+
+  // Latest props for the loader, which reruns only when the set of other profiles changes
+  const latestRef = useRef({ profiles, onProfileUpdate })
+  latestRef.current = { profiles, onProfileUpdate }
+
+  // Load the other accounts from their own caches (fetching what is stale)
+  const otherProfileKey = profiles
+    .filter(p => p.id !== activeProfileId)
+    .map(p => `${p.id}:${p.token}`)
+    .join('|')
+
+  useEffect(() => {
+    let cancelled = false
+    const { profiles, onProfileUpdate } = latestRef.current
+    const others = profiles.filter(p => p.id !== activeProfileId)
+
+    setData(others.reduce<Record<string, ProfileData>>((acc, p) => {
+      acc[p.id] = { status: 'loading' }
+      return acc
+    }, {}))
+    others.forEach(profile => {
+      loadProfile(profile, onProfileUpdate).then(
+        result => {
+          if (!cancelled) setData(previous => ({ ...previous, [profile.id]: { status: 'ready', ...result } }))
+        },
+        error => {
+          console.error(`Error loading profile ${profile.id}:`, error)
+          if (!cancelled) setData(previous => ({ ...previous, [profile.id]: { status: 'error', error } }))
+        }
+      )
+    })
+
+    return () => { cancelled = true }
+  }, [otherProfileKey, activeProfileId])
+
+  const dataFor = (profile: Profile): ProfileData =>
+    profile.id === activeProfileId
+      ? { status: 'ready', user: activeUserData, reviewStats: activeReviewStats }
+      : data[profile.id] ?? { status: 'loading' }
+
+  const renderBar = (label: string, value: number, colorClass: string) => (
+    <div>
+      <div className="flex justify-between text-xs mb-1">
+        <span className="text-wanikani-text-light dark:text-wanikani-text-light-dark">{label}</span>
+        <span className="font-semibold text-wanikani-text dark:text-wanikani-text-dark">{value.toFixed(1)}%</span>
+      </div>
+      <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+        <div className={`h-full ${colorClass}`} style={{ width: `${Math.min(100, value)}%` }} />
+      </div>
+    </div>
+  )
+
+  return (
+    <div>
+      <h2 className="text-xl font-bold text-wanikani-text dark:text-wanikani-text-dark mb-1">
+        {t('profiles.compareTitle')}
+      </h2>
+      <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark mb-4">
+        {t('profiles.compareSubtitle')}
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {profiles.map(profile => {
+          const profileData = dataFor(profile)
+          const summary = profileData.status === 'ready' ? summarizeAccuracy(profileData.reviewStats) : null
+
+          return (
+            <div
+              key={profile.id}
+              className={`bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border ${
+                profile.id === activeProfileId
+                  ? 'border-wanikani-pink'
+                  : 'border-wanikani-border dark:border-wanikani-border-dark'
+              }`}
+            >
+              <div className="flex items-center gap-3 mb-4">
+                <ProfileAvatar profile={profile} size="md" />
+                <div className="min-w-0">
+                  <div className="font-semibold text-wanikani-text dark:text-wanikani-text-dark truncate">
+                    {profileDisplayName(profile)}
+                  </div>
+                  {profileData.status === 'ready' && (
+                    <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark truncate">
+                      {profileData.user.username}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {profileData.status === 'loading' && (
+                <div className="flex items-center gap-2 text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  {t('loading')}
+                </div>
+              )}
+
+              {profileData.status === 'error' && (
+                <p className="text-sm text-red-500">{t(errorMessageKey(profileData.error))}</p>
+              )}
+
+              {profileData.status === 'ready' && summary && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('header.level')}</div>
+                      <div className="text-2xl font-bold text-wanikani-pink">{profileData.user.level}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('profiles.itemsReviewed')}</div>
+                      <div className="text-2xl font-bold text-wanikani-text dark:text-wanikani-text-dark">{summary.items.toLocaleString()}</div>
+                    </div>
+                  </div>
+                  {renderBar(t('profiles.accuracy'), summary.overall, 'bg-wanikani-pink')}
+                  {renderBar(t('profiles.meaningAccuracy'), summary.meaning, 'bg-wanikani-radical')}
+                  {renderBar(t('profiles.readingAccuracy'), summary.reading, 'bg-wanikani-kanji')}
+                  <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                    {t('profiles.totalAnswers').replace('{count}', summary.reviews.toLocaleString())}
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
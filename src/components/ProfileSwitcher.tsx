@@ -0,0 +1,109 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { ChevronDown, Check, UserPlus, Users } from 'lucide-react'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { type Profile, profileDisplayName } from '@/utils/profiles'
+
+interface ProfileSwitcherProps {
+  profiles: Profile[]
+  activeProfileId: string
+  onSelect: (id: string) => void
+  onAdd: () => void
+  onCompare: () => void
+}
+
+export function ProfileAvatar({ profile, size = 'sm' }: { profile: Profile; size?: 'sm' | 'md' }) {
+  const sizeClass = size === 'sm' ? 'w-6 h-6 text-xs' : 'w-10 h-10 text-base'
+  return (
+    <span
+      className={`${sizeClass} flex-shrink-0 rounded-full flex items-center justify-center text-white font-bold`}
+      style={{ backgroundColor: profile.color }}
+    >
+      {profileDisplayName(profile)[0]?.toUpperCase()}
+    </span>
+  )
+}
+
+export default function ProfileSwitcher({ profiles, activeProfileId, onSelect, onAdd, onCompare }: ProfileSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const dropdownRef = useRef<HTMLDivElement>(null)
+  const { t } = useLanguage()
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId)
+  if (!activeProfile) return null
+
+  const choose = (action: () => void) => {
+    setIsOpen(false)
+    action()
+  }
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark rounded-lg transition-colors text-sm"
+        title={t('profiles.switch')}
+      >
+        <ProfileAvatar profile={activeProfile} />
+        <span className="hidden sm:inline max-w-[8rem] truncate">{profileDisplayName(activeProfile)}</span>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-64 bg-white dark:bg-wanikani-card-dark border border-wanikani-border dark:border-wanikani-border-dark rounded-lg shadow-lg z-50 overflow-hidden">
+          <div className="py-1">
+            {profiles.map(profile => (
+              <button
+                key={profile.id}
+                onClick={() => choose(() => onSelect(profile.id))}
+                className="w-full px-4 py-2 text-left text-sm text-wanikani-text dark:text-wanikani-text-dark hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors flex items-center gap-3"
+              >
+                <ProfileAvatar profile={profile} />
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate">{profileDisplayName(profile)}</span>
+                  {profile.level !== undefined && (
+                    <span className="block text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                      {t('header.level')} {profile.level}{profile.username && profile.label ? ` · ${profile.username}` : ''}
+                    </span>
+                  )}
+                </span>
+                {profile.id === activeProfileId && <Check className="w-4 h-4 text-wanikani-pink" />}
+              </button>
+            ))}
+          </div>
+          <div className="border-t border-wanikani-border dark:border-wanikani-border-dark py-1">
+            <button
+              onClick={() => choose(onAdd)}
+              className="w-full px-4 py-2 text-left text-sm text-wanikani-text dark:text-wanikani-text-dark hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors flex items-center gap-3"
+            >
+              <UserPlus className="w-4 h-4" />
+              {t('profiles.add')}
+            </button>
+            {profiles.length > 1 && (
+              <button
+                onClick={() => choose(onCompare)}
+                className="w-full px-4 py-2 text-left text-sm text-wanikani-text dark:text-wanikani-text-dark hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors flex items-center gap-3"
+              >
+                <Users className="w-4 h-4" />
+                {t('profiles.compare')}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
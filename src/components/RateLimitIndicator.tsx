@@ -0,0 +1,50 @@
+'use client'
+
+import { Gauge } from 'lucide-react'
+import type { RateLimitBudget } from '@/types/wanikani'
+import { useLanguage } from '@/contexts/LanguageContext'
+
+interface RateLimitIndicatorProps {
+  budget: RateLimitBudget
+}
+
+function getBudgetColor(budget: RateLimitBudget): string {
+  if (budget.pausedUntil) return 'text-red-500'
+  const share = budget.limit > 0 ? budget.remaining / budget.limit : 0
+  if (share > 0.5) return 'text-green-500'
+  if (share > 0.2) return 'text-amber-500'
+  return 'text-red-500'
+}
+
+export default function RateLimitIndicator({ budget }: RateLimitIndicatorProps) {
+  const { t } = useLanguage()
+
+  const details = [
+    t('rateLimit.remaining')
+      .replace('{remaining}', String(budget.remaining))
+      .replace('{limit}', String(budget.limit))
+  ]
+  if (budget.queued > 0) {
+    details.push(t('rateLimit.queued').replace('{count}', String(budget.queued)))
+  }
+  if (budget.pausedUntil) {
+    details.push(t('rateLimit.pausedUntil').replace('{time}', new Date(budget.pausedUntil).toLocaleTimeString()))
+  }
+
+  return (
+    <div
+      className="flex items-center gap-1.5 px-3 py-2 bg-gray-100 dark:bg-gray-700 rounded-lg text-sm font-medium"
+      title={`${t('rateLimit.title')}: ${details.join(' · ')}`}
+    >
+      <Gauge className={`w-4 h-4 ${getBudgetColor(budget)}`} />
+      <span className="text-wanikani-text dark:text-wanikani-text-dark tabular-nums">
+        {budget.remaining}/{budget.limit}
+      </span>
+      {budget.queued > 0 && (
+        <span className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark tabular-nums">
+          +{budget.queued}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -2,24 +2,30 @@
 
 import { useState, useMemo, useRef, useCallback, useEffect } from 'react'
 import { Volume2, Eye, EyeOff, SkipForward, Shuffle, RotateCcw, ChevronDown, Check, X, Mic, MicOff, AlertCircle } from 'lucide-react'
-import type { Subject, Assignment, PronunciationAudio } from '@/types/wanikani'
+import type { Subject, Assignment, PronunciationAudio, SpacedRepetitionSystem } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
-import { WaniKaniService } from '@/services/wanikani'
+import type { WaniKaniService } from '@/services/wanikani'
 import { useSpeechRecognition } from '@/hooks/useSpeechRecognition'
 import { scorePronunciation, matchesAnyReading, type PronunciationScore } from '@/utils/japaneseCompare'
+import { pickPreferredAudio } from '@/utils/pronunciationAudio'
+import { resolveAudioUrl } from '@/services/audioLibrary'
+import { createSrsModels, getSrsModel, getStageGroup, getStageGroupColor, type SrsStageGroup } from '@/utils/srsModel'
 
 interface ReadingAloudPracticeProps {
   subjects: Subject[]
   assignments: Assignment[]
-  apiToken: string
+  srsSystems: SpacedRepetitionSystem[]
+  // The dashboard's service, so audio lookups share its rate-limit budget and queue
+  service: WaniKaniService
+  preferredVoiceActorId?: number // From the user's WaniKani preferences
 }
 
-type FilterType = 'all' | 'apprentice' | 'guru' | 'master' | 'enlightened' | 'burned'
+type FilterType = 'all' | SrsStageGroup
 type PracticeMode = 'manual' | 'voice'
 
 interface PracticeItem {
   subject: Subject
-  srsStage: number
+  stageGroup: SrsStageGroup | undefined
 }
 
 interface SessionStats {
@@ -28,7 +34,13 @@ interface SessionStats {
   incorrect: number
 }
 
-export default function ReadingAloudPractice({ subjects, assignments, apiToken }: ReadingAloudPracticeProps) {
+export default function ReadingAloudPractice({
+  subjects,
+  assignments,
+  srsSystems,
+  service: wanikaniService,
+  preferredVoiceActorId
+}: ReadingAloudPracticeProps) {
   const { t } = useLanguage()
   const [filter, setFilter] = useState<FilterType>('all')
   const [showMeaning, setShowMeaning] = useState(true)
@@ -60,9 +72,6 @@ export default function ReadingAloudPractice({ subjects, assignments, apiToken }
     stopListening,
     resetTranscript
   } = useSpeechRecognition({ lang: 'ja-JP' })
-  
-  // Memoize the WaniKani service
-  const wanikaniService = useMemo(() => new WaniKaniService(apiToken), [apiToken])
 
   // Check localStorage for privacy acceptance
   useEffect(() => {
@@ -85,16 +94,18 @@ export default function ReadingAloudPractice({ subjects, assignments, apiToken }
     }
   }, [autoAdvanceTimer])
 
-  // Build assignment map for SRS stage lookup
-  const assignmentMap = useMemo(() => {
-    const map = new Map<number, number>()
+  // SRS stage group per subject, from the subject's own SRS
+  const stageGroupMap = useMemo(() => {
+    const subjectById = new Map(subjects.map(s => [s.id, s]))
+    const srsModels = createSrsModels(srsSystems)
+    const map = new Map<number, SrsStageGroup>()
     assignments.forEach(a => {
       if (!a.data.hidden) {
-        map.set(a.data.subject_id, a.data.srs_stage)
+        map.set(a.data.subject_id, getStageGroup(getSrsModel(srsModels, subjectById.get(a.data.subject_id)), a.data.srs_stage))
       }
     })
     return map
-  }, [assignments])
+  }, [assignments, subjects, srsSystems])
 
   // Filter vocabulary subjects with readings
   const practiceItems = useMemo(() => {
@@ -102,22 +113,12 @@ export default function ReadingAloudPractice({ subjects, assignments, apiToken }
       .filter(s => (s.object === 'vocabulary' || s.object === 'kana_vocabulary') && s.data.readings?.length)
       .map(subject => ({
         subject,
-        srsStage: assignmentMap.get(subject.id) ?? -1
+        stageGroup: stageGroupMap.get(subject.id)
       }))
 
     // Apply SRS filter
     if (filter !== 'all') {
-      items = items.filter(item => {
-        const stage = item.srsStage
-        switch (filter) {
-          case 'apprentice': return stage >= 1 && stage <= 4
-          case 'guru': return stage >= 5 && stage <= 6
-          case 'master': return stage === 7
-          case 'enlightened': return stage === 8
-          case 'burned': return stage === 9
-          default: return true
-        }
-      })
+      items = items.filter(item => item.stageGroup === filter)
     }
 
     // Shuffle if enabled
@@ -130,7 +131,7 @@ export default function ReadingAloudPractice({ subjects, assignments, apiToken }
     }
 
     return items
-  }, [subjects, assignmentMap, filter, isShuffled, shuffleSeed])
+  }, [subjects, stageGroupMap, filter, isShuffled, shuffleSeed])
 
   const currentItem = practiceItems[currentIndex]
 
@@ -140,7 +141,11 @@ export default function ReadingAloudPractice({ subjects, assignments, apiToken }
     
     setLoadingAudio(true)
     try {
-      const details = await wanikaniService.getSubjectDetails(subjectId)
+      // Subjects are cached in full, so audio is usually available without a request
+      const local = subjects.find(s => s.id === subjectId)
+      const details = local?.data.pronunciation_audios
+        ? local
+        : await wanikaniService.getSubjectDetails(subjectId)
       if (details?.data.pronunciation_audios) {
         const audios = details.data.pronunciation_audios.filter(a => a.content_type === 'audio/mpeg')
         setAudioCache(prev => new Map(prev).set(subjectId, audios))
@@ -152,7 +157,7 @@ export default function ReadingAloudPractice({ subjects, assignments, apiToken }
       setLoadingAudio(false)
     }
     return []
-  }, [wanikaniService, audioCache])
+  }, [wanikaniService, audioCache, subjects])
 
   // Play audio
   const playAudio = useCallback(async () => {
@@ -165,8 +170,9 @@ export default function ReadingAloudPractice({ subjects, assignments, apiToken }
     
     if (!audios || audios.length === 0) return
     
-    // Use first audio
-    const audio = audios[0]
+    // The user's default voice actor, else the first recording
+    const audio = pickPreferredAudio(audios, preferredVoiceActorId)
+    if (!audio) return
     
     if (audioRef.current) {
       audioRef.current.pause()
@@ -174,14 +180,15 @@ export default function ReadingAloudPractice({ subjects, assignments, apiToken }
       audioRef.current.onerror = null
     }
     
-    const audioElement = new Audio(audio.url)
-    audioRef.current = audioElement
     setPlayingAudio(true)
+    // From the offline library when downloaded
+    const audioElement = new Audio(await resolveAudioUrl(audio.url))
+    audioRef.current = audioElement
     
     audioElement.onended = () => setPlayingAudio(false)
     audioElement.onerror = () => setPlayingAudio(false)
     audioElement.play().catch(() => setPlayingAudio(false))
-  }, [currentItem, audioCache, fetchAudio])
+  }, [currentItem, audioCache, fetchAudio, preferredVoiceActorId])
 
   // Advance to next item (shared logic)
   const advanceToNextItem = useCallback((correct: boolean) => {
@@ -388,16 +395,6 @@ export default function ReadingAloudPractice({ subjects, assignments, apiToken }
     setIsPracticing(true)
   }, [])
 
-  // Get SRS stage color
-  const getSrsColor = (stage: number) => {
-    if (stage >= 1 && stage <= 4) return 'bg-pink-500'
-    if (stage >= 5 && stage <= 6) return 'bg-purple-500'
-    if (stage === 7) return 'bg-blue-500'
-    if (stage === 8) return 'bg-cyan-500'
-    if (stage === 9) return 'bg-amber-500'
-    return 'bg-gray-400'
-  }
-
   // Session complete view
   if (isPracticing && currentIndex >= practiceItems.length && practiceItems.length > 0) {
     const accuracy = sessionStats.total > 0 
@@ -648,7 +645,7 @@ export default function ReadingAloudPractice({ subjects, assignments, apiToken }
         <div className="bg-gradient-to-b from-purple-50 to-white dark:from-purple-900/20 dark:to-wanikani-card-dark rounded-xl p-8 text-center">
           {/* SRS indicator */}
           <div className="flex justify-center mb-4">
-            <span className={`px-2 py-0.5 rounded text-xs text-white ${getSrsColor(currentItem.srsStage)}`}>
+            <span className={`px-2 py-0.5 rounded text-xs text-white ${getStageGroupColor(currentItem.stageGroup)}`}>
               {t('common.level')} {currentItem.subject.data.level}
             </span>
           </div>
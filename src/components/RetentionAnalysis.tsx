@@ -0,0 +1,358 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { RefreshCw, X } from 'lucide-react'
+import type { Review, Subject, SpacedRepetitionSystem } from '@/types/wanikani'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { errorMessageKey } from '@/services/errors'
+import {
+  filterReviewsByDays,
+  getRetentionMatrix,
+  getFailedItems,
+  RETENTION_SUBJECT_TYPES,
+  type RetentionCell,
+  type RetentionSubjectType
+} from '@/utils/reviewHistory'
+import { createSrsModels, getStageName } from '@/utils/srsModel'
+
+interface RetentionAnalysisProps {
+  reviews: Review[] | null
+  loading: boolean
+  error: unknown
+  onRefresh: () => void
+  subjects: Subject[]
+  srsSystems: SpacedRepetitionSystem[]
+}
+
+type RangeOption = 30 | 90 | 365 | 'all'
+
+const RANGE_OPTIONS: RangeOption[] = [30, 90, 365, 'all']
+
+// Fewer reviews than this and a rate says little, so it is shown greyed out
+const MIN_SAMPLE = 10
+
+const MAX_FAILED_ITEMS = 50
+
+interface Selection {
+  stage: number
+  type: RetentionSubjectType | null
+}
+
+function getSubjectTypeColor(type: string): string {
+  switch (type) {
+    case 'radical': return 'bg-wanikani-radical'
+    case 'kanji': return 'bg-wanikani-kanji'
+    case 'vocabulary':
+    case 'kana_vocabulary': return 'bg-wanikani-vocabulary'
+    default: return 'bg-gray-500'
+  }
+}
+
+function getDeltaClass(delta: number): string {
+  if (delta >= 0) return 'text-green-600 dark:text-green-400'
+  return 'text-red-600 dark:text-red-400'
+}
+
+function formatRate(cell: RetentionCell): string {
+  return cell.rate === null ? '—' : `${cell.rate.toFixed(1)}%`
+}
+
+export default function RetentionAnalysis({ reviews, loading, error, onRefresh, subjects, srsSystems }: RetentionAnalysisProps) {
+  const { t } = useLanguage()
+  const [range, setRange] = useState<RangeOption>(365)
+  const [selection, setSelection] = useState<Selection | null>(null)
+
+  // WaniKani's systems share their stage positions, so the standard one names every row
+  const srs = useMemo(() => createSrsModels(srsSystems).standard, [srsSystems])
+
+  const { inRange, matrix, weakest } = useMemo(() => {
+    const inRange = filterReviewsByDays(reviews || [], range === 'all' ? null : range)
+    const matrix = getRetentionMatrix(inRange, subjects, srsSystems)
+    const weakest = matrix.rows
+      .filter(row => row.all.rate !== null && row.all.total >= MIN_SAMPLE)
+      .sort((a, b) => (a.all.rate ?? 0) - (b.all.rate ?? 0))[0]
+    return { inRange, matrix, weakest }
+  }, [reviews, range, subjects, srsSystems])
+
+  // Pass rate per stage over each window, regardless of the selected range
+  const windows = useMemo(() => RANGE_OPTIONS.map(option => ({
+    option,
+    matrix: getRetentionMatrix(
+      filterReviewsByDays(reviews || [], option === 'all' ? null : option),
+      subjects,
+      srsSystems
+    )
+  })), [reviews, subjects, srsSystems])
+
+  const failedItems = useMemo(
+    () => selection ? getFailedItems(inRange, subjects, selection.stage, selection.type) : [],
+    [inRange, subjects, selection]
+  )
+
+  const typeLabel = (type: RetentionSubjectType | null): string => {
+    switch (type) {
+      case 'radical': return t('retention.radical')
+      case 'kanji': return t('retention.kanji')
+      case 'vocabulary': return t('retention.vocabulary')
+      default: return t('retention.all')
+    }
+  }
+
+  const rangeLabel = (option: RangeOption): string =>
+    option === 'all' ? t('history.allTime') : t('history.lastDays').replace('{days}', String(option))
+
+  const renderCell = (stage: number, type: RetentionSubjectType | null, cell: RetentionCell) => {
+    const overall = matrix.overall.rate
+    const isSelected = selection?.stage === stage && selection.type === type
+    const isSmall = cell.total < MIN_SAMPLE
+    const delta = cell.rate !== null && overall !== null ? cell.rate - overall : null
+
+    return (
+      <td key={type ?? 'all'} className="p-1">
+        <button
+          onClick={() => setSelection(isSelected ? null : { stage, type })}
+          disabled={cell.total === cell.passed}
+          title={t('retention.cellTitle')
+            .replace('{passed}', cell.passed.toLocaleString())
+            .replace('{total}', cell.total.toLocaleString())}
+          className={`w-full rounded px-2 py-1 text-center transition-colors disabled:cursor-default ${
+            isSelected
+              ? 'bg-wanikani-pink/10 ring-2 ring-wanikani-pink/50'
+              : 'hover:bg-gray-50 dark:hover:bg-gray-700 disabled:hover:bg-transparent'
+          } ${isSmall ? 'opacity-50' : ''}`}
+        >
+          <div className="font-semibold text-wanikani-text dark:text-wanikani-text-dark">{formatRate(cell)}</div>
+          <div className="text-[10px] text-wanikani-text-light dark:text-wanikani-text-light-dark">
+            n={cell.total.toLocaleString()}
+            {delta !== null && !isSmall && (
+              <span className={`ml-1 ${getDeltaClass(delta)}`}>
+                {delta >= 0 ? '+' : ''}{delta.toFixed(1)}
+              </span>
+            )}
+          </div>
+        </button>
+      </td>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-wanikani-text dark:text-wanikani-text-dark">
+            {t('retention.title')}
+          </h2>
+          <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('retention.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={range}
+            onChange={(e) => {
+              setRange(e.target.value === 'all' ? 'all' : Number(e.target.value) as RangeOption)
+              setSelection(null)
+            }}
+            className="bg-white dark:bg-wanikani-card-dark text-wanikani-text dark:text-wanikani-text-dark px-3 py-2 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark focus:outline-none focus:ring-2 focus:ring-wanikani-pink/50 text-sm"
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option} value={option}>{rangeLabel(option)}</option>
+            ))}
+          </select>
+          <button
+            onClick={onRefresh}
+            disabled={loading}
+            className="p-2 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark disabled:opacity-50 transition-colors"
+            title={t('header.refresh')}
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-4 text-sm text-red-600 dark:text-red-400">
+          {t(errorMessageKey(error)).replace('{seconds}', '60').replace('{status}', '')}
+        </div>
+      ) : reviews === null ? (
+        <div className="h-64 flex items-center justify-center text-wanikani-text-light dark:text-wanikani-text-light-dark">
+          {t('history.loading')}
+        </div>
+      ) : matrix.overall.total === 0 ? (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border border-wanikani-border dark:border-wanikani-border-dark text-wanikani-text-light dark:text-wanikani-text-light-dark text-sm">
+          {t('history.noData')}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('retention.overall')}</div>
+              <div className="text-wanikani-pink font-bold">{formatRate(matrix.overall)}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('history.totalReviews')}</div>
+              <div className="text-wanikani-cyan font-bold">{matrix.overall.total.toLocaleString()}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('retention.failed')}</div>
+              <div className="text-red-500 font-bold">{(matrix.overall.total - matrix.overall.passed).toLocaleString()}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('retention.weakestStage')}</div>
+              <div className="text-wanikani-text dark:text-wanikani-text-dark font-bold">
+                {weakest ? `${getStageName(srs, weakest.stage)} (${formatRate(weakest.all)})` : '—'}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-1">{t('retention.matrixTitle')}</h3>
+            <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-2">
+              {t('retention.matrixSubtitle').replace('{min}', String(MIN_SAMPLE))}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs border-collapse">
+                <thead>
+                  <tr className="text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                    <th className="p-1 text-left">{t('retention.stage')}</th>
+                    <th className="p-1 font-medium">{t('retention.all')}</th>
+                    {RETENTION_SUBJECT_TYPES.map(type => (
+                      <th key={type} className="p-1 font-medium">{typeLabel(type)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {matrix.rows.map(row => (
+                    <tr key={row.stage} className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+                      <td className="p-1 text-left whitespace-nowrap text-wanikani-text dark:text-wanikani-text-dark">
+                        {getStageName(srs, row.stage)}
+                        <span className="ml-1 text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                          → {getStageName(srs, row.stage + 1)}
+                        </span>
+                      </td>
+                      {renderCell(row.stage, null, row.all)}
+                      {RETENTION_SUBJECT_TYPES.map(type => renderCell(row.stage, type, row.byType[type]))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {selection && (
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-sm font-semibold text-wanikani-text dark:text-wanikani-text-dark">
+                  {t('retention.failedTitle')
+                    .replace('{stage}', getStageName(srs, selection.stage))
+                    .replace('{type}', typeLabel(selection.type))}
+                </h3>
+                <button
+                  onClick={() => setSelection(null)}
+                  className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-wanikani-text-light dark:text-wanikani-text-light-dark"
+                  title={t('retention.close')}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              {failedItems.length === 0 ? (
+                <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('retention.noFailures')}</p>
+              ) : (
+                <>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-xs text-left text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                          <th className="p-2">{t('retention.item')}</th>
+                          <th className="p-2 text-right">{t('retention.failures')}</th>
+                          <th className="p-2">{t('retention.droppedTo')}</th>
+                          <th className="p-2">{t('retention.lastFailed')}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {failedItems.slice(0, MAX_FAILED_ITEMS).map(item => {
+                          const subject = item.subject
+                          const label = subject ? subject.data.characters || subject.data.slug : `#${item.subjectId}`
+                          return (
+                            <tr key={item.subjectId} className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+                              <td className="p-2">
+                                {subject ? (
+                                  <a
+                                    href={subject.data.document_url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className={`inline-block px-2 py-0.5 rounded text-white font-japanese hover:opacity-80 ${getSubjectTypeColor(subject.object)}`}
+                                  >
+                                    {label}
+                                  </a>
+                                ) : (
+                                  <span className="text-wanikani-text-light dark:text-wanikani-text-light-dark">{label}</span>
+                                )}
+                              </td>
+                              <td className="p-2 text-right text-wanikani-text dark:text-wanikani-text-dark">
+                                {item.failures} / {item.reviews}
+                              </td>
+                              <td className="p-2 text-wanikani-text dark:text-wanikani-text-dark">
+                                {getStageName(srs, item.lowestEndingStage)}
+                              </td>
+                              <td className="p-2 text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                                {new Date(item.lastFailedAt).toLocaleDateString()}
+                              </td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  {failedItems.length > MAX_FAILED_ITEMS && (
+                    <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mt-2">
+                      {t('retention.moreItems').replace('{count}', String(failedItems.length - MAX_FAILED_ITEMS))}
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-1">{t('retention.windowsTitle')}</h3>
+            <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-2">{t('retention.windowsSubtitle')}</p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs text-center border-collapse">
+                <thead>
+                  <tr className="text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                    <th className="p-1 text-left">{t('retention.stage')}</th>
+                    {windows.map(column => (
+                      <th key={column.option} className="p-1 font-medium">{rangeLabel(column.option)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {[null as number | null].concat(matrix.rows.map(row => row.stage)).map(stage => (
+                    <tr key={stage ?? 'overall'} className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+                      <td className="p-1 text-left whitespace-nowrap text-wanikani-text dark:text-wanikani-text-dark">
+                        {stage === null ? t('retention.overall') : getStageName(srs, stage)}
+                      </td>
+                      {windows.map(column => {
+                        const cell = stage === null
+                          ? column.matrix.overall
+                          : column.matrix.rows.find(row => row.stage === stage)?.all
+                        return (
+                          <td
+                            key={column.option}
+                            className={`p-1 text-wanikani-text dark:text-wanikani-text-dark ${!cell || cell.total < MIN_SAMPLE ? 'opacity-50' : ''} ${stage === null ? 'font-semibold' : ''}`}
+                            title={cell ? `n=${cell.total.toLocaleString()}` : undefined}
+                          >
+                            {cell ? formatRate(cell) : '—'}
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -11,15 +11,19 @@ import {
   Legend,
 } from 'chart.js'
 import { ArrowLeft } from 'lucide-react'
-import type { Assignment, Summary } from '@/types/wanikani'
+import type { Assignment, Subject, SpacedRepetitionSystem, Summary } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
 import { useTheme } from '@/contexts/ThemeContext'
+import { createSrsModels, getSrsModel, isBurnedStage } from '@/utils/srsModel'
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend)
 
 interface ReviewForecastProps {
   assignments: Assignment[]
   summary: Summary | null
+  subjects: Subject[]
+  // Burning stage per subject's SRS system
+  srsSystems: SpacedRepetitionSystem[]
 }
 
 // Workload thresholds
@@ -52,12 +56,23 @@ function startOfDay(date: Date): Date {
   return d
 }
 
-export default function ReviewForecast({ assignments, summary }: ReviewForecastProps) {
+export default function ReviewForecast({ assignments, summary, subjects, srsSystems }: ReviewForecastProps) {
   const { t } = useLanguage()
   const { isDark } = useTheme()
   const chartRef = useRef<any>(null)
   const [selectedDay, setSelectedDay] = useState<number | null>(null)
 
+  // Assignments that still come up for review
+  const pendingAssignments = useMemo(() => {
+    const subjectById = new Map(subjects.map(s => [s.id, s]))
+    const srsModels = createSrsModels(srsSystems)
+    return assignments.filter(a =>
+      !a.data.hidden &&
+      a.data.available_at &&
+      !isBurnedStage(getSrsModel(srsModels, subjectById.get(a.data.subject_id)), a.data.srs_stage)
+    )
+  }, [assignments, subjects, srsSystems])
+
   // Calculate hourly data for a specific day
   const getHourlyData = (dayIndex: number) => {
     const now = new Date()
@@ -69,10 +84,8 @@ export default function ReviewForecast({ assignments, summary }: ReviewForecastP
 
     const hourlyCounts: number[] = Array(24).fill(0)
 
-    assignments.forEach(a => {
-      if (a.data.hidden || a.data.srs_stage === 9 || !a.data.available_at) return
-
-      const availableAt = new Date(a.data.available_at)
+    pendingAssignments.forEach(a => {
+      const availableAt = new Date(a.data.available_at!)
 
       // For today (dayIndex 0), include overdue items in current hour
       if (dayIndex === 0 && availableAt < now) {
@@ -119,10 +132,8 @@ export default function ReviewForecast({ assignments, summary }: ReviewForecastP
     let overdueCount = 0
 
     // Count reviews from assignments based on available_at
-    assignments.forEach(a => {
-      if (a.data.hidden || a.data.srs_stage === 9 || !a.data.available_at) return
-      
-      const availableAt = new Date(a.data.available_at)
+    pendingAssignments.forEach(a => {
+      const availableAt = new Date(a.data.available_at!)
       const availableStart = startOfDay(availableAt)
       
       // Check if overdue (available before today)
@@ -176,7 +187,7 @@ export default function ReviewForecast({ assignments, summary }: ReviewForecastP
       labels,
       dayDates
     }
-  }, [assignments])
+  }, [pendingAssignments])
 
   // Hourly data for selected day
   const hourlyData = useMemo(() => {
@@ -192,7 +203,7 @@ export default function ReviewForecast({ assignments, summary }: ReviewForecastP
     })
     
     return hoursWithReviews
-  }, [selectedDay, assignments])
+  }, [selectedDay, pendingAssignments])
 
   // Format hour as "9 AM", "2 PM", etc.
   const formatHour = (hour: number): string => {
@@ -0,0 +1,323 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Chart } from 'react-chartjs-2'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  BarController,
+  LineElement,
+  LineController,
+  PointElement,
+  Tooltip,
+  Legend,
+} from 'chart.js'
+import { RefreshCw } from 'lucide-react'
+import type { Review, SpacedRepetitionSystem } from '@/types/wanikani'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { useTheme } from '@/contexts/ThemeContext'
+import { errorMessageKey } from '@/services/errors'
+import {
+  filterReviewsByDays,
+  getDailyReviewStats,
+  getRollingAccuracy,
+  getStageTransitionMatrix,
+  getReviewsByHour
+} from '@/utils/reviewHistory'
+import { createSrsModels, getReviewStages, getStageName } from '@/utils/srsModel'
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  BarController,
+  LineElement,
+  LineController,
+  PointElement,
+  Tooltip,
+  Legend
+)
+
+interface ReviewHistoryProps {
+  reviews: Review[] | null
+  loading: boolean
+  error: unknown
+  onRefresh: () => void
+  // Stage names and positions for the transition table
+  srsSystems: SpacedRepetitionSystem[]
+}
+
+type RangeOption = 30 | 90 | 365 | 'all'
+
+const RANGE_OPTIONS: RangeOption[] = [30, 90, 365, 'all']
+
+function getTransitionCellClass(start: number, end: number, count: number, isDark: boolean): string {
+  if (count === 0) return 'text-wanikani-text-light dark:text-wanikani-text-light-dark'
+  if (end > start) return isDark ? 'bg-green-900/40 text-green-300' : 'bg-green-50 text-green-700'
+  return isDark ? 'bg-red-900/40 text-red-300' : 'bg-red-50 text-red-700'
+}
+
+export default function ReviewHistory({ reviews, loading, error, onRefresh, srsSystems }: ReviewHistoryProps) {
+  const { t } = useLanguage()
+  const { isDark } = useTheme()
+  const [range, setRange] = useState<RangeOption>(90)
+
+  // WaniKani's systems share their stage positions, so one layout fits every review
+  const { srs, reviewableStages, endingStages } = useMemo(() => {
+    const srs = createSrsModels(srsSystems).standard
+    // Stages a review can start from (lessons and burned items are never reviewed)
+    const reviewableStages = getReviewStages(srs)
+    return { srs, reviewableStages, endingStages: reviewableStages.concat(srs.burningStage) }
+  }, [srsSystems])
+
+  const { daily, rolling, matrix, hourly, totals } = useMemo(() => {
+    const inRange = filterReviewsByDays(reviews || [], range === 'all' ? null : range)
+    const daily = getDailyReviewStats(inRange)
+    const correct = daily.reduce((sum, d) => sum + d.correct, 0)
+    const activeDays = daily.filter(d => d.total > 0).length
+    const busiest = daily.reduce<typeof daily[number] | null>(
+      (best, d) => (!best || d.total > best.total ? d : best),
+      null
+    )
+
+    return {
+      daily,
+      rolling: getRollingAccuracy(daily),
+      matrix: getStageTransitionMatrix(inRange),
+      hourly: getReviewsByHour(inRange),
+      totals: {
+        reviews: inRange.length,
+        accuracy: inRange.length > 0 ? (correct / inRange.length) * 100 : 0,
+        perActiveDay: activeDays > 0 ? inRange.length / activeDays : 0,
+        busiest
+      }
+    }
+  }, [reviews, range])
+
+  const textColor = isDark ? '#a0a0a0' : '#666666'
+  const gridColor = isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)'
+
+  const dailyData = {
+    labels: daily.map(d => d.day),
+    datasets: [
+      {
+        type: 'bar' as const,
+        label: t('history.reviews'),
+        data: daily.map(d => d.total),
+        backgroundColor: 'rgba(0, 170, 255, 0.6)',
+        borderRadius: 2,
+        yAxisID: 'y',
+        order: 2
+      },
+      {
+        type: 'line' as const,
+        label: t('history.rollingAccuracy'),
+        data: rolling,
+        borderColor: '#ff00aa',
+        backgroundColor: '#ff00aa',
+        pointRadius: 0,
+        borderWidth: 2,
+        tension: 0.3,
+        spanGaps: true,
+        yAxisID: 'y1',
+        order: 1
+      }
+    ]
+  }
+
+  const dailyOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: { labels: { color: textColor } }
+    },
+    scales: {
+      x: {
+        ticks: { color: textColor, maxTicksLimit: 12, maxRotation: 0 },
+        grid: { display: false }
+      },
+      y: {
+        beginAtZero: true,
+        title: { display: true, text: t('history.reviews'), color: textColor },
+        ticks: { color: textColor },
+        grid: { color: gridColor }
+      },
+      y1: {
+        position: 'right' as const,
+        min: 0,
+        max: 100,
+        title: { display: true, text: t('history.accuracy'), color: textColor },
+        ticks: { color: textColor, callback: (value: number | string) => `${value}%` },
+        grid: { drawOnChartArea: false }
+      }
+    }
+  }
+
+  const hourlyData = {
+    labels: hourly.map(h => `${h.hour}:00`),
+    datasets: [
+      {
+        type: 'bar' as const,
+        label: t('history.correct'),
+        data: hourly.map(h => h.correct),
+        backgroundColor: 'rgba(34, 197, 94, 0.7)',
+        stack: 'answers'
+      },
+      {
+        type: 'bar' as const,
+        label: t('history.incorrect'),
+        data: hourly.map(h => h.total - h.correct),
+        backgroundColor: 'rgba(239, 68, 68, 0.7)',
+        stack: 'answers'
+      }
+    ]
+  }
+
+  const hourlyOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { labels: { color: textColor } },
+      tooltip: {
+        callbacks: {
+          footer: (items: any[]) => {
+            const hour = hourly[items[0]?.dataIndex ?? 0]
+            return hour && hour.total > 0 ? `${t('history.accuracy')}: ${hour.accuracy.toFixed(1)}%` : ''
+          }
+        }
+      }
+    },
+    scales: {
+      x: { stacked: true, ticks: { color: textColor }, grid: { display: false } },
+      y: { stacked: true, beginAtZero: true, ticks: { color: textColor }, grid: { color: gridColor } }
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-wanikani-text dark:text-wanikani-text-dark">
+            {t('history.title')}
+          </h2>
+          <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('history.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={range}
+            onChange={(e) => setRange(e.target.value === 'all' ? 'all' : Number(e.target.value) as RangeOption)}
+            className="bg-white dark:bg-wanikani-card-dark text-wanikani-text dark:text-wanikani-text-dark px-3 py-2 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark focus:outline-none focus:ring-2 focus:ring-wanikani-pink/50 text-sm"
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option} value={option}>
+                {option === 'all' ? t('history.allTime') : t('history.lastDays').replace('{days}', String(option))}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onRefresh}
+            disabled={loading}
+            className="p-2 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark disabled:opacity-50 transition-colors"
+            title={t('header.refresh')}
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-4 text-sm text-red-600 dark:text-red-400">
+          {t(errorMessageKey(error)).replace('{seconds}', '60').replace('{status}', '')}
+        </div>
+      ) : reviews === null ? (
+        <div className="h-64 flex items-center justify-center text-wanikani-text-light dark:text-wanikani-text-light-dark">
+          {t('history.loading')}
+        </div>
+      ) : totals.reviews === 0 ? (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border border-wanikani-border dark:border-wanikani-border-dark text-wanikani-text-light dark:text-wanikani-text-light-dark text-sm">
+          {t('history.noData')}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('history.totalReviews')}</div>
+              <div className="text-wanikani-cyan font-bold">{totals.reviews.toLocaleString()}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('history.accuracy')}</div>
+              <div className="text-wanikani-pink font-bold">{totals.accuracy.toFixed(1)}%</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('history.perActiveDay')}</div>
+              <div className="text-wanikani-vocabulary font-bold">{Math.round(totals.perActiveDay)}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('history.busiestDay')}</div>
+              <div className="text-wanikani-text dark:text-wanikani-text-dark font-bold">
+                {totals.busiest ? `${totals.busiest.day} (${totals.busiest.total})` : '—'}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-2">{t('history.dailyTitle')}</h3>
+            <div className="h-64">
+              <Chart type="bar" data={dailyData} options={dailyOptions} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-2">{t('history.hourlyTitle')}</h3>
+              <div className="h-64">
+                <Chart type="bar" data={hourlyData} options={hourlyOptions} />
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-1">{t('history.transitionsTitle')}</h3>
+              <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-2">{t('history.transitionsSubtitle')}</p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs text-center border-collapse">
+                  <thead>
+                    <tr className="text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                      <th className="p-1 text-left">{t('history.fromTo')}</th>
+                      {endingStages.map(end => (
+                        <th key={end} className="p-1 font-medium" title={getStageName(srs, end)}>{end}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reviewableStages.map(start => (
+                      <tr key={start} className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+                        <td className="p-1 text-left whitespace-nowrap text-wanikani-text dark:text-wanikani-text-dark">
+                          {getStageName(srs, start)}
+                        </td>
+                        {endingStages.map(end => {
+                          const count = matrix[start]?.[end] ?? 0
+                          return (
+                            <td
+                              key={end}
+                              className={`p-1 ${getTransitionCellClass(start, end, count, isDark)}`}
+                              title={`${getStageName(srs, start)} → ${getStageName(srs, end)}: ${count}`}
+                            >
+                              {count > 0 ? count.toLocaleString() : '·'}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
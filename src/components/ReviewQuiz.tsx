@@ -0,0 +1,462 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { AlertCircle, Check, GraduationCap, Loader2, Play, RotateCcw, Send, X } from 'lucide-react'
+import type { Assignment, Subject } from '@/types/wanikani'
+import { useLanguage } from '@/contexts/LanguageContext'
+import type { WaniKaniService } from '@/services/wanikani'
+import { WaniKaniError, errorMessageKey } from '@/services/errors'
+import { useWanaKanaBind } from '@/hooks/useWanaKana'
+import type { UseStudyMaterialsResult } from '@/hooks/useStudyMaterials'
+import { checkAnswer, hasReadingQuestion, type AnswerCheckResult, type QuestionType } from '@/utils/answerChecking'
+
+interface ReviewQuizProps {
+  service: WaniKaniService
+  subjects: Subject[]
+  assignments: Assignment[]
+  // The user's meaning synonyms count as correct answers
+  studyMaterials: UseStudyMaterialsResult
+  // Opt-in for write calls; submitting needs the reviews:create permission
+  writesEnabled: boolean
+  onWritesEnabledChange: (enabled: boolean) => void
+  // Called after reviews were recorded on WaniKani, to reload the queue
+  onReviewsSubmitted: () => void
+}
+
+type QuizPhase = 'start' | 'loading' | 'quiz' | 'results'
+
+interface QuizItem {
+  subject: Subject
+  assignmentId: number
+  incorrectMeaning: number
+  incorrectReading: number
+  meaningDone: boolean
+  readingDone: boolean
+}
+
+interface Question {
+  subjectId: number
+  type: QuestionType
+}
+
+type SubmitStatus = 'pending' | 'submitted' | 'failed'
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    const swap = result[i]
+    result[i] = result[j]
+    result[j] = swap
+  }
+  return result
+}
+
+function getSubjectTypeColor(type: string): string {
+  switch (type) {
+    case 'radical': return 'bg-wanikani-radical'
+    case 'kanji': return 'bg-wanikani-kanji'
+    default: return 'bg-wanikani-vocabulary'
+  }
+}
+
+export default function ReviewQuiz({
+  service,
+  subjects,
+  assignments,
+  studyMaterials,
+  writesEnabled,
+  onWritesEnabledChange,
+  onReviewsSubmitted
+}: ReviewQuizProps) {
+  const { t } = useLanguage()
+  const [phase, setPhase] = useState<QuizPhase>('start')
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [items, setItems] = useState<Map<number, QuizItem>>(new Map())
+  const [queue, setQueue] = useState<Question[]>([])
+  const [answer, setAnswer] = useState('')
+  const [check, setCheck] = useState<AnswerCheckResult | null>(null)
+  const [submitStatus, setSubmitStatus] = useState<Map<number, SubmitStatus>>(new Map())
+  const [submitting, setSubmitting] = useState(false)
+  const [submitError, setSubmitError] = useState<unknown>(null)
+  const meaningInputRef = useRef<HTMLInputElement>(null)
+  const readingInputRef = useRef<HTMLInputElement | null>(null)
+  // Romaji typed in the reading field turns into kana as you type
+  const { ref: bindReadingInput } = useWanaKanaBind({ enabled: true, inputRef: readingInputRef })
+
+  const subjectMap = useMemo(() => new Map(subjects.map(subject => [subject.id, subject])), [subjects])
+  const assignmentBySubject = useMemo(
+    () => new Map(assignments.map(assignment => [assignment.data.subject_id, assignment])),
+    [assignments]
+  )
+
+  const question = queue[0]
+  const currentItem = question ? items.get(question.subjectId) : undefined
+
+  useEffect(() => {
+    if (phase !== 'quiz' || !question) return
+    const input = question.type === 'meaning' ? meaningInputRef.current : readingInputRef.current
+    input?.focus()
+  }, [phase, question])
+
+  // Reviews due now: every summary bucket that is already available
+  const startSession = async () => {
+    setPhase('loading')
+    setLoadError(null)
+    try {
+      const summary = await service.getSummary()
+      const now = Date.now()
+      const subjectIds = new Set<number>()
+      summary.data.reviews
+        .filter(bucket => Date.parse(bucket.available_at) <= now)
+        .forEach(bucket => bucket.subject_ids.forEach(id => subjectIds.add(id)))
+
+      const nextItems = new Map<number, QuizItem>()
+      const questions: Question[] = []
+      subjectIds.forEach(id => {
+        const subject = subjectMap.get(id)
+        const assignment = assignmentBySubject.get(id)
+        if (!subject || !assignment) return
+        nextItems.set(id, {
+          subject,
+          assignmentId: assignment.id,
+          incorrectMeaning: 0,
+          incorrectReading: 0,
+          meaningDone: false,
+          readingDone: !hasReadingQuestion(subject)
+        })
+        questions.push({ subjectId: id, type: 'meaning' })
+        if (hasReadingQuestion(subject)) questions.push({ subjectId: id, type: 'reading' })
+      })
+
+      setItems(nextItems)
+      setQueue(shuffle(questions))
+      setSubmitStatus(new Map())
+      setSubmitError(null)
+      setAnswer('')
+      setCheck(null)
+      setPhase(questions.length > 0 ? 'quiz' : 'results')
+    } catch (error) {
+      console.error('Error loading reviews:', error)
+      setLoadError(error)
+      setPhase('start')
+    }
+  }
+
+  const handleAnswer = () => {
+    if (!question || !currentItem) return
+
+    // Second Enter after a verdict moves on
+    if (check && check.verdict !== 'retry') {
+      nextQuestion()
+      return
+    }
+
+    const result = checkAnswer(currentItem.subject, question.type, answer, {
+      userSynonyms: studyMaterials.bySubject?.get(question.subjectId)?.data.meaning_synonyms
+    })
+    setCheck(result)
+    if (result.verdict === 'retry') return
+
+    setItems(previous => {
+      const next = new Map(previous)
+      const item = { ...currentItem }
+      if (result.verdict === 'correct') {
+        if (question.type === 'meaning') item.meaningDone = true
+        else item.readingDone = true
+      } else if (question.type === 'meaning') {
+        item.incorrectMeaning++
+      } else {
+        item.incorrectReading++
+      }
+      next.set(question.subjectId, item)
+      return next
+    })
+  }
+
+  // Wrong answers come back later in the session, as on WaniKani
+  const nextQuestion = () => {
+    const [current, ...rest] = queue
+    const remaining = check?.verdict === 'incorrect'
+      ? (() => {
+          const position = Math.min(rest.length, 3 + Math.floor(Math.random() * 5))
+          return [...rest.slice(0, position), current, ...rest.slice(position)]
+        })()
+      : rest
+    setQueue(remaining)
+    setAnswer('')
+    setCheck(null)
+    if (remaining.length === 0) setPhase('results')
+  }
+
+  const finishedItems = useMemo(
+    () => Array.from(items.values()).filter(item => item.meaningDone && item.readingDone),
+    [items]
+  )
+  const correctItems = finishedItems.filter(item => item.incorrectMeaning + item.incorrectReading === 0).length
+  const unsubmitted = finishedItems.filter(item => submitStatus.get(item.subject.id) !== 'submitted')
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    setSubmitError(null)
+    let submitted = 0
+    for (const item of unsubmitted) {
+      try {
+        await service.submitReview({
+          assignment_id: item.assignmentId,
+          incorrect_meaning_answers: item.incorrectMeaning,
+          incorrect_reading_answers: item.incorrectReading
+        })
+        submitted++
+        setSubmitStatus(previous => new Map(previous).set(item.subject.id, 'submitted'))
+      } catch (error) {
+        console.error(`Error submitting review for subject ${item.subject.id}:`, error)
+        setSubmitStatus(previous => new Map(previous).set(item.subject.id, 'failed'))
+        // Without write access or permission every other call would fail the same way
+        if (error instanceof WaniKaniError && (error.kind === 'writeDisabled' || error.kind === 'forbidden' || error.kind === 'auth')) {
+          setSubmitError(error)
+          break
+        }
+      }
+    }
+    setSubmitting(false)
+    if (submitted > 0) onReviewsSubmitted()
+  }
+
+  const renderNotice = (result: AnswerCheckResult) => {
+    switch (result.notice) {
+      case 'typo': return t('quiz.notice.typo').replace('{answer}', result.matched ?? '')
+      case 'readingInMeaning': return t('quiz.notice.readingInMeaning')
+      case 'meaningInReading': return t('quiz.notice.meaningInReading')
+      case 'otherReadingType': return t('quiz.notice.otherReadingType')
+        .replace('{type}', t(`quiz.readingType.${result.expectedReadingType}`))
+      case 'singleN': return t('quiz.notice.singleN')
+      case 'notKana': return t('quiz.notice.notKana')
+      case 'empty': return t('quiz.notice.empty')
+      default: return null
+    }
+  }
+
+  const header = (
+    <div>
+      <h3 className="text-lg font-semibold text-wanikani-text dark:text-wanikani-text-dark flex items-center gap-2">
+        <GraduationCap className="w-5 h-5 text-wanikani-pink" />
+        {t('quiz.title')}
+      </h3>
+      <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('quiz.subtitle')}</p>
+    </div>
+  )
+
+  if (phase === 'start' || phase === 'loading') {
+    return (
+      <div className="space-y-6">
+        {header}
+        <div className="text-center py-8">
+          <button
+            onClick={startSession}
+            disabled={phase === 'loading'}
+            className="inline-flex items-center gap-2 px-6 py-3 bg-wanikani-pink hover:bg-pink-600 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            {phase === 'loading' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            {t('quiz.start')}
+          </button>
+          {loadError !== null && (
+            <p className="mt-3 text-sm text-red-500">
+              {t(errorMessageKey(loadError))
+                .replace('{seconds}', '60')
+                .replace('{status}', loadError instanceof WaniKaniError && loadError.status ? String(loadError.status) : '')}
+            </p>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (phase === 'results') {
+    const accuracy = finishedItems.length > 0 ? Math.round((correctItems / finishedItems.length) * 100) : 0
+    return (
+      <div className="space-y-6">
+        {header}
+        {finishedItems.length === 0 ? (
+          <div className="text-center py-12 text-wanikani-text-light dark:text-wanikani-text-light-dark">
+            <div className="text-4xl mb-4">🎉</div>
+            <p>{t('quiz.noReviews')}</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-wanikani-text dark:text-wanikani-text-dark">{finishedItems.length}</div>
+                <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('quiz.reviewed')}</div>
+              </div>
+              <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-green-500">{correctItems}</div>
+                <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('quiz.allCorrect')}</div>
+              </div>
+              <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-wanikani-pink">{accuracy}%</div>
+                <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('quiz.accuracy')}</div>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {finishedItems.map(item => {
+                const mistakes = item.incorrectMeaning + item.incorrectReading
+                const status = submitStatus.get(item.subject.id)
+                return (
+                  <div
+                    key={item.subject.id}
+                    title={t('quiz.itemMistakes')
+                      .replace('{meaning}', String(item.incorrectMeaning))
+                      .replace('{reading}', String(item.incorrectReading))}
+                    className={`relative px-3 py-2 rounded-lg text-white japanese-text text-lg ${getSubjectTypeColor(item.subject.object)} ${
+                      mistakes > 0 ? 'ring-2 ring-red-500' : ''
+                    }`}
+                  >
+                    {item.subject.data.characters ?? item.subject.data.meanings[0]?.meaning}
+                    {status === 'submitted' && <Check className="absolute -top-1 -right-1 w-4 h-4 bg-green-500 rounded-full p-0.5" />}
+                    {status === 'failed' && <X className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 rounded-full p-0.5" />}
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="border-t border-wanikani-border dark:border-wanikani-border-dark pt-4 space-y-3">
+              <label className="flex items-start gap-2 text-sm text-wanikani-text dark:text-wanikani-text-dark cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={writesEnabled}
+                  onChange={(e) => onWritesEnabledChange(e.target.checked)}
+                  className="mt-0.5 accent-wanikani-pink"
+                />
+                <span>
+                  {t('quiz.allowWrites')}
+                  <span className="block text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                    {t('quiz.allowWritesHint')}
+                  </span>
+                </span>
+              </label>
+              <div className="flex flex-wrap items-center gap-3">
+                <button
+                  onClick={handleSubmit}
+                  disabled={!writesEnabled || submitting || unsubmitted.length === 0}
+                  className="flex items-center gap-2 bg-wanikani-pink hover:bg-pink-600 text-white px-4 py-2 rounded-lg transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  {t('quiz.submit').replace('{count}', String(unsubmitted.length))}
+                </button>
+                {submitError !== null && (
+                  <span className="text-sm text-red-500">
+                    {t(errorMessageKey(submitError))
+                      .replace('{seconds}', '60')
+                      .replace('{status}', submitError instanceof WaniKaniError && submitError.status ? String(submitError.status) : '')}
+                  </span>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+        <button
+          onClick={startSession}
+          className="inline-flex items-center gap-2 px-4 py-2 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark rounded-lg transition-colors text-sm"
+        >
+          <RotateCcw className="w-4 h-4" />
+          {t('quiz.restart')}
+        </button>
+      </div>
+    )
+  }
+
+  const subject = currentItem?.subject
+  const isReading = question?.type === 'reading'
+  const answered = check !== null && check.verdict !== 'retry'
+  const remainingItems = Array.from(items.values()).filter(item => !item.meaningDone || !item.readingDone).length
+  const inputClass = (visible: boolean) => `w-full px-4 py-3 text-center text-xl rounded-lg border-2 focus:outline-none ${
+    visible ? '' : 'hidden'
+  } ${
+    answered && check?.verdict === 'correct'
+      ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+      : answered
+        ? 'border-red-500 bg-red-50 dark:bg-red-900/20'
+        : 'border-wanikani-border dark:border-wanikani-border-dark bg-white dark:bg-gray-800'
+  } text-wanikani-text dark:text-wanikani-text-dark`
+  const notice = check ? renderNotice(check) : null
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        {header}
+        <div className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark text-right">
+          {t('quiz.progress')
+            .replace('{done}', String(finishedItems.length))
+            .replace('{remaining}', String(remainingItems))}
+        </div>
+      </div>
+
+      {subject && (
+        <div className="max-w-xl mx-auto space-y-4">
+          <div className={`rounded-xl py-10 text-center text-white ${getSubjectTypeColor(subject.object)}`}>
+            <div className="text-6xl japanese-text">{subject.data.characters ?? subject.data.meanings[0]?.meaning}</div>
+          </div>
+          <div className={`text-center text-sm font-semibold py-1 rounded ${
+            isReading ? 'bg-gray-800 text-white dark:bg-gray-200 dark:text-gray-900' : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-100'
+          }`}>
+            {t(`quiz.prompt.${subject.object}.${question.type}`)}
+          </div>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleAnswer()
+            }}
+          >
+            <input
+              ref={meaningInputRef}
+              value={isReading ? '' : answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              readOnly={answered}
+              placeholder={t('quiz.meaningPlaceholder')}
+              autoComplete="off"
+              className={inputClass(!isReading)}
+            />
+            <input
+              ref={bindReadingInput}
+              value={isReading ? answer : ''}
+              onChange={(e) => setAnswer(e.target.value)}
+              readOnly={answered}
+              placeholder={t('quiz.readingPlaceholder')}
+              lang="ja"
+              autoComplete="off"
+              className={`${inputClass(isReading)} japanese-text`}
+            />
+          </form>
+
+          {notice && (
+            <div className={`flex items-center gap-2 text-sm ${check?.verdict === 'retry' ? 'text-amber-600 dark:text-amber-400' : 'text-wanikani-text-light dark:text-wanikani-text-light-dark'}`}>
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              {notice}
+            </div>
+          )}
+
+          {answered && check?.verdict === 'incorrect' && (
+            <div className="text-sm text-wanikani-text dark:text-wanikani-text-dark">
+              <span className="text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('quiz.correctAnswers')} </span>
+              <span className={isReading ? 'japanese-text' : ''}>
+                {isReading
+                  ? (subject.data.readings ?? []).map(r => r.reading).join('、')
+                  : subject.data.meanings.map(m => m.meaning).join(', ')}
+              </span>
+            </div>
+          )}
+
+          <button
+            onClick={handleAnswer}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-wanikani-pink hover:bg-pink-600 text-white rounded-lg transition-colors text-sm"
+          >
+            {answered ? t('quiz.next') : t('quiz.check')}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
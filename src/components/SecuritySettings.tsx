@@ -0,0 +1,202 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { Shield, ShieldCheck, ChevronDown, Lock, Loader2 } from 'lucide-react'
+import { useLanguage } from '@/contexts/LanguageContext'
+import type { LockOptions, UsePassphraseLockResult } from '@/hooks/usePassphraseLock'
+
+interface SecuritySettingsProps {
+  lock: UsePassphraseLockResult
+}
+
+const AUTO_LOCK_CHOICES = [0, 5, 15, 30, 60]
+const MIN_PASSPHRASE_LENGTH = 8
+const DEFAULT_OPTIONS: LockOptions = { encryptCache: false, autoLockMinutes: 15 }
+
+export default function SecuritySettings({ lock }: SecuritySettingsProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [draft, setDraft] = useState<LockOptions>(DEFAULT_OPTIONS)
+  const [error, setError] = useState('')
+  const [isBusy, setIsBusy] = useState(false)
+  const dropdownRef = useRef<HTMLDivElement>(null)
+  const { t } = useLanguage()
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const enabled = lock.status === 'unlocked'
+  // While enabled, changes apply immediately; before that they are part of the enable form
+  const options = enabled && lock.options ? lock.options : draft
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true)
+    try {
+      await action()
+    } catch (err) {
+      console.error('Error updating lock settings:', err)
+      setError(t('lock.error'))
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const changeOptions = (changes: Partial<LockOptions>) => {
+    const next = { ...options, ...changes }
+    if (!enabled) {
+      setDraft(next)
+      return
+    }
+    if (changes.encryptCache !== undefined && !window.confirm(t('lock.cacheModeConfirm'))) return
+    run(() => lock.updateOptions(next))
+  }
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(t('lock.tooShort').replace('{count}', String(MIN_PASSPHRASE_LENGTH)))
+      return
+    }
+    if (passphrase !== confirmation) {
+      setError(t('lock.mismatch'))
+      return
+    }
+    setError('')
+    run(async () => {
+      await lock.enable(passphrase, draft)
+      setPassphrase('')
+      setConfirmation('')
+    })
+  }
+
+  const handleDisable = () => {
+    if (!window.confirm(t('lock.disableConfirm'))) return
+    run(lock.disable)
+  }
+
+  const inputClass = 'w-full px-3 py-2 bg-white dark:bg-wanikani-card-dark border border-wanikani-border dark:border-wanikani-border-dark rounded-lg text-sm text-wanikani-text dark:text-wanikani-text-dark focus:outline-none focus:ring-2 focus:ring-wanikani-pink focus:border-transparent transition-colors'
+
+  const optionFields = (
+    <div className="space-y-3">
+      <label className="flex items-start gap-2 text-sm text-wanikani-text dark:text-wanikani-text-dark">
+        <input
+          type="checkbox"
+          checked={options.encryptCache}
+          disabled={isBusy}
+          onChange={(e) => changeOptions({ encryptCache: e.target.checked })}
+          className="mt-0.5 accent-wanikani-pink"
+        />
+        <span>
+          {t('lock.encryptCache')}
+          <span className="block text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+            {t('lock.encryptCacheHint')}
+          </span>
+        </span>
+      </label>
+      <div>
+        <label htmlFor="auto-lock" className="block text-sm text-wanikani-text dark:text-wanikani-text-dark mb-1">
+          {t('lock.autoLock')}
+        </label>
+        <select
+          id="auto-lock"
+          value={options.autoLockMinutes}
+          disabled={isBusy}
+          onChange={(e) => changeOptions({ autoLockMinutes: Number(e.target.value) })}
+          className={inputClass}
+        >
+          {AUTO_LOCK_CHOICES.map(minutes => (
+            <option key={minutes} value={minutes}>
+              {minutes === 0 ? t('lock.autoLockNever') : t('lock.autoLockMinutes').replace('{count}', String(minutes))}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark rounded-lg transition-colors text-sm"
+        title={t('lock.settings')}
+      >
+        {enabled ? <ShieldCheck className="w-4 h-4 text-wanikani-pink" /> : <Shield className="w-4 h-4" />}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-wanikani-card-dark border border-wanikani-border dark:border-wanikani-border-dark rounded-lg shadow-lg z-50 p-4">
+          <h3 className="font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-1">{t('lock.settings')}</h3>
+          <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-4">
+            {enabled ? t('lock.enabledHint') : t('lock.disabledHint')}
+          </p>
+
+          {enabled ? (
+            <div className="space-y-4">
+              {optionFields}
+              <div className="flex gap-2">
+                <button
+                  onClick={() => { setIsOpen(false); lock.lock() }}
+                  disabled={isBusy}
+                  className="flex-1 flex items-center justify-center gap-2 bg-wanikani-pink hover:bg-pink-600 text-white px-3 py-2 rounded-lg transition-colors text-sm disabled:opacity-50"
+                >
+                  <Lock className="w-4 h-4" />
+                  {t('lock.lockNow')}
+                </button>
+                <button
+                  onClick={handleDisable}
+                  disabled={isBusy}
+                  className="flex-1 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark px-3 py-2 rounded-lg transition-colors text-sm disabled:opacity-50"
+                >
+                  {t('lock.disable')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleEnable} className="space-y-3">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder={t('lock.passphrase')}
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder={t('lock.confirmPassphrase')}
+                autoComplete="new-password"
+                className={inputClass}
+              />
+              {optionFields}
+              <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('lock.noRecovery')}</p>
+              <button
+                type="submit"
+                disabled={isBusy || !passphrase}
+                className="w-full flex items-center justify-center gap-2 bg-wanikani-pink hover:bg-pink-600 text-white px-3 py-2 rounded-lg transition-colors text-sm disabled:opacity-50"
+              >
+                {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+                {t('lock.enable')}
+              </button>
+            </form>
+          )}
+
+          {error && <p className="text-wanikani-pink text-sm mt-3">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
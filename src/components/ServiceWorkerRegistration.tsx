@@ -0,0 +1,16 @@
+'use client'
+
+import { useEffect } from 'react'
+
+// Registers public/sw.js, which keeps the app shell available offline. Skipped in
+// development, where cached bundles would hide code changes.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.warn('Service worker registration failed:', error)
+    })
+  }, [])
+
+  return null
+}
@@ -0,0 +1,353 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Chart } from 'react-chartjs-2'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  BarController,
+  LineElement,
+  LineController,
+  PointElement,
+  Tooltip,
+  Legend,
+} from 'chart.js'
+import { RefreshCw } from 'lucide-react'
+import type { Review } from '@/types/wanikani'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { useTheme } from '@/contexts/ThemeContext'
+import { errorMessageKey } from '@/services/errors'
+import {
+  filterReviewsByDays,
+  getReviewSessions,
+  getSessionStats,
+  getSessionStatsBy,
+  getDayPeriod,
+  DAY_PERIODS,
+  type SessionBucketStats
+} from '@/utils/reviewHistory'
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  BarController,
+  LineElement,
+  LineController,
+  PointElement,
+  Tooltip,
+  Legend
+)
+
+interface SessionAnalysisProps {
+  reviews: Review[] | null
+  loading: boolean
+  error: unknown
+  onRefresh: () => void
+}
+
+type RangeOption = 30 | 90 | 365 | 'all'
+
+const RANGE_OPTIONS: RangeOption[] = [30, 90, 365, 'all']
+
+// Minutes without a review that end a session
+const GAP_OPTIONS = [5, 10, 15, 30, 60]
+
+// Monday first, as Date.getDay() numbers
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+// Buckets with fewer reviews than this are greyed out
+const MIN_SAMPLE = 20
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${value.toFixed(1)}%`
+}
+
+function formatPace(value: number | null): string {
+  return value === null ? '—' : value.toFixed(1)
+}
+
+function formatMinutes(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value)}`
+}
+
+function getDeltaClass(delta: number): string {
+  if (delta >= 0) return 'text-green-600 dark:text-green-400'
+  return 'text-red-600 dark:text-red-400'
+}
+
+export default function SessionAnalysis({ reviews, loading, error, onRefresh }: SessionAnalysisProps) {
+  const { t } = useLanguage()
+  const { isDark } = useTheme()
+  const [range, setRange] = useState<RangeOption>(90)
+  const [gapMinutes, setGapMinutes] = useState(10)
+
+  const { sessions, overall, periods, hourly, weekdays } = useMemo(() => {
+    const inRange = filterReviewsByDays(reviews || [], range === 'all' ? null : range)
+    const sessions = getReviewSessions(inRange, gapMinutes)
+    return {
+      sessions,
+      overall: getSessionStats(sessions),
+      periods: DAY_PERIODS.map(period => ({
+        period,
+        stats: getSessionStats(sessions.filter(session => getDayPeriod(session.start) === period))
+      })),
+      hourly: getSessionStatsBy(sessions, 24, start => start.getHours()),
+      weekdays: getSessionStatsBy(sessions, 7, start => start.getDay())
+    }
+  }, [reviews, range, gapMinutes])
+
+  const accuracyDelta = (stats: SessionBucketStats): number | null =>
+    stats.accuracy !== null && overall.accuracy !== null && stats.reviews >= MIN_SAMPLE
+      ? stats.accuracy - overall.accuracy
+      : null
+
+  const textColor = isDark ? '#a0a0a0' : '#666666'
+  const gridColor = isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)'
+
+  const hourlyData = {
+    labels: hourly.map((_, hour) => `${hour}:00`),
+    datasets: [
+      {
+        type: 'bar' as const,
+        label: t('history.reviews'),
+        data: hourly.map(h => h.reviews),
+        backgroundColor: 'rgba(0, 170, 255, 0.6)',
+        borderRadius: 2,
+        yAxisID: 'y',
+        order: 2
+      },
+      {
+        type: 'line' as const,
+        label: t('history.accuracy'),
+        data: hourly.map(h => (h.reviews >= MIN_SAMPLE ? h.accuracy : null)),
+        borderColor: '#ff00aa',
+        backgroundColor: '#ff00aa',
+        pointRadius: 3,
+        borderWidth: 2,
+        tension: 0.3,
+        spanGaps: true,
+        yAxisID: 'y1',
+        order: 1
+      }
+    ]
+  }
+
+  const hourlyOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: { labels: { color: textColor } },
+      tooltip: {
+        callbacks: {
+          footer: (items: any[]) => {
+            const hour = hourly[items[0]?.dataIndex ?? 0]
+            if (!hour || hour.sessions === 0) return ''
+            return [
+              `${t('sessions.sessions')}: ${hour.sessions}`,
+              `${t('sessions.itemsPerMinute')}: ${formatPace(hour.itemsPerMinute)}`,
+              `${t('sessions.averageLength')}: ${formatMinutes(hour.averageMinutes)} ${t('sessions.minutes')}`
+            ]
+          }
+        }
+      }
+    },
+    scales: {
+      x: { ticks: { color: textColor }, grid: { display: false } },
+      y: {
+        beginAtZero: true,
+        title: { display: true, text: t('history.reviews'), color: textColor },
+        ticks: { color: textColor },
+        grid: { color: gridColor }
+      },
+      y1: {
+        position: 'right' as const,
+        min: 0,
+        max: 100,
+        title: { display: true, text: t('history.accuracy'), color: textColor },
+        ticks: { color: textColor, callback: (value: number | string) => `${value}%` },
+        grid: { drawOnChartArea: false }
+      }
+    }
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-wanikani-text dark:text-wanikani-text-dark">
+            {t('sessions.title')}
+          </h2>
+          <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('sessions.subtitle')}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-2 text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">
+            {t('sessions.gap')}
+            <select
+              value={gapMinutes}
+              onChange={(e) => setGapMinutes(Number(e.target.value))}
+              className="bg-white dark:bg-wanikani-card-dark text-wanikani-text dark:text-wanikani-text-dark px-3 py-2 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark focus:outline-none focus:ring-2 focus:ring-wanikani-pink/50 text-sm"
+            >
+              {GAP_OPTIONS.map(option => (
+                <option key={option} value={option}>{option} {t('sessions.minutes')}</option>
+              ))}
+            </select>
+          </label>
+          <select
+            value={range}
+            onChange={(e) => setRange(e.target.value === 'all' ? 'all' : Number(e.target.value) as RangeOption)}
+            className="bg-white dark:bg-wanikani-card-dark text-wanikani-text dark:text-wanikani-text-dark px-3 py-2 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark focus:outline-none focus:ring-2 focus:ring-wanikani-pink/50 text-sm"
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option} value={option}>
+                {option === 'all' ? t('history.allTime') : t('history.lastDays').replace('{days}', String(option))}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onRefresh}
+            disabled={loading}
+            className="p-2 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark disabled:opacity-50 transition-colors"
+            title={t('header.refresh')}
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <div className="bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg p-4 text-sm text-red-600 dark:text-red-400">
+          {t(errorMessageKey(error)).replace('{seconds}', '60').replace('{status}', '')}
+        </div>
+      ) : reviews === null ? (
+        <div className="h-64 flex items-center justify-center text-wanikani-text-light dark:text-wanikani-text-light-dark">
+          {t('history.loading')}
+        </div>
+      ) : sessions.length === 0 ? (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border border-wanikani-border dark:border-wanikani-border-dark text-wanikani-text-light dark:text-wanikani-text-light-dark text-sm">
+          {t('history.noData')}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('sessions.sessions')}</div>
+              <div className="text-wanikani-cyan font-bold">{overall.sessions.toLocaleString()}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('sessions.averageLength')}</div>
+              <div className="text-wanikani-text dark:text-wanikani-text-dark font-bold">
+                {formatMinutes(overall.averageMinutes)} {t('sessions.minutes')}
+                <span className="ml-1 text-xs font-normal text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                  ({t('sessions.reviewsPerSession').replace('{count}', String(Math.round(overall.reviews / overall.sessions)))})
+                </span>
+              </div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('sessions.itemsPerMinute')}</div>
+              <div className="text-wanikani-vocabulary font-bold">{formatPace(overall.itemsPerMinute)}</div>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('history.accuracy')}</div>
+              <div className="text-wanikani-pink font-bold">{formatPercent(overall.accuracy)}</div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-1">{t('sessions.periodsTitle')}</h3>
+            <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-2">
+              {t('sessions.periodsSubtitle').replace('{min}', String(MIN_SAMPLE))}
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              {periods.map(({ period, stats }) => {
+                const delta = accuracyDelta(stats)
+                return (
+                  <div
+                    key={period}
+                    className={`rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark ${stats.reviews < MIN_SAMPLE ? 'opacity-50' : ''}`}
+                  >
+                    <div className="font-semibold text-wanikani-text dark:text-wanikani-text-dark">{t(`sessions.period.${period}`)}</div>
+                    <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-2">{t(`sessions.periodHours.${period}`)}</div>
+                    <div className="text-lg font-bold text-wanikani-pink">
+                      {formatPercent(stats.accuracy)}
+                      {delta !== null && (
+                        <span className={`ml-2 text-xs font-medium ${getDeltaClass(delta)}`}>
+                          {delta >= 0 ? '+' : ''}{delta.toFixed(1)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark space-y-0.5 mt-1">
+                      <div>{t('sessions.sessions')}: {stats.sessions} · {t('history.reviews')}: {stats.reviews.toLocaleString()}</div>
+                      <div>{t('sessions.itemsPerMinute')}: {formatPace(stats.itemsPerMinute)}</div>
+                      <div>{t('sessions.averageLength')}: {formatMinutes(stats.averageMinutes)} {t('sessions.minutes')}</div>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-2">{t('sessions.hourlyTitle')}</h3>
+              <div className="h-64">
+                <Chart type="bar" data={hourlyData} options={hourlyOptions} />
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-2">{t('sessions.weekdayTitle')}</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs text-right border-collapse">
+                  <thead>
+                    <tr className="text-wanikani-text-light dark:text-wanikani-text-light-dark">
+                      <th className="p-1 text-left">{t('sessions.day')}</th>
+                      <th className="p-1 font-medium">{t('sessions.sessions')}</th>
+                      <th className="p-1 font-medium">{t('history.reviews')}</th>
+                      <th className="p-1 font-medium">{t('history.accuracy')}</th>
+                      <th className="p-1 font-medium">{t('sessions.itemsPerMinute')}</th>
+                      <th className="p-1 font-medium">{t('sessions.averageLength')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {WEEKDAY_ORDER.map(day => {
+                      const stats = weekdays[day]
+                      const delta = accuracyDelta(stats)
+                      return (
+                        <tr
+                          key={day}
+                          className={`border-t border-wanikani-border dark:border-wanikani-border-dark text-wanikani-text dark:text-wanikani-text-dark ${stats.reviews < MIN_SAMPLE ? 'opacity-50' : ''}`}
+                        >
+                          <td className="p-1 text-left">{t(`sessions.weekday.${day}`)}</td>
+                          <td className="p-1">{stats.sessions}</td>
+                          <td className="p-1">{stats.reviews.toLocaleString()}</td>
+                          <td className="p-1">
+                            {formatPercent(stats.accuracy)}
+                            {delta !== null && (
+                              <span className={`ml-1 ${getDeltaClass(delta)}`}>
+                                {delta >= 0 ? '+' : ''}{delta.toFixed(1)}
+                              </span>
+                            )}
+                          </td>
+                          <td className="p-1">{formatPace(stats.itemsPerMinute)}</td>
+                          <td className="p-1">{formatMinutes(stats.averageMinutes)} {stats.sessions > 0 ? t('sessions.minutes') : ''}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+
+          <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+            {t('sessions.note').replace('{gap}', String(gapMinutes))}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
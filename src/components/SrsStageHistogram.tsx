@@ -10,26 +10,31 @@ import {
   Tooltip,
   Legend,
 } from 'chart.js'
-import type { Assignment, Subject } from '@/types/wanikani'
+import type { Assignment, Subject, SpacedRepetitionSystem } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
 import { useTheme } from '@/contexts/ThemeContext'
+import { createSrsModels, getSrsModel, getStageName, isBurnedStage } from '@/utils/srsModel'
 
 ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend)
 
 interface SrsStageHistogramProps {
   assignments: Assignment[]
   subjects: Subject[]
+  // Stage positions and names for the bars
+  srsSystems: SpacedRepetitionSystem[]
 }
 
-const STAGES = Array.from({ length: 10 }, (_, i) => i)
-
-export default function SrsStageHistogram({ assignments, subjects }: SrsStageHistogramProps) {
+export default function SrsStageHistogram({ assignments, subjects, srsSystems }: SrsStageHistogramProps) {
   const { t } = useLanguage()
   const { isDark } = useTheme()
-  const { radicalCounts, kanjiCounts, vocabCounts } = useMemo(() => {
+  const { labels, radicalCounts, kanjiCounts, vocabCounts } = useMemo(() => {
     const subjectById = new Map(subjects.map(s => [s.id, s]))
+    const srsModels = createSrsModels(srsSystems)
+    // WaniKani's systems share their stage positions, so the standard one lays out the bars
+    const srs = srsModels.standard
+    const labels = Array.from({ length: srs.burningStage + 1 }, (_, stage) => getStageName(srs, stage))
 
-    const countsTemplate = () => Array.from({ length: 10 }, () => 0)
+    const countsTemplate = () => labels.map(() => 0)
     const radicalCounts = countsTemplate()
     const kanjiCounts = countsTemplate()
     const vocabCounts = countsTemplate()
@@ -38,7 +43,8 @@ export default function SrsStageHistogram({ assignments, subjects }: SrsStageHis
       if (a.data.hidden) return
       const subject = subjectById.get(a.data.subject_id)
       const type = subject?.object || a.data.subject_type
-      const stage = Math.max(0, Math.min(9, a.data.srs_stage || 0))
+      const srsStage = a.data.srs_stage || 0
+      const stage = isBurnedStage(getSrsModel(srsModels, subject), srsStage) ? srs.burningStage : Math.max(0, srsStage)
       if (type === 'radical') {
         radicalCounts[stage] += 1
       } else if (type === 'kanji') {
@@ -48,11 +54,11 @@ export default function SrsStageHistogram({ assignments, subjects }: SrsStageHis
       }
     })
 
-    return { radicalCounts, kanjiCounts, vocabCounts }
-  }, [assignments, subjects])
+    return { labels, radicalCounts, kanjiCounts, vocabCounts }
+  }, [assignments, subjects, srsSystems])
 
   const data = {
-    labels: STAGES.map(s => `SRS ${s}`),
+    labels,
     datasets: [
       {
         label: t('common.radicals'),
@@ -1,23 +1,37 @@
 'use client'
 
 import { useMemo, useState, useEffect } from 'react'
-import type { Assignment, UserData } from '@/types/wanikani'
+import { X } from 'lucide-react'
+import type { Assignment, Review, SpacedRepetitionSystem, Subject, UserData } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
 import { useTheme } from '@/contexts/ThemeContext'
+import {
+  type ActivityEvent,
+  type DayKey,
+  toDayKey,
+  getLessonEvents,
+  getReviewEvents,
+  inferReviewEvents,
+  getDailyStreaks
+} from '@/utils/reviewHistory'
 
 interface StudyHeatmapProps {
   assignments: Assignment[]
   userData: UserData
+  subjects: Subject[]
+  srsSystems: SpacedRepetitionSystem[]
+  // Review history; null while not loaded (reviews are then inferred from assignments)
+  reviews: Review[] | null
 }
 
-type DayKey = string // yyyy-mm-dd
+type HeatmapMode = 'lessons' | 'reviews' | 'combined'
 
-function toDayKey(value: string | Date): DayKey {
-  const d = value instanceof Date ? value : new Date(value)
-  const year = d.getFullYear()
-  const month = `${d.getMonth() + 1}`.padStart(2, '0')
-  const day = `${d.getDate()}`.padStart(2, '0')
-  return `${year}-${month}-${day}`
+const MODES: HeatmapMode[] = ['lessons', 'reviews', 'combined']
+
+interface DayActivity {
+  lessons: number
+  reviews: number
+  events: ActivityEvent[]
 }
 
 // Color scale that adapts to the maximum volume - Light WaniKani themed
@@ -32,10 +46,25 @@ function getColor(total: number, maxTotal: number, isDark: boolean): string {
   return 'bg-wanikani-pink'
 }
 
-export default function StudyHeatmap({ assignments, userData }: StudyHeatmapProps) {
+function getSubjectColor(type: Subject['object'] | undefined): string {
+  if (type === 'radical') return 'bg-wanikani-radical'
+  if (type === 'kanji') return 'bg-wanikani-kanji'
+  return 'bg-wanikani-vocabulary'
+}
+
+function countForMode(activity: DayActivity | undefined, mode: HeatmapMode): number {
+  if (!activity) return 0
+  if (mode === 'lessons') return activity.lessons
+  if (mode === 'reviews') return activity.reviews
+  return activity.lessons + activity.reviews
+}
+
+export default function StudyHeatmap({ assignments, userData, subjects, srsSystems, reviews }: StudyHeatmapProps) {
   const { t } = useLanguage()
   const { isDark } = useTheme()
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear())
+  const [mode, setMode] = useState<HeatmapMode>('combined')
+  const [selectedDay, setSelectedDay] = useState<DayKey | null>(null)
 
   // Ensure the selected year is within the user's activity window
   useEffect(() => {
@@ -45,25 +74,49 @@ export default function StudyHeatmap({ assignments, userData }: StudyHeatmapProp
     }
   }, [userData.started_at, selectedYear])
 
+  const subjectById = useMemo(() => new Map(subjects.map(s => [s.id, s])), [subjects])
+
+  // Reviews come from the history when it has data, otherwise they are inferred
+  const reviewsInferred = !reviews || reviews.length === 0
+
+  const activityByDay = useMemo(() => {
+    const reviewEvents = reviewsInferred
+      ? inferReviewEvents(assignments, subjects, srsSystems)
+      : getReviewEvents(reviews!)
+    const byDay = new Map<DayKey, DayActivity>()
+
+    getLessonEvents(assignments).concat(reviewEvents).forEach(event => {
+      const key = toDayKey(new Date(event.time))
+      const entry = byDay.get(key) || { lessons: 0, reviews: 0, events: [] }
+      if (event.kind === 'lesson') entry.lessons++
+      else entry.reviews++
+      entry.events.push(event)
+      byDay.set(key, entry)
+    })
+
+    return byDay
+  }, [assignments, subjects, srsSystems, reviews, reviewsInferred])
+
+  const streaks = useMemo(() => {
+    const activeDays = new Set<DayKey>()
+    activityByDay.forEach((activity, key) => {
+      if (countForMode(activity, mode) > 0) activeDays.add(key)
+    })
+    return getDailyStreaks(activeDays)
+  }, [activityByDay, mode])
+
   const {
     days,
-    maxLessons,
     maxTotal,
     years,
-    totalLessons
+    yearTotal
   } = useMemo(() => {
-    const lessonsByDay = new Map<DayKey, number>()
     let earliestDate = new Date(userData.started_at).getTime()
-
-    assignments.forEach(a => {
-      if (!a.data.started_at) return
-      const key = toDayKey(a.data.started_at)
-      lessonsByDay.set(key, (lessonsByDay.get(key) || 0) + 1)
-      earliestDate = Math.min(earliestDate, new Date(a.data.started_at).getTime())
+    activityByDay.forEach((_, key) => {
+      const [year, month, day] = key.split('-').map(Number)
+      earliestDate = Math.min(earliestDate, new Date(year, month - 1, day).getTime())
     })
 
-    const totalLessons = Array.from(lessonsByDay.values()).reduce((sum, count) => sum + count, 0)
-
     const currentYear = new Date().getFullYear()
     const earliestYear = Number.isFinite(earliestDate) ? new Date(earliestDate).getFullYear() : currentYear
     const years: number[] = []
@@ -78,28 +131,38 @@ export default function StudyHeatmap({ assignments, userData }: StudyHeatmapProp
     const isCurrentYear = selectedYear === today.getFullYear()
     const end = isCurrentYear ? new Date(today.getFullYear(), today.getMonth(), today.getDate()) : new Date(selectedYear, 11, 31)
 
-    const days: Array<{ date: Date; lessons: number }> = []
-    for (let d = start; d <= end; d = new Date(d.getTime() + 86400000)) {
+    const days: Array<{ date: Date; key: DayKey; count: number; lessons: number; reviews: number }> = []
+    for (let d = new Date(start); d <= end; d.setDate(d.getDate() + 1)) {
       const key = toDayKey(d)
+      const activity = activityByDay.get(key)
       days.push({
         date: new Date(d),
-        lessons: lessonsByDay.get(key) || 0
+        key,
+        count: countForMode(activity, mode),
+        lessons: activity?.lessons ?? 0,
+        reviews: activity?.reviews ?? 0
       })
     }
 
-    const maxLessons = Math.max(...days.map(d => d.lessons), 0)
-    const maxTotal = maxLessons
+    const maxTotal = Math.max(...days.map(d => d.count), 0)
+    const yearTotal = days.reduce((sum, d) => sum + d.count, 0)
 
-    return { days, maxLessons, maxTotal, years, totalLessons }
-  }, [assignments, selectedYear, userData.started_at])
+    return { days, maxTotal, years, yearTotal }
+  }, [activityByDay, mode, selectedYear, userData.started_at])
 
-  if (maxTotal === 0) {
-    return (
-      <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border border-wanikani-border dark:border-wanikani-border-dark text-wanikani-text-light dark:text-wanikani-text-light-dark text-sm">
-        {t('heatmap.noActivity').replace('{year}', String(selectedYear))}
-      </div>
-    )
-  }
+  // Items touched on the selected day, grouped by activity kind
+  const dayDetails = useMemo(() => {
+    if (!selectedDay) return null
+    const events = activityByDay.get(selectedDay)?.events ?? []
+    const unique = (kind: ActivityEvent['kind']) =>
+      Array.from(new Set(events.filter(e => e.kind === kind).map(e => e.subjectId)))
+        .map(id => subjectById.get(id))
+        .filter((s): s is Subject => !!s)
+    return {
+      lessons: mode === 'reviews' ? [] : unique('lesson'),
+      reviews: mode === 'lessons' ? [] : unique('review')
+    }
+  }, [selectedDay, activityByDay, subjectById, mode])
 
   // Prepare grid cells (pad leading days to align weeks)
   const startDay = days[0]?.date.getDay() ?? 0
@@ -108,6 +171,23 @@ export default function StudyHeatmap({ assignments, userData }: StudyHeatmapProp
     ...days,
   ]
 
+  const renderSubjectChips = (items: Subject[]) => (
+    <div className="flex flex-wrap gap-1">
+      {items.map(subject => (
+        <a
+          key={subject.id}
+          href={subject.data.document_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`${getSubjectColor(subject.object)} text-white text-sm px-2 py-0.5 rounded hover:opacity-80 transition-opacity`}
+          title={subject.data.meanings?.find(m => m.primary)?.meaning}
+        >
+          {subject.data.characters || subject.data.slug}
+        </a>
+      ))}
+    </div>
+  )
+
   return (
     <div>
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
@@ -115,9 +195,26 @@ export default function StudyHeatmap({ assignments, userData }: StudyHeatmapProp
           <h2 className="text-xl font-bold text-wanikani-text dark:text-wanikani-text-dark">
             {t('heatmap.title')}
           </h2>
-          <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('heatmap.subtitle').replace('{total}', totalLessons.toLocaleString())}</p>
+          <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">
+            {t('heatmap.subtitle').replace('{total}', yearTotal.toLocaleString())}
+          </p>
         </div>
         <div className="flex items-center gap-3">
+          <div className="flex rounded-lg border border-wanikani-border dark:border-wanikani-border-dark overflow-hidden text-sm">
+            {MODES.map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-2 transition-colors ${
+                  mode === option
+                    ? 'bg-wanikani-pink text-white'
+                    : 'bg-white dark:bg-wanikani-card-dark text-wanikani-text dark:text-wanikani-text-dark hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {t(`heatmap.mode.${option}`)}
+              </button>
+            ))}
+          </div>
           <select
             value={selectedYear}
             onChange={(e) => setSelectedYear(parseInt(e.target.value, 10))}
@@ -139,39 +236,105 @@ export default function StudyHeatmap({ assignments, userData }: StudyHeatmapProp
         </div>
       </div>
 
-      <div
-        className="grid gap-1 overflow-x-auto pb-2"
-        style={{
-          gridTemplateRows: 'repeat(7, minmax(0, 1fr))',
-          gridAutoFlow: 'column',
-          gridAutoColumns: 'minmax(0, 1fr)',
-        }}
-      >
-        {paddedDays.map((day, idx) => {
-          if (!day) {
-            return <div key={`empty-${idx}`} className="w-4 h-4 rounded bg-transparent" aria-hidden />
-          }
-
-          const total = day.lessons
-          const label = `${day.date.toLocaleDateString()}\nLessons: ${day.lessons}`
-          return (
-            <div
-              key={day.date.toISOString()}
-              className={`w-4 h-4 rounded ${getColor(total, maxTotal, isDark)} hover:ring-2 hover:ring-wanikani-pink/50 transition-all`}
-              title={label}
-            />
-          )
-        })}
-      </div>
+      {mode !== 'lessons' && reviewsInferred && (
+        <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-3">
+          {t('heatmap.inferredNote')}
+        </p>
+      )}
+
+      {maxTotal === 0 ? (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border border-wanikani-border dark:border-wanikani-border-dark text-wanikani-text-light dark:text-wanikani-text-light-dark text-sm">
+          {t('heatmap.noActivity').replace('{year}', String(selectedYear))}
+        </div>
+      ) : (
+        <div
+          className="grid gap-1 overflow-x-auto pb-2"
+          style={{
+            gridTemplateRows: 'repeat(7, minmax(0, 1fr))',
+            gridAutoFlow: 'column',
+            gridAutoColumns: 'minmax(0, 1fr)',
+          }}
+        >
+          {paddedDays.map((day, idx) => {
+            if (!day) {
+              return <div key={`empty-${idx}`} className="w-4 h-4 rounded bg-transparent" aria-hidden />
+            }
 
-      <div className="mt-4 text-sm grid grid-cols-2 gap-4">
+            const label = `${day.date.toLocaleDateString()}\n${t('heatmap.lessons')}: ${day.lessons}\n${t('heatmap.reviews')}: ${day.reviews}`
+            return (
+              <button
+                key={day.key}
+                onClick={() => setSelectedDay(day.key === selectedDay ? null : day.key)}
+                className={`w-4 h-4 rounded ${getColor(day.count, maxTotal, isDark)} hover:ring-2 hover:ring-wanikani-pink/50 transition-all ${
+                  day.key === selectedDay ? 'ring-2 ring-wanikani-cyan' : ''
+                }`}
+                title={label}
+                aria-label={label}
+              />
+            )
+          })}
+        </div>
+      )}
+
+      {selectedDay && dayDetails && (
+        <div className="mt-4 bg-gray-50 dark:bg-gray-800 rounded-lg p-4 border border-wanikani-border dark:border-wanikani-border-dark">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold text-wanikani-text dark:text-wanikani-text-dark">
+              {t('heatmap.dayDetails').replace('{date}', new Date(`${selectedDay}T00:00:00`).toLocaleDateString())}
+            </h3>
+            <button
+              onClick={() => setSelectedDay(null)}
+              className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-wanikani-text-light dark:text-wanikani-text-light-dark"
+              aria-label={t('heatmap.closeDetails')}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {dayDetails.lessons.length === 0 && dayDetails.reviews.length === 0 ? (
+            <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('heatmap.noItems')}</p>
+          ) : (
+            <div className="space-y-3">
+              {dayDetails.lessons.length > 0 && (
+                <div>
+                  <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-1">
+                    {t('heatmap.lessons')} ({dayDetails.lessons.length})
+                  </div>
+                  {renderSubjectChips(dayDetails.lessons)}
+                </div>
+              )}
+              {dayDetails.reviews.length > 0 && (
+                <div>
+                  <div className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-1">
+                    {t('heatmap.reviews')} ({dayDetails.reviews.length})
+                  </div>
+                  {renderSubjectChips(dayDetails.reviews)}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 text-sm grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+          <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('heatmap.maxInDay')}</div>
+          <div className="text-wanikani-pink font-bold">{maxTotal}</div>
+        </div>
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
+          <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('heatmap.totalInYear')}</div>
+          <div className="text-wanikani-vocabulary font-bold">{yearTotal.toLocaleString()}</div>
+        </div>
         <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
-          <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('heatmap.maxLessons')}</div>
-          <div className="text-wanikani-pink font-bold">{maxLessons}</div>
+          <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('heatmap.currentStreak')}</div>
+          <div className="text-wanikani-cyan font-bold">
+            {streaks.current} {streaks.current === 1 ? t('common.day') : t('common.days')}
+          </div>
         </div>
         <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 border border-wanikani-border dark:border-wanikani-border-dark">
-          <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('heatmap.totalLessons')}</div>
-          <div className="text-wanikani-vocabulary font-bold">{totalLessons.toLocaleString()}</div>
+          <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark text-xs mb-1">{t('heatmap.longestStreak')}</div>
+          <div className="text-wanikani-kanji font-bold">
+            {streaks.longest} {streaks.longest === 1 ? t('common.day') : t('common.days')}
+          </div>
         </div>
       </div>
     </div>
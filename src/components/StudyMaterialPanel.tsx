@@ -0,0 +1,196 @@
+'use client'
+
+import { useState } from 'react'
+import { StickyNote, Pencil, Loader2 } from 'lucide-react'
+import type { StudyMaterial, StudyMaterialFields } from '@/types/wanikani'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { WaniKaniError, errorMessageKey } from '@/services/errors'
+
+interface StudyMaterialPanelProps {
+  material: StudyMaterial | undefined
+  loading: boolean
+  // Editing needs the write opt-in and a token with the study_materials permissions
+  canEdit: boolean
+  onEnableEditing: () => void
+  onSave: (fields: StudyMaterialFields) => Promise<unknown>
+}
+
+// WaniKani accepts up to 8 synonyms per subject
+const MAX_SYNONYMS = 8
+
+function parseSynonyms(value: string): string[] {
+  const seen = new Set<string>()
+  return value
+    .split(/[,、]/)
+    .map(synonym => synonym.trim())
+    .filter(synonym => {
+      const key = synonym.toLowerCase()
+      if (!synonym || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+}
+
+export default function StudyMaterialPanel({ material, loading, canEdit, onEnableEditing, onSave }: StudyMaterialPanelProps) {
+  const { t } = useLanguage()
+  const [editing, setEditing] = useState(false)
+  const [synonyms, setSynonyms] = useState('')
+  const [meaningNote, setMeaningNote] = useState('')
+  const [readingNote, setReadingNote] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const startEditing = () => {
+    setSynonyms(material?.data.meaning_synonyms.join(', ') ?? '')
+    setMeaningNote(material?.data.meaning_note ?? '')
+    setReadingNote(material?.data.reading_note ?? '')
+    setError(null)
+    setEditing(true)
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const parsed = parseSynonyms(synonyms)
+    if (parsed.length > MAX_SYNONYMS) {
+      setError(t('studyMaterials.tooManySynonyms').replace('{count}', String(MAX_SYNONYMS)))
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      await onSave({
+        meaning_synonyms: parsed,
+        meaning_note: meaningNote.trim() || null,
+        reading_note: readingNote.trim() || null
+      })
+      setEditing(false)
+    } catch (err) {
+      setError(t(errorMessageKey(err))
+        .replace('{seconds}', '60')
+        .replace('{status}', err instanceof WaniKaniError && err.status ? String(err.status) : ''))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-purple-500'
+  const hasContent = !!material && (
+    material.data.meaning_synonyms.length > 0 || !!material.data.meaning_note || !!material.data.reading_note
+  )
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center gap-2">
+          <StickyNote className="w-4 h-4" />
+          {t('studyMaterials.title')}
+        </h4>
+        {!editing && !loading && (
+          canEdit ? (
+            <button
+              onClick={startEditing}
+              className="flex items-center gap-1 text-xs text-purple-600 dark:text-purple-400 hover:underline"
+            >
+              <Pencil className="w-3 h-3" />
+              {hasContent ? t('studyMaterials.edit') : t('studyMaterials.add')}
+            </button>
+          ) : (
+            <button
+              onClick={() => {
+                if (window.confirm(t('studyMaterials.enableEditingConfirm'))) onEnableEditing()
+              }}
+              className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+            >
+              {t('studyMaterials.enableEditing')}
+            </button>
+          )
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {t('loading')}
+        </div>
+      ) : editing ? (
+        <form onSubmit={handleSave} className="space-y-2">
+          <label className="block text-xs text-gray-600 dark:text-gray-400">
+            {t('studyMaterials.synonyms')}
+            <input
+              type="text"
+              value={synonyms}
+              onChange={(e) => setSynonyms(e.target.value)}
+              placeholder={t('studyMaterials.synonymsPlaceholder')}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block text-xs text-gray-600 dark:text-gray-400">
+            {t('studyMaterials.meaningNote')}
+            <textarea
+              value={meaningNote}
+              onChange={(e) => setMeaningNote(e.target.value)}
+              rows={2}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          <label className="block text-xs text-gray-600 dark:text-gray-400">
+            {t('studyMaterials.readingNote')}
+            <textarea
+              value={readingNote}
+              onChange={(e) => setReadingNote(e.target.value)}
+              rows={2}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center gap-2 px-3 py-1.5 bg-purple-500 hover:bg-purple-600 text-white rounded-lg text-sm transition-colors disabled:opacity-50"
+            >
+              {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+              {t('studyMaterials.save')}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(false)}
+              disabled={saving}
+              className="px-3 py-1.5 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg text-sm transition-colors hover:bg-gray-300 dark:hover:bg-gray-600"
+            >
+              {t('studyMaterials.cancel')}
+            </button>
+          </div>
+        </form>
+      ) : hasContent && material ? (
+        <div className="space-y-2 text-sm">
+          {material.data.meaning_synonyms.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">{t('studyMaterials.synonyms')}:</span>
+              {material.data.meaning_synonyms.map(synonym => (
+                <span key={synonym} className="px-2 py-0.5 bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300 text-xs rounded">
+                  {synonym}
+                </span>
+              ))}
+            </div>
+          )}
+          {material.data.meaning_note && (
+            <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">
+              <span className="text-xs text-gray-500 dark:text-gray-400">{t('studyMaterials.meaningNote')}: </span>
+              {material.data.meaning_note}
+            </p>
+          )}
+          {material.data.reading_note && (
+            <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">
+              <span className="text-xs text-gray-500 dark:text-gray-400">{t('studyMaterials.readingNote')}: </span>
+              {material.data.reading_note}
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('studyMaterials.empty')}</p>
+      )}
+    </div>
+  )
+}
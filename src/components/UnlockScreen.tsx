@@ -0,0 +1,93 @@
+'use client'
+
+import { useState } from 'react'
+import { Lock, Loader2 } from 'lucide-react'
+import { useLanguage } from '@/contexts/LanguageContext'
+import LanguageToggle from './LanguageToggle'
+import ThemeToggle from './ThemeToggle'
+
+interface UnlockScreenProps {
+  onUnlock: (passphrase: string) => Promise<boolean>
+  // Forgotten passphrase: removes the encrypted profiles and cache
+  onReset: () => Promise<void>
+}
+
+export default function UnlockScreen({ onUnlock, onReset }: UnlockScreenProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState('')
+  const [isUnlocking, setIsUnlocking] = useState(false)
+  const { t } = useLanguage()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passphrase) return
+    setIsUnlocking(true)
+    setError('')
+    const unlocked = await onUnlock(passphrase)
+    if (!unlocked) {
+      setError(t('lock.wrongPassphrase'))
+      setIsUnlocking(false)
+    }
+  }
+
+  const handleReset = () => {
+    if (window.confirm(t('lock.resetConfirm'))) {
+      onReset()
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-wanikani-bg dark:bg-wanikani-bg-dark flex items-center justify-center p-4 transition-colors">
+      <div className="absolute top-4 right-4 flex items-center gap-2">
+        <ThemeToggle />
+        <LanguageToggle />
+      </div>
+      <div className="wk-card rounded-lg p-8 w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-20 h-20 bg-wanikani-pink rounded-full mb-4">
+            <Lock className="w-9 h-9 text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-wanikani-text dark:text-wanikani-text-dark mb-2">{t('lock.title')}</h1>
+          <p className="text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('lock.subtitle')}</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="passphrase" className="block text-sm font-medium text-wanikani-text dark:text-wanikani-text-dark mb-2">
+              {t('lock.passphrase')}
+            </label>
+            <input
+              type="password"
+              id="passphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+              autoComplete="current-password"
+              className="w-full px-4 py-3 bg-white dark:bg-wanikani-card-dark border border-wanikani-border dark:border-wanikani-border-dark rounded-lg text-wanikani-text dark:text-wanikani-text-dark placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-wanikani-pink focus:border-transparent transition-colors"
+            />
+            {error && <p className="text-wanikani-pink text-sm mt-2">{error}</p>}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isUnlocking || !passphrase}
+            className="w-full flex items-center justify-center gap-2 bg-wanikani-pink hover:bg-pink-600 text-white font-semibold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isUnlocking && <Loader2 className="w-4 h-4 animate-spin" />}
+            {t('lock.unlock')}
+          </button>
+        </form>
+
+        <div className="mt-6 text-center">
+          <button
+            type="button"
+            onClick={handleReset}
+            className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark hover:text-wanikani-pink underline"
+          >
+            {t('lock.forgot')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,29 +3,27 @@
 import { useState, useMemo } from 'react'
 import { differenceInDays, addDays, format } from 'date-fns'
 import { Palmtree, Calendar, TrendingUp } from 'lucide-react'
-import type { UserData, Assignment } from '@/types/wanikani'
+import type { UserData, Assignment, SpacedRepetitionSystem } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
+import { createSrsModels, getReviewStages, getStageGroup, getStageName, type SrsStageGroup } from '@/utils/srsModel'
 
 interface VacationRecoveryPlannerProps {
   userData: UserData
   assignments: Assignment[]
+  srsSystems: SpacedRepetitionSystem[]
 }
 
 type PlanMode = 'current' | 'future'
 
-// SRS stage names for breakdown
-const SRS_STAGES = [
-  { name: 'Apprentice 1', color: 'bg-pink-500' },
-  { name: 'Apprentice 2', color: 'bg-pink-500' },
-  { name: 'Apprentice 3', color: 'bg-pink-500' },
-  { name: 'Apprentice 4', color: 'bg-pink-500' },
-  { name: 'Guru 1', color: 'bg-purple-500' },
-  { name: 'Guru 2', color: 'bg-purple-500' },
-  { name: 'Master', color: 'bg-blue-500' },
-  { name: 'Enlightened', color: 'bg-cyan-500' },
-]
+// Bar colors for the stage breakdown
+const STAGE_GROUP_COLORS: Partial<Record<SrsStageGroup, string>> = {
+  apprentice: 'bg-pink-500',
+  guru: 'bg-purple-500',
+  master: 'bg-blue-500',
+  enlightened: 'bg-cyan-500',
+}
 
-export default function VacationRecoveryPlanner({ userData, assignments }: VacationRecoveryPlannerProps) {
+export default function VacationRecoveryPlanner({ userData, assignments, srsSystems }: VacationRecoveryPlannerProps) {
   const { t } = useLanguage()
   const [planMode, setPlanMode] = useState<PlanMode>('current')
   const [futureDays, setFutureDays] = useState(7)
@@ -34,6 +32,9 @@ export default function VacationRecoveryPlanner({ userData, assignments }: Vacat
     return format(tomorrow, 'yyyy-MM-dd')
   })
 
+  // WaniKani's systems share their stage positions, so one layout fits every item
+  const srs = useMemo(() => createSrsModels(srsSystems).standard, [srsSystems])
+
   const isOnVacation = !!userData.current_vacation_started_at
   const vacationStartDate = userData.current_vacation_started_at 
     ? new Date(userData.current_vacation_started_at) 
@@ -47,49 +48,45 @@ export default function VacationRecoveryPlanner({ userData, assignments }: Vacat
   // Calculate current pile-up
   const currentPileUp = useMemo(() => {
     const now = new Date()
-    const stageCounts: number[] = Array(8).fill(0)
+    const stageCounts: number[] = Array(srs.burningStage).fill(0)
     let total = 0
 
     assignments.forEach(a => {
-      if (a.data.hidden || a.data.srs_stage === 9 || a.data.srs_stage === 0) return
+      if (a.data.hidden || a.data.srs_stage >= srs.burningStage || a.data.srs_stage < srs.startingStage) return
       if (!a.data.available_at) return
       
       const availableAt = new Date(a.data.available_at)
       if (availableAt <= now) {
         total++
-        if (a.data.srs_stage >= 1 && a.data.srs_stage <= 8) {
-          stageCounts[a.data.srs_stage - 1]++
-        }
+        stageCounts[a.data.srs_stage]++
       }
     })
 
     return { total, stageCounts }
-  }, [assignments])
+  }, [assignments, srs])
 
   // Calculate future pile-up projection
   const futurePileUp = useMemo(() => {
     const startDate = new Date(futureStartDate)
     const endDate = addDays(startDate, futureDays)
-    const stageCounts: number[] = Array(8).fill(0)
+    const stageCounts: number[] = Array(srs.burningStage).fill(0)
     let total = 0
 
     // Count reviews that would become available during vacation period
     assignments.forEach(a => {
-      if (a.data.hidden || a.data.srs_stage === 9 || a.data.srs_stage === 0) return
+      if (a.data.hidden || a.data.srs_stage >= srs.burningStage || a.data.srs_stage < srs.startingStage) return
       if (!a.data.available_at) return
       
       const availableAt = new Date(a.data.available_at)
       // Items available before vacation end
       if (availableAt <= endDate) {
         total++
-        if (a.data.srs_stage >= 1 && a.data.srs_stage <= 8) {
-          stageCounts[a.data.srs_stage - 1]++
-        }
+        stageCounts[a.data.srs_stage]++
       }
     })
 
     return { total, stageCounts }
-  }, [assignments, futureStartDate, futureDays])
+  }, [assignments, srs, futureStartDate, futureDays])
 
   const activePileUp = planMode === 'current' ? currentPileUp : futurePileUp
   const activeDays = planMode === 'current' ? vacationDays : futureDays
@@ -247,16 +244,16 @@ export default function VacationRecoveryPlanner({ userData, assignments }: Vacat
             {t('vacation.srsBreakdown')}
           </h3>
           <div className="space-y-2">
-            {SRS_STAGES.map((stage, idx) => {
-              const count = activePileUp.stageCounts[idx]
+            {getReviewStages(srs).map(stage => {
+              const count = activePileUp.stageCounts[stage]
               if (count === 0) return null
               const percentage = (count / activePileUp.total) * 100
               return (
-                <div key={idx} className="flex items-center gap-3">
-                  <div className="w-24 text-sm text-gray-600 dark:text-gray-400">{stage.name}</div>
+                <div key={stage} className="flex items-center gap-3">
+                  <div className="w-24 text-sm text-gray-600 dark:text-gray-400">{getStageName(srs, stage)}</div>
                   <div className="flex-1 h-4 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
                     <div 
-                      className={`h-full ${stage.color} transition-all`}
+                      className={`h-full ${STAGE_GROUP_COLORS[getStageGroup(srs, stage)] ?? 'bg-gray-500'} transition-all`}
                       style={{ width: `${percentage}%` }}
                     />
                   </div>
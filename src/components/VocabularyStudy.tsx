@@ -3,18 +3,29 @@
 import { useState, useMemo, useRef, useCallback, useEffect } from 'react'
 import { Search, Volume2, VolumeX, ChevronDown, ChevronUp, BookOpen, Lightbulb, ExternalLink } from 'lucide-react'
 import DOMPurify from 'dompurify'
-import type { Subject, Assignment, ContextSentence, PronunciationAudio } from '@/types/wanikani'
+import type { Subject, Assignment, ContextSentence, PronunciationAudio, SpacedRepetitionSystem } from '@/types/wanikani'
 import { useLanguage } from '@/contexts/LanguageContext'
-import { WaniKaniService } from '@/services/wanikani'
+import type { WaniKaniService } from '@/services/wanikani'
 import { useWanaKanaBind } from '@/hooks/useWanaKana'
+import type { UseStudyMaterialsResult } from '@/hooks/useStudyMaterials'
+import StudyMaterialPanel from './StudyMaterialPanel'
+import { sortAudiosByPreference } from '@/utils/pronunciationAudio'
+import { resolveAudioUrl } from '@/services/audioLibrary'
+import { createSrsModels, getSrsModel, getStageGroup, getStageGroupColor, type SrsStageGroup } from '@/utils/srsModel'
 
 interface VocabularyStudyProps {
   subjects: Subject[]
   assignments: Assignment[]
-  apiToken: string
+  srsSystems: SpacedRepetitionSystem[]
+  // The dashboard's service, so audio lookups share its rate-limit budget and queue
+  service: WaniKaniService
+  studyMaterials: UseStudyMaterialsResult
+  canEditStudyMaterials: boolean
+  onEnableWrites: () => void
+  preferredVoiceActorId?: number // From the user's WaniKani preferences
 }
 
-type FilterType = 'all' | 'apprentice' | 'guru' | 'master' | 'enlightened' | 'burned'
+type FilterType = 'all' | SrsStageGroup
 
 interface VocabItemDetails {
   context_sentences?: ContextSentence[]
@@ -24,7 +35,16 @@ interface VocabItemDetails {
   parts_of_speech?: string[]
 }
 
-export default function VocabularyStudy({ subjects, assignments, apiToken }: VocabularyStudyProps) {
+export default function VocabularyStudy({
+  subjects,
+  assignments,
+  srsSystems,
+  service: wanikaniService,
+  studyMaterials,
+  canEditStudyMaterials,
+  onEnableWrites,
+  preferredVoiceActorId
+}: VocabularyStudyProps) {
   const { t } = useLanguage()
   const [searchQuery, setSearchQuery] = useState('')
   const [filter, setFilter] = useState<FilterType>('all')
@@ -35,12 +55,8 @@ export default function VocabularyStudy({ subjects, assignments, apiToken }: Voc
   const [playingAudio, setPlayingAudio] = useState<string | null>(null)
   const [visibleCount, setVisibleCount] = useState(20)
   const audioRef = useRef<HTMLAudioElement | null>(null)
-  const searchInputRef = useRef<HTMLInputElement>(null)
   
-  const { enabled: kanaEnabled, toggle: toggleKana } = useWanaKanaBind(searchInputRef, { enabled: false })
-
-  // Memoize the WaniKani service to prevent recreation on every fetch
-  const wanikaniService = useMemo(() => new WaniKaniService(apiToken), [apiToken])
+  const { ref: searchInputRef, enabled: kanaEnabled, toggle: toggleKana } = useWanaKanaBind({ enabled: false })
 
   // Cleanup audio on unmount
   useEffect(() => {
@@ -54,16 +70,18 @@ export default function VocabularyStudy({ subjects, assignments, apiToken }: Voc
     }
   }, [])
 
-  // Build assignment map for SRS stage lookup
-  const assignmentMap = useMemo(() => {
-    const map = new Map<number, number>()
+  // SRS stage group per subject, from the subject's own SRS
+  const stageGroupMap = useMemo(() => {
+    const subjectById = new Map(subjects.map(s => [s.id, s]))
+    const srsModels = createSrsModels(srsSystems)
+    const map = new Map<number, SrsStageGroup>()
     assignments.forEach(a => {
       if (!a.data.hidden) {
-        map.set(a.data.subject_id, a.data.srs_stage)
+        map.set(a.data.subject_id, getStageGroup(getSrsModel(srsModels, subjectById.get(a.data.subject_id)), a.data.srs_stage))
       }
     })
     return map
-  }, [assignments])
+  }, [assignments, subjects, srsSystems])
 
   // Filter vocabulary subjects
   const vocabularyItems = useMemo(() => {
@@ -89,47 +107,31 @@ export default function VocabularyStudy({ subjects, assignments, apiToken }: Voc
 
     // SRS stage filter
     if (filter !== 'all') {
-      items = items.filter(s => {
-        const stage = assignmentMap.get(s.id) ?? -1
-        switch (filter) {
-          case 'apprentice': return stage >= 1 && stage <= 4
-          case 'guru': return stage >= 5 && stage <= 6
-          case 'master': return stage === 7
-          case 'enlightened': return stage === 8
-          case 'burned': return stage === 9
-          default: return true
-        }
-      })
+      items = items.filter(s => stageGroupMap.get(s.id) === filter)
     }
 
     return items
-  }, [vocabularyItems, searchQuery, filter, assignmentMap])
+  }, [vocabularyItems, searchQuery, filter, stageGroupMap])
 
   const visibleItems = filteredItems.slice(0, visibleCount)
   const hasMore = filteredItems.length > visibleCount
 
-  // Get SRS stage color
-  const getSrsColor = (subjectId: number) => {
-    const stage = assignmentMap.get(subjectId) ?? -1
-    if (stage >= 1 && stage <= 4) return 'bg-pink-500'
-    if (stage >= 5 && stage <= 6) return 'bg-purple-500'
-    if (stage === 7) return 'bg-blue-500'
-    if (stage === 8) return 'bg-cyan-500'
-    if (stage === 9) return 'bg-amber-500'
-    return 'bg-gray-400'
-  }
-
   // Use ref to avoid stale closure in fetchDetails
   const itemDetailsRef = useRef(itemDetails)
   itemDetailsRef.current = itemDetails
 
-  // Fetch details on-demand
+  const subjectMap = useMemo(() => new Map(subjects.map(s => [s.id, s])), [subjects])
+
+  // Read details from the cached subject, falling back to a lookup for older partial caches
   const fetchDetails = useCallback(async (subjectId: number) => {
     if (itemDetailsRef.current.has(subjectId)) return
     
     setLoadingDetails(subjectId)
     try {
-      const details = await wanikaniService.getSubjectDetails(subjectId)
+      const local = subjectMap.get(subjectId)
+      const details = local?.data.meaning_mnemonic !== undefined
+        ? local
+        : await wanikaniService.getSubjectDetails(subjectId)
       if (details) {
         setItemDetails(prev => new Map(prev).set(subjectId, {
           context_sentences: details.data.context_sentences,
@@ -144,7 +146,7 @@ export default function VocabularyStudy({ subjects, assignments, apiToken }: Voc
     } finally {
       setLoadingDetails(null)
     }
-  }, [wanikaniService])
+  }, [wanikaniService, subjectMap])
 
   // Toggle expansion
   const toggleExpand = async (subjectId: number) => {
@@ -156,8 +158,8 @@ export default function VocabularyStudy({ subjects, assignments, apiToken }: Voc
     }
   }
 
-  // Play audio
-  const playAudio = useCallback((audio: PronunciationAudio) => {
+  // Play audio (from the offline library when downloaded)
+  const playAudio = useCallback(async (audio: PronunciationAudio) => {
     // Clean up previous audio
     if (audioRef.current) {
       audioRef.current.pause()
@@ -165,9 +167,9 @@ export default function VocabularyStudy({ subjects, assignments, apiToken }: Voc
       audioRef.current.onerror = null
     }
     
-    const audioElement = new Audio(audio.url)
-    audioRef.current = audioElement
     setPlayingAudio(audio.url)
+    const audioElement = new Audio(await resolveAudioUrl(audio.url))
+    audioRef.current = audioElement
     
     audioElement.onended = () => setPlayingAudio(null)
     audioElement.onerror = () => setPlayingAudio(null)
@@ -309,7 +311,7 @@ export default function VocabularyStudy({ subjects, assignments, apiToken }: Voc
                   className="w-full flex items-center gap-4 p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors text-left"
                 >
                   {/* Character */}
-                  <span className={`${getSrsColor(item.id)} text-white px-3 py-2 rounded text-xl font-bold min-w-[80px] text-center`}>
+                  <span className={`${getStageGroupColor(stageGroupMap.get(item.id))} text-white px-3 py-2 rounded text-xl font-bold min-w-[80px] text-center`}>
                     {item.data.characters}
                   </span>
                   
@@ -359,7 +361,7 @@ export default function VocabularyStudy({ subjects, assignments, apiToken }: Voc
                               {t('vocabStudy.pronunciation')}
                             </h4>
                             <div className="flex flex-wrap gap-2">
-                              {details.pronunciation_audios
+                              {sortAudiosByPreference(details.pronunciation_audios, preferredVoiceActorId)
                                 .filter(a => a.content_type === 'audio/mpeg')
                                 .map((audio, idx) => (
                                   <button
@@ -380,6 +382,9 @@ export default function VocabularyStudy({ subjects, assignments, apiToken }: Voc
                                     <span className="text-xs opacity-70">
                                       ({audio.metadata.gender === 'male' ? '♂' : '♀'})
                                     </span>
+                                    {audio.metadata.voice_actor_id === preferredVoiceActorId && (
+                                      <span className="text-xs opacity-70" title={t('vocabStudy.preferredVoice')}>★</span>
+                                    )}
                                   </button>
                                 ))}
                             </div>
@@ -429,6 +434,15 @@ export default function VocabularyStudy({ subjects, assignments, apiToken }: Voc
                           </div>
                         )}
 
+                        {/* User notes and synonyms */}
+                        <StudyMaterialPanel
+                          material={studyMaterials.bySubject?.get(item.id)}
+                          loading={studyMaterials.bySubject === null && !studyMaterials.error}
+                          canEdit={canEditStudyMaterials}
+                          onEnableEditing={onEnableWrites}
+                          onSave={fields => studyMaterials.save(item.id, fields)}
+                        />
+
                         {/* Link to WaniKani */}
                         {item.data.document_url && (
                           <a
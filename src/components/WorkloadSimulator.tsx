@@ -0,0 +1,328 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Line } from 'react-chartjs-2'
+import {
+  Chart as ChartJS,
+  TimeScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend,
+} from 'chart.js'
+import 'chartjs-adapter-date-fns'
+import { Plus, X } from 'lucide-react'
+import type { Assignment, SpacedRepetitionSystem, Subject } from '@/types/wanikani'
+import { useLanguage } from '@/contexts/LanguageContext'
+import { useTheme } from '@/contexts/ThemeContext'
+import { SIMULATION_DAYS, expectedReviewsPerLesson, simulateWorkload } from '@/utils/workloadSimulation'
+import { createSrsModels, getReviewStages, getStageName } from '@/utils/srsModel'
+
+ChartJS.register(
+  TimeScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Tooltip,
+  Legend
+)
+
+interface WorkloadSimulatorProps {
+  assignments: Assignment[]
+  subjects: Subject[]
+  srsSystems: SpacedRepetitionSystem[]
+  // Pass rate per starting stage (index 1-8)
+  stageAccuracy: number[]
+  // Whether stageAccuracy comes from the review history or only the review statistics
+  accuracySource: 'history' | 'statistics'
+  userLevel: number
+  dailyReviewTarget: number
+  onDailyReviewTargetChange: (target: number) => void
+}
+
+const DEFAULT_SCENARIOS = [5, 10, 15, 20]
+const MAX_SCENARIOS = 4
+const SCENARIO_COLORS = ['#00aaff', '#ff00aa', '#aa00ff', '#ff6600']
+
+export default function WorkloadSimulator({
+  assignments,
+  subjects,
+  srsSystems,
+  stageAccuracy,
+  accuracySource,
+  userLevel,
+  dailyReviewTarget,
+  onDailyReviewTargetChange
+}: WorkloadSimulatorProps) {
+  const { t } = useLanguage()
+  const { isDark } = useTheme()
+  const [scenarios, setScenarios] = useState<number[]>(DEFAULT_SCENARIOS)
+
+  const results = useMemo(
+    () => scenarios.map(lessonsPerDay => simulateWorkload(
+      { assignments, subjects, srsSystems, stageAccuracy, userLevel },
+      lessonsPerDay
+    )),
+    [scenarios, assignments, subjects, srsSystems, stageAccuracy, userLevel]
+  )
+
+  const srs = useMemo(() => createSrsModels(srsSystems).standard, [srsSystems])
+  const reviewsPerLesson = useMemo(() => expectedReviewsPerLesson(stageAccuracy, srs), [stageAccuracy, srs])
+
+  // Every level any scenario reaches, for the comparison rows
+  const levelsReached = useMemo(() => {
+    const levels = new Set<number>()
+    results.forEach(result => result.levelUps.forEach(up => levels.add(up.level)))
+    return Array.from(levels).sort((a, b) => a - b)
+  }, [results])
+
+  const setScenario = (index: number, value: number) => {
+    setScenarios(previous => previous.map((rate, i) => i === index ? Math.max(0, Math.min(100, value)) : rate))
+  }
+
+  const addScenario = () => {
+    setScenarios(previous => previous.concat((previous[previous.length - 1] ?? 0) + 5))
+  }
+
+  const removeScenario = (index: number) => {
+    setScenarios(previous => previous.filter((_, i) => i !== index))
+  }
+
+  const scenarioLabel = (lessonsPerDay: number) => t('workload.scenario').replace('{count}', String(lessonsPerDay))
+
+  const buildOptions = (yTitle: string) => ({
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: 'index' as const, intersect: false },
+    plugins: {
+      legend: {
+        labels: { color: isDark ? '#e0e0e0' : '#333333' },
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: any) => `${context.dataset.label}: ${Math.round(context.parsed.y)}`
+        }
+      }
+    },
+    scales: {
+      x: {
+        type: 'time' as const,
+        ticks: { color: isDark ? '#a0a0a0' : '#666666' },
+        grid: { color: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)' },
+        time: { unit: 'week' as const },
+      },
+      y: {
+        title: { display: true, text: yTitle, color: isDark ? '#a0a0a0' : '#666666' },
+        ticks: { color: isDark ? '#a0a0a0' : '#666666' },
+        grid: { color: isDark ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)' },
+        beginAtZero: true,
+      },
+    },
+  })
+
+  const reviewData = {
+    datasets: [
+      ...results.map((result, index) => ({
+        label: scenarioLabel(result.lessonsPerDay),
+        data: result.days.map(day => ({ x: day.date, y: day.reviews })),
+        borderColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+        backgroundColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+        borderWidth: 2,
+        pointRadius: 0,
+        tension: 0.2,
+      })),
+      {
+        label: t('workload.target'),
+        data: results[0]?.days.map(day => ({ x: day.date, y: dailyReviewTarget })) ?? [],
+        borderColor: isDark ? '#a0a0a0' : '#666666',
+        backgroundColor: isDark ? '#a0a0a0' : '#666666',
+        borderWidth: 1,
+        borderDash: [6, 6],
+        pointRadius: 0,
+      },
+    ],
+  }
+
+  const apprenticeData = {
+    datasets: results.map((result, index) => ({
+      label: scenarioLabel(result.lessonsPerDay),
+      data: result.days.map(day => ({ x: day.date, y: day.apprentice })),
+      borderColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+      backgroundColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length],
+      borderWidth: 2,
+      pointRadius: 0,
+      tension: 0.2,
+    })),
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-wanikani-text dark:text-wanikani-text-dark">{t('workload.title')}</h2>
+          <p className="text-sm text-wanikani-text-light dark:text-wanikani-text-light-dark">
+            {t('workload.subtitle').replace('{days}', String(SIMULATION_DAYS))}
+          </p>
+          <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mt-1">
+            {accuracySource === 'history' ? t('workload.fromHistory') : t('workload.fromStatistics')}
+            {' · '}
+            {t('workload.reviewsPerLesson').replace('{count}', reviewsPerLesson.toFixed(1))}
+          </p>
+        </div>
+        <label className="text-sm text-wanikani-text dark:text-wanikani-text-dark">
+          <span className="block text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-1">{t('workload.dailyTarget')}</span>
+          <input
+            type="number"
+            min={10}
+            max={1000}
+            step={10}
+            value={dailyReviewTarget}
+            onChange={event => {
+              const value = Number(event.target.value)
+              if (value > 0) onDailyReviewTargetChange(value)
+            }}
+            className="w-28 px-2 py-1.5 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark bg-white dark:bg-gray-800 text-sm"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        {scenarios.map((lessonsPerDay, index) => (
+          <div key={index} className="flex items-end gap-1">
+            <label className="text-sm text-wanikani-text dark:text-wanikani-text-dark">
+              <span className="flex items-center gap-1 text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark mb-1">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }} />
+                {t('workload.lessonsPerDay')}
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={lessonsPerDay}
+                onChange={event => setScenario(index, Number(event.target.value))}
+                className="w-20 px-2 py-1.5 rounded-lg border border-wanikani-border dark:border-wanikani-border-dark bg-white dark:bg-gray-800 text-sm"
+              />
+            </label>
+            {scenarios.length > 1 && (
+              <button
+                onClick={() => removeScenario(index)}
+                className="p-1.5 text-wanikani-text-light dark:text-wanikani-text-light-dark hover:text-red-500"
+                title={t('workload.removeScenario')}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        {scenarios.length < MAX_SCENARIOS && (
+          <button
+            onClick={addScenario}
+            className="flex items-center gap-1 px-3 py-1.5 border border-wanikani-border dark:border-wanikani-border-dark hover:bg-gray-50 dark:hover:bg-gray-700 text-wanikani-text dark:text-wanikani-text-dark rounded-lg transition-colors text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            {t('workload.addScenario')}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-2">{t('workload.dailyReviews')}</h3>
+          <div className="h-64">
+            <Line data={reviewData} options={buildOptions(t('workload.reviewsAxis'))} />
+          </div>
+        </div>
+        <div>
+          <h3 className="font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-2">{t('workload.apprenticeCount')}</h3>
+          <div className="h-64">
+            <Line data={apprenticeData} options={buildOptions(t('workload.itemsAxis'))} />
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">
+            <tr>
+              <th className="text-left py-1" />
+              {results.map((result, index) => (
+                <th key={index} className="text-right py-1" style={{ color: SCENARIO_COLORS[index % SCENARIO_COLORS.length] }}>
+                  {scenarioLabel(result.lessonsPerDay)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="text-wanikani-text dark:text-wanikani-text-dark">
+            <tr className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+              <td className="py-1">{t('workload.averageReviews')}</td>
+              {results.map((result, index) => (
+                <td key={index} className="text-right py-1">{Math.round(result.averageReviews)}</td>
+              ))}
+            </tr>
+            <tr className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+              <td className="py-1">{t('workload.peakReviews')}</td>
+              {results.map((result, index) => (
+                <td
+                  key={index}
+                  className={`text-right py-1 ${result.peakReviews > dailyReviewTarget ? 'text-red-500 font-semibold' : ''}`}
+                >
+                  {Math.round(result.peakReviews)}
+                </td>
+              ))}
+            </tr>
+            <tr className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+              <td className="py-1">{t('workload.daysOverTarget')}</td>
+              {results.map((result, index) => (
+                <td key={index} className="text-right py-1">
+                  {result.days.filter(day => day.reviews > dailyReviewTarget).length}
+                </td>
+              ))}
+            </tr>
+            <tr className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+              <td className="py-1">{t('workload.peakApprentice')}</td>
+              {results.map((result, index) => (
+                <td key={index} className="text-right py-1">{Math.round(result.peakApprentice)}</td>
+              ))}
+            </tr>
+            <tr className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+              <td className="py-1">{t('workload.lessonsDone')}</td>
+              {results.map((result, index) => (
+                <td key={index} className="text-right py-1">{result.lessonsDone}</td>
+              ))}
+            </tr>
+            {levelsReached.map(level => (
+              <tr key={level} className="border-t border-wanikani-border dark:border-wanikani-border-dark">
+                <td className="py-1">{t('workload.levelReached').replace('{level}', String(level))}</td>
+                {results.map((result, index) => {
+                  const levelUp = result.levelUps.find(up => up.level === level)
+                  return (
+                    <td key={index} className="text-right py-1">
+                      {levelUp ? levelUp.date.toLocaleDateString() : '—'}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-wanikani-text dark:text-wanikani-text-dark mb-2">{t('workload.stageAccuracy')}</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-2 text-xs">
+          {getReviewStages(srs).map(stage => (
+            <div key={stage} className="bg-gray-50 dark:bg-gray-800 rounded-lg p-2 border border-wanikani-border dark:border-wanikani-border-dark">
+              <div className="text-wanikani-text-light dark:text-wanikani-text-light-dark">{getStageName(srs, stage)}</div>
+              <div className="text-wanikani-text dark:text-wanikani-text-dark font-bold">
+                {Math.round((stageAccuracy[stage] ?? 0) * 100)}%
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-wanikani-text-light dark:text-wanikani-text-light-dark">{t('workload.assumptions')}</p>
+    </div>
+  )
+}
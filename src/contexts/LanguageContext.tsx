@@ -16,6 +16,11 @@ const translations: Record<Language, Record<string, string>> = {
     'header.title': 'WANIKANI DASHBOARD',
     'header.level': 'Level',
     'header.logout': 'Logout',
+    'header.refresh': 'Refresh',
+    'offline.banner': 'You are offline. Showing data cached on {time}.',
+    'offline.bannerNoTimestamp': 'You are offline. Showing cached data.',
+    'offline.refreshQueued': 'Refresh queued: it will run when the connection returns.',
+    'header.demo': 'Demo',
     
     // API Token Input
     'token.title': 'WaniKani Dashboard',
@@ -30,9 +35,60 @@ const translations: Record<Language, Record<string, string>> = {
     'token.step3': 'Give your token a description (e.g., "Dashboard")',
     'token.step4': 'Leave all permission boxes unchecked (read-only access is automatic)',
     'token.step5': 'Click "Generate token" and copy it here',
+    'token.demo': 'Try demo mode',
+    'token.demoHint': 'Explore the dashboard with sample data. No token or network needed.',
+    'profiles.label': 'Profile name (optional)',
+    'profiles.labelPlaceholder': 'e.g. Yuki',
+    'profiles.color': 'Avatar color',
+    'profiles.cancel': 'Back to dashboard',
+    'profiles.switch': 'Switch profile',
+    'profiles.add': 'Add profile',
+    'profiles.compare': 'Compare accounts',
+    'profiles.compareTitle': 'Account Comparison',
+    'profiles.compareSubtitle': 'Levels and accuracy of every saved profile, side by side',
+    'profiles.itemsReviewed': 'Items reviewed',
+    'profiles.accuracy': 'Overall accuracy',
+    'profiles.meaningAccuracy': 'Meaning accuracy',
+    'profiles.readingAccuracy': 'Reading accuracy',
+    'profiles.totalAnswers': '{count} answers in total',
+    'lock.title': 'Dashboard Locked',
+    'lock.subtitle': 'Enter your passphrase to unlock your saved profiles',
+    'lock.passphrase': 'Passphrase',
+    'lock.confirmPassphrase': 'Confirm passphrase',
+    'lock.unlock': 'Unlock',
+    'lock.wrongPassphrase': 'Wrong passphrase',
+    'lock.forgot': 'Forgot passphrase? Remove saved profiles',
+    'lock.resetConfirm': 'Without the passphrase the saved tokens cannot be recovered. Remove all saved profiles and cached data?',
+    'lock.settings': 'Passphrase lock',
+    'lock.disabledHint': 'Encrypt your saved API tokens with a passphrase. It is asked for when you open the dashboard.',
+    'lock.enabledHint': 'Your saved API tokens are encrypted with your passphrase.',
+    'lock.encryptCache': 'Also encrypt cached data',
+    'lock.encryptCacheHint': 'Protects your WaniKani data on this device. Changing this clears the cache.',
+    'lock.cacheModeConfirm': 'Changing cache encryption clears the cached data, which is downloaded again. Continue?',
+    'lock.autoLock': 'Lock automatically after inactivity',
+    'lock.autoLockNever': 'Never',
+    'lock.autoLockMinutes': '{count} minutes',
+    'lock.noRecovery': 'A forgotten passphrase cannot be recovered; you would need to add your tokens again.',
+    'lock.tooShort': 'Use at least {count} characters',
+    'lock.mismatch': 'Passphrases do not match',
+    'lock.enable': 'Enable lock',
+    'lock.disable': 'Turn off',
+    'lock.disableConfirm': 'Turn off the passphrase lock? Saved tokens will be stored unencrypted.',
+    'lock.lockNow': 'Lock now',
+    'lock.error': 'Could not update the lock settings',
     
     // Loading
     'loading': 'Loading...',
+    'loading.syncProgress': 'Syncing {collection}: page {page}/{total}',
+    'loading.syncPage': 'Syncing {collection}: page {page}',
+    'sync.collection.assignments': 'assignments',
+    'sync.collection.review_statistics': 'review statistics',
+    'sync.collection.level_progressions': 'level progressions',
+    'sync.collection.reviews': 'reviews',
+    'sync.collection.subjects': 'subjects',
+    'sync.collection.spaced_repetition_systems': 'SRS systems',
+    'sync.collection.study_materials': 'study materials',
+    'sync.collection.resets': 'resets',
     
     // Common
     'common.radicals': 'Radicals',
@@ -110,6 +166,32 @@ const translations: Record<Language, Record<string, string>> = {
     'batching.peakHour': 'Peak hour',
     'batching.average': 'Average',
     'batching.noData': 'Summary data not loaded yet.',
+    'batching.pickLessons': 'Choose lessons to start',
+    'batching.pickerTitle': 'Lesson picker',
+    'batching.selectAll': 'Select all',
+    'batching.selectBatch': 'Select one batch ({size})',
+    'batching.batchesOf': '{batches} batches of {size}',
+    'batching.selectNone': 'Clear',
+    'batching.closePicker': 'Close',
+    'batching.allowWrites': 'Allow starting lessons from the dashboard',
+    'batching.allowWritesHint': 'Needs an API token with the "assignments:start" permission. Started lessons move into your review queue on WaniKani.',
+    'batching.startLessons': 'Start {count} lessons',
+    'batching.basis': 'Target {target} reviews/day · ~{perLesson} reviews per lesson',
+    'batching.startedResult': '{count} lessons started.',
+    'batching.failedResult': '{count} could not be started.',
+    'studyMaterials.title': 'My notes & synonyms',
+    'studyMaterials.synonyms': 'Synonyms',
+    'studyMaterials.synonymsPlaceholder': 'Comma-separated, e.g. large, huge',
+    'studyMaterials.meaningNote': 'Meaning note',
+    'studyMaterials.readingNote': 'Reading note',
+    'studyMaterials.empty': 'No notes or synonyms yet.',
+    'studyMaterials.add': 'Add',
+    'studyMaterials.edit': 'Edit',
+    'studyMaterials.save': 'Save',
+    'studyMaterials.cancel': 'Cancel',
+    'studyMaterials.tooManySynonyms': 'WaniKani allows at most {count} synonyms.',
+    'studyMaterials.enableEditing': 'Allow editing',
+    'studyMaterials.enableEditingConfirm': 'Allow this profile to write to your WaniKani account? Editing notes needs an API token with the "study_materials:create" and "study_materials:update" permissions.',
     
     // Tabs
     'tabs.levelProjection': 'Level Projection',
@@ -119,20 +201,82 @@ const translations: Record<Language, Record<string, string>> = {
     
     // Level Projection
     'projection.title': 'Level Up Projection',
-    'projection.basedOnPace': 'Based on your recent pace (last {count} levels)',
-    'projection.averagePace': 'Average pace',
-    'projection.daysPerLevel': 'days/level',
+    'projection.complete': 'You have reached level 60',
     'projection.level60Eta': 'Level 60 ETA',
     'projection.latestLevel': 'Latest completed level',
     'projection.projectionStart': 'Projection start',
     'projection.totalToGo': 'Total to go',
     'projection.levels': 'levels',
     'projection.actual': 'Actual',
-    'projection.projected': 'Projected (Avg)',
-    'projection.fastPace': 'Fast',
-    'projection.avgPace': 'Avg',
-    'projection.slowPace': 'Slow',
-    'projection.paceComparison': 'Pace comparison (days/level)',
+    'projection.p10': 'P10',
+    'projection.p50': 'P50',
+    'projection.p90': 'P90',
+    'projection.basedOnSimulation': '{trials} simulated runs, drawing on your last {count} levels and your review accuracy',
+    'projection.basedOnDefaultPace': '{trials} simulated runs at a default pace (no completed levels yet) and your review accuracy',
+    'projection.medianPace': 'Median {days} days/level',
+    'projection.passRate': '{percent}% of radical and kanji reviews passed',
+    'projection.perLevel': 'Dates per level',
+    'projection.fastLevel': 'fast level',
+    'projection.reset': 'Reset',
+    'rateLimit.title': 'API budget',
+    'rateLimit.remaining': '{remaining} of {limit} requests left this minute',
+    'rateLimit.queued': '{count} waiting',
+    'rateLimit.pausedUntil': 'paused until {time}',
+    'tabs.cache': 'Cache',
+    'cache.title': 'Cache Inspector',
+    'cache.subtitle': 'What this account keeps in browser storage, and for how long',
+    'cache.reload': 'Reload',
+    'cache.clearAll': 'Clear account cache',
+    'cache.clearAllConfirm': 'Remove every cached entry for this account? The next load fetches everything again.',
+    'cache.thisAccount': 'This account',
+    'cache.allAccounts': 'All accounts',
+    'cache.entriesSize': '{count} entries · {size}',
+    'cache.browserStorage': 'Browser storage',
+    'cache.quotaUsage': '{usage} of {quota}',
+    'cache.quotaUnavailable': 'Not reported by this browser',
+    'cache.ttlTitle': 'Cache lifetimes',
+    'cache.ttlHint': 'How long data is reused before it is checked again. Saved for this account.',
+    'cache.default': 'default',
+    'cache.entriesTitle': 'Entries',
+    'cache.empty': 'Nothing cached for this account.',
+    'cache.endpoint': 'Endpoint',
+    'cache.size': 'Size',
+    'cache.age': 'Age',
+    'cache.ttl': 'TTL',
+    'cache.etag': 'ETag',
+    'cache.lastAccessed': 'Last accessed',
+    'cache.stale': 'stale',
+    'cache.syncedCollection': 'synced collection',
+    'cache.refresh': 'Sync now',
+    'cache.purge': 'Remove entry',
+    'cache.purgeCollection': 'Purge (full re-sync next time)',
+    'cache.type.subjects': 'Subjects',
+    'cache.type.user': 'User',
+    'cache.type.assignments': 'Assignments',
+    'cache.type.reviewStats': 'Review statistics',
+    'cache.type.reviews': 'Reviews',
+    'cache.type.summary': 'Summary',
+    'cache.type.levelProgressions': 'Level progressions',
+    'cache.type.spacedRepetitionSystems': 'SRS systems',
+    'cache.type.studyMaterials': 'Study materials',
+    'cache.type.resets': 'Resets',
+    'cache.type.other': 'Other',
+    'audioLibrary.title': 'Offline Audio Library',
+    'audioLibrary.subtitle': 'Download pronunciation recordings to play them without streaming',
+    'audioLibrary.unsupported': 'This browser cannot store audio for offline use.',
+    'audioLibrary.librarySize': '{count} recordings · {size}',
+    'audioLibrary.clear': 'Clear library',
+    'audioLibrary.clearConfirm': 'Remove all downloaded recordings?',
+    'audioLibrary.voiceActor': 'Preferred voice actor',
+    'audioLibrary.voiceActorDefault': 'WaniKani default',
+    'audioLibrary.byLevel': 'By level',
+    'audioLibrary.byStage': 'By SRS stage',
+    'audioLibrary.allVoices': 'Download every voice actor (not just the preferred one)',
+    'audioLibrary.download': 'Download {count}',
+    'audioLibrary.cancel': 'Cancel',
+    'audioLibrary.selection': '{count} recordings selected, {stored} already downloaded',
+    'audioLibrary.progress': '{done}/{total} · {size}',
+    'audioLibrary.failed': '{count} failed',
     
     // Burn Radar
     'burn.title': 'Burn Radar',
@@ -155,11 +299,22 @@ const translations: Record<Language, Record<string, string>> = {
     
     // Study Heatmap
     'heatmap.title': 'Study Heatmap',
-    'heatmap.subtitle': 'Hover to see daily lessons. Total: {total}',
+    'heatmap.subtitle': 'Click a day to see the items you studied. Total: {total}',
     'heatmap.less': 'Less',
     'heatmap.more': 'More',
-    'heatmap.maxLessons': 'Max lessons in a day',
-    'heatmap.totalLessons': 'Total lessons loaded',
+    'heatmap.mode.lessons': 'Lessons',
+    'heatmap.mode.reviews': 'Reviews',
+    'heatmap.mode.combined': 'Combined',
+    'heatmap.lessons': 'Lessons',
+    'heatmap.reviews': 'Reviews',
+    'heatmap.maxInDay': 'Max in a day',
+    'heatmap.totalInYear': 'Total this year',
+    'heatmap.currentStreak': 'Current streak',
+    'heatmap.longestStreak': 'Longest streak',
+    'heatmap.inferredNote': 'Review history is not loaded, so reviews are estimated from your assignments (pass, burn and most recent review).',
+    'heatmap.dayDetails': 'Studied on {date}',
+    'heatmap.noItems': 'No items studied on this day.',
+    'heatmap.closeDetails': 'Close',
     'heatmap.noActivity': 'No study activity found for {year}. Try a different year.',
     
     // Review Forecast
@@ -224,6 +379,16 @@ const translations: Record<Language, Record<string, string>> = {
     
     // Errors
     'error.updateToken': 'Update Token',
+    'error.retry': 'Try Again',
+    'error.auth': 'Invalid API token. Please check your token and try again.',
+    'error.forbidden': 'Access denied. Check your subscription level and token permissions.',
+    'error.rateLimit': 'Rate limit exceeded. Please wait about {seconds} seconds and try again.',
+    'error.server': 'WaniKani is having trouble right now (error {status}). Please try again later.',
+    'error.network': 'Could not reach WaniKani. Check your internet connection.',
+    'error.parse': 'Received an unexpected response from WaniKani.',
+    'error.http': 'The request failed (error {status}).',
+    'error.unknown': 'Failed to fetch data.',
+    'error.writeDisabled': 'Writing to your account is turned off for this profile.',
     
     // Export
     'export.button': 'Export',
@@ -352,6 +517,7 @@ const translations: Record<Language, Record<string, string>> = {
     'vocabStudy.filterEnlightened': 'Enlightened',
     'vocabStudy.filterBurned': 'Burned',
     'vocabStudy.pronunciation': 'Pronunciation',
+    'vocabStudy.preferredVoice': 'Default voice actor',
     'vocabStudy.contextSentences': 'Context Sentences',
     'vocabStudy.meaningMnemonic': 'Meaning Mnemonic',
     'vocabStudy.readingMnemonic': 'Reading Mnemonic',
@@ -395,12 +561,161 @@ const translations: Record<Language, Record<string, string>> = {
     'readingPractice.micNotAllowed': 'Microphone access denied. Please allow access in your browser settings.',
     'readingPractice.networkError': 'Network error. Please check your connection.',
     'tabs.readingPractice': 'Reading Practice',
+
+    // Review History
+    'tabs.reviewHistory': 'Review History',
+    'tabs.compareProfiles': 'Compare Accounts',
+    'history.title': 'Review History',
+    'history.subtitle': 'Built from every review you have completed',
+    'history.lastDays': 'Last {days} days',
+    'history.allTime': 'All time',
+    'history.loading': 'Loading review history...',
+    'history.noData': 'No reviews found for this period. WaniKani may not provide review history for every account.',
+    'history.totalReviews': 'Reviews',
+    'history.accuracy': 'Accuracy',
+    'history.perActiveDay': 'Per active day',
+    'history.busiestDay': 'Busiest day',
+    'history.reviews': 'Reviews',
+    'history.rollingAccuracy': '7-day accuracy',
+    'history.correct': 'Correct',
+    'history.incorrect': 'Incorrect',
+    'history.dailyTitle': 'Daily reviews and accuracy',
+    'history.hourlyTitle': 'Answers by hour of day',
+    'history.transitionsTitle': 'SRS stage transitions',
+    'history.transitionsSubtitle': 'Rows are the starting stage, columns the ending stage',
+    'history.fromTo': 'From → To',
+
+    // Review Quiz
+    'tabs.reviewQuiz': 'Review Quiz',
+    'quiz.title': 'Review Quiz',
+    'quiz.subtitle': 'Answer the reviews that are due now, checked the way WaniKani checks them',
+    'quiz.start': 'Start reviews',
+    'quiz.restart': 'Load reviews again',
+    'quiz.noReviews': 'No reviews are available right now.',
+    'quiz.progress': '{done} done · {remaining} left',
+    'quiz.prompt.radical.meaning': 'Radical Name',
+    'quiz.prompt.kanji.meaning': 'Kanji Meaning',
+    'quiz.prompt.kanji.reading': 'Kanji Reading',
+    'quiz.prompt.vocabulary.meaning': 'Vocabulary Meaning',
+    'quiz.prompt.vocabulary.reading': 'Vocabulary Reading',
+    'quiz.prompt.kana_vocabulary.meaning': 'Vocabulary Meaning',
+    'quiz.meaningPlaceholder': 'Your answer',
+    'quiz.readingPlaceholder': '答え',
+    'quiz.check': 'Check',
+    'quiz.next': 'Next',
+    'quiz.correctAnswers': 'Correct answers:',
+    'quiz.notice.typo': 'Close enough — WaniKani spells it "{answer}".',
+    'quiz.notice.readingInMeaning': 'WaniKani is looking for the meaning, not the reading.',
+    'quiz.notice.meaningInReading': 'WaniKani is looking for the reading, not the meaning.',
+    'quiz.notice.otherReadingType': 'That is a reading of this kanji, but WaniKani is looking for the {type} reading.',
+    'quiz.notice.singleN': 'Almost: type "nn" for ん when a な-row kana follows (e.g. o-n-n-n-a for おんな).',
+    'quiz.readingType.onyomi': "on'yomi",
+    'quiz.readingType.kunyomi': "kun'yomi",
+    'quiz.readingType.nanori': 'nanori',
+    'quiz.notice.notKana': 'Readings can only contain kana.',
+    'quiz.notice.empty': 'Type an answer first.',
+    'quiz.reviewed': 'Reviewed',
+    'quiz.allCorrect': 'No mistakes',
+    'quiz.accuracy': 'Accuracy',
+    'quiz.itemMistakes': 'Meaning mistakes: {meaning} · Reading mistakes: {reading}',
+    'quiz.allowWrites': 'Allow submitting reviews from the dashboard',
+    'quiz.allowWritesHint': 'Needs an API token with the "reviews:create" permission. Submitted reviews move the items along their SRS stages on WaniKani.',
+    'quiz.submit': 'Submit {count} reviews to WaniKani',
+
+    // Workload Simulator
+    'tabs.workload': 'Workload Simulator',
+    'tabs.retention': 'Retention',
+    'tabs.sessions': 'Sessions',
+    'workload.title': 'Workload Simulator',
+    'workload.subtitle': 'Daily reviews, Apprentice items and level-ups over the next {days} days at different lesson paces',
+    'workload.fromHistory': 'Accuracy per SRS stage from your review history',
+    'workload.fromStatistics': 'Accuracy from your review statistics (open Review History for per-stage accuracy)',
+    'workload.reviewsPerLesson': '~{count} reviews per lesson until burned',
+    'workload.dailyTarget': 'Daily review target',
+    'workload.lessonsPerDay': 'Lessons/day',
+    'workload.scenario': '{count} lessons/day',
+    'workload.addScenario': 'Add scenario',
+    'workload.removeScenario': 'Remove scenario',
+    'workload.target': 'Target',
+    'workload.dailyReviews': 'Reviews per day',
+    'workload.apprenticeCount': 'Apprentice items',
+    'workload.reviewsAxis': 'Reviews',
+    'workload.itemsAxis': 'Items',
+    'workload.averageReviews': 'Average reviews/day',
+    'workload.peakReviews': 'Peak reviews/day',
+    'workload.daysOverTarget': 'Days over target',
+    'workload.peakApprentice': 'Peak Apprentice',
+    'workload.lessonsDone': 'Lessons done',
+    'workload.levelReached': 'Level {level}',
+    'workload.stageAccuracy': 'Accuracy per stage',
+    'workload.assumptions': 'Assumes lessons at the start of each day, every review done as soon as it is due, and the next level unlocking once 90% of its kanji are Guru.',
+
+    // Retention Analysis
+    'retention.title': 'Retention by SRS Stage',
+    'retention.subtitle': 'How often reviews move items up from each stage, from your full review log',
+    'retention.overall': 'Overall pass rate',
+    'retention.failed': 'Failed reviews',
+    'retention.weakestStage': 'Weakest stage',
+    'retention.matrixTitle': 'Pass Rate by Stage and Type',
+    'retention.matrixSubtitle': 'Share of reviews that moved the item up, with the difference to your overall rate in points. Cells with fewer than {min} reviews are greyed out. Click a cell to list the items that failed there.',
+    'retention.stage': 'Stage',
+    'retention.all': 'All',
+    'retention.radical': 'Radicals',
+    'retention.kanji': 'Kanji',
+    'retention.vocabulary': 'Vocabulary',
+    'retention.cellTitle': '{passed} of {total} reviews passed',
+    'retention.failedTitle': 'Failed at {stage} ({type})',
+    'retention.noFailures': 'No failed reviews here.',
+    'retention.item': 'Item',
+    'retention.failures': 'Failed / reviews',
+    'retention.droppedTo': 'Dropped to',
+    'retention.lastFailed': 'Last failed',
+    'retention.moreItems': '{count} more items not shown',
+    'retention.close': 'Close',
+    'retention.windowsTitle': 'Pass Rate over Time',
+    'retention.windowsSubtitle': 'The same rates over different periods, to see whether retention is improving.',
+
+    // Session Analysis
+    'sessions.title': 'Time of Day & Sessions',
+    'sessions.subtitle': 'How accuracy, pace and session length change with the hour and the weekday you study',
+    'sessions.gap': 'New session after',
+    'sessions.minutes': 'min',
+    'sessions.sessions': 'Sessions',
+    'sessions.averageLength': 'Average length',
+    'sessions.reviewsPerSession': '{count} reviews each',
+    'sessions.itemsPerMinute': 'Reviews per minute',
+    'sessions.periodsTitle': 'By Time of Day',
+    'sessions.periodsSubtitle': 'Accuracy with the difference to your overall accuracy in points. Periods with fewer than {min} reviews are greyed out.',
+    'sessions.period.morning': 'Morning',
+    'sessions.period.afternoon': 'Afternoon',
+    'sessions.period.evening': 'Evening',
+    'sessions.period.night': 'Night',
+    'sessions.periodHours.morning': '6:00–12:00',
+    'sessions.periodHours.afternoon': '12:00–18:00',
+    'sessions.periodHours.evening': '18:00–24:00',
+    'sessions.periodHours.night': '0:00–6:00',
+    'sessions.hourlyTitle': 'By Starting Hour',
+    'sessions.weekdayTitle': 'By Weekday',
+    'sessions.day': 'Day',
+    'sessions.weekday.0': 'Sunday',
+    'sessions.weekday.1': 'Monday',
+    'sessions.weekday.2': 'Tuesday',
+    'sessions.weekday.3': 'Wednesday',
+    'sessions.weekday.4': 'Thursday',
+    'sessions.weekday.5': 'Friday',
+    'sessions.weekday.6': 'Saturday',
+    'sessions.note': 'A session ends after {gap} minutes without a review and counts towards the hour and day it started in, in local time. The pace is measured between answers, so single-review sessions add no time.',
   },
   ja: {
     // Header
     'header.title': 'ワニカニ ダッシュボード',
     'header.level': 'レベル',
     'header.logout': 'ログアウト',
+    'header.refresh': '更新',
+    'offline.banner': 'オフラインです。{time}に取得したデータを表示しています。',
+    'offline.bannerNoTimestamp': 'オフラインです。キャッシュされたデータを表示しています。',
+    'offline.refreshQueued': '更新は接続が戻ったときに実行されます。',
+    'header.demo': 'デモ',
     
     // API Token Input
     'token.title': 'ワニカニ ダッシュボード',
@@ -415,9 +730,60 @@ const translations: Record<Language, Record<string, string>> = {
     'token.step3': 'トークンに説明を入力（例：「ダッシュボード」）',
     'token.step4': '権限のチェックボックスはすべて空のまま（読み取り専用アクセスは自動）',
     'token.step5': '「トークンを生成」をクリックしてここにコピー',
+    'token.demo': 'デモモードを試す',
+    'token.demoHint': 'サンプルデータでダッシュボードを体験できます。トークンやネットワークは不要です。',
+    'profiles.label': 'プロフィール名（任意）',
+    'profiles.labelPlaceholder': '例: ゆき',
+    'profiles.color': 'アバターの色',
+    'profiles.cancel': 'ダッシュボードに戻る',
+    'profiles.switch': 'プロフィールを切り替え',
+    'profiles.add': 'プロフィールを追加',
+    'profiles.compare': 'アカウントを比較',
+    'profiles.compareTitle': 'アカウント比較',
+    'profiles.compareSubtitle': '保存されたすべてのプロフィールのレベルと正答率を並べて表示',
+    'profiles.itemsReviewed': '復習したアイテム',
+    'profiles.accuracy': '総合正答率',
+    'profiles.meaningAccuracy': '意味の正答率',
+    'profiles.readingAccuracy': '読みの正答率',
+    'profiles.totalAnswers': '合計{count}回の回答',
+    'lock.title': 'ダッシュボードはロック中です',
+    'lock.subtitle': 'パスフレーズを入力して保存済みプロフィールのロックを解除',
+    'lock.passphrase': 'パスフレーズ',
+    'lock.confirmPassphrase': 'パスフレーズ（確認）',
+    'lock.unlock': 'ロック解除',
+    'lock.wrongPassphrase': 'パスフレーズが違います',
+    'lock.forgot': 'パスフレーズを忘れた場合：保存済みプロフィールを削除',
+    'lock.resetConfirm': 'パスフレーズがないと保存済みトークンは復元できません。すべてのプロフィールとキャッシュを削除しますか？',
+    'lock.settings': 'パスフレーズロック',
+    'lock.disabledHint': '保存したAPIトークンをパスフレーズで暗号化します。ダッシュボードを開くときに入力を求められます。',
+    'lock.enabledHint': '保存したAPIトークンはパスフレーズで暗号化されています。',
+    'lock.encryptCache': 'キャッシュデータも暗号化する',
+    'lock.encryptCacheHint': 'この端末のWaniKaniデータを保護します。変更するとキャッシュは削除されます。',
+    'lock.cacheModeConfirm': 'キャッシュの暗号化を切り替えるとキャッシュが削除され、再ダウンロードされます。続けますか？',
+    'lock.autoLock': '操作がないときに自動でロック',
+    'lock.autoLockNever': 'しない',
+    'lock.autoLockMinutes': '{count}分後',
+    'lock.noRecovery': 'パスフレーズを忘れると復元できません。トークンを再度追加する必要があります。',
+    'lock.tooShort': '{count}文字以上にしてください',
+    'lock.mismatch': 'パスフレーズが一致しません',
+    'lock.enable': 'ロックを有効にする',
+    'lock.disable': '無効にする',
+    'lock.disableConfirm': 'パスフレーズロックを無効にしますか？保存済みトークンは暗号化されずに保存されます。',
+    'lock.lockNow': '今すぐロック',
+    'lock.error': 'ロック設定を更新できませんでした',
     
     // Loading
     'loading': '読み込み中...',
+    'loading.syncProgress': '{collection}を同期中: {page}/{total}ページ',
+    'loading.syncPage': '{collection}を同期中: {page}ページ目',
+    'sync.collection.assignments': 'アサインメント',
+    'sync.collection.review_statistics': '復習統計',
+    'sync.collection.level_progressions': 'レベル進行',
+    'sync.collection.reviews': '復習履歴',
+    'sync.collection.subjects': 'アイテム',
+    'sync.collection.spaced_repetition_systems': 'SRSシステム',
+    'sync.collection.study_materials': 'ノート',
+    'sync.collection.resets': 'リセット',
     
     // Common
     'common.radicals': '部首',
@@ -495,6 +861,32 @@ const translations: Record<Language, Record<string, string>> = {
     'batching.peakHour': 'ピーク時間',
     'batching.average': '平均',
     'batching.noData': 'サマリーデータがまだ読み込まれていません。',
+    'batching.pickLessons': '開始するレッスンを選ぶ',
+    'batching.pickerTitle': 'レッスン選択',
+    'batching.selectAll': 'すべて選択',
+    'batching.selectBatch': '1バッチ分({size}件)を選択',
+    'batching.batchesOf': '{size}件 × {batches}バッチ',
+    'batching.selectNone': '選択解除',
+    'batching.closePicker': '閉じる',
+    'batching.allowWrites': 'ダッシュボードからレッスンを開始できるようにする',
+    'batching.allowWritesHint': '「assignments:start」権限付きのAPIトークンが必要です。開始したレッスンはWaniKaniの復習キューに入ります。',
+    'batching.startLessons': '{count}件のレッスンを開始',
+    'batching.basis': '目標 1日{target}回の復習 · 1レッスンあたり約{perLesson}回',
+    'batching.startedResult': '{count}件のレッスンを開始しました。',
+    'batching.failedResult': '{count}件は開始できませんでした。',
+    'studyMaterials.title': 'マイノート・同義語',
+    'studyMaterials.synonyms': '同義語',
+    'studyMaterials.synonymsPlaceholder': 'カンマ区切り（例：large, huge）',
+    'studyMaterials.meaningNote': '意味のノート',
+    'studyMaterials.readingNote': '読みのノート',
+    'studyMaterials.empty': 'ノートや同義語はまだありません。',
+    'studyMaterials.add': '追加',
+    'studyMaterials.edit': '編集',
+    'studyMaterials.save': '保存',
+    'studyMaterials.cancel': 'キャンセル',
+    'studyMaterials.tooManySynonyms': '同義語は最大{count}個までです。',
+    'studyMaterials.enableEditing': '編集を許可',
+    'studyMaterials.enableEditingConfirm': 'このプロフィールにWaniKaniアカウントへの書き込みを許可しますか？ノートの編集には「study_materials:create」と「study_materials:update」権限付きのAPIトークンが必要です。',
     
     // Tabs
     'tabs.levelProjection': 'レベル予測',
@@ -504,20 +896,82 @@ const translations: Record<Language, Record<string, string>> = {
     
     // Level Projection
     'projection.title': 'レベルアップ予測',
-    'projection.basedOnPace': '最近のペースに基づく（直近{count}レベル）',
-    'projection.averagePace': '平均ペース',
-    'projection.daysPerLevel': '日/レベル',
+    'projection.complete': 'レベル60に到達しました',
     'projection.level60Eta': 'レベル60到達予定',
     'projection.latestLevel': '最新完了レベル',
     'projection.projectionStart': '予測開始',
     'projection.totalToGo': '残り',
     'projection.levels': 'レベル',
     'projection.actual': '実績',
-    'projection.projected': '予測（平均）',
-    'projection.fastPace': '速い',
-    'projection.avgPace': '平均',
-    'projection.slowPace': '遅い',
-    'projection.paceComparison': 'ペース比較（日/レベル）',
+    'projection.p10': 'P10',
+    'projection.p50': 'P50',
+    'projection.p90': 'P90',
+    'projection.basedOnSimulation': '直近{count}レベルと復習の正答率に基づく{trials}回のシミュレーション',
+    'projection.basedOnDefaultPace': '標準ペース（完了レベルなし）と復習の正答率に基づく{trials}回のシミュレーション',
+    'projection.medianPace': '中央値 {days}日/レベル',
+    'projection.passRate': '部首・漢字の復習合格率 {percent}%',
+    'projection.perLevel': 'レベルごとの予測日',
+    'projection.fastLevel': '高速レベル',
+    'projection.reset': 'リセット',
+    'rateLimit.title': 'APIリクエスト残量',
+    'rateLimit.remaining': '今の1分間で残り{remaining}/{limit}件',
+    'rateLimit.queued': '{count}件待機中',
+    'rateLimit.pausedUntil': '{time}まで一時停止',
+    'tabs.cache': 'キャッシュ',
+    'cache.title': 'キャッシュ管理',
+    'cache.subtitle': 'このアカウントがブラウザに保存しているデータと保存期間',
+    'cache.reload': '再読み込み',
+    'cache.clearAll': 'アカウントのキャッシュを削除',
+    'cache.clearAllConfirm': 'このアカウントのキャッシュをすべて削除しますか？次回の読み込みですべて再取得します。',
+    'cache.thisAccount': 'このアカウント',
+    'cache.allAccounts': '全アカウント',
+    'cache.entriesSize': '{count}件 · {size}',
+    'cache.browserStorage': 'ブラウザのストレージ',
+    'cache.quotaUsage': '{quota}中{usage}',
+    'cache.quotaUnavailable': 'このブラウザでは取得できません',
+    'cache.ttlTitle': 'キャッシュの有効期間',
+    'cache.ttlHint': '再確認するまでデータを再利用する期間です。このアカウントに保存されます。',
+    'cache.default': '既定',
+    'cache.entriesTitle': 'エントリー',
+    'cache.empty': 'このアカウントのキャッシュはありません。',
+    'cache.endpoint': 'エンドポイント',
+    'cache.size': 'サイズ',
+    'cache.age': '経過',
+    'cache.ttl': '有効期間',
+    'cache.etag': 'ETag',
+    'cache.lastAccessed': '最終アクセス',
+    'cache.stale': '期限切れ',
+    'cache.syncedCollection': '同期コレクション',
+    'cache.refresh': '今すぐ同期',
+    'cache.purge': 'エントリーを削除',
+    'cache.purgeCollection': '削除（次回は全件再同期）',
+    'cache.type.subjects': 'アイテム',
+    'cache.type.user': 'ユーザー',
+    'cache.type.assignments': 'アサインメント',
+    'cache.type.reviewStats': '復習統計',
+    'cache.type.reviews': '復習履歴',
+    'cache.type.summary': 'サマリー',
+    'cache.type.levelProgressions': 'レベル進行',
+    'cache.type.spacedRepetitionSystems': 'SRSシステム',
+    'cache.type.studyMaterials': '学習メモ',
+    'cache.type.resets': 'リセット',
+    'cache.type.other': 'その他',
+    'audioLibrary.title': 'オフライン音声ライブラリ',
+    'audioLibrary.subtitle': '発音の音声をダウンロードして、ストリーミングせずに再生します',
+    'audioLibrary.unsupported': 'このブラウザでは音声をオフライン用に保存できません。',
+    'audioLibrary.librarySize': '{count}件 · {size}',
+    'audioLibrary.clear': 'ライブラリを削除',
+    'audioLibrary.clearConfirm': 'ダウンロードした音声をすべて削除しますか？',
+    'audioLibrary.voiceActor': '優先する声優',
+    'audioLibrary.voiceActorDefault': 'WaniKaniの設定',
+    'audioLibrary.byLevel': 'レベル別',
+    'audioLibrary.byStage': 'SRS段階別',
+    'audioLibrary.allVoices': 'すべての声優をダウンロード（優先する声優以外も）',
+    'audioLibrary.download': '{count}件をダウンロード',
+    'audioLibrary.cancel': 'キャンセル',
+    'audioLibrary.selection': '{count}件を選択中、{stored}件はダウンロード済み',
+    'audioLibrary.progress': '{done}/{total} · {size}',
+    'audioLibrary.failed': '{count}件失敗',
     
     // Burn Radar
     'burn.title': 'バーンレーダー',
@@ -540,11 +994,22 @@ const translations: Record<Language, Record<string, string>> = {
     
     // Study Heatmap
     'heatmap.title': '学習ヒートマップ',
-    'heatmap.subtitle': 'ホバーで日別レッスン数を表示。合計: {total}',
+    'heatmap.subtitle': '日付をクリックすると学習したアイテムを表示。合計: {total}',
     'heatmap.less': '少',
     'heatmap.more': '多',
-    'heatmap.maxLessons': '1日の最大レッスン数',
-    'heatmap.totalLessons': '読み込まれた総レッスン数',
+    'heatmap.mode.lessons': 'レッスン',
+    'heatmap.mode.reviews': '復習',
+    'heatmap.mode.combined': '合計',
+    'heatmap.lessons': 'レッスン',
+    'heatmap.reviews': '復習',
+    'heatmap.maxInDay': '1日の最大数',
+    'heatmap.totalInYear': '今年の合計',
+    'heatmap.currentStreak': '現在の連続日数',
+    'heatmap.longestStreak': '最長連続日数',
+    'heatmap.inferredNote': '復習履歴が読み込まれていないため、復習数はアサインメント（合格・焼却・直近の復習）から推定しています。',
+    'heatmap.dayDetails': '{date}の学習',
+    'heatmap.noItems': 'この日に学習したアイテムはありません。',
+    'heatmap.closeDetails': '閉じる',
     'heatmap.noActivity': '{year}年の学習活動が見つかりません。別の年を試してください。',
     
     // Review Forecast
@@ -609,6 +1074,16 @@ const translations: Record<Language, Record<string, string>> = {
     
     // Errors
     'error.updateToken': 'トークンを更新',
+    'error.retry': '再試行',
+    'error.auth': 'APIトークンが無効です。トークンを確認してもう一度お試しください。',
+    'error.forbidden': 'アクセスが拒否されました。サブスクリプションとトークンの権限を確認してください。',
+    'error.rateLimit': 'リクエスト制限を超えました。約{seconds}秒待ってからもう一度お試しください。',
+    'error.server': 'WaniKaniで問題が発生しています（エラー {status}）。しばらくしてからお試しください。',
+    'error.network': 'WaniKaniに接続できません。インターネット接続を確認してください。',
+    'error.parse': 'WaniKaniから予期しない応答を受信しました。',
+    'error.http': 'リクエストに失敗しました（エラー {status}）。',
+    'error.unknown': 'データの取得に失敗しました。',
+    'error.writeDisabled': 'このプロフィールではアカウントへの書き込みが無効です。',
     
     // Export
     'export.button': 'エクスポート',
@@ -737,6 +1212,7 @@ const translations: Record<Language, Record<string, string>> = {
     'vocabStudy.filterEnlightened': '悟り',
     'vocabStudy.filterBurned': 'バーン',
     'vocabStudy.pronunciation': '発音',
+    'vocabStudy.preferredVoice': 'デフォルトの声優',
     'vocabStudy.contextSentences': '例文',
     'vocabStudy.meaningMnemonic': '意味のニーモニック',
     'vocabStudy.readingMnemonic': '読みのニーモニック',
@@ -780,6 +1256,150 @@ const translations: Record<Language, Record<string, string>> = {
     'readingPractice.micNotAllowed': 'マイクへのアクセスが拒否されました。ブラウザの設定で許可してください。',
     'readingPractice.networkError': 'ネットワークエラー。接続を確認してください。',
     'tabs.readingPractice': '音読練習',
+
+    // Review History
+    'tabs.reviewHistory': '復習履歴',
+    'tabs.compareProfiles': 'アカウント比較',
+    'history.title': '復習履歴',
+    'history.subtitle': 'これまでに完了したすべての復習から作成',
+    'history.lastDays': '過去{days}日間',
+    'history.allTime': '全期間',
+    'history.loading': '復習履歴を読み込み中...',
+    'history.noData': 'この期間の復習が見つかりません。アカウントによっては復習履歴が提供されない場合があります。',
+    'history.totalReviews': '復習数',
+    'history.accuracy': '正答率',
+    'history.perActiveDay': '学習日あたり',
+    'history.busiestDay': '最多の日',
+    'history.reviews': '復習数',
+    'history.rollingAccuracy': '7日間の正答率',
+    'history.correct': '正解',
+    'history.incorrect': '不正解',
+    'history.dailyTitle': '日別の復習数と正答率',
+    'history.hourlyTitle': '時間帯別の回答',
+    'history.transitionsTitle': 'SRSステージの遷移',
+    'history.transitionsSubtitle': '行が開始ステージ、列が終了ステージ',
+    'history.fromTo': '開始 → 終了',
+
+    // Review Quiz
+    'tabs.reviewQuiz': '復習クイズ',
+    'quiz.title': '復習クイズ',
+    'quiz.subtitle': '今できる復習に答えます。判定はWaniKaniと同じルールです',
+    'quiz.start': '復習を始める',
+    'quiz.restart': '復習を読み込み直す',
+    'quiz.noReviews': '今できる復習はありません。',
+    'quiz.progress': '完了 {done} · 残り {remaining}',
+    'quiz.prompt.radical.meaning': '部首の名前',
+    'quiz.prompt.kanji.meaning': '漢字の意味',
+    'quiz.prompt.kanji.reading': '漢字の読み',
+    'quiz.prompt.vocabulary.meaning': '単語の意味',
+    'quiz.prompt.vocabulary.reading': '単語の読み',
+    'quiz.prompt.kana_vocabulary.meaning': '単語の意味',
+    'quiz.meaningPlaceholder': '英語で答える',
+    'quiz.readingPlaceholder': '答え',
+    'quiz.check': '答え合わせ',
+    'quiz.next': '次へ',
+    'quiz.correctAnswers': '正解:',
+    'quiz.notice.typo': 'ほぼ正解です。WaniKaniの表記は「{answer}」です。',
+    'quiz.notice.readingInMeaning': '読みではなく意味を答えてください。',
+    'quiz.notice.meaningInReading': '意味ではなく読みを答えてください。',
+    'quiz.notice.otherReadingType': 'この漢字の読みですが、WaniKaniが求めているのは{type}です。',
+    'quiz.notice.singleN': 'おしい！ん の後に な行 が続くときは「nn」と入力します（例: o-n-n-n-a で おんな）。',
+    'quiz.readingType.onyomi': '音読み',
+    'quiz.readingType.kunyomi': '訓読み',
+    'quiz.readingType.nanori': '名乗り',
+    'quiz.notice.notKana': '読みはかなで入力してください。',
+    'quiz.notice.empty': '答えを入力してください。',
+    'quiz.reviewed': '復習した数',
+    'quiz.allCorrect': 'ミスなし',
+    'quiz.accuracy': '正答率',
+    'quiz.itemMistakes': '意味のミス: {meaning} · 読みのミス: {reading}',
+    'quiz.allowWrites': 'ダッシュボードから復習を送信できるようにする',
+    'quiz.allowWritesHint': '「reviews:create」権限付きのAPIトークンが必要です。送信した復習はWaniKaniでSRSステージを進めます。',
+    'quiz.submit': '{count}件の復習をWaniKaniに送信',
+
+    // Workload Simulator
+    'tabs.workload': '負荷シミュレーター',
+    'tabs.retention': '定着率',
+    'tabs.sessions': 'セッション',
+    'workload.title': '負荷シミュレーター',
+    'workload.subtitle': 'レッスンのペースごとに、今後{days}日間の1日の復習数・見習いアイテム数・レベルアップを予測',
+    'workload.fromHistory': 'SRS段階ごとの正答率は復習履歴から算出',
+    'workload.fromStatistics': '正答率は復習統計から算出（段階ごとの正答率は復習履歴を開くと使われます）',
+    'workload.reviewsPerLesson': '1レッスンあたり焼却まで約{count}回の復習',
+    'workload.dailyTarget': '1日の復習目標',
+    'workload.lessonsPerDay': 'レッスン/日',
+    'workload.scenario': '1日{count}レッスン',
+    'workload.addScenario': 'シナリオを追加',
+    'workload.removeScenario': 'シナリオを削除',
+    'workload.target': '目標',
+    'workload.dailyReviews': '1日の復習数',
+    'workload.apprenticeCount': '見習いアイテム数',
+    'workload.reviewsAxis': '復習',
+    'workload.itemsAxis': 'アイテム',
+    'workload.averageReviews': '1日の平均復習数',
+    'workload.peakReviews': '1日の最大復習数',
+    'workload.daysOverTarget': '目標を超える日数',
+    'workload.peakApprentice': '見習いの最大数',
+    'workload.lessonsDone': '完了したレッスン',
+    'workload.levelReached': 'レベル{level}',
+    'workload.stageAccuracy': '段階ごとの正答率',
+    'workload.assumptions': '毎日の最初にレッスンを行い、復習は時間になったらすぐに行い、漢字の90%がGuruになると次のレベルが解放されると仮定しています。',
+
+    // Retention Analysis
+    'retention.title': 'SRSステージ別の定着率',
+    'retention.subtitle': '全復習履歴から、各ステージで復習に正解して次へ進んだ割合',
+    'retention.overall': '全体の合格率',
+    'retention.failed': '不正解の復習',
+    'retention.weakestStage': '最も弱いステージ',
+    'retention.matrixTitle': 'ステージ・種類別の合格率',
+    'retention.matrixSubtitle': 'アイテムが上のステージに進んだ復習の割合と、全体の合格率との差（ポイント）。{min}件未満のセルは薄く表示されます。セルをクリックすると、そこで間違えたアイテムを表示します。',
+    'retention.stage': 'ステージ',
+    'retention.all': 'すべて',
+    'retention.radical': '部首',
+    'retention.kanji': '漢字',
+    'retention.vocabulary': '単語',
+    'retention.cellTitle': '{total}件中{passed}件合格',
+    'retention.failedTitle': '{stage}で間違えたアイテム（{type}）',
+    'retention.noFailures': '不正解の復習はありません。',
+    'retention.item': 'アイテム',
+    'retention.failures': '不正解 / 復習',
+    'retention.droppedTo': '下がった先',
+    'retention.lastFailed': '最後の不正解',
+    'retention.moreItems': 'ほか{count}件は表示されていません',
+    'retention.close': '閉じる',
+    'retention.windowsTitle': '期間別の合格率',
+    'retention.windowsSubtitle': '同じ合格率を期間ごとに比べ、定着が良くなっているかを確認できます。',
+
+    // Session Analysis
+    'sessions.title': '時間帯とセッション',
+    'sessions.subtitle': '学習する時間帯や曜日によって、正答率・ペース・セッションの長さがどう変わるか',
+    'sessions.gap': '新しいセッションまでの間隔',
+    'sessions.minutes': '分',
+    'sessions.sessions': 'セッション',
+    'sessions.averageLength': '平均の長さ',
+    'sessions.reviewsPerSession': '1回あたり{count}件',
+    'sessions.itemsPerMinute': '1分あたりの復習',
+    'sessions.periodsTitle': '時間帯別',
+    'sessions.periodsSubtitle': '正答率と、全体の正答率との差（ポイント）。復習が{min}件未満の時間帯は薄く表示されます。',
+    'sessions.period.morning': '朝',
+    'sessions.period.afternoon': '昼',
+    'sessions.period.evening': '夜',
+    'sessions.period.night': '深夜',
+    'sessions.periodHours.morning': '6:00–12:00',
+    'sessions.periodHours.afternoon': '12:00–18:00',
+    'sessions.periodHours.evening': '18:00–24:00',
+    'sessions.periodHours.night': '0:00–6:00',
+    'sessions.hourlyTitle': '開始時刻別',
+    'sessions.weekdayTitle': '曜日別',
+    'sessions.day': '曜日',
+    'sessions.weekday.0': '日曜日',
+    'sessions.weekday.1': '月曜日',
+    'sessions.weekday.2': '火曜日',
+    'sessions.weekday.3': '水曜日',
+    'sessions.weekday.4': '木曜日',
+    'sessions.weekday.5': '金曜日',
+    'sessions.weekday.6': '土曜日',
+    'sessions.note': '復習のない時間が{gap}分続くとセッションが終わり、開始した時刻と曜日（現地時間）に数えられます。ペースは回答の間隔で測るため、復習1件だけのセッションは時間に含まれません。',
   }
 }
 
@@ -0,0 +1,105 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  type AudioDownloadProgress,
+  type AudioLibraryStats,
+  isAudioLibrarySupported,
+  getAudioLibraryStats,
+  getStoredAudioUrls,
+  downloadAudios,
+  clearAudioLibrary
+} from '@/services/audioLibrary'
+
+export interface UseAudioLibraryResult {
+  supported: boolean
+  stats: AudioLibraryStats | null
+  // URLs already downloaded, to tell what a selection still needs
+  storedUrls: Set<string>
+  // Progress of the running (or last) download
+  progress: AudioDownloadProgress | null
+  downloading: boolean
+  download: (urls: string[]) => Promise<void>
+  cancel: () => void
+  clear: () => Promise<void>
+}
+
+/**
+ * Hook for the offline pronunciation audio library: library size, downloads with
+ * progress and cancellation, and clearing.
+ *
+ * @param enabled - Read the library only while it is shown
+ * @returns Library stats, download progress and management functions
+ *
+ * @example
+ * const library = useAudioLibrary(activeTab === 'cache')
+ * library.download(selectedUrls)
+ */
+export function useAudioLibrary(enabled: boolean): UseAudioLibraryResult {
+  const [supported, setSupported] = useState(false)
+  const [stats, setStats] = useState<AudioLibraryStats | null>(null)
+  const [storedUrls, setStoredUrls] = useState<Set<string>>(new Set())
+  const [progress, setProgress] = useState<AudioDownloadProgress | null>(null)
+  const [downloading, setDownloading] = useState(false)
+  const abortRef = useRef<AbortController | null>(null)
+  const mountedRef = useRef(true)
+
+  useEffect(() => {
+    mountedRef.current = true
+    return () => {
+      mountedRef.current = false
+      abortRef.current?.abort()
+    }
+  }, [])
+
+  const reload = useCallback(async () => {
+    try {
+      const [nextStats, nextUrls] = await Promise.all([getAudioLibraryStats(), getStoredAudioUrls()])
+      if (!mountedRef.current) return
+      setStats(nextStats)
+      setStoredUrls(nextUrls)
+    } catch (error) {
+      console.error('Error reading the audio library:', error)
+    }
+  }, [])
+
+  // Cache Storage is only available on the client
+  useEffect(() => {
+    setSupported(isAudioLibrarySupported())
+  }, [])
+
+  useEffect(() => {
+    if (enabled && supported) reload()
+  }, [enabled, supported, reload])
+
+  const download = useCallback(async (urls: string[]) => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    setDownloading(true)
+    try {
+      await downloadAudios(urls, next => {
+        if (mountedRef.current) setProgress(next)
+      }, controller.signal)
+    } catch (error) {
+      console.error('Audio download failed:', error)
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null
+      if (mountedRef.current) setDownloading(false)
+      await reload()
+    }
+  }, [reload])
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort()
+  }, [])
+
+  const clear = useCallback(async () => {
+    abortRef.current?.abort()
+    await clearAudioLibrary()
+    if (mountedRef.current) setProgress(null)
+    await reload()
+  }, [reload])
+
+  return { supported, stats, storedUrls, progress, downloading, download, cancel, clear }
+}
@@ -0,0 +1,139 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { CacheConfig, CacheEntryInfo } from '@/types/wanikani'
+import type { WaniKaniService } from '@/services/wanikani'
+
+export interface StorageEstimateInfo {
+  usage: number
+  quota: number
+}
+
+export interface UseCacheInspectorResult {
+  entries: CacheEntryInfo[]
+  // Totals over every account in this browser
+  stats: { entries: number; totalSize: number } | null
+  // From navigator.storage.estimate(); null where unsupported
+  estimate: StorageEstimateInfo | null
+  cacheConfig: CacheConfig
+  loading: boolean
+  error: unknown
+  // Data type being refreshed, or the key being purged
+  busy: string | null
+  reload: () => Promise<void>
+  refresh: (dataType: keyof CacheConfig) => Promise<void>
+  purge: (key: string) => Promise<void>
+  clearAll: () => Promise<void>
+  setTtl: (dataType: keyof CacheConfig, ttl: number | null) => void
+}
+
+/**
+ * Hook behind the cache inspector: lists the account's cache entries with storage
+ * usage, and wraps the service's refresh, purge and TTL settings.
+ *
+ * @param service - WaniKani service for the current user
+ * @param enabled - Read the cache only while the inspector is shown
+ * @returns Entries, storage figures, TTLs and management functions
+ *
+ * @example
+ * const cache = useCacheInspector(wanikaniService, activeTab === 'cache')
+ * cache.refresh('assignments')
+ */
+export function useCacheInspector(service: WaniKaniService, enabled: boolean): UseCacheInspectorResult {
+  const [entries, setEntries] = useState<CacheEntryInfo[]>([])
+  const [stats, setStats] = useState<{ entries: number; totalSize: number } | null>(null)
+  const [estimate, setEstimate] = useState<StorageEstimateInfo | null>(null)
+  const [cacheConfig, setCacheConfig] = useState<CacheConfig>(() => service.getCacheConfig())
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<unknown>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+  const mountedRef = useRef(true)
+
+  useEffect(() => {
+    mountedRef.current = true
+    return () => { mountedRef.current = false }
+  }, [])
+
+  useEffect(() => {
+    setCacheConfig(service.getCacheConfig())
+  }, [service])
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [nextEntries, nextStats, nextEstimate] = await Promise.all([
+        service.getCacheEntries(),
+        service.getCacheStats(),
+        typeof navigator !== 'undefined' && navigator.storage?.estimate
+          ? navigator.storage.estimate().catch(() => null)
+          : Promise.resolve(null)
+      ])
+      if (!mountedRef.current) return
+      setEntries(nextEntries)
+      setStats({ entries: nextStats.entries, totalSize: nextStats.totalSize })
+      setEstimate(nextEstimate ? { usage: nextEstimate.usage ?? 0, quota: nextEstimate.quota ?? 0 } : null)
+    } catch (err) {
+      console.error('Error reading cache:', err)
+      if (mountedRef.current) setError(err)
+    } finally {
+      if (mountedRef.current) setLoading(false)
+    }
+  }, [service])
+
+  useEffect(() => {
+    if (enabled) reload()
+  }, [enabled, reload])
+
+  // Syncs in this or another tab change the entries
+  useEffect(() => {
+    if (!enabled) return
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const unsubscribe = service.onCacheUpdate(() => {
+      clearTimeout(timer)
+      timer = setTimeout(() => {
+        if (mountedRef.current) reload()
+      }, 500)
+    })
+    return () => {
+      clearTimeout(timer)
+      unsubscribe()
+    }
+  }, [service, enabled, reload])
+
+  const runAction = useCallback(async (label: string, action: () => Promise<void>) => {
+    setBusy(label)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      console.error(`Cache action ${label} failed:`, err)
+      if (mountedRef.current) setError(err)
+    } finally {
+      if (mountedRef.current) setBusy(null)
+    }
+    await reload()
+  }, [reload])
+
+  const refresh = useCallback(
+    (dataType: keyof CacheConfig) => runAction(dataType, () => service.refreshCollection(dataType)),
+    [service, runAction]
+  )
+
+  const purge = useCallback(
+    (key: string) => runAction(key, () => service.purgeCacheEntry(key)),
+    [service, runAction]
+  )
+
+  const clearAll = useCallback(
+    () => runAction('all', () => service.clearUserCache()),
+    [service, runAction]
+  )
+
+  const setTtl = useCallback((dataType: keyof CacheConfig, ttl: number | null) => {
+    service.setCacheTtl(dataType, ttl)
+    setCacheConfig(service.getCacheConfig())
+  }, [service])
+
+  return { entries, stats, estimate, cacheConfig, loading, error, busy, reload, refresh, purge, clearAll, setTtl }
+}
@@ -0,0 +1,30 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+/**
+ * Hook that tracks the browser's connectivity through the online/offline events.
+ *
+ * @returns false while the browser reports no network connection
+ *
+ * @example
+ * const online = useOnlineStatus()
+ * if (!online) return <OfflineBanner />
+ */
+export function useOnlineStatus(): boolean {
+  // Assume online for the server render; the effect reads the real value
+  const [online, setOnline] = useState(true)
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine)
+    update()
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  return online
+}
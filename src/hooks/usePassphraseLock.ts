@@ -0,0 +1,211 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  type EncryptedPayload,
+  PBKDF2_ITERATIONS,
+  deriveKey,
+  encryptJson,
+  decryptJson,
+  randomSalt,
+  toBase64,
+  fromBase64
+} from '@/utils/passphraseCrypto'
+import { clearSavedProfiles } from '@/utils/profiles'
+import { createCacheStorage, setCacheEncryptionKey } from '@/services/cacheStorage'
+
+export interface LockOptions {
+  encryptCache: boolean
+  autoLockMinutes: number // 0 = never
+}
+
+interface LockSettings extends LockOptions {
+  salt: string // base64
+  iterations: number
+  // Known value sealed with the key, to tell a wrong passphrase apart
+  verifier: EncryptedPayload
+}
+
+export type LockStatus = 'checking' | 'disabled' | 'locked' | 'unlocked'
+
+export interface UsePassphraseLockResult {
+  status: LockStatus
+  key: CryptoKey | null
+  options: LockOptions | null
+  unlock: (passphrase: string) => Promise<boolean>
+  lock: () => void
+  enable: (passphrase: string, options: LockOptions) => Promise<void>
+  updateOptions: (options: LockOptions) => Promise<void>
+  disable: () => Promise<void>
+  reset: () => Promise<void>
+}
+
+const LOCK_SETTINGS_KEY = 'wanikani-lock'
+const VERIFIER_VALUE = 'wanikani-dashboard'
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart']
+
+function readSettings(): LockSettings | null {
+  try {
+    const saved = localStorage.getItem(LOCK_SETTINGS_KEY)
+    return saved ? JSON.parse(saved) as LockSettings : null
+  } catch (error) {
+    console.error('Error reading lock settings:', error)
+    return null
+  }
+}
+
+// Cached entries are either all sealed or all plaintext, so switching modes starts over
+async function clearCache(): Promise<void> {
+  try {
+    await createCacheStorage().clear()
+  } catch (error) {
+    console.error('Error clearing cache:', error)
+  }
+}
+
+/**
+ * Hook for the optional passphrase lock. Profiles (and optionally the cache) are encrypted
+ * with an AES-GCM key derived from the passphrase; the key only lives in memory while unlocked.
+ * Locks again after `autoLockMinutes` without user activity.
+ *
+ * @returns Lock status, the unlocked key and functions to unlock, lock and configure
+ *
+ * @example
+ * const lock = usePassphraseLock()
+ * if (lock.status === 'locked') return <UnlockScreen onUnlock={lock.unlock} onReset={lock.reset} />
+ */
+export function usePassphraseLock(): UsePassphraseLockResult {
+  const [settings, setSettings] = useState<LockSettings | null>(null)
+  const [status, setStatus] = useState<LockStatus>('checking')
+  const [key, setKey] = useState<CryptoKey | null>(null)
+  const lastActivityRef = useRef(Date.now())
+
+  // localStorage is only available on the client
+  useEffect(() => {
+    const saved = readSettings()
+    setSettings(saved)
+    setStatus(saved ? 'locked' : 'disabled')
+  }, [])
+
+  // Set the cache key before the state change renders the dashboard, so its
+  // WaniKaniService picks the right storage
+  const applyKey = useCallback((nextKey: CryptoKey | null, nextSettings: LockSettings | null) => {
+    setCacheEncryptionKey(nextKey && nextSettings?.encryptCache ? nextKey : null)
+    setKey(nextKey)
+  }, [])
+
+  const saveSettings = (next: LockSettings | null) => {
+    if (next) {
+      localStorage.setItem(LOCK_SETTINGS_KEY, JSON.stringify(next))
+    } else {
+      localStorage.removeItem(LOCK_SETTINGS_KEY)
+    }
+    setSettings(next)
+  }
+
+  const unlock = useCallback(async (passphrase: string) => {
+    const current = readSettings()
+    if (!current) return false
+    try {
+      const derived = await deriveKey(passphrase, fromBase64(current.salt), current.iterations)
+      if (await decryptJson<string>(derived, current.verifier) !== VERIFIER_VALUE) return false
+      lastActivityRef.current = Date.now()
+      setSettings(current)
+      applyKey(derived, current)
+      setStatus('unlocked')
+      return true
+    } catch {
+      return false
+    }
+  }, [applyKey])
+
+  const lock = useCallback(() => {
+    if (!readSettings()) return
+    applyKey(null, null)
+    setStatus('locked')
+  }, [applyKey])
+
+  const enable = useCallback(async (passphrase: string, options: LockOptions) => {
+    const salt = randomSalt()
+    const derived = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+    const next: LockSettings = {
+      ...options,
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await encryptJson(derived, VERIFIER_VALUE)
+    }
+    if (options.encryptCache) await clearCache()
+    saveSettings(next)
+    applyKey(derived, next)
+    lastActivityRef.current = Date.now()
+    setStatus('unlocked')
+  }, [applyKey])
+
+  const updateOptions = useCallback(async (options: LockOptions) => {
+    if (!settings) return
+    const next = { ...settings, ...options }
+    if (next.encryptCache !== settings.encryptCache) await clearCache()
+    saveSettings(next)
+    applyKey(key, next)
+  }, [settings, key, applyKey])
+
+  const disable = useCallback(async () => {
+    if (settings?.encryptCache) await clearCache()
+    saveSettings(null)
+    applyKey(null, null)
+    setStatus('disabled')
+  }, [settings, applyKey])
+
+  // Forgotten passphrase: nothing encrypted can be recovered, so remove it all
+  const reset = useCallback(async () => {
+    clearSavedProfiles()
+    await clearCache()
+    saveSettings(null)
+    applyKey(null, null)
+    setStatus('disabled')
+  }, [applyKey])
+
+  // Auto-lock after inactivity
+  const autoLockMinutes = settings?.autoLockMinutes ?? 0
+  useEffect(() => {
+    if (status !== 'unlocked' || autoLockMinutes <= 0) return
+
+    const markActive = () => { lastActivityRef.current = Date.now() }
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }))
+
+    // Compare timestamps instead of one long timeout, so a sleeping laptop locks on wake
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= autoLockMinutes * 60 * 1000) lock()
+    }, 15 * 1000)
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive))
+      clearInterval(interval)
+    }
+  }, [status, autoLockMinutes, lock])
+
+  // Another tab enabled, changed or removed the lock
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== LOCK_SETTINGS_KEY) return
+      const next = readSettings()
+      setSettings(next)
+      if (!next) {
+        applyKey(null, null)
+        setStatus('disabled')
+      } else if (next.salt !== settings?.salt) {
+        // New passphrase: the key held here no longer matches
+        applyKey(null, null)
+        setStatus('locked')
+      } else {
+        applyKey(key, next)
+      }
+    }
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [settings, key, applyKey])
+
+  const options = settings ? { encryptCache: settings.encryptCache, autoLockMinutes: settings.autoLockMinutes } : null
+
+  return { status, key, options, unlock, lock, enable, updateOptions, disable, reset }
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { type Profile, type ProfileState, createProfile, loadProfiles, saveProfiles } from '@/utils/profiles'
+
+interface UseProfilesResult {
+  profiles: Profile[]
+  activeProfile: Profile | null
+  loaded: boolean
+  addProfile: (token: string, label: string, color?: string) => void
+  updateProfile: (id: string, changes: Partial<Omit<Profile, 'id'>>) => void
+  removeProfile: (id: string) => void
+  selectProfile: (id: string) => void
+}
+
+const EMPTY_STATE: ProfileState = { profiles: [], activeId: null }
+
+/**
+ * Hook that manages saved account profiles in localStorage.
+ * Adding a profile makes it active; removing the active one falls back to the first remaining.
+ *
+ * @param readable - False while the passphrase lock is locked (or still being checked)
+ * @param lockKey - Key of the unlocked passphrase lock; profiles are stored encrypted with it
+ * @returns Profiles, the active profile and functions to change them
+ *
+ * @example
+ * const { activeProfile, addProfile } = useProfiles(lock.status === 'disabled' || lock.status === 'unlocked', lock.key)
+ */
+export function useProfiles(readable: boolean, lockKey: CryptoKey | null): UseProfilesResult {
+  const [state, setState] = useState<ProfileState>(EMPTY_STATE)
+  const [loaded, setLoaded] = useState(false)
+  const lockKeyRef = useRef(lockKey)
+  lockKeyRef.current = lockKey
+  // Encrypted saves are async; chain them so an older state never lands last
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve())
+
+  const persist = useCallback((next: ProfileState) => {
+    const key = lockKeyRef.current
+    saveChainRef.current = saveChainRef.current.then(() => saveProfiles(next, key))
+  }, [])
+
+  const stateRef = useRef(state)
+  stateRef.current = state
+  const wasReadableRef = useRef(false)
+  const loadedRef = useRef(false)
+  loadedRef.current = loaded
+
+  // Load when the lock opens. Enabling or disabling the lock changes the key while the
+  // profiles stay readable: then they are rewritten in the new form instead of reloaded.
+  useEffect(() => {
+    const wasReadable = wasReadableRef.current
+    wasReadableRef.current = readable
+    if (!readable) {
+      setState(EMPTY_STATE)
+      setLoaded(false)
+      return
+    }
+    if (wasReadable && loadedRef.current) {
+      persist(stateRef.current)
+      return
+    }
+
+    let cancelled = false
+    loadProfiles(lockKey).then(
+      loadedState => {
+        if (cancelled) return
+        setState(loadedState)
+        setLoaded(true)
+      },
+      error => {
+        console.error('Error decrypting profiles:', error)
+        if (!cancelled) setLoaded(true)
+      }
+    )
+    return () => { cancelled = true }
+  }, [readable, lockKey, persist])
+
+  const update = useCallback((change: (state: ProfileState) => ProfileState) => {
+    setState(previous => {
+      const next = change(previous)
+      persist(next)
+      return next
+    })
+  }, [persist])
+
+  const addProfile = useCallback((token: string, label: string, color?: string) => {
+    update(previous => {
+      // Re-entering a saved token just switches to that profile
+      const existing = previous.profiles.find(p => p.token === token)
+      if (existing) return { ...previous, activeId: existing.id }
+      const profile = createProfile(token, label, previous.profiles, color)
+      return { profiles: [...previous.profiles, profile], activeId: profile.id }
+    })
+  }, [update])
+
+  const updateProfile = useCallback((id: string, changes: Partial<Omit<Profile, 'id'>>) => {
+    update(previous => ({
+      ...previous,
+      profiles: previous.profiles.map(p => (p.id === id ? { ...p, ...changes } : p))
+    }))
+  }, [update])
+
+  const removeProfile = useCallback((id: string) => {
+    update(previous => {
+      const profiles = previous.profiles.filter(p => p.id !== id)
+      const activeId = previous.activeId === id ? profiles[0]?.id ?? null : previous.activeId
+      return { profiles, activeId }
+    })
+  }, [update])
+
+  const selectProfile = useCallback((id: string) => {
+    update(previous => ({ ...previous, activeId: id }))
+  }, [update])
+
+  const activeProfile = state.profiles.find(p => p.id === state.activeId) ?? null
+
+  return { profiles: state.profiles, activeProfile, loaded, addProfile, updateProfile, removeProfile, selectProfile }
+}
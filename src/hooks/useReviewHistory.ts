@@ -0,0 +1,77 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { Review } from '@/types/wanikani'
+import type { WaniKaniService } from '@/services/wanikani'
+
+interface UseReviewHistoryResult {
+  reviews: Review[] | null
+  loading: boolean
+  error: unknown
+  refresh: () => Promise<void>
+}
+
+/**
+ * Hook that loads the /reviews history on demand.
+ * The first load pulls the full history; later loads are incremental syncs.
+ *
+ * @param service - WaniKani service for the current user
+ * @param enabled - Load only once a view actually needs the history
+ * @returns Reviews (null until loaded), loading/error state and a refresh function
+ *
+ * @example
+ * const { reviews, loading } = useReviewHistory(wanikaniService, activeTab === 'history')
+ */
+export function useReviewHistory(service: WaniKaniService, enabled: boolean): UseReviewHistoryResult {
+  const [reviews, setReviews] = useState<Review[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<unknown>(null)
+  const mountedRef = useRef(true)
+  const loadingRef = useRef(false)
+
+  useEffect(() => {
+    mountedRef.current = true
+    return () => { mountedRef.current = false }
+  }, [])
+
+  // A new service means a different account: drop the previous history
+  useEffect(() => {
+    setReviews(null)
+    setError(null)
+  }, [service])
+
+  const load = useCallback(async (forceRefresh: boolean) => {
+    loadingRef.current = true
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await service.syncReviews(forceRefresh)
+      if (mountedRef.current) setReviews(result)
+    } catch (err) {
+      console.error('Error loading review history:', err)
+      if (mountedRef.current) setError(err)
+    } finally {
+      loadingRef.current = false
+      if (mountedRef.current) setLoading(false)
+    }
+  }, [service])
+
+  useEffect(() => {
+    if (enabled && reviews === null && !loading && !error) {
+      load(false)
+    }
+  }, [enabled, reviews, loading, error, load])
+
+  // Pick up reviews another tab synced into the shared cache
+  const loaded = reviews !== null
+  useEffect(() => {
+    if (!loaded) return
+    return service.onCacheUpdate(update => {
+      if (update.scope === 'reviews' && !loadingRef.current) load(false)
+    })
+  }, [service, loaded, load])
+
+  const refresh = useCallback(() => load(true), [load])
+
+  return { reviews, loading, error, refresh }
+}
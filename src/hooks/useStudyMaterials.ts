@@ -0,0 +1,91 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
+import type { StudyMaterial, StudyMaterialFields } from '@/types/wanikani'
+import type { WaniKaniService } from '@/services/wanikani'
+
+export interface UseStudyMaterialsResult {
+  // Study materials by subject ID (null until loaded)
+  bySubject: Map<number, StudyMaterial> | null
+  loading: boolean
+  error: unknown
+  save: (subjectId: number, fields: StudyMaterialFields) => Promise<StudyMaterial>
+}
+
+/**
+ * Hook that loads the user's /study_materials (notes and synonyms) on demand
+ * and saves edits through the service's write calls.
+ *
+ * @param service - WaniKani service for the current user
+ * @param enabled - Load only once a view shows notes
+ * @returns Study materials keyed by subject, loading/error state and a save function
+ *
+ * @example
+ * const studyMaterials = useStudyMaterials(wanikaniService, activeTab === 'vocabulary')
+ * const note = studyMaterials.bySubject?.get(subject.id)?.data.meaning_note
+ */
+export function useStudyMaterials(service: WaniKaniService, enabled: boolean): UseStudyMaterialsResult {
+  const [materials, setMaterials] = useState<StudyMaterial[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<unknown>(null)
+  const mountedRef = useRef(true)
+  const loadingRef = useRef(false)
+
+  useEffect(() => {
+    mountedRef.current = true
+    return () => { mountedRef.current = false }
+  }, [])
+
+  // A new service means a different account: drop the previous materials
+  useEffect(() => {
+    setMaterials(null)
+    setError(null)
+  }, [service])
+
+  const load = useCallback(async () => {
+    loadingRef.current = true
+    setLoading(true)
+    setError(null)
+    try {
+      const result = await service.syncStudyMaterials()
+      if (mountedRef.current) setMaterials(result)
+    } catch (err) {
+      console.error('Error loading study materials:', err)
+      if (mountedRef.current) setError(err)
+    } finally {
+      loadingRef.current = false
+      if (mountedRef.current) setLoading(false)
+    }
+  }, [service])
+
+  useEffect(() => {
+    if (enabled && materials === null && !loading && !error) {
+      load()
+    }
+  }, [enabled, materials, loading, error, load])
+
+  // Pick up notes saved or synced in another tab
+  const loaded = materials !== null
+  useEffect(() => {
+    if (!loaded) return
+    return service.onCacheUpdate(update => {
+      if (update.scope === 'studyMaterials' && !loadingRef.current) load()
+    })
+  }, [service, loaded, load])
+
+  const bySubject = useMemo(
+    () => (materials ? new Map(materials.map(material => [material.data.subject_id, material])) : null),
+    [materials]
+  )
+
+  const save = useCallback(async (subjectId: number, fields: StudyMaterialFields) => {
+    const existing = bySubject?.get(subjectId)
+    const saved = await service.saveStudyMaterial(subjectId, fields, existing?.id)
+    if (mountedRef.current) {
+      setMaterials(previous => [...(previous ?? []).filter(m => m.id !== saved.id), saved])
+    }
+    return saved
+  }, [service, bySubject])
+
+  return { bySubject, loading, error, save }
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useEffect, useState, useCallback, useRef, type RefObject } from 'react'
+import { useEffect, useState, useCallback, useRef, type MutableRefObject } from 'react'
 import * as wanakana from 'wanakana'
 
 // Re-export useful utilities for search logic
@@ -9,38 +9,44 @@ export const { toHiragana, toKatakana, toRomaji, isRomaji, isJapanese, isKana }
 interface UseWanaKanaOptions {
   /** Whether IME mode is enabled initially (default: false) */
   enabled?: boolean
+  /** Also receives the input element, for callers that focus or read it */
+  inputRef?: MutableRefObject<HTMLInputElement | null>
 }
 
 /**
  * Hook that binds WanaKana IME mode to an input element.
  * Converts romaji to hiragana by default, katakana when Shift is held.
- * Returns toggle function to enable/disable IME mode.
+ * Returns a callback ref for the input and a toggle function to enable/disable IME mode.
  * 
- * @param inputRef - React ref to the input element
  * @param options - Configuration options
- * @returns Object with enabled state and toggle function
+ * @returns Object with the input ref, enabled state and toggle function
  * 
  * @example
- * const inputRef = useRef<HTMLInputElement>(null)
- * const { enabled, toggle } = useWanaKanaBind(inputRef, { enabled: false })
+ * const { ref, enabled, toggle } = useWanaKanaBind({ enabled: false })
  * return (
  *   <>
- *     <input ref={inputRef} />
+ *     <input ref={ref} />
  *     <button onClick={toggle}>{enabled ? 'あ' : 'A'}</button>
  *   </>
  * )
  */
-export function useWanaKanaBind(
-  inputRef: RefObject<HTMLInputElement | null>,
-  options: UseWanaKanaOptions = {}
-) {
-  const { enabled: initialEnabled = false } = options
+export function useWanaKanaBind(options: UseWanaKanaOptions = {}) {
+  const { enabled: initialEnabled = false, inputRef } = options
   const [enabled, setEnabled] = useState(initialEnabled)
   const [isShiftHeld, setIsShiftHeld] = useState(false)
   
+  // The bound element, which may mount after the hook (e.g. behind a start screen)
+  const [input, setInput] = useState<HTMLInputElement | null>(null)
+
   // Track bound state to avoid unsafe unbind calls
   const isBoundRef = useRef(false)
 
+  // Callback ref: React calls it whenever the input mounts, unmounts or is replaced
+  const ref = useCallback((node: HTMLInputElement | null) => {
+    if (inputRef) inputRef.current = node
+    setInput(node)
+  }, [inputRef])
+
   const toggle = useCallback(() => {
     setEnabled(prev => !prev)
   }, [])
@@ -76,7 +82,6 @@ export function useWanaKanaBind(
 
   // Bind/unbind WanaKana to input based on enabled state
   useEffect(() => {
-    const input = inputRef.current
     if (!input) return
 
     // Unbind if currently bound
@@ -111,7 +116,7 @@ export function useWanaKanaBind(
         isBoundRef.current = false
       }
     }
-  }, [inputRef, enabled, isShiftHeld])
+  }, [input, enabled, isShiftHeld])
 
-  return { enabled, toggle }
+  return { ref, enabled, toggle }
 }
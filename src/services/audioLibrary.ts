@@ -0,0 +1,116 @@
+// ============================================================================
+// Pronunciation audio library
+// ============================================================================
+
+// Downloaded recordings live in Cache Storage under their original URL, so playback
+// looks them up by the URL from pronunciation_audios. Each recording gets one object
+// URL, kept for the page's lifetime.
+
+export interface AudioDownloadProgress {
+  done: number
+  total: number
+  failed: number
+  bytes: number
+}
+
+export interface AudioLibraryStats {
+  count: number
+  bytes: number
+}
+
+// Not prefixed wanikani-, which the service worker treats as its own caches
+const AUDIO_CACHE_NAME = 'pronunciation-audio-v1'
+// Stored responses carry their size, so totals need no blob reads
+const SIZE_HEADER = 'X-Audio-Size'
+const DOWNLOAD_CONCURRENCY = 4
+
+const objectUrls: Map<string, string> = new Map()
+
+export function isAudioLibrarySupported(): boolean {
+  return typeof caches !== 'undefined'
+}
+
+export async function getAudioLibraryStats(): Promise<AudioLibraryStats> {
+  if (!isAudioLibrarySupported()) return { count: 0, bytes: 0 }
+  const cache = await caches.open(AUDIO_CACHE_NAME)
+  const requests = await cache.keys()
+  const sizes = await Promise.all(requests.map(async request => {
+    const response = await cache.match(request)
+    return Number(response?.headers.get(SIZE_HEADER)) || 0
+  }))
+  return { count: requests.length, bytes: sizes.reduce((sum, size) => sum + size, 0) }
+}
+
+export async function getStoredAudioUrls(): Promise<Set<string>> {
+  if (!isAudioLibrarySupported()) return new Set()
+  const cache = await caches.open(AUDIO_CACHE_NAME)
+  const requests = await cache.keys()
+  return new Set(requests.map(request => request.url))
+}
+
+// Download recordings not stored yet. Failures are counted, not thrown, so one missing
+// file does not stop the rest; aborting stops between files.
+export async function downloadAudios(
+  urls: string[],
+  onProgress: (progress: AudioDownloadProgress) => void,
+  signal?: AbortSignal
+): Promise<AudioDownloadProgress> {
+  const cache = await caches.open(AUDIO_CACHE_NAME)
+  const stored = await getStoredAudioUrls()
+  const pending = urls.filter(url => !stored.has(url))
+  const progress: AudioDownloadProgress = { done: 0, total: pending.length, failed: 0, bytes: 0 }
+  onProgress({ ...progress })
+
+  let next = 0
+  const worker = async () => {
+    while (next < pending.length && !signal?.aborted) {
+      const url = pending[next++]
+      try {
+        const response = await fetch(url, { mode: 'cors', signal })
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        const blob = await response.blob()
+        await cache.put(url, new Response(blob, {
+          headers: {
+            'Content-Type': blob.type || 'audio/mpeg',
+            [SIZE_HEADER]: String(blob.size)
+          }
+        }))
+        progress.bytes += blob.size
+      } catch (error) {
+        if (signal?.aborted) break
+        console.warn(`Could not download ${url}:`, error)
+        progress.failed++
+      }
+      progress.done++
+      onProgress({ ...progress })
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(DOWNLOAD_CONCURRENCY, pending.length) }, worker))
+  return progress
+}
+
+export async function clearAudioLibrary(): Promise<void> {
+  objectUrls.forEach(objectUrl => URL.revokeObjectURL(objectUrl))
+  objectUrls.clear()
+  if (isAudioLibrarySupported()) await caches.delete(AUDIO_CACHE_NAME)
+}
+
+// Local copy when downloaded, else the original URL (streamed)
+export async function resolveAudioUrl(url: string): Promise<string> {
+  const existing = objectUrls.get(url)
+  if (existing) return existing
+  if (!isAudioLibrarySupported()) return url
+
+  try {
+    const cache = await caches.open(AUDIO_CACHE_NAME)
+    const response = await cache.match(url)
+    if (!response) return url
+    const objectUrl = URL.createObjectURL(await response.blob())
+    objectUrls.set(url, objectUrl)
+    return objectUrl
+  } catch (error) {
+    console.warn('Error reading the audio library:', error)
+    return url
+  }
+}
@@ -0,0 +1,434 @@
+import type { CacheEntry } from '@/types/wanikani'
+import { encryptJson, decryptJson, isEncryptedPayload } from '@/utils/passphraseCrypto'
+
+// ============================================================================
+// Cache Storage Interface
+// ============================================================================
+
+export interface ICacheStorage {
+  // Returns the entry if present and not expired (expired entries are removed)
+  get<T>(key: string): Promise<CacheEntry<T> | null>
+  // Returns the entry even if expired, without touching lastAccessed
+  peek<T>(key: string): Promise<CacheEntry<T> | null>
+  set<T>(key: string, entry: CacheEntry<T>): Promise<boolean>
+  delete(key: string): Promise<void>
+  getAllKeys(): Promise<string[]>
+  clear(): Promise<void>
+}
+
+const CACHE_PREFIX = 'wanikani-'
+
+function isCacheEntry(value: unknown): value is CacheEntry<unknown> {
+  return typeof value === 'object' && value !== null &&
+    'data' in value && 'timestamp' in value
+}
+
+// ============================================================================
+// localStorage implementation (fallback when IndexedDB is unavailable)
+// ============================================================================
+
+export class LocalStorageCacheStorage implements ICacheStorage {
+  private prefix = CACHE_PREFIX
+  private maxEntrySize = 500000 // 500KB per entry
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const cached = localStorage.getItem(key)
+      if (!cached) return null
+
+      const entry: CacheEntry<T> = JSON.parse(cached)
+
+      // Update lastAccessed for LRU tracking
+      entry.lastAccessed = Date.now()
+      try {
+        localStorage.setItem(key, JSON.stringify(entry))
+      } catch {
+        // Ignore if we can't update lastAccessed
+      }
+
+      // Check if cache has expired
+      if (entry.expiresAt && Date.now() > entry.expiresAt) {
+        localStorage.removeItem(key)
+        return null
+      }
+
+      return entry
+    } catch (error) {
+      console.warn('Error reading from cache:', error)
+      localStorage.removeItem(key)
+      return null
+    }
+  }
+
+  async peek<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      const cached = localStorage.getItem(key)
+      if (!cached) return null
+      const entry = JSON.parse(cached)
+      return isCacheEntry(entry) ? entry as CacheEntry<T> : null
+    } catch {
+      return null
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<boolean> {
+    try {
+      entry.lastAccessed = Date.now()
+      const jsonString = JSON.stringify(entry)
+
+      // Check if the data is too large
+      if (jsonString.length > this.maxEntrySize) {
+        console.warn('Cache entry too large, skipping cache for:', key.substring(0, 50))
+        return false
+      }
+
+      localStorage.setItem(key, jsonString)
+      return true
+    } catch (error) {
+      // Likely quota exceeded - try LRU eviction
+      if (this.isQuotaError(error)) {
+        console.warn('Storage quota exceeded, attempting LRU eviction...')
+        if (this.evictLRU(JSON.stringify(entry).length)) {
+          try {
+            localStorage.setItem(key, JSON.stringify(entry))
+            return true
+          } catch {
+            console.warn('Failed to cache even after eviction')
+          }
+        }
+      }
+      return false
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    localStorage.removeItem(key)
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    return this.getAllKeysSync()
+  }
+
+  async clear(): Promise<void> {
+    const keys = this.getAllKeysSync()
+    keys.forEach(key => localStorage.removeItem(key))
+    console.log(`Cleared ${keys.length} cache entries`)
+  }
+
+  // Only actual cache entries: profiles, the lock settings and other app settings share
+  // the prefix, and clear() or eviction must never remove them
+  private getAllKeysSync(): string[] {
+    const keys: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key && key.startsWith(this.prefix) && this.holdsCacheEntry(key)) {
+        keys.push(key)
+      }
+    }
+    return keys
+  }
+
+  private holdsCacheEntry(key: string): boolean {
+    try {
+      return isCacheEntry(JSON.parse(localStorage.getItem(key) ?? 'null'))
+    } catch {
+      return false
+    }
+  }
+
+  private isQuotaError(error: unknown): boolean {
+    return error instanceof DOMException && (
+      error.code === 22 || // Legacy quota exceeded
+      error.code === 1014 || // Firefox
+      error.name === 'QuotaExceededError' ||
+      error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
+    )
+  }
+
+  private evictLRU(neededBytes: number): boolean {
+    const entries: { key: string; lastAccessed: number; size: number }[] = []
+
+    // Collect all cache entries with their metadata
+    for (const key of this.getAllKeysSync()) {
+      try {
+        const value = localStorage.getItem(key)
+        if (value) {
+          const entry = JSON.parse(value)
+          entries.push({
+            key,
+            lastAccessed: entry.lastAccessed || entry.timestamp || 0,
+            size: value.length
+          })
+        }
+      } catch {
+        // Remove corrupted entries
+        localStorage.removeItem(key)
+      }
+    }
+
+    // Sort by lastAccessed (oldest first)
+    entries.sort((a, b) => a.lastAccessed - b.lastAccessed)
+
+    let freedBytes = 0
+    let evictedCount = 0
+
+    // Evict oldest entries until we have enough space (with buffer)
+    for (const entry of entries) {
+      if (freedBytes >= neededBytes * 1.5) break // 50% buffer
+
+      localStorage.removeItem(entry.key)
+      freedBytes += entry.size
+      evictedCount++
+    }
+
+    console.log(`LRU eviction: removed ${evictedCount} entries, freed ~${Math.round(freedBytes / 1024)}KB`)
+    return evictedCount > 0
+  }
+}
+
+// ============================================================================
+// IndexedDB implementation
+// ============================================================================
+
+const DB_NAME = 'wanikani-cache'
+const DB_VERSION = 1
+const STORE_NAME = 'entries'
+const MIGRATION_FLAG_KEY = 'wanikani-idb-migrated'
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+export class IndexedDBCacheStorage implements ICacheStorage {
+  private dbPromise: Promise<IDBDatabase | null>
+  private fallback = new LocalStorageCacheStorage()
+
+  constructor() {
+    this.dbPromise = this.openDatabase()
+  }
+
+  private async openDatabase(): Promise<IDBDatabase | null> {
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME)
+        }
+      }
+      const db = await promisifyRequest(request)
+      await this.migrateFromLocalStorage(db)
+      return db
+    } catch (error) {
+      // Private browsing modes may refuse IndexedDB - fall back to localStorage
+      console.warn('IndexedDB unavailable, falling back to localStorage:', error)
+      return null
+    }
+  }
+
+  // One-time copy of existing localStorage cache entries into IndexedDB
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    // Workers have no localStorage; the main thread migrates
+    if (typeof localStorage === 'undefined' || localStorage.getItem(MIGRATION_FLAG_KEY)) return
+
+    const migrated: string[] = []
+    const tx = db.transaction(STORE_NAME, 'readwrite')
+    const store = tx.objectStore(STORE_NAME)
+
+    for (const key of await this.fallback.getAllKeys()) {
+      const entry = await this.fallback.peek(key)
+      // Skip non-cache values sharing the prefix (token, sync timestamps, settings)
+      if (!entry) continue
+      store.put(entry, key)
+      migrated.push(key)
+    }
+
+    await promisifyTransaction(tx)
+    migrated.forEach(key => localStorage.removeItem(key))
+    localStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString())
+
+    if (migrated.length > 0) {
+      console.log(`Migrated ${migrated.length} cache entries from localStorage to IndexedDB`)
+    }
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const db = await this.dbPromise
+    if (!db) return this.fallback.get<T>(key)
+
+    try {
+      const entry = await this.peek<T>(key)
+      if (!entry) return null
+
+      // Check if cache has expired
+      if (entry.expiresAt && Date.now() > entry.expiresAt) {
+        await this.delete(key)
+        return null
+      }
+
+      // Update lastAccessed for LRU tracking (fire and forget)
+      entry.lastAccessed = Date.now()
+      const tx = db.transaction(STORE_NAME, 'readwrite')
+      tx.objectStore(STORE_NAME).put(entry, key)
+      promisifyTransaction(tx).catch(() => {
+        // Ignore if we can't update lastAccessed
+      })
+
+      return entry
+    } catch (error) {
+      console.warn('Error reading from cache:', error)
+      await this.delete(key)
+      return null
+    }
+  }
+
+  async peek<T>(key: string): Promise<CacheEntry<T> | null> {
+    const db = await this.dbPromise
+    if (!db) return this.fallback.peek<T>(key)
+
+    try {
+      const tx = db.transaction(STORE_NAME, 'readonly')
+      const value = await promisifyRequest(tx.objectStore(STORE_NAME).get(key))
+      return isCacheEntry(value) ? value as CacheEntry<T> : null
+    } catch {
+      return null
+    }
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<boolean> {
+    const db = await this.dbPromise
+    if (!db) return this.fallback.set(key, entry)
+
+    try {
+      entry.lastAccessed = Date.now()
+      const tx = db.transaction(STORE_NAME, 'readwrite')
+      tx.objectStore(STORE_NAME).put(entry, key)
+      await promisifyTransaction(tx)
+      return true
+    } catch (error) {
+      console.warn('Failed to write cache entry:', key.substring(0, 50), error)
+      return false
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await this.dbPromise
+    if (!db) return this.fallback.delete(key)
+
+    try {
+      const tx = db.transaction(STORE_NAME, 'readwrite')
+      tx.objectStore(STORE_NAME).delete(key)
+      await promisifyTransaction(tx)
+    } catch (error) {
+      console.warn('Failed to delete cache entry:', error)
+    }
+  }
+
+  async getAllKeys(): Promise<string[]> {
+    const db = await this.dbPromise
+    if (!db) return this.fallback.getAllKeys()
+
+    try {
+      const tx = db.transaction(STORE_NAME, 'readonly')
+      const keys = await promisifyRequest(tx.objectStore(STORE_NAME).getAllKeys())
+      return keys.map(String).filter(key => key.startsWith(CACHE_PREFIX))
+    } catch {
+      return []
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.dbPromise
+    if (!db) return this.fallback.clear()
+
+    const tx = db.transaction(STORE_NAME, 'readwrite')
+    tx.objectStore(STORE_NAME).clear()
+    await promisifyTransaction(tx)
+    console.log('Cleared IndexedDB cache entries')
+  }
+}
+
+// ============================================================================
+// Encryption wrapper (passphrase lock with cache encryption enabled)
+// ============================================================================
+
+// Encrypts entry data with AES-GCM; timestamps, TTLs and ETags stay readable so
+// expiry and LRU eviction work without the key
+export class EncryptedCacheStorage implements ICacheStorage {
+  private inner: ICacheStorage
+  private key: CryptoKey
+
+  constructor(inner: ICacheStorage, key: CryptoKey) {
+    this.inner = inner
+    this.key = key
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    return this.open<T>(key, await this.inner.get<unknown>(key))
+  }
+
+  async peek<T>(key: string): Promise<CacheEntry<T> | null> {
+    return this.open<T>(key, await this.inner.peek<unknown>(key))
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<boolean> {
+    const sealed = { ...entry, data: await encryptJson(this.key, entry.data) }
+    return this.inner.set(key, sealed)
+  }
+
+  delete(key: string): Promise<void> {
+    return this.inner.delete(key)
+  }
+
+  getAllKeys(): Promise<string[]> {
+    return this.inner.getAllKeys()
+  }
+
+  clear(): Promise<void> {
+    return this.inner.clear()
+  }
+
+  // Plaintext or undecryptable entries are dropped rather than served
+  private async open<T>(key: string, entry: CacheEntry<unknown> | null): Promise<CacheEntry<T> | null> {
+    if (!entry) return null
+    if (isEncryptedPayload(entry.data)) {
+      try {
+        return { ...entry, data: await decryptJson<T>(this.key, entry.data) }
+      } catch {
+        // Sealed with another key (passphrase changed)
+      }
+    }
+    await this.inner.delete(key)
+    return null
+  }
+}
+
+// Set while the passphrase lock is unlocked with cache encryption enabled
+let cacheEncryptionKey: CryptoKey | null = null
+
+export function setCacheEncryptionKey(key: CryptoKey | null): void {
+  cacheEncryptionKey = key
+}
+
+export function getCacheEncryptionKey(): CryptoKey | null {
+  return cacheEncryptionKey
+}
+
+// Pick the best available storage backend for the current environment
+export function createCacheStorage(): ICacheStorage {
+  const storage = typeof indexedDB !== 'undefined'
+    ? new IndexedDBCacheStorage()
+    : new LocalStorageCacheStorage()
+  return cacheEncryptionKey ? new EncryptedCacheStorage(storage, cacheEncryptionKey) : storage
+}
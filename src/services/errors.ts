@@ -0,0 +1,177 @@
+// ============================================================================
+// WaniKani API error hierarchy
+// ============================================================================
+
+export type WaniKaniErrorKind =
+  | 'auth'
+  | 'forbidden'
+  | 'rateLimit'
+  | 'server'
+  | 'network'
+  | 'parse'
+  | 'http'
+  | 'writeDisabled'
+
+export class WaniKaniError extends Error {
+  readonly kind: WaniKaniErrorKind
+  readonly endpoint: string
+  readonly status?: number
+  // Whether retrying the same request may succeed
+  readonly retryable: boolean
+
+  constructor(kind: WaniKaniErrorKind, message: string, endpoint: string, status?: number, retryable = false) {
+    super(message)
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = new.target.name
+    this.kind = kind
+    this.endpoint = endpoint
+    this.status = status
+    this.retryable = retryable
+  }
+}
+
+// 401 - token missing, revoked or mistyped
+export class WaniKaniAuthError extends WaniKaniError {
+  constructor(endpoint: string) {
+    super('auth', 'Invalid API token', endpoint, 401)
+  }
+}
+
+// 403 - token lacks a permission or the subscription does not cover the resource
+export class WaniKaniForbiddenError extends WaniKaniError {
+  constructor(endpoint: string) {
+    super('forbidden', 'Access denied', endpoint, 403)
+  }
+}
+
+// 429 - over the 60 requests/minute budget
+export class WaniKaniRateLimitError extends WaniKaniError {
+  readonly retryAfterMs: number | null
+
+  constructor(endpoint: string, retryAfterMs: number | null) {
+    super('rateLimit', 'Rate limit exceeded', endpoint, 429, true)
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+// 5xx - WaniKani is having trouble
+export class WaniKaniServerError extends WaniKaniError {
+  constructor(endpoint: string, status: number) {
+    super('server', `Server error ${status}`, endpoint, status, true)
+  }
+}
+
+// fetch rejected - offline, DNS, CORS or aborted
+export class WaniKaniNetworkError extends WaniKaniError {
+  constructor(endpoint: string, cause?: unknown) {
+    super('network', `Network error: ${cause instanceof Error ? cause.message : String(cause)}`, endpoint, undefined, true)
+  }
+}
+
+// Response body was not the JSON we expected
+export class WaniKaniParseError extends WaniKaniError {
+  constructor(endpoint: string, status?: number) {
+    super('parse', 'Could not parse API response', endpoint, status)
+  }
+}
+
+// Any other non-OK status (400, 404, 422, ...)
+export class WaniKaniHttpError extends WaniKaniError {
+  constructor(endpoint: string, status: number, statusText: string) {
+    super('http', `API error: ${status} ${statusText}`, endpoint, status)
+  }
+}
+
+// A write call (e.g. starting lessons) was made without opting in to writes
+export class WaniKaniWriteDisabledError extends WaniKaniError {
+  constructor(endpoint: string) {
+    super('writeDisabled', 'Write access is not enabled', endpoint)
+  }
+}
+
+// Parse the Retry-After header (delta-seconds or HTTP date) into milliseconds
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+// Map a non-OK response to the matching error class
+export function errorFromResponse(response: Response, endpoint: string): WaniKaniError {
+  switch (response.status) {
+    case 401:
+      return new WaniKaniAuthError(endpoint)
+    case 403:
+      return new WaniKaniForbiddenError(endpoint)
+    case 429:
+      return new WaniKaniRateLimitError(endpoint, parseRetryAfter(response.headers.get('Retry-After')))
+    default:
+      return response.status >= 500
+        ? new WaniKaniServerError(endpoint, response.status)
+        : new WaniKaniHttpError(endpoint, response.status, response.statusText)
+  }
+}
+
+// Translation key (see LanguageContext) for an error of any origin
+export function errorMessageKey(error: unknown): string {
+  if (!(error instanceof WaniKaniError)) return 'error.unknown'
+  switch (error.kind) {
+    case 'auth': return 'error.auth'
+    case 'forbidden': return 'error.forbidden'
+    case 'rateLimit': return 'error.rateLimit'
+    case 'server': return 'error.server'
+    case 'network': return 'error.network'
+    case 'parse': return 'error.parse'
+    case 'writeDisabled': return 'error.writeDisabled'
+    default: return 'error.http'
+  }
+}
+
+// Plain form of an error for posting between tabs (class identity does not survive cloning)
+export interface WaniKaniErrorData {
+  kind: WaniKaniErrorKind | null
+  message: string
+  endpoint: string
+  status?: number
+  retryable: boolean
+  retryAfterMs?: number | null
+}
+
+export function toErrorData(error: unknown, endpoint: string): WaniKaniErrorData {
+  if (error instanceof WaniKaniError) {
+    return {
+      kind: error.kind,
+      message: error.message,
+      endpoint: error.endpoint,
+      status: error.status,
+      retryable: error.retryable,
+      retryAfterMs: error instanceof WaniKaniRateLimitError ? error.retryAfterMs : undefined
+    }
+  }
+  return {
+    kind: null,
+    message: error instanceof Error ? error.message : String(error),
+    endpoint,
+    retryable: false
+  }
+}
+
+export function fromErrorData(data: WaniKaniErrorData): Error {
+  switch (data.kind) {
+    case null:
+      return new Error(data.message)
+    case 'auth':
+      return new WaniKaniAuthError(data.endpoint)
+    case 'forbidden':
+      return new WaniKaniForbiddenError(data.endpoint)
+    case 'rateLimit':
+      return new WaniKaniRateLimitError(data.endpoint, data.retryAfterMs ?? null)
+    case 'server':
+      return new WaniKaniServerError(data.endpoint, data.status ?? 500)
+    default:
+      return new WaniKaniError(data.kind, data.message, data.endpoint, data.status, data.retryable)
+  }
+}
@@ -0,0 +1,514 @@
+// ============================================================================
+// Demo fixtures
+//
+// A small, deterministic WaniKani account: levels 1-4 of real subjects with
+// assignments, statistics and review history generated from a seeded RNG.
+// Dates are relative to the time the dataset is built so the demo always
+// looks current. Resources use the wire format of the v2 API.
+// ============================================================================
+
+export interface FixtureResource {
+  id: number
+  object: string
+  url: string
+  data_updated_at: string
+  data: Record<string, unknown>
+}
+
+export interface FixtureDataset {
+  builtAt: string
+  user: Record<string, unknown>
+  subjects: FixtureResource[]
+  assignments: FixtureResource[]
+  reviewStatistics: FixtureResource[]
+  reviews: FixtureResource[]
+  levelProgressions: FixtureResource[]
+  spacedRepetitionSystems: FixtureResource[]
+  studyMaterials: FixtureResource[]
+  resets: FixtureResource[]
+  summary: Record<string, unknown>
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+export const DEMO_USER_LEVEL = 4
+
+// [level, characters, meaning]
+const RADICALS: Array<[number, string, string]> = [
+  [1, '一', 'Ground'], [1, '二', 'Two'], [1, '口', 'Mouth'], [1, '大', 'Big'],
+  [1, '人', 'Person'], [1, '山', 'Mountain'], [1, '工', 'Construction'], [1, '上', 'Above'],
+  [1, '下', 'Below'], [1, '入', 'Enter'], [1, '力', 'Power'], [2, '女', 'Woman'],
+  [2, '子', 'Child'], [2, '日', 'Sun'], [2, '月', 'Moon'], [2, '木', 'Tree'],
+  [2, '水', 'Water'], [2, '火', 'Fire'], [2, '川', 'River'], [4, '王', 'King'],
+  [4, '手', 'Hand']
+]
+
+// [level, characters, meaning, onyomi, kunyomi, primary reading type]
+const KANJI: Array<[number, string, string, string[], string[], 'onyomi' | 'kunyomi']> = [
+  [1, '一', 'One', ['いち', 'いつ'], ['ひと'], 'onyomi'],
+  [1, '二', 'Two', ['に'], ['ふた'], 'onyomi'],
+  [1, '三', 'Three', ['さん'], ['み'], 'onyomi'],
+  [1, '人', 'Person', ['じん', 'にん'], ['ひと'], 'onyomi'],
+  [1, '大', 'Big', ['たい', 'だい'], ['おお'], 'onyomi'],
+  [1, '口', 'Mouth', ['こう', 'く'], ['くち'], 'onyomi'],
+  [1, '山', 'Mountain', ['さん'], ['やま'], 'onyomi'],
+  [1, '工', 'Construction', ['こう', 'く'], [], 'onyomi'],
+  [1, '上', 'Above', ['じょう'], ['うえ', 'あ'], 'onyomi'],
+  [1, '下', 'Below', ['か', 'げ'], ['した', 'さ'], 'onyomi'],
+  [1, '入', 'Enter', ['にゅう'], ['はい', 'い'], 'onyomi'],
+  [1, '力', 'Power', ['りょく', 'りき'], ['ちから'], 'onyomi'],
+  [2, '女', 'Woman', ['じょ', 'にょ'], ['おんな', 'め'], 'onyomi'],
+  [2, '子', 'Child', ['し', 'す'], ['こ'], 'onyomi'],
+  [2, '日', 'Sun', ['にち', 'じつ'], ['ひ', 'か'], 'onyomi'],
+  [2, '月', 'Moon', ['げつ', 'がつ'], ['つき'], 'onyomi'],
+  [2, '木', 'Tree', ['もく', 'ぼく'], ['き'], 'onyomi'],
+  [2, '水', 'Water', ['すい'], ['みず'], 'onyomi'],
+  [2, '火', 'Fire', ['か'], ['ひ'], 'onyomi'],
+  [2, '川', 'River', ['せん'], ['かわ'], 'kunyomi'],
+  [3, '本', 'Book', ['ほん'], ['もと'], 'onyomi'],
+  [3, '中', 'Middle', ['ちゅう'], ['なか'], 'onyomi'],
+  [3, '小', 'Small', ['しょう'], ['ちい', 'こ'], 'kunyomi'],
+  [3, '出', 'Exit', ['しゅつ'], ['で', 'だ'], 'kunyomi'],
+  [4, '手', 'Hand', ['しゅ'], ['て'], 'kunyomi'],
+  [4, '天', 'Heaven', ['てん'], ['あま'], 'onyomi'],
+  [4, '王', 'King', ['おう'], [], 'onyomi'],
+  [4, '玉', 'Ball', ['ぎょく'], ['たま'], 'kunyomi']
+]
+
+// [level, characters, meanings, reading, parts of speech, [ja, en] sentence]
+const VOCABULARY: Array<[number, string, string[], string, string[], [string, string]]> = [
+  [1, '一つ', ['One Thing'], 'ひとつ', ['numeral'], ['りんごを一つください。', 'One apple, please.']],
+  [1, '二つ', ['Two Things'], 'ふたつ', ['numeral'], ['かばんが二つあります。', 'There are two bags.']],
+  [1, '人', ['Person'], 'ひと', ['noun'], ['あの人はだれですか。', 'Who is that person?']],
+  [1, '大人', ['Adult'], 'おとな', ['noun'], ['もう大人です。', "I'm already an adult."]],
+  [1, '人口', ['Population'], 'じんこう', ['noun'], ['東京の人口は多いです。', "Tokyo's population is large."]],
+  [1, '山', ['Mountain'], 'やま', ['noun'], ['山に登りました。', 'I climbed a mountain.']],
+  [1, '人工', ['Artificial', 'Man Made'], 'じんこう', ['noun', 'no adjective'], ['これは人工の湖です。', 'This is an artificial lake.']],
+  [1, '上', ['Above', 'Up', 'Over'], 'うえ', ['noun'], ['机の上に本があります。', 'There is a book on the desk.']],
+  [1, '下', ['Below', 'Down', 'Under'], 'した', ['noun'], ['いすの下に猫がいます。', 'There is a cat under the chair.']],
+  [1, '入る', ['To Enter'], 'はいる', ['intransitive verb', 'godan verb'], ['部屋に入ってください。', 'Please enter the room.']],
+  [1, '力', ['Power', 'Strength'], 'ちから', ['noun'], ['彼は力が強い。', 'He is strong.']],
+  [2, '女の子', ['Girl'], 'おんなのこ', ['noun'], ['女の子が歌っています。', 'A girl is singing.']],
+  [2, '日本', ['Japan'], 'にほん', ['proper noun'], ['日本に行きたいです。', 'I want to go to Japan.']],
+  [2, '月曜日', ['Monday'], 'げつようび', ['noun'], ['月曜日は忙しいです。', 'Mondays are busy.']],
+  [2, '水曜日', ['Wednesday'], 'すいようび', ['noun'], ['水曜日に会いましょう。', "Let's meet on Wednesday."]],
+  [2, '火山', ['Volcano'], 'かざん', ['noun'], ['あの火山はまだ活動中です。', 'That volcano is still active.']],
+  [2, '川', ['River'], 'かわ', ['noun'], ['川で泳ぎました。', 'I swam in the river.']],
+  [2, '入り口', ['Entrance'], 'いりぐち', ['noun'], ['入り口はどこですか。', 'Where is the entrance?']],
+  [2, '上手', ['Skilled At', 'Good At'], 'じょうず', ['na adjective'], ['料理が上手ですね。', "You're good at cooking."]],
+  [2, '下手', ['Unskilled At', 'Bad At'], 'へた', ['na adjective'], ['私は歌が下手です。', "I'm bad at singing."]],
+  [3, '本', ['Book'], 'ほん', ['noun'], ['この本はおもしろい。', 'This book is interesting.']],
+  [3, '日本人', ['Japanese Person'], 'にほんじん', ['noun'], ['彼女は日本人です。', 'She is Japanese.']],
+  [3, '中', ['Middle', 'Inside'], 'なか', ['noun'], ['箱の中に何がありますか。', "What's inside the box?"]],
+  [3, '小さい', ['Small', 'Little'], 'ちいさい', ['i adjective'], ['小さい犬が好きです。', 'I like small dogs.']],
+  [3, '出口', ['Exit'], 'でぐち', ['noun'], ['出口は右です。', 'The exit is on the right.']],
+  [4, '手', ['Hand'], 'て', ['noun'], ['手を洗ってください。', 'Please wash your hands.']],
+  [4, '王子', ['Prince'], 'おうじ', ['noun'], ['王子はお城に住んでいます。', 'The prince lives in a castle.']],
+  [4, '天才', ['Genius'], 'てんさい', ['noun'], ['彼は天才だ。', 'He is a genius.']]
+]
+
+// [level, characters, meanings, parts of speech, [ja, en] sentence]
+const KANA_VOCABULARY: Array<[number, string, string[], string[], [string, string]]> = [
+  [1, 'ありがとう', ['Thank You'], ['expression'], ['手伝ってくれてありがとう。', 'Thank you for helping me.']],
+  [2, 'こんにちは', ['Hello', 'Good Afternoon'], ['expression'], ['こんにちは、お元気ですか。', 'Hello, how are you?']],
+  [3, 'すみません', ['Excuse Me', 'Sorry'], ['expression'], ['すみません、駅はどこですか。', 'Excuse me, where is the station?']]
+]
+
+// [subject type, characters, meaning, type] - extra answers, as WaniKani keeps for lookalikes
+const AUXILIARY_MEANINGS: Array<[string, string, string, 'whitelist' | 'blacklist']> = [
+  ['kanji', '大', 'Large', 'whitelist'],
+  ['kanji', '大', 'Dog', 'blacklist'],
+  ['kanji', '日', 'Day', 'whitelist'],
+  ['kanji', '木', 'Wood', 'whitelist'],
+  ['vocabulary', '人口', 'Artificial', 'blacklist'],
+  ['vocabulary', '人工', 'Population', 'blacklist']
+]
+
+// Interval in seconds per stage position (index = position)
+const STANDARD_INTERVALS = [null, 14400, 28800, 82800, 169200, 601200, 1206000, 2588400, 10364400, null]
+const ACCELERATED_INTERVALS = [null, 7200, 14400, 28800, 82800, 601200, 1206000, 2588400, 10364400, null]
+const STANDARD_SRS_ID = 1
+const ACCELERATED_SRS_ID = 2
+
+// Mulberry32 - small seeded PRNG so every build of the dataset is identical
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state |= 0
+    state = (state + 0x6D2B79F5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function resource(object: string, id: number, path: string, updatedAt: string, data: Record<string, unknown>): FixtureResource {
+  return { id, object, url: `https://api.wanikani.com/v2/${path}/${id}`, data_updated_at: updatedAt, data }
+}
+
+function iso(ms: number): string {
+  return new Date(ms).toISOString()
+}
+
+function buildSubjects(createdAt: string): FixtureResource[] {
+  const subjects: FixtureResource[] = []
+  const srsFor = (level: number) => (level <= 2 ? ACCELERATED_SRS_ID : STANDARD_SRS_ID)
+  const auxiliaryMeanings = (type: string, characters: string) => AUXILIARY_MEANINGS
+    .filter(([auxType, auxCharacters]) => auxType === type && auxCharacters === characters)
+    .map(([, , meaning, auxiliaryType]) => ({ meaning, type: auxiliaryType }))
+  const common = (level: number, slug: string, position: number) => ({
+    created_at: createdAt,
+    level,
+    slug,
+    hidden_at: null,
+    document_url: `https://www.wanikani.com/${encodeURIComponent(slug)}`,
+    lesson_position: position,
+    spaced_repetition_system_id: srsFor(level),
+    auxiliary_meanings: []
+  })
+
+  RADICALS.forEach(([level, characters, meaning], index) => {
+    subjects.push(resource('radical', 1 + index, 'subjects', createdAt, {
+      ...common(level, meaning.toLowerCase(), index),
+      characters,
+      meanings: [{ meaning, primary: true, accepted_answer: true }],
+      amalgamation_subject_ids: [],
+      meaning_mnemonic: `This radical looks like ${meaning.toLowerCase()}, so that's what it means.`
+    }))
+  })
+
+  KANJI.forEach(([level, characters, meaning, onyomi, kunyomi, primaryType], index) => {
+    const readings = [
+      ...onyomi.map((reading, i) => ({ reading, type: 'onyomi', primary: primaryType === 'onyomi' && i === 0, accepted_answer: primaryType === 'onyomi' })),
+      ...kunyomi.map((reading, i) => ({ reading, type: 'kunyomi', primary: primaryType === 'kunyomi' && i === 0, accepted_answer: primaryType === 'kunyomi' }))
+    ]
+    const primaryReading = readings.find(r => r.primary)?.reading ?? ''
+    subjects.push(resource('kanji', 100 + index, 'subjects', createdAt, {
+      ...common(level, characters, index),
+      auxiliary_meanings: auxiliaryMeanings('kanji', characters),
+      characters,
+      meanings: [{ meaning, primary: true, accepted_answer: true }],
+      readings,
+      component_subject_ids: [],
+      amalgamation_subject_ids: [],
+      visually_similar_subject_ids: [],
+      meaning_mnemonic: `Picture the ${meaning.toLowerCase()} and you have this kanji.`,
+      meaning_hint: null,
+      reading_mnemonic: `The ${meaning.toLowerCase()} says "${primaryReading}" when you poke it.`,
+      reading_hint: null
+    }))
+  })
+
+  VOCABULARY.forEach(([level, characters, meanings, reading, partsOfSpeech, [ja, en]], index) => {
+    subjects.push(resource('vocabulary', 1000 + index, 'subjects', createdAt, {
+      ...common(level, characters, index),
+      auxiliary_meanings: auxiliaryMeanings('vocabulary', characters),
+      characters,
+      meanings: meanings.map((meaning, i) => ({ meaning, primary: i === 0, accepted_answer: true })),
+      readings: [{ reading, primary: true, accepted_answer: true }],
+      parts_of_speech: partsOfSpeech,
+      component_subject_ids: [],
+      context_sentences: [{ ja, en }],
+      // Audio is omitted: the demo must work without network access
+      pronunciation_audios: [],
+      meaning_mnemonic: `Combine the kanji meanings and you get ${meanings[0].toLowerCase()}.`,
+      reading_mnemonic: `Use the kanji readings you know to get ${reading}.`
+    }))
+  })
+
+  KANA_VOCABULARY.forEach(([level, characters, meanings, partsOfSpeech, [ja, en]], index) => {
+    subjects.push(resource('kana_vocabulary', 9000 + index, 'subjects', createdAt, {
+      ...common(level, characters, index),
+      characters,
+      meanings: meanings.map((meaning, i) => ({ meaning, primary: i === 0, accepted_answer: true })),
+      parts_of_speech: partsOfSpeech,
+      context_sentences: [{ ja, en }],
+      pronunciation_audios: [],
+      meaning_mnemonic: `You'll hear ${characters} all the time; it means ${meanings[0].toLowerCase()}.`
+    }))
+  })
+
+  // Link components by shared characters: radical -> kanji -> vocabulary
+  const byType = (type: string) => subjects.filter(s => s.object === type)
+  const link = (parents: FixtureResource[], children: FixtureResource[], matches: (p: string, c: string) => boolean) => {
+    children.forEach(child => {
+      const components = parents.filter(parent =>
+        matches(String(parent.data.characters), String(child.data.characters))
+      )
+      child.data.component_subject_ids = components.map(c => c.id)
+      components.forEach(parent => {
+        (parent.data.amalgamation_subject_ids as number[]).push(child.id)
+      })
+    })
+  }
+  link(byType('radical'), byType('kanji'), (p, c) => p === c)
+  link(byType('kanji'), byType('vocabulary'), (p, c) => c.includes(p))
+
+  return subjects
+}
+
+export function buildFixtures(now: number = Date.now()): FixtureDataset {
+  const random = createRandom(20170710)
+  const builtAt = iso(now)
+  const userStartedAt = now - 400 * DAY
+  // When each level was started; level 4 is in progress
+  const levelStarts: Record<number, number> = {
+    1: userStartedAt,
+    2: now - 300 * DAY,
+    3: now - 150 * DAY,
+    4: now - 20 * DAY
+  }
+
+  const subjects = buildSubjects(iso(userStartedAt - 365 * DAY))
+
+  const spacedRepetitionSystems = [
+    { id: STANDARD_SRS_ID, name: 'Default system for dictionary subjects', intervals: STANDARD_INTERVALS },
+    { id: ACCELERATED_SRS_ID, name: 'Default system for Radicals and Kanji in Level 1 and 2', intervals: ACCELERATED_INTERVALS }
+  ].map(({ id, name, intervals }) => resource('spaced_repetition_system', id, 'spaced_repetition_systems', builtAt, {
+    created_at: iso(userStartedAt - 365 * DAY),
+    name,
+    description: name,
+    unlocking_stage_position: 0,
+    starting_stage_position: 1,
+    passing_stage_position: 5,
+    burning_stage_position: 9,
+    stages: intervals.map((interval, position) => ({
+      interval,
+      position,
+      interval_unit: interval === null ? null : 'seconds'
+    }))
+  }))
+
+  const assignments: FixtureResource[] = []
+  const reviewStatistics: FixtureResource[] = []
+  const reviews: FixtureResource[] = []
+  const lessonSubjectIds: number[] = []
+  let reviewId = 1
+
+  // Older levels sit higher in the SRS pipeline
+  const stageRange: Record<number, [number, number]> = { 1: [5, 9], 2: [4, 8], 3: [2, 6], 4: [1, 4] }
+
+  subjects.forEach(subject => {
+    const level = subject.data.level as number
+    if (level > DEMO_USER_LEVEL) return
+
+    const assignmentId = 5000 + subject.id
+    const unlockedAt = levelStarts[level] + Math.floor(random() * 2 * DAY)
+
+    // Current-level vocabulary is still waiting in the lesson queue
+    if (level === DEMO_USER_LEVEL && subject.object !== 'radical' && subject.object !== 'kanji') {
+      lessonSubjectIds.push(subject.id)
+      assignments.push(resource('assignment', assignmentId, 'assignments', builtAt, {
+        created_at: iso(unlockedAt),
+        subject_id: subject.id,
+        subject_type: subject.object,
+        srs_stage: 0,
+        unlocked_at: iso(unlockedAt),
+        started_at: null,
+        passed_at: null,
+        burned_at: null,
+        available_at: null,
+        resurrected_at: null,
+        hidden: false
+      }))
+      return
+    }
+
+    const [minStage, maxStage] = stageRange[level]
+    const stage = minStage + Math.floor(random() * (maxStage - minStage + 1))
+    const startedAt = unlockedAt + Math.floor(random() * 3 * DAY)
+    const availableAt = stage === 9 ? null : now + Math.floor((random() * 7.25 - 0.25) * DAY)
+
+    // Walk the SRS ladder from stage 1 to the current stage, with occasional misses
+    const steps: Array<{ start: number; end: number; meaningWrong: number; readingWrong: number }> = []
+    let current = 0
+    let guard = 0
+    while (current !== stage && guard++ < 40) {
+      const start = current
+      if (start === 0) {
+        current = 1
+        steps.push({ start, end: 1, meaningWrong: 0, readingWrong: 0 })
+        continue
+      }
+      const miss = start < stage && random() < 0.18
+      const hasReading = subject.object === 'kanji' || subject.object === 'vocabulary'
+      const readingWrong = miss && hasReading && random() < 0.6 ? 1 : 0
+      const meaningWrong = miss && !readingWrong ? 1 : 0
+      current = miss ? Math.max(1, start - (start >= 5 ? 2 : 1)) : start + 1
+      steps.push({ start, end: current, meaningWrong, readingWrong })
+    }
+
+    // Spread the reviews (lesson excluded) between starting and the last review
+    const lastReviewAt = Math.min(now - HOUR, availableAt ?? now)
+    const reviewSteps = steps.filter(step => step.start > 0)
+    const span = Math.max(HOUR, lastReviewAt - startedAt)
+    let meaningCorrect = 0
+    let meaningIncorrect = 0
+    let readingCorrect = 0
+    let readingIncorrect = 0
+    let passedAt: number | null = null
+
+    reviewSteps.forEach((step, index) => {
+      const createdAt = startedAt + Math.floor(span * (index + 1) / reviewSteps.length)
+      meaningCorrect++
+      meaningIncorrect += step.meaningWrong
+      if (subject.object === 'kanji' || subject.object === 'vocabulary') readingCorrect++
+      readingIncorrect += step.readingWrong
+      if (step.end >= 5 && passedAt === null) passedAt = createdAt
+
+      reviews.push(resource('review', reviewId++, 'reviews', iso(createdAt), {
+        created_at: iso(createdAt),
+        assignment_id: assignmentId,
+        subject_id: subject.id,
+        spaced_repetition_system_id: subject.data.spaced_repetition_system_id,
+        starting_srs_stage: step.start,
+        ending_srs_stage: step.end,
+        incorrect_meaning_answers: step.meaningWrong,
+        incorrect_reading_answers: step.readingWrong
+      }))
+    })
+
+    const lastReview = reviews[reviews.length - 1]
+    const burnedAt = stage === 9 && lastReview ? String(lastReview.data.created_at) : null
+
+    assignments.push(resource('assignment', assignmentId, 'assignments', builtAt, {
+      created_at: iso(unlockedAt),
+      subject_id: subject.id,
+      subject_type: subject.object,
+      srs_stage: stage,
+      unlocked_at: iso(unlockedAt),
+      started_at: iso(startedAt),
+      passed_at: passedAt === null ? null : iso(passedAt),
+      burned_at: burnedAt,
+      available_at: availableAt === null ? null : iso(availableAt),
+      resurrected_at: null,
+      hidden: false
+    }))
+
+    const total = meaningCorrect + meaningIncorrect + readingCorrect + readingIncorrect
+    reviewStatistics.push(resource('review_statistic', 7000 + subject.id, 'review_statistics', builtAt, {
+      created_at: iso(startedAt),
+      subject_id: subject.id,
+      subject_type: subject.object,
+      meaning_correct: meaningCorrect,
+      meaning_incorrect: meaningIncorrect,
+      meaning_max_streak: Math.max(1, meaningCorrect - meaningIncorrect),
+      meaning_current_streak: Math.max(1, Math.ceil(meaningCorrect / 2)),
+      reading_correct: readingCorrect,
+      reading_incorrect: readingIncorrect,
+      reading_max_streak: readingCorrect > 0 ? Math.max(1, readingCorrect - readingIncorrect) : 1,
+      reading_current_streak: readingCorrect > 0 ? Math.max(1, Math.ceil(readingCorrect / 2)) : 1,
+      percentage_correct: total > 0 ? Math.round(((meaningCorrect + readingCorrect) / total) * 100) : 100,
+      hidden: false
+    }))
+  })
+
+  const levelProgressions = [1, 2, 3, 4].map(level => {
+    const startedAt = levelStarts[level]
+    const passedAt = level < DEMO_USER_LEVEL ? levelStarts[level + 1] - DAY : null
+    return resource('level_progression', 8000 + level, 'level_progressions', builtAt, {
+      created_at: iso(startedAt - HOUR),
+      level,
+      unlocked_at: iso(startedAt - HOUR),
+      started_at: iso(startedAt),
+      passed_at: passedAt === null ? null : iso(passedAt),
+      completed_at: null,
+      abandoned_at: null
+    })
+  })
+
+  // A few notes and synonyms, as if the demo user had added them on WaniKani
+  const studyMaterialNotes: Array<[string, string | null, string | null, string[]]> = [
+    ['大', 'Think of a person spreading their arms wide.', null, ['large']],
+    ['人', null, 'じん for nationalities, にん for counting people.', []],
+    ['山', 'Three peaks.', null, ['mt']]
+  ]
+  const studyMaterials = studyMaterialNotes.reduce<FixtureResource[]>((acc, [characters, meaningNote, readingNote, synonyms]) => {
+    const subject = subjects.find(s => s.object === 'kanji' && s.data.characters === characters)
+    if (!subject) return acc
+    acc.push(resource('study_material', 9000 + subject.id, 'study_materials', builtAt, {
+      created_at: builtAt,
+      subject_id: subject.id,
+      subject_type: subject.object,
+      meaning_note: meaningNote,
+      reading_note: readingNote,
+      meaning_synonyms: synonyms,
+      hidden: false
+    }))
+    return acc
+  }, [])
+
+  // Reviews are reported in hourly buckets for the next 24 hours; overdue items land in the first one
+  const hourStart = Math.floor(now / HOUR) * HOUR
+  const reviewBuckets = Array.from({ length: 25 }, (_, i) => ({
+    available_at: iso(hourStart + i * HOUR),
+    subject_ids: [] as number[]
+  }))
+  let nextReviewsAt: number | null = null
+  assignments.forEach(assignment => {
+    const availableAt = assignment.data.available_at ? Date.parse(String(assignment.data.available_at)) : null
+    if (availableAt === null) return
+    if (nextReviewsAt === null || availableAt < nextReviewsAt) nextReviewsAt = availableAt
+    const bucket = Math.max(0, Math.floor((availableAt - hourStart) / HOUR))
+    if (bucket < reviewBuckets.length) {
+      reviewBuckets[bucket].subject_ids.push(Number(assignment.data.subject_id))
+    }
+  })
+
+  const summary = {
+    object: 'report',
+    url: 'https://api.wanikani.com/v2/summary',
+    data_updated_at: builtAt,
+    data: {
+      lessons: [{ available_at: iso(hourStart), subject_ids: lessonSubjectIds }],
+      next_reviews_at: nextReviewsAt === null ? null : iso(nextReviewsAt),
+      reviews: reviewBuckets
+    }
+  }
+
+  const user = {
+    object: 'user',
+    url: 'https://api.wanikani.com/v2/user',
+    data_updated_at: builtAt,
+    data: {
+      id: 'demo-0000-0000-0000-000000000000',
+      username: 'demo_crabigator',
+      level: DEMO_USER_LEVEL,
+      profile_url: 'https://www.wanikani.com/users/demo_crabigator',
+      started_at: iso(userStartedAt),
+      current_vacation_started_at: null,
+      subscription: {
+        active: true,
+        type: 'lifetime',
+        max_level_granted: 60,
+        period_ends_at: null
+      },
+      preferences: {
+        default_voice_actor_id: 1,
+        extra_study_autoplay_audio: false,
+        lessons_autoplay_audio: false,
+        lessons_batch_size: 5,
+        lessons_presentation_order: 'ascending_level_then_subject',
+        reviews_autoplay_audio: false,
+        reviews_display_srs_indicator: true,
+        reviews_presentation_order: 'shuffled'
+      }
+    }
+  }
+
+  return {
+    builtAt,
+    user,
+    subjects,
+    assignments,
+    reviewStatistics,
+    reviews,
+    levelProgressions,
+    spacedRepetitionSystems,
+    studyMaterials,
+    // The demo account never reset
+    resets: [],
+    summary
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { buildFixtures } from './fixtures'
+import { MOCK_BASE_URL, MockWaniKaniServer } from './mockServer'
+
+const TOKEN = 'test-token'
+const auth = { headers: { Authorization: `Bearer ${TOKEN}` } }
+
+function createServer(options: { perPage?: number; rateLimitPerMinute?: number } = {}) {
+  return new MockWaniKaniServer({ apiToken: TOKEN, latencyMs: 0, dataset: buildFixtures(Date.UTC(2024, 0, 1)), ...options })
+}
+
+describe('MockWaniKaniServer', () => {
+  it('rejects requests without the token', async () => {
+    const server = createServer()
+    const response = await server.fetch(`${MOCK_BASE_URL}/user`, { headers: { Authorization: 'Bearer wrong' } })
+    expect(response.status).toBe(401)
+  })
+
+  it('pages through a collection with next_url', async () => {
+    const server = createServer({ perPage: 20 })
+    const ids: number[] = []
+    let url: string | null = `${MOCK_BASE_URL}/subjects?levels=1`
+    let pages = 0
+    let total = 0
+    while (url) {
+      const body = await (await server.fetch(url, auth)).json()
+      body.data.forEach((record: { id: number; data: { level: number } }) => {
+        expect(record.data.level).toBe(1)
+        ids.push(record.id)
+      })
+      total = body.total_count
+      url = body.pages.next_url
+      pages++
+    }
+    expect(pages).toBeGreaterThan(1)
+    expect(ids).toHaveLength(total)
+    expect(new Set(ids).size).toBe(total)
+  })
+
+  it('answers 304 to a matching ETag', async () => {
+    const server = createServer()
+    const first = await server.fetch(`${MOCK_BASE_URL}/summary`, auth)
+    const etag = first.headers.get('ETag') ?? ''
+    const second = await server.fetch(`${MOCK_BASE_URL}/summary`, { headers: { ...auth.headers, 'If-None-Match': etag } })
+    expect(second.status).toBe(304)
+  })
+
+  it('answers 429 once the minute budget is spent', async () => {
+    const server = createServer({ rateLimitPerMinute: 2 })
+    const first = await server.fetch(`${MOCK_BASE_URL}/user`, auth)
+    expect(first.headers.get('RateLimit-Remaining')).toBe('1')
+    await server.fetch(`${MOCK_BASE_URL}/user`, auth)
+    const limited = await server.fetch(`${MOCK_BASE_URL}/user`, auth)
+    expect(limited.status).toBe(429)
+    expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0)
+
+    server.resetRateLimit()
+    expect((await server.fetch(`${MOCK_BASE_URL}/user`, auth)).status).toBe(200)
+  })
+})
@@ -0,0 +1,486 @@
+import type { FetchFunction, WaniKaniTransport } from '../transport'
+import { buildFixtures, type FixtureDataset, type FixtureResource } from './fixtures'
+import type { SpacedRepetitionSystem } from '@/types/wanikani'
+import { createSrsModels, getNextReviewAt, getSrsModel, getStageAfterReview, isBurnedStage, isPassedStage, type SrsModel } from '@/utils/srsModel'
+
+// ============================================================================
+// Mock WaniKani v2 server
+//
+// Serves the fixture dataset through a fetch-compatible function: collection
+// pagination (page_after_id / next_url), the common filters, ETag + 304
+// handling, token checks and the 60 requests/minute limit with 429 responses.
+// Writes (starting assignments, saving study materials, submitting reviews)
+// change the dataset of this server instance.
+// ============================================================================
+
+export const MOCK_BASE_URL = 'https://api.wanikani.mock/v2'
+
+export interface MockServerOptions {
+  // Token the server accepts; anything else gets a 401
+  apiToken: string
+  baseUrl?: string
+  // Page size for collections (the real API uses 500-1000)
+  perPage?: number
+  // Requests allowed per rolling minute before 429s start
+  rateLimitPerMinute?: number
+  // Simulated network latency in ms
+  latencyMs?: number
+  dataset?: FixtureDataset
+}
+
+type CollectionName =
+  | 'subjects'
+  | 'assignments'
+  | 'review_statistics'
+  | 'reviews'
+  | 'level_progressions'
+  | 'spaced_repetition_systems'
+  | 'study_materials'
+  | 'resets'
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000
+
+// djb2 - enough to derive stable ETags from response bodies
+function hashString(value: string): string {
+  let hash = 5381
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(16)
+}
+
+function parseIdList(value: string | null): Set<number> | null {
+  if (!value) return null
+  return new Set(value.split(',').map(Number).filter(n => !isNaN(n)))
+}
+
+export class MockWaniKaniServer {
+  readonly baseUrl: string
+  private options: Required<Omit<MockServerOptions, 'dataset' | 'baseUrl'>>
+  private dataset: FixtureDataset
+  private requestLog: number[] = []
+
+  constructor(options: MockServerOptions) {
+    this.baseUrl = options.baseUrl ?? MOCK_BASE_URL
+    this.dataset = options.dataset ?? buildFixtures()
+    this.options = {
+      apiToken: options.apiToken,
+      perPage: options.perPage ?? 25,
+      rateLimitPerMinute: options.rateLimitPerMinute ?? 60,
+      latencyMs: options.latencyMs ?? 40
+    }
+  }
+
+  transport(): WaniKaniTransport {
+    return { baseUrl: this.baseUrl, fetch: this.fetch, local: true }
+  }
+
+  // Reset the rate-limit window (useful between test cases)
+  resetRateLimit(): void {
+    this.requestLog = []
+  }
+
+  readonly fetch: FetchFunction = async (url, init) => {
+    if (this.options.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.options.latencyMs))
+    }
+
+    const headers = new Headers(init?.headers)
+    const rateLimit = this.consumeRateLimit()
+    if (!rateLimit.allowed) {
+      return this.json({ error: 'Rate limit exceeded', code: 429 }, 429, {
+        ...rateLimit.headers,
+        'Retry-After': String(rateLimit.retryAfterSeconds)
+      })
+    }
+
+    if (headers.get('Authorization') !== `Bearer ${this.options.apiToken}`) {
+      return this.json({ error: 'Unauthorized. Nice try.', code: 401 }, 401, rateLimit.headers)
+    }
+
+    const parsed = new URL(url, this.baseUrl)
+    const basePath = new URL(this.baseUrl).pathname.replace(/\/$/, '')
+    const path = parsed.pathname.replace(basePath, '')
+
+    const method = (init?.method ?? 'GET').toUpperCase()
+    if (method !== 'GET') {
+      const result = this.routeWrite(method, path, typeof init?.body === 'string' ? init.body : null)
+      return this.json(result.body, result.status, rateLimit.headers)
+    }
+
+    const body = this.route(path, parsed.searchParams, parsed.origin + basePath)
+
+    if (!body) {
+      return this.json({ error: 'Not found', code: 404 }, 404, rateLimit.headers)
+    }
+
+    const text = JSON.stringify(body)
+    const etag = `W/"${hashString(text)}"`
+    if (headers.get('If-None-Match') === etag) {
+      return new Response(null, { status: 304, headers: { ...rateLimit.headers, ETag: etag } })
+    }
+
+    return new Response(text, {
+      status: 200,
+      headers: {
+        ...rateLimit.headers,
+        'Content-Type': 'application/json; charset=utf-8',
+        ETag: etag,
+        'Last-Modified': new Date(this.dataset.builtAt).toUTCString()
+      }
+    })
+  }
+
+  private consumeRateLimit(): { allowed: boolean; retryAfterSeconds: number; headers: Record<string, string> } {
+    const now = Date.now()
+    this.requestLog = this.requestLog.filter(ts => now - ts < RATE_LIMIT_WINDOW_MS)
+
+    const limit = this.options.rateLimitPerMinute
+    const allowed = this.requestLog.length < limit
+    if (allowed) this.requestLog.push(now)
+
+    const windowResetsAt = (this.requestLog[0] ?? now) + RATE_LIMIT_WINDOW_MS
+    return {
+      allowed,
+      retryAfterSeconds: Math.max(1, Math.ceil((windowResetsAt - now) / 1000)),
+      headers: {
+        'RateLimit-Limit': String(limit),
+        'RateLimit-Remaining': String(Math.max(0, limit - this.requestLog.length)),
+        'RateLimit-Reset': String(Math.ceil(windowResetsAt / 1000))
+      }
+    }
+  }
+
+  private route(path: string, params: URLSearchParams, apiRoot: string): unknown | null {
+    if (path === '/user') return this.dataset.user
+    if (path === '/summary') return this.dataset.summary
+
+    const single = path.match(/^\/(subjects|assignments|review_statistics|reviews|level_progressions|spaced_repetition_systems|study_materials|resets)\/(\d+)$/)
+    if (single) {
+      const record = this.collection(single[1] as CollectionName).find(r => r.id === Number(single[2]))
+      return record ?? null
+    }
+
+    const collection = path.match(/^\/(subjects|assignments|review_statistics|reviews|level_progressions|spaced_repetition_systems|study_materials|resets)$/)
+    if (collection) {
+      return this.page(collection[1] as CollectionName, params, apiRoot)
+    }
+
+    return null
+  }
+
+  private routeWrite(method: string, path: string, rawBody: string | null): { status: number; body: unknown } {
+    let parsed: Record<string, Record<string, unknown> | undefined>
+    try {
+      parsed = rawBody ? JSON.parse(rawBody) : {}
+    } catch {
+      return { status: 422, body: { error: 'Invalid JSON', code: 422 } }
+    }
+
+    const start = path.match(/^\/assignments\/(\d+)\/start$/)
+    if (method === 'PUT' && start) {
+      const startedAt = parsed.assignment?.started_at
+      return this.startAssignment(Number(start[1]), typeof startedAt === 'string' ? startedAt : undefined)
+    }
+
+    const material = path.match(/^\/study_materials(?:\/(\d+))?$/)
+    if (material && ((method === 'POST' && !material[1]) || (method === 'PUT' && material[1]))) {
+      return this.saveStudyMaterial(material[1] ? Number(material[1]) : null, parsed.study_material ?? {})
+    }
+
+    if (method === 'POST' && path === '/reviews') {
+      return this.createReview(parsed.review ?? {})
+    }
+
+    return { status: 404, body: { error: 'Not found', code: 404 } }
+  }
+
+  // POST /reviews - moves an available assignment along its SRS and updates its
+  // review statistic. The new stage follows WaniKani's formula: one up when both
+  // answers were right, otherwise down by half the mistakes (twice that from Guru up).
+  private createReview(fields: Record<string, unknown>): { status: number; body: unknown } {
+    const assignment = this.dataset.assignments.find(a =>
+      fields.assignment_id !== undefined
+        ? a.id === Number(fields.assignment_id)
+        : a.data.subject_id === Number(fields.subject_id)
+    )
+    if (!assignment) return { status: 404, body: { error: 'Not found', code: 404 } }
+
+    const now = Date.now()
+    const availableAt = assignment.data.available_at ? Date.parse(String(assignment.data.available_at)) : null
+    if (availableAt === null || availableAt > now) {
+      return { status: 422, body: { error: 'Assignment is not available for review', code: 422 } }
+    }
+
+    const incorrectMeaning = Number(fields.incorrect_meaning_answers ?? 0)
+    const incorrectReading = Number(fields.incorrect_reading_answers ?? 0)
+    if (!(incorrectMeaning >= 0) || !(incorrectReading >= 0)) {
+      return { status: 422, body: { error: 'Invalid incorrect answer counts', code: 422 } }
+    }
+
+    const subjectId = Number(assignment.data.subject_id)
+    const subject = this.dataset.subjects.find(s => s.id === subjectId)
+    const srs = this.srsForSubject(subjectId)
+
+    const startingStage = Number(assignment.data.srs_stage)
+    const endingStage = getStageAfterReview(srs, startingStage, incorrectMeaning + incorrectReading)
+    const nextAvailableAt = getNextReviewAt(srs, endingStage, now)
+
+    const updatedAt = new Date(now).toISOString()
+    assignment.data = {
+      ...assignment.data,
+      srs_stage: endingStage,
+      available_at: nextAvailableAt === null ? null : new Date(nextAvailableAt).toISOString(),
+      passed_at: assignment.data.passed_at ?? (isPassedStage(srs, endingStage) ? updatedAt : null),
+      burned_at: isBurnedStage(srs, endingStage) ? updatedAt : null
+    }
+    assignment.data_updated_at = updatedAt
+
+    const statistic = this.dataset.reviewStatistics.find(s => s.data.subject_id === subjectId)
+    if (statistic) {
+      const data = statistic.data as Record<string, number | string | boolean>
+      const hasReading = subject?.object === 'kanji' || subject?.object === 'vocabulary'
+      const meaningStreak = incorrectMeaning === 0 ? Number(data.meaning_current_streak) + 1 : 1
+      const readingStreak = !hasReading || incorrectReading === 0 ? Number(data.reading_current_streak) + (hasReading ? 1 : 0) : 1
+      const next = {
+        meaning_correct: Number(data.meaning_correct) + 1,
+        meaning_incorrect: Number(data.meaning_incorrect) + incorrectMeaning,
+        meaning_current_streak: meaningStreak,
+        meaning_max_streak: Math.max(Number(data.meaning_max_streak), meaningStreak),
+        reading_correct: Number(data.reading_correct) + (hasReading ? 1 : 0),
+        reading_incorrect: Number(data.reading_incorrect) + incorrectReading,
+        reading_current_streak: readingStreak,
+        reading_max_streak: Math.max(Number(data.reading_max_streak), readingStreak)
+      }
+      const correct = next.meaning_correct + next.reading_correct
+      const total = correct + next.meaning_incorrect + next.reading_incorrect
+      statistic.data = {
+        ...statistic.data,
+        ...next,
+        percentage_correct: total > 0 ? Math.round((correct / total) * 100) : 100
+      }
+      statistic.data_updated_at = updatedAt
+    }
+
+    const reviewId = this.dataset.reviews.reduce((max, r) => Math.max(max, r.id), 0) + 1
+    const review: FixtureResource = {
+      id: reviewId,
+      object: 'review',
+      url: `https://api.wanikani.com/v2/reviews/${reviewId}`,
+      data_updated_at: updatedAt,
+      data: {
+        created_at: updatedAt,
+        assignment_id: assignment.id,
+        subject_id: subjectId,
+        spaced_repetition_system_id: srs.id,
+        starting_srs_stage: startingStage,
+        ending_srs_stage: endingStage,
+        incorrect_meaning_answers: incorrectMeaning,
+        incorrect_reading_answers: incorrectReading
+      }
+    }
+    this.dataset.reviews.push(review)
+    this.rescheduleReview(subjectId, nextAvailableAt, updatedAt)
+
+    return {
+      status: 201,
+      body: {
+        ...review,
+        resources_updated: {
+          assignment,
+          review_statistic: statistic ?? null
+        }
+      }
+    }
+  }
+
+  // POST /study_materials (id null) and PUT /study_materials/:id
+  private saveStudyMaterial(id: number | null, fields: Record<string, unknown>): { status: number; body: unknown } {
+    const updatedAt = new Date().toISOString()
+    const changes: Record<string, unknown> = {}
+    if ('meaning_note' in fields) changes.meaning_note = fields.meaning_note ?? null
+    if ('reading_note' in fields) changes.reading_note = fields.reading_note ?? null
+    if ('meaning_synonyms' in fields) {
+      if (!Array.isArray(fields.meaning_synonyms)) {
+        return { status: 422, body: { error: 'meaning_synonyms must be an array', code: 422 } }
+      }
+      changes.meaning_synonyms = fields.meaning_synonyms
+    }
+
+    if (id !== null) {
+      const existing = this.dataset.studyMaterials.find(m => m.id === id)
+      if (!existing) return { status: 404, body: { error: 'Not found', code: 404 } }
+      existing.data = { ...existing.data, ...changes }
+      existing.data_updated_at = updatedAt
+      return { status: 200, body: existing }
+    }
+
+    const subject = this.dataset.subjects.find(s => s.id === Number(fields.subject_id))
+    if (!subject) return { status: 422, body: { error: 'Subject not found', code: 422 } }
+    if (this.dataset.studyMaterials.some(m => m.data.subject_id === subject.id)) {
+      return { status: 422, body: { error: 'Study material already exists for this subject', code: 422 } }
+    }
+
+    const created: FixtureResource = {
+      id: 9000 + subject.id,
+      object: 'study_material',
+      url: `https://api.wanikani.com/v2/study_materials/${9000 + subject.id}`,
+      data_updated_at: updatedAt,
+      data: {
+        created_at: updatedAt,
+        subject_id: subject.id,
+        subject_type: subject.object,
+        meaning_note: null,
+        reading_note: null,
+        meaning_synonyms: [],
+        hidden: false,
+        ...changes
+      }
+    }
+    this.dataset.studyMaterials.push(created)
+    this.dataset.studyMaterials.sort((a, b) => a.id - b.id)
+    return { status: 201, body: created }
+  }
+
+  // The subject's SRS from the fixture definitions
+  private srsForSubject(subjectId: number): SrsModel {
+    const subject = this.dataset.subjects.find(s => s.id === subjectId)
+    const systems = this.dataset.spacedRepetitionSystems as unknown as SpacedRepetitionSystem[]
+    return getSrsModel(createSrsModels(systems), Number(subject?.data.spaced_repetition_system_id ?? 0))
+  }
+
+  // PUT /assignments/:id/start - moves an unlocked lesson into Apprentice I
+  private startAssignment(id: number, startedAtParam?: string): { status: number; body: unknown } {
+    const assignment = this.dataset.assignments.find(a => a.id === id)
+    if (!assignment) return { status: 404, body: { error: 'Not found', code: 404 } }
+    if (!assignment.data.unlocked_at || assignment.data.started_at) {
+      return { status: 422, body: { error: 'Assignment cannot be started', code: 422 } }
+    }
+
+    const now = Date.now()
+    const startedAt = startedAtParam ? Date.parse(startedAtParam) : now
+    if (isNaN(startedAt) || startedAt > now || startedAt < Date.parse(String(assignment.data.unlocked_at))) {
+      return { status: 422, body: { error: 'Invalid started_at', code: 422 } }
+    }
+
+    const srs = this.srsForSubject(Number(assignment.data.subject_id))
+    const availableAt = getNextReviewAt(srs, srs.startingStage, now) ?? now
+    const updatedAt = new Date(now).toISOString()
+    assignment.data = {
+      ...assignment.data,
+      srs_stage: srs.startingStage,
+      started_at: new Date(startedAt).toISOString(),
+      available_at: new Date(availableAt).toISOString()
+    }
+    assignment.data_updated_at = updatedAt
+    this.moveLessonToReviews(Number(assignment.data.subject_id), availableAt, updatedAt)
+    return { status: 200, body: assignment }
+  }
+
+  private moveLessonToReviews(subjectId: number, availableAt: number, updatedAt: string): void {
+    const summary = this.dataset.summary as {
+      data_updated_at: string
+      data: {
+        lessons: Array<{ available_at: string; subject_ids: number[] }>
+        next_reviews_at: string | null
+        reviews: Array<{ available_at: string; subject_ids: number[] }>
+      }
+    }
+    summary.data_updated_at = updatedAt
+    summary.data.lessons.forEach(bucket => {
+      bucket.subject_ids = bucket.subject_ids.filter(sid => sid !== subjectId)
+    })
+    const bucket = summary.data.reviews.find(r => Date.parse(r.available_at) === availableAt)
+    if (bucket) bucket.subject_ids.push(subjectId)
+    if (!summary.data.next_reviews_at || Date.parse(summary.data.next_reviews_at) > availableAt) {
+      summary.data.next_reviews_at = new Date(availableAt).toISOString()
+    }
+  }
+
+  private rescheduleReview(subjectId: number, availableAt: number | null, updatedAt: string): void {
+    const summary = this.dataset.summary as {
+      data_updated_at: string
+      data: {
+        next_reviews_at: string | null
+        reviews: Array<{ available_at: string; subject_ids: number[] }>
+      }
+    }
+    summary.data_updated_at = updatedAt
+    summary.data.reviews.forEach(bucket => {
+      bucket.subject_ids = bucket.subject_ids.filter(sid => sid !== subjectId)
+    })
+    if (availableAt === null) return
+    const bucket = summary.data.reviews.find(r => Date.parse(r.available_at) === availableAt)
+    if (bucket) bucket.subject_ids.push(subjectId)
+  }
+
+  private collection(name: CollectionName): FixtureResource[] {
+    switch (name) {
+      case 'subjects': return this.dataset.subjects
+      case 'assignments': return this.dataset.assignments
+      case 'review_statistics': return this.dataset.reviewStatistics
+      case 'reviews': return this.dataset.reviews
+      case 'level_progressions': return this.dataset.levelProgressions
+      case 'spaced_repetition_systems': return this.dataset.spacedRepetitionSystems
+      case 'study_materials': return this.dataset.studyMaterials
+      case 'resets': return this.dataset.resets
+    }
+  }
+
+  private page(name: CollectionName, params: URLSearchParams, apiRoot: string): unknown {
+    const ids = parseIdList(params.get('ids'))
+    const levels = parseIdList(params.get('levels'))
+    const subjectIds = parseIdList(params.get('subject_ids'))
+    const updatedAfter = params.get('updated_after')
+    const pageAfterId = Number(params.get('page_after_id') ?? 0)
+
+    const matching = this.collection(name).filter(record =>
+      (!ids || ids.has(record.id)) &&
+      (!levels || levels.has(Number(record.data.level))) &&
+      (!subjectIds || subjectIds.has(Number(record.data.subject_id))) &&
+      (!updatedAfter || record.data_updated_at > updatedAfter)
+    )
+
+    const remaining = matching.filter(record => record.id > pageAfterId)
+    const pageRecords = remaining.slice(0, this.options.perPage)
+    const hasMore = remaining.length > pageRecords.length
+
+    const nextParams = new URLSearchParams(params)
+    nextParams.set('page_after_id', String(pageRecords[pageRecords.length - 1]?.id ?? pageAfterId))
+
+    const dataUpdatedAt = matching.reduce<string | null>(
+      (newest, record) => (!newest || record.data_updated_at > newest ? record.data_updated_at : newest),
+      null
+    )
+
+    return {
+      object: 'collection',
+      url: `${apiRoot}/${name}?${params.toString()}`,
+      pages: {
+        per_page: this.options.perPage,
+        next_url: hasMore ? `${apiRoot}/${name}?${nextParams.toString()}` : null,
+        previous_url: null
+      },
+      total_count: matching.length,
+      data_updated_at: dataUpdatedAt,
+      data: pageRecords
+    }
+  }
+
+  private json(body: unknown, status: number, headers: Record<string, string>): Response {
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' }
+    })
+  }
+}
+
+let demoServer: MockWaniKaniServer | null = null
+
+// One server per page so every service instance shares its rate-limit window
+export function getDemoServer(apiToken: string): MockWaniKaniServer {
+  if (!demoServer) {
+    demoServer = new MockWaniKaniServer({ apiToken })
+  }
+  return demoServer
+}
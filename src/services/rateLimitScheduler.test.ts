@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseRateLimitHeaders, RateLimitScheduler, type RequestPriority } from './rateLimitScheduler'
+
+const NOW = Date.UTC(2024, 0, 1)
+
+describe('parseRateLimitHeaders', () => {
+  it('reads the budget, with the reset in ms', () => {
+    const headers = new Headers({ 'RateLimit-Limit': '60', 'RateLimit-Remaining': '12', 'RateLimit-Reset': '1704067260' })
+    expect(parseRateLimitHeaders(headers)).toEqual({ limit: 60, remaining: 12, resetAt: 1704067260000 })
+  })
+
+  it('ignores responses without a budget', () => {
+    expect(parseRateLimitHeaders(new Headers())).toBeNull()
+    expect(parseRateLimitHeaders(new Headers({ 'RateLimit-Remaining': '3' }))).toEqual({ limit: null, remaining: 3, resetAt: null })
+  })
+})
+
+describe('RateLimitScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(NOW)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('lets requests through while there is budget', async () => {
+    const scheduler = new RateLimitScheduler()
+    await scheduler.acquire('background')
+    await scheduler.acquire('interactive')
+    expect(scheduler.getBudget()).toEqual({ limit: 60, remaining: 58, queued: 0, pausedUntil: null })
+  })
+
+  it('pauses everything until the reset once the server says the budget is spent', async () => {
+    const scheduler = new RateLimitScheduler()
+    scheduler.observe({ limit: 60, remaining: 0, resetAt: NOW + 30 * 1000 })
+    expect(scheduler.getBudget().pausedUntil).toBe(NOW + 30 * 1000)
+
+    let sent = false
+    scheduler.acquire('interactive').then(() => { sent = true })
+    await vi.advanceTimersByTimeAsync(29 * 1000)
+    expect(sent).toBe(false)
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(sent).toBe(true)
+  })
+
+  it('keeps a reserve for interactive requests and serves them first', async () => {
+    const scheduler = new RateLimitScheduler()
+    scheduler.observe({ limit: 60, remaining: 5, resetAt: null })
+
+    const order: string[] = []
+    const request = (priority: RequestPriority, name: string) => scheduler.acquire(priority).then(() => { order.push(name) })
+    const background = request('background', 'sync')
+    const interactive = request('interactive', 'click')
+    await interactive
+    expect(order).toEqual(['click'])
+    expect(scheduler.getBudget().queued).toBe(1)
+
+    // Background waits until it can leave 5 tokens behind: 4 left, one a second
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(order).toEqual(['click'])
+    await vi.advanceTimersByTimeAsync(1000)
+    await background
+    expect(order).toEqual(['click', 'sync'])
+  })
+
+  it('tells listeners about the budget', () => {
+    const scheduler = new RateLimitScheduler()
+    const listener = vi.fn()
+    const unsubscribe = scheduler.onChange(listener)
+    scheduler.observe({ limit: 100, remaining: 40, resetAt: null })
+    expect(listener).toHaveBeenLastCalledWith({ limit: 100, remaining: 40, queued: 0, pausedUntil: null })
+    unsubscribe()
+    listener.mockClear()
+    scheduler.observe({ limit: 100, remaining: 30, resetAt: null })
+    expect(listener).not.toHaveBeenCalled()
+  })
+})
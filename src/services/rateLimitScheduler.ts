@@ -0,0 +1,136 @@
+import type { RateLimitBudget } from '@/types/wanikani'
+
+// ============================================================================
+// Rate-limit scheduler (token bucket in front of the request queue)
+// ============================================================================
+
+// Interactive requests (e.g. a subject opened by a click) go ahead of background paging
+export type RequestPriority = 'interactive' | 'background'
+
+// What a response's RateLimit-* headers said about the account's budget
+export interface RateLimitObservation {
+  limit: number | null
+  remaining: number
+  resetAt: number | null // ms since epoch
+}
+
+const DEFAULT_LIMIT = 60 // WaniKani allows 60 requests per minute
+const WINDOW_MS = 60 * 1000
+// Tokens background requests leave untouched, so a click never waits behind a sync
+const INTERACTIVE_RESERVE = 5
+// How often listeners hear about tokens coming back while nothing is waiting
+const REFILL_NOTIFY_MS = 1000
+
+export function parseRateLimitHeaders(headers: Headers): RateLimitObservation | null {
+  const remaining = parseInt(headers.get('RateLimit-Remaining') ?? '', 10)
+  if (isNaN(remaining)) return null
+
+  const limit = parseInt(headers.get('RateLimit-Limit') ?? '', 10)
+  // RateLimit-Reset is a unix timestamp in seconds
+  const reset = parseInt(headers.get('RateLimit-Reset') ?? '', 10)
+  return {
+    limit: isNaN(limit) ? null : limit,
+    remaining,
+    resetAt: isNaN(reset) ? null : reset * 1000
+  }
+}
+
+// Tokens refill continuously at limit per minute. Responses correct the local count
+// downwards, since the server also counts other tabs, the sync worker and other apps
+// using the token; a spent budget pauses everything until the reported reset.
+export class RateLimitScheduler {
+  private limit = DEFAULT_LIMIT
+  private tokens = DEFAULT_LIMIT
+  private lastRefill = Date.now()
+  private pausedUntil = 0
+  private waiting: Array<{ priority: RequestPriority; resolve: () => void }> = []
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private listeners: Set<(budget: RateLimitBudget) => void> = new Set()
+
+  // Resolves once a request may be sent; every attempt (including retries) takes a token
+  acquire(priority: RequestPriority): Promise<void> {
+    return new Promise(resolve => {
+      this.waiting.push({ priority, resolve })
+      this.drain()
+    })
+  }
+
+  observe(observation: RateLimitObservation): void {
+    this.refill()
+    if (observation.limit && observation.limit > 0) {
+      this.limit = observation.limit
+    }
+    this.tokens = Math.min(this.tokens, observation.remaining)
+    if (observation.remaining <= 0 && observation.resetAt) {
+      this.pausedUntil = Math.max(this.pausedUntil, observation.resetAt)
+    }
+    this.drain()
+  }
+
+  getBudget(): RateLimitBudget {
+    this.refill()
+    const now = Date.now()
+    return {
+      limit: this.limit,
+      remaining: Math.floor(this.tokens),
+      queued: this.waiting.length,
+      pausedUntil: this.pausedUntil > now ? this.pausedUntil : null
+    }
+  }
+
+  onChange(listener: (budget: RateLimitBudget) => void): () => void {
+    this.listeners.add(listener)
+    this.drain()
+    return () => { this.listeners.delete(listener) }
+  }
+
+  private refill(): void {
+    const now = Date.now()
+    this.tokens = Math.min(this.limit, this.tokens + ((now - this.lastRefill) * this.limit) / WINDOW_MS)
+    this.lastRefill = now
+  }
+
+  // First interactive waiter, else the oldest background one
+  private nextIndex(): number {
+    const interactive = this.waiting.findIndex(waiter => waiter.priority === 'interactive')
+    return interactive >= 0 ? interactive : 0
+  }
+
+  private tokensNeeded(priority: RequestPriority): number {
+    return priority === 'interactive' ? 1 : 1 + INTERACTIVE_RESERVE
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.refill()
+    const now = Date.now()
+
+    while (this.waiting.length > 0 && now >= this.pausedUntil) {
+      const index = this.nextIndex()
+      const next = this.waiting[index]
+      if (this.tokens < this.tokensNeeded(next.priority)) break
+      this.tokens -= 1
+      this.waiting.splice(index, 1)
+      next.resolve()
+    }
+
+    let wakeInMs: number | null = null
+    if (this.waiting.length > 0) {
+      const missing = this.tokensNeeded(this.waiting[this.nextIndex()].priority) - this.tokens
+      wakeInMs = now < this.pausedUntil
+        ? this.pausedUntil - now
+        : Math.ceil((missing * WINDOW_MS) / this.limit)
+    } else if (this.listeners.size > 0 && this.tokens < this.limit) {
+      wakeInMs = REFILL_NOTIFY_MS
+    }
+    if (wakeInMs !== null) {
+      this.timer = setTimeout(() => this.drain(), Math.max(wakeInMs, 10))
+    }
+
+    const budget = this.getBudget()
+    this.listeners.forEach(listener => listener(budget))
+  }
+}
@@ -0,0 +1,132 @@
+import type { SyncProgress } from '@/types/wanikani'
+import type { CoordinatedTask, CacheUpdate } from './tabCoordinator'
+import type { SyncWorkerRequest, SyncWorkerResponse } from './syncWorkerProtocol'
+import { fromErrorData } from './errors'
+import { getCacheEncryptionKey } from './cacheStorage'
+import type { RateLimitObservation } from './rateLimitScheduler'
+
+// ============================================================================
+// Sync worker client
+// ============================================================================
+
+// Rejection reason when the worker cannot run tasks; callers sync on the main thread instead
+export class SyncWorkerUnavailable extends Error {
+  constructor(reason: string) {
+    super(reason)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = 'SyncWorkerUnavailable'
+  }
+}
+
+interface SyncWorkerHandlers {
+  onProgress: (progress: SyncProgress) => void
+  onCacheUpdate: (update: CacheUpdate) => void
+  onRateLimit: (observation: RateLimitObservation) => void
+}
+
+export class SyncWorkerClient {
+  private worker: Worker | null
+  private ready: Promise<void>
+  private rejectReady: (error: SyncWorkerUnavailable) => void = () => {}
+  private unavailable: SyncWorkerUnavailable | null = null
+  private nextId = 1
+  private pending: Map<number, { resolve: (value: unknown) => void; reject: (reason: unknown) => void }> = new Map()
+
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined'
+  }
+
+  constructor(apiToken: string, namespace: string, createWorker: () => Worker, handlers: SyncWorkerHandlers) {
+    let markReady: () => void = () => {}
+    this.ready = new Promise((resolve, reject) => {
+      markReady = resolve
+      this.rejectReady = reject
+    })
+    // Only observed through run()
+    this.ready.catch(() => {})
+
+    const fail = (reason: string) => {
+      this.unavailable = new SyncWorkerUnavailable(reason)
+      this.terminate()
+    }
+
+    try {
+      this.worker = createWorker()
+    } catch (error) {
+      this.worker = null
+      fail(error instanceof Error ? error.message : String(error))
+      return
+    }
+
+    this.worker.onmessage = (event: MessageEvent<SyncWorkerResponse>) => {
+      const message = event.data
+      switch (message.type) {
+        case 'ready':
+          markReady()
+          break
+        case 'unavailable':
+          fail(message.reason)
+          break
+        case 'progress':
+          handlers.onProgress(message.progress)
+          break
+        case 'cache-updated':
+          handlers.onCacheUpdate(message.update)
+          break
+        case 'rate-limit':
+          handlers.onRateLimit(message.observation)
+          break
+        case 'result':
+        case 'error': {
+          const pending = this.pending.get(message.id)
+          if (!pending) break
+          this.pending.delete(message.id)
+          if (message.type === 'result') {
+            pending.resolve(message.value)
+          } else {
+            pending.reject(fromErrorData(message.error))
+          }
+          break
+        }
+      }
+    }
+    this.worker.onerror = event => {
+      event.preventDefault()
+      fail(event.message || 'Sync worker crashed')
+    }
+
+    // CryptoKeys survive postMessage, so the worker can read and write an encrypted cache
+    this.post({ type: 'init', apiToken, namespace, cacheKey: getCacheEncryptionKey() })
+  }
+
+  async run(task: Extract<CoordinatedTask, { kind: 'sync' }>): Promise<unknown> {
+    await this.ready
+    if (this.unavailable) throw this.unavailable
+
+    const id = this.nextId++
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      this.post({ type: 'task', id, task })
+    })
+  }
+
+  // Responses seen on the main thread, so the worker's scheduler paces against them too
+  observeRateLimit(observation: RateLimitObservation): void {
+    if (this.unavailable) return
+    this.post({ type: 'rate-limit', observation })
+  }
+
+  terminate(): void {
+    this.worker?.terminate()
+    this.worker = null
+    const error = this.unavailable || new SyncWorkerUnavailable('Sync worker stopped')
+    this.unavailable = error
+    this.rejectReady(error)
+    this.pending.forEach(({ reject }) => reject(error))
+    this.pending.clear()
+  }
+
+  private post(message: SyncWorkerRequest): void {
+    this.worker?.postMessage(message)
+  }
+}
@@ -0,0 +1,24 @@
+import type { SyncProgress } from '@/types/wanikani'
+import type { CoordinatedTask, CacheUpdate } from './tabCoordinator'
+import type { WaniKaniErrorData } from './errors'
+import type { RateLimitObservation } from './rateLimitScheduler'
+
+// ============================================================================
+// Sync worker message protocol
+// ============================================================================
+
+// Main thread -> worker
+export type SyncWorkerRequest =
+  | { type: 'init'; apiToken: string; namespace: string; cacheKey: CryptoKey | null }
+  | { type: 'task'; id: number; task: Extract<CoordinatedTask, { kind: 'sync' }> }
+  | { type: 'rate-limit'; observation: RateLimitObservation }
+
+// Worker -> main thread
+export type SyncWorkerResponse =
+  | { type: 'ready' }
+  | { type: 'unavailable'; reason: string }
+  | { type: 'progress'; progress: SyncProgress }
+  | { type: 'cache-updated'; update: CacheUpdate }
+  | { type: 'rate-limit'; observation: RateLimitObservation }
+  | { type: 'result'; id: number; value: unknown }
+  | { type: 'error'; id: number; error: WaniKaniErrorData }
@@ -0,0 +1,295 @@
+import type { CacheConfig } from '@/types/wanikani'
+import { type WaniKaniErrorData, toErrorData, fromErrorData } from './errors'
+import type { RequestPriority } from './rateLimitScheduler'
+
+// ============================================================================
+// Cross-tab coordination
+// ============================================================================
+
+// Tabs open on the same account join one BroadcastChannel. The tab holding a Web Lock
+// is the leader: it runs API requests and collection syncs for every tab and posts the
+// results back, so several open dashboards cost the API no more than one. Cache writes
+// are announced on the channel so other tabs can re-read the shared storage.
+// Without BroadcastChannel/Web Locks, or before connect(), every task runs locally.
+
+export type CoordinatedTask =
+  | {
+      kind: 'request'
+      endpoint: string
+      useConditionalRequest: boolean
+      cacheTtl?: number
+      persist: boolean
+      priority?: RequestPriority
+    }
+  | {
+      kind: 'sync'
+      dataType: keyof CacheConfig
+      endpoint: string
+      forceRefresh: boolean
+      levels?: number[]
+      ttl?: number // The requesting tab's TTL for the collection (workers cannot read the settings)
+    }
+
+// scope is the collection (e.g. 'assignments') or the endpoint (e.g. '/summary') that was written
+export interface CacheUpdate {
+  scope: string
+}
+
+type CoordinatorMessage =
+  | { type: 'leader'; tabId: string }
+  | { type: 'who-leads' }
+  | { type: 'task'; requestId: string; from: string; key: string; task: CoordinatedTask }
+  | { type: 'task-accepted'; requestId: string; to: string }
+  | { type: 'task-result'; requestId: string; to: string; ok: true; value: unknown }
+  | { type: 'task-result'; requestId: string; to: string; ok: false; error: WaniKaniErrorData }
+  | { type: 'cache-updated'; update: CacheUpdate }
+
+interface PendingTask {
+  leaderId: string
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+  ackTimer: ReturnType<typeof setTimeout> | null
+}
+
+// How long to wait for the leader to pick up a task before running it here
+const ACK_TIMEOUT_MS = 1500
+// How long a newly opened tab waits to hear who leads before acting alone
+const LEADER_DISCOVERY_MS = 300
+
+// Rejection reason for remote tasks whose leader went away; the caller runs them locally
+class LeaderUnavailable extends Error {
+  constructor() {
+    super('Leader tab unavailable')
+    Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export class TabCoordinator {
+  private readonly name: string
+  private readonly handler: (task: CoordinatedTask) => Promise<unknown>
+  private readonly tabId = createId()
+  private channel: BroadcastChannel | null = null
+  private lockAbort: AbortController | null = null
+  private releaseLock: (() => void) | null = null
+  private leaderId: string | null = null
+  private leaderKnown: Promise<void> = Promise.resolve()
+  private onLeaderKnown: (() => void) | null = null
+  // Tasks running in this tab (own or on behalf of followers), shared by key
+  private running: Map<string, Promise<unknown>> = new Map()
+  // Tasks sent to the leader, shared by key, and their reply handlers by request id
+  private remote: Map<string, Promise<unknown>> = new Map()
+  private pending: Map<string, PendingTask> = new Map()
+  private listeners: Set<(update: CacheUpdate) => void> = new Set()
+
+  constructor(name: string, handler: (task: CoordinatedTask) => Promise<unknown>) {
+    this.name = name
+    this.handler = handler
+  }
+
+  static isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined' &&
+      typeof navigator !== 'undefined' &&
+      !!navigator.locks
+  }
+
+  get isLeader(): boolean {
+    return this.channel !== null && this.leaderId === this.tabId
+  }
+
+  // Join the channel and queue for leadership. Returns the matching disconnect.
+  connect(): () => void {
+    if (this.channel || !TabCoordinator.isSupported()) {
+      return () => {}
+    }
+
+    const channel = new BroadcastChannel(this.name)
+    channel.onmessage = (event: MessageEvent<CoordinatorMessage>) => this.handleMessage(event.data)
+    this.channel = channel
+    this.leaderKnown = new Promise(resolve => { this.onLeaderKnown = resolve })
+
+    // The lock is held until disconnect (or the tab closes), then passes to the next tab
+    const lockAbort = new AbortController()
+    this.lockAbort = lockAbort
+    navigator.locks.request(`${this.name}-leader`, { signal: lockAbort.signal }, () => {
+      if (this.channel !== channel) return
+      this.setLeader(this.tabId)
+      this.post({ type: 'leader', tabId: this.tabId })
+      return new Promise<void>(resolve => { this.releaseLock = resolve })
+    }).catch(() => {
+      // Aborted by disconnect before the lock was granted
+    })
+
+    this.post({ type: 'who-leads' })
+    return () => this.disconnect(channel)
+  }
+
+  private disconnect(channel: BroadcastChannel): void {
+    if (this.channel !== channel) return
+    this.lockAbort?.abort()
+    this.releaseLock?.()
+    this.lockAbort = null
+    this.releaseLock = null
+    this.channel = null
+    this.leaderId = null
+    this.onLeaderKnown?.()
+    this.onLeaderKnown = null
+    channel.close()
+    this.failPending(() => true)
+  }
+
+  // Run a task in the leader tab, or here if this tab leads or no leader answers
+  async run<T>(key: string, task: CoordinatedTask, local: () => Promise<T>): Promise<T> {
+    if (this.channel && !this.leaderId) {
+      await Promise.race([this.leaderKnown, new Promise(resolve => setTimeout(resolve, LEADER_DISCOVERY_MS))])
+    }
+
+    if (!this.channel || !this.leaderId || this.isLeader) {
+      return this.runLocal(key, local)
+    }
+
+    try {
+      return await this.runRemote(key, task) as T
+    } catch (error) {
+      if (error instanceof LeaderUnavailable) {
+        return this.runLocal(key, local)
+      }
+      throw error
+    }
+  }
+
+  // Tell this tab and every other tab that cached data changed
+  announce(update: CacheUpdate): void {
+    this.post({ type: 'cache-updated', update })
+    this.emit(update)
+  }
+
+  onCacheUpdate(listener: (update: CacheUpdate) => void): () => void {
+    this.listeners.add(listener)
+    return () => { this.listeners.delete(listener) }
+  }
+
+  private runLocal<T>(key: string, local: () => Promise<T>): Promise<T> {
+    const existing = this.running.get(key)
+    if (existing) return existing as Promise<T>
+
+    const promise = local()
+    this.running.set(key, promise)
+    const cleanup = () => { this.running.delete(key) }
+    promise.then(cleanup, cleanup)
+    return promise
+  }
+
+  private runRemote(key: string, task: CoordinatedTask): Promise<unknown> {
+    const existing = this.remote.get(key)
+    if (existing) return existing
+
+    const leaderId = this.leaderId!
+    const requestId = createId()
+    const promise = new Promise<unknown>((resolve, reject) => {
+      const ackTimer = setTimeout(() => this.failPending(id => id === requestId), ACK_TIMEOUT_MS)
+      this.pending.set(requestId, { leaderId, resolve, reject, ackTimer })
+    })
+    this.remote.set(key, promise)
+    const cleanup = () => { this.remote.delete(key) }
+    promise.then(cleanup, cleanup)
+
+    this.post({ type: 'task', requestId, from: this.tabId, key, task })
+    return promise
+  }
+
+  private handleMessage(message: CoordinatorMessage): void {
+    switch (message.type) {
+      case 'leader':
+        this.setLeader(message.tabId)
+        break
+      case 'who-leads':
+        if (this.isLeader) this.post({ type: 'leader', tabId: this.tabId })
+        break
+      case 'task':
+        if (this.isLeader) this.serve(message.requestId, message.from, message.key, message.task)
+        break
+      case 'task-accepted': {
+        const pending = message.to === this.tabId ? this.pending.get(message.requestId) : undefined
+        if (pending?.ackTimer) {
+          clearTimeout(pending.ackTimer)
+          pending.ackTimer = null
+        }
+        break
+      }
+      case 'task-result': {
+        const pending = message.to === this.tabId ? this.pending.get(message.requestId) : undefined
+        if (!pending) break
+        if (pending.ackTimer) clearTimeout(pending.ackTimer)
+        this.pending.delete(message.requestId)
+        if (message.ok) {
+          pending.resolve(message.value)
+        } else {
+          pending.reject(fromErrorData(message.error))
+        }
+        break
+      }
+      case 'cache-updated':
+        this.emit(message.update)
+        break
+    }
+  }
+
+  private serve(requestId: string, from: string, key: string, task: CoordinatedTask): void {
+    this.post({ type: 'task-accepted', requestId, to: from })
+    const fail = (error: unknown) => this.post({
+      type: 'task-result',
+      requestId,
+      to: from,
+      ok: false,
+      error: toErrorData(error, task.endpoint)
+    })
+    this.runLocal(key, () => this.handler(task)).then(
+      value => {
+        if (!this.post({ type: 'task-result', requestId, to: from, ok: true, value })) {
+          fail(new Error('Task result could not be shared'))
+        }
+      },
+      fail
+    )
+  }
+
+  private setLeader(tabId: string): void {
+    this.leaderId = tabId
+    this.onLeaderKnown?.()
+    this.onLeaderKnown = null
+    // Tasks sent to a previous leader will never be answered
+    this.failPending((_, pending) => pending.leaderId !== tabId)
+  }
+
+  private failPending(shouldFail: (requestId: string, pending: PendingTask) => boolean): void {
+    const failed: string[] = []
+    this.pending.forEach((pending, requestId) => {
+      if (shouldFail(requestId, pending)) failed.push(requestId)
+    })
+    failed.forEach(requestId => {
+      const pending = this.pending.get(requestId)!
+      if (pending.ackTimer) clearTimeout(pending.ackTimer)
+      this.pending.delete(requestId)
+      pending.reject(new LeaderUnavailable())
+    })
+  }
+
+  private post(message: CoordinatorMessage): boolean {
+    if (!this.channel) return false
+    try {
+      this.channel.postMessage(message)
+      return true
+    } catch (error) {
+      console.warn('Could not post tab coordination message:', error)
+      return false
+    }
+  }
+
+  private emit(update: CacheUpdate): void {
+    this.listeners.forEach(listener => listener(update))
+  }
+}
@@ -0,0 +1,39 @@
+import { getDemoServer } from './mock/mockServer'
+
+// ============================================================================
+// Fetch transport
+// ============================================================================
+
+export type FetchFunction = (url: string, init?: RequestInit) => Promise<Response>
+
+export interface WaniKaniTransport {
+  baseUrl: string
+  fetch: FetchFunction
+  // Answers without the network (the fixture server), so it keeps working offline
+  local?: boolean
+}
+
+export const DEFAULT_BASE_URL = 'https://api.wanikani.com/v2'
+
+// Token that selects the bundled fixture server instead of the real API
+export const DEMO_API_TOKEN = 'demo-mode-0000-0000-0000-000000000000'
+
+export function isDemoToken(apiToken: string): boolean {
+  return apiToken === DEMO_API_TOKEN
+}
+
+export function createFetchTransport(baseUrl: string = DEFAULT_BASE_URL): WaniKaniTransport {
+  return {
+    baseUrl,
+    // Resolve the global lazily so tests can stub it after construction
+    fetch: (url, init) => fetch(url, init)
+  }
+}
+
+// Real API for normal tokens, the shared fixture server in demo mode
+export function transportForToken(apiToken: string): WaniKaniTransport {
+  if (isDemoToken(apiToken)) {
+    return getDemoServer(apiToken).transport()
+  }
+  return createFetchTransport()
+}
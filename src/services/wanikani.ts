@@ -6,157 +6,39 @@ import type {
   ApiResponse,
   CacheEntry,
   CacheConfig,
+  CacheEntryInfo,
   LevelProgression,
   Review,
   SpacedRepetitionSystem,
-  Summary
+  Summary,
+  Reset,
+  StudyMaterial,
+  StudyMaterialFields,
+  ReviewSubmission,
+  ReviewSubmissionResult,
+  SyncedCollection,
+  SyncProgress,
+  RateLimitBudget
 } from '@/types/wanikani'
-
-// ============================================================================
-// Cache Storage Interface (abstraction for future IndexedDB migration)
-// ============================================================================
-
-interface ICacheStorage {
-  get<T>(key: string): CacheEntry<T> | null
-  set<T>(key: string, entry: CacheEntry<T>): boolean
-  delete(key: string): void
-  getAllKeys(): string[]
-  clear(): void
-}
-
-class LocalStorageCacheStorage implements ICacheStorage {
-  private prefix = 'wanikani-'
-  private maxEntrySize = 500000 // 500KB per entry
-
-  get<T>(key: string): CacheEntry<T> | null {
-    try {
-      const cached = localStorage.getItem(key)
-      if (!cached) return null
-      
-      const entry: CacheEntry<T> = JSON.parse(cached)
-      
-      // Update lastAccessed for LRU tracking
-      entry.lastAccessed = Date.now()
-      try {
-        localStorage.setItem(key, JSON.stringify(entry))
-      } catch {
-        // Ignore if we can't update lastAccessed
-      }
-      
-      // Check if cache has expired
-      if (entry.expiresAt && Date.now() > entry.expiresAt) {
-        localStorage.removeItem(key)
-        return null
-      }
-      
-      return entry
-    } catch (error) {
-      console.warn('Error reading from cache:', error)
-      localStorage.removeItem(key)
-      return null
-    }
-  }
-
-  set<T>(key: string, entry: CacheEntry<T>): boolean {
-    try {
-      entry.lastAccessed = Date.now()
-      const jsonString = JSON.stringify(entry)
-      
-      // Check if the data is too large
-      if (jsonString.length > this.maxEntrySize) {
-        console.warn('Cache entry too large, skipping cache for:', key.substring(0, 50))
-        return false
-      }
-      
-      localStorage.setItem(key, jsonString)
-      return true
-    } catch (error) {
-      // Likely quota exceeded - try LRU eviction
-      if (this.isQuotaError(error)) {
-        console.warn('Storage quota exceeded, attempting LRU eviction...')
-        if (this.evictLRU(JSON.stringify(entry).length)) {
-          try {
-            localStorage.setItem(key, JSON.stringify(entry))
-            return true
-          } catch {
-            console.warn('Failed to cache even after eviction')
-          }
-        }
-      }
-      return false
-    }
-  }
-
-  delete(key: string): void {
-    localStorage.removeItem(key)
-  }
-
-  getAllKeys(): string[] {
-    const keys: string[] = []
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i)
-      if (key && key.startsWith(this.prefix)) {
-        keys.push(key)
-      }
-    }
-    return keys
-  }
-
-  clear(): void {
-    const keys = this.getAllKeys()
-    keys.forEach(key => localStorage.removeItem(key))
-    console.log(`Cleared ${keys.length} cache entries`)
-  }
-
-  private isQuotaError(error: unknown): boolean {
-    return error instanceof DOMException && (
-      error.code === 22 || // Legacy quota exceeded
-      error.code === 1014 || // Firefox
-      error.name === 'QuotaExceededError' ||
-      error.name === 'NS_ERROR_DOM_QUOTA_REACHED'
-    )
-  }
-
-  private evictLRU(neededBytes: number): boolean {
-    const entries: { key: string; lastAccessed: number; size: number }[] = []
-    
-    // Collect all cache entries with their metadata
-    for (const key of this.getAllKeys()) {
-      try {
-        const value = localStorage.getItem(key)
-        if (value) {
-          const entry = JSON.parse(value)
-          entries.push({
-            key,
-            lastAccessed: entry.lastAccessed || entry.timestamp || 0,
-            size: value.length
-          })
-        }
-      } catch {
-        // Remove corrupted entries
-        localStorage.removeItem(key)
-      }
-    }
-    
-    // Sort by lastAccessed (oldest first)
-    entries.sort((a, b) => a.lastAccessed - b.lastAccessed)
-    
-    let freedBytes = 0
-    let evictedCount = 0
-    
-    // Evict oldest entries until we have enough space (with buffer)
-    for (const entry of entries) {
-      if (freedBytes >= neededBytes * 1.5) break // 50% buffer
-      
-      localStorage.removeItem(entry.key)
-      freedBytes += entry.size
-      evictedCount++
-    }
-    
-    console.log(`LRU eviction: removed ${evictedCount} entries, freed ~${Math.round(freedBytes / 1024)}KB`)
-    return evictedCount > 0
-  }
-}
+import { createCacheStorage, type ICacheStorage } from './cacheStorage'
+import { transportForToken, type WaniKaniTransport } from './transport'
+import { encodeSubjectPayload, decodeSubjectPayload } from '@/utils/subjectCodec'
+import {
+  WaniKaniError,
+  WaniKaniNetworkError,
+  WaniKaniParseError,
+  WaniKaniRateLimitError,
+  WaniKaniWriteDisabledError,
+  errorFromResponse
+} from './errors'
+import { TabCoordinator, type CoordinatedTask, type CacheUpdate } from './tabCoordinator'
+import { SyncWorkerClient, SyncWorkerUnavailable } from './syncWorkerClient'
+import {
+  RateLimitScheduler,
+  parseRateLimitHeaders,
+  type RateLimitObservation,
+  type RequestPriority
+} from './rateLimitScheduler'
 
 // ============================================================================
 // Request Queue (concurrency limiting)
@@ -166,6 +48,7 @@ class RequestQueue {
   private maxConcurrent: number
   private currentRequests = 0
   private queue: Array<{
+    priority: RequestPriority
     execute: () => Promise<unknown>
     resolve: (value: unknown) => void
     reject: (error: unknown) => void
@@ -175,13 +58,23 @@ class RequestQueue {
     this.maxConcurrent = maxConcurrent
   }
 
-  async enqueue<T>(execute: () => Promise<T>): Promise<T> {
+  async enqueue<T>(execute: () => Promise<T>, priority: RequestPriority = 'background'): Promise<T> {
     return new Promise((resolve, reject) => {
-      this.queue.push({
+      const item = {
+        priority,
         execute: execute as () => Promise<unknown>,
         resolve: resolve as (value: unknown) => void,
         reject
-      })
+      }
+      // Interactive requests skip ahead of queued background ones
+      const firstBackground = priority === 'interactive'
+        ? this.queue.findIndex(queued => queued.priority === 'background')
+        : -1
+      if (firstBackground >= 0) {
+        this.queue.splice(firstBackground, 0, item)
+      } else {
+        this.queue.push(item)
+      }
       this.processQueue()
     })
   }
@@ -212,75 +105,240 @@ class RequestQueue {
 // WaniKani Service
 // ============================================================================
 
+// Collections kept in full by the incremental sync
+type SyncedDataType = 'assignments' | 'reviewStats' | 'levelProgressions' | 'reviews' | 'resets' | 'studyMaterials' | 'subjects'
+
+const COLLECTION_ENDPOINTS: Record<SyncedDataType, string> = {
+  assignments: '/assignments',
+  reviewStats: '/review_statistics',
+  levelProgressions: '/level_progressions',
+  reviews: '/reviews',
+  resets: '/resets',
+  studyMaterials: '/study_materials',
+  subjects: '/subjects'
+}
+
+// Cached responses by endpoint prefix, for labelling entries in the cache inspector
+const RESPONSE_DATA_TYPES: Array<[string, keyof CacheConfig]> = [
+  ['/user', 'user'],
+  ['/summary', 'summary'],
+  ['/subjects', 'subjects'],
+  ['/assignments', 'assignments'],
+  ['/review_statistics', 'reviewStats'],
+  ['/reviews', 'reviews'],
+  ['/level_progressions', 'levelProgressions'],
+  ['/spaced_repetition_systems', 'spacedRepetitionSystems'],
+  ['/study_materials', 'studyMaterials'],
+  ['/resets', 'resets']
+]
+
 export class WaniKaniService {
   private apiToken: string
-  private baseUrl = 'https://api.wanikani.com/v2'
+  // Cache/channel namespace: the /user id, or the token suffix until the id is known
+  private namespace: string
+  private baseUrl: string
+  private transport: WaniKaniTransport
   private cacheStorage: ICacheStorage
   private requestQueue: RequestQueue
+  private rateLimiter = new RateLimitScheduler()
+  private rateLimitObservers: Set<(observation: RateLimitObservation) => void> = new Set()
   private inflightRequests: Map<string, Promise<unknown>> = new Map()
+  private subjectIndex: Map<number, Subject> | null = null
+  private coordinator: TabCoordinator
+  private syncWorker: SyncWorkerClient | null = null
+  private progressListeners: Set<(progress: SyncProgress) => void> = new Set()
+  // Write calls need a token with write permissions, so they are opt-in
+  private writesEnabled = false
   
-  // Cache configuration - extended TTLs for stable data
-  private cacheConfig: CacheConfig = {
+  // Cache configuration - extended TTLs for stable data. Users can override these
+  // per account (see setCacheTtl).
+  static readonly defaultCacheConfig: CacheConfig = {
     subjects: 24 * 60 * 60 * 1000,     // 24 hours (was 4 hours)
     user: 60 * 60 * 1000,             // 1 hour
     assignments: 30 * 60 * 1000,      // 30 minutes
     reviewStats: 30 * 60 * 1000,      // 30 minutes
-    reviews: Infinity,                // Never expire - reviews never change
+    reviews: 30 * 60 * 1000,          // 30 minutes - records never change, so syncs only pull new ones
     summary: 60 * 60 * 1000,          // 1 hour - changes every hour
     levelProgressions: 4 * 60 * 60 * 1000, // 4 hours (was 1 hour)
-    spacedRepetitionSystems: 48 * 60 * 60 * 1000 // 48 hours (was 12 hours)
+    spacedRepetitionSystems: 48 * 60 * 60 * 1000, // 48 hours (was 12 hours)
+    studyMaterials: 30 * 60 * 1000,   // 30 minutes - edited on WaniKani as well as here
+    resets: 4 * 60 * 60 * 1000        // 4 hours
   }
+  private cacheConfig: CacheConfig = { ...WaniKaniService.defaultCacheConfig }
 
   // Exponential backoff config
   private readonly maxRetries = 4
   private readonly baseRetryDelay = 1000 // 1 second
 
-  constructor(apiToken: string) {
+  constructor(apiToken: string, userId?: string, transport: WaniKaniTransport = transportForToken(apiToken)) {
     this.apiToken = apiToken
-    this.cacheStorage = new LocalStorageCacheStorage()
+    this.namespace = userId || apiToken.slice(-8)
+    this.transport = transport
+    this.baseUrl = transport.baseUrl
+    this.cacheStorage = createCacheStorage()
     this.requestQueue = new RequestQueue(3) // Max 3 concurrent requests
+    this.cacheConfig = { ...this.cacheConfig, ...this.loadCacheTtls() }
+    this.coordinator = new TabCoordinator(`wanikani-sync-${this.namespace}`, task => this.runTask(task))
+    this.coordinator.onCacheUpdate(update => {
+      // Another tab may have synced newer subjects into the shared storage
+      if (update.scope === 'subjects') this.subjectIndex = null
+    })
   }
 
-  private getCacheKey(endpoint: string): string {
-    // Create a cache key that includes the last 8 characters of the token for user isolation
-    return `wanikani-${endpoint.replace(/[^a-zA-Z0-9]/g, '_')}-${this.apiToken.slice(-8)}`
-  }
-
-  private getFromCache<T>(key: string): CacheEntry<T> | null {
-    return this.cacheStorage.get<T>(key)
-  }
-
-  private setCache<T>(key: string, data: T, etag?: string, lastModified?: string, ttl?: number): void {
-    // For large datasets like subjects, only cache essential data
-    let cacheData = data
-    if (key.includes('subjects') && Array.isArray(data)) {
-      // Reduce subjects data size by removing less critical fields
-      cacheData = data.map((item: unknown) => {
-        const subject = item as { id: number; object: string; data: Record<string, unknown> }
-        return {
-          id: subject.id,
-          object: subject.object,
-          data: {
-            level: subject.data.level,
-            characters: subject.data.characters,
-            slug: subject.data.slug,
-            document_url: subject.data.document_url,
-            spaced_repetition_system_id: subject.data.spaced_repetition_system_id,
-            meanings: (subject.data.meanings as unknown[])?.slice(0, 3),
-            readings: (subject.data.readings as unknown[])?.slice(0, 2),
-            hidden_at: subject.data.hidden_at,
-            // Preserve dependency tree fields
-            component_subject_ids: subject.data.component_subject_ids,
-            amalgamation_subject_ids: subject.data.amalgamation_subject_ids,
-            // Preserve similar kanji fields
-            visually_similar_subject_ids: subject.data.visually_similar_subject_ids
-          }
-        }
-      }) as T
+  // ==========================================================================
+  // Cross-tab coordination
+  // ==========================================================================
+
+  // Share requests and syncs with other tabs on this account. Returns the disconnect.
+  connectTabs(): () => void {
+    return this.coordinator.connect()
+  }
+
+  // Called whenever this or another tab writes synced data to the shared cache
+  onCacheUpdate(listener: (update: CacheUpdate) => void): () => void {
+    return this.coordinator.onCacheUpdate(listener)
+  }
+
+  // Runs a task in this context: for another tab (this tab is the leader) or in the sync worker
+  runTask(task: CoordinatedTask): Promise<unknown> {
+    if (task.kind === 'sync') {
+      return this.runSyncTask(task)
     }
+    return this.executeLocalRequest(
+      task.endpoint,
+      task.useConditionalRequest,
+      task.cacheTtl,
+      task.persist,
+      task.priority ?? 'background'
+    )
+  }
+
+  // ==========================================================================
+  // Rate limiting
+  // ==========================================================================
+
+  // Requests left in the current window; listeners hear about every change
+  getRateLimitBudget(): RateLimitBudget {
+    return this.rateLimiter.getBudget()
+  }
+
+  onRateLimitChange(listener: (budget: RateLimitBudget) => void): () => void {
+    return this.rateLimiter.onChange(listener)
+  }
+
+  // The raw header values seen by this service (forwarded from the sync worker)
+  onRateLimitObservation(listener: (observation: RateLimitObservation) => void): () => void {
+    this.rateLimitObservers.add(listener)
+    return () => { this.rateLimitObservers.delete(listener) }
+  }
+
+  // Budget seen by the other context (the page or its sync worker), which spends the same account limit
+  applyRateLimitObservation(observation: RateLimitObservation): void {
+    this.rateLimiter.observe(observation)
+  }
+
+  private observeRateLimit(response: Response): void {
+    const observation = parseRateLimitHeaders(response.headers)
+    if (!observation) return
+    this.rateLimiter.observe(observation)
+    this.rateLimitObservers.forEach(listener => listener(observation))
+    this.syncWorker?.observeRateLimit(observation)
+  }
+
+  // ==========================================================================
+  // Background sync worker
+  // ==========================================================================
+
+  // Move collection syncs (paging, JSON parsing, cache encoding) off the main thread.
+  // Returns the matching stop function.
+  startBackgroundSync(createWorker: () => Worker): () => void {
+    // A local transport (the demo fixture server) keeps its data in this context; a worker
+    // would get its own copy and never see lessons or reviews written from the page
+    if (this.syncWorker || this.transport.local || !SyncWorkerClient.isSupported()) {
+      return () => {}
+    }
+
+    const worker = new SyncWorkerClient(this.apiToken, this.namespace, createWorker, {
+      onProgress: progress => this.emitProgress(progress),
+      onCacheUpdate: update => this.coordinator.announce(update),
+      // The worker spends the same account budget
+      onRateLimit: observation => this.applyRateLimitObservation(observation)
+    })
+    this.syncWorker = worker
+    return () => {
+      if (this.syncWorker === worker) this.syncWorker = null
+      worker.terminate()
+    }
+  }
+
+  // Paging progress of syncs run by this service or its worker
+  onSyncProgress(listener: (progress: SyncProgress) => void): () => void {
+    this.progressListeners.add(listener)
+    return () => { this.progressListeners.delete(listener) }
+  }
+
+  private emitProgress(progress: SyncProgress): void {
+    this.progressListeners.forEach(listener => listener(progress))
+  }
+
+  private async runSyncTask(task: Extract<CoordinatedTask, { kind: 'sync' }>): Promise<unknown> {
+    const worker = this.syncWorker
+    if (worker) {
+      try {
+        return await worker.run(task)
+      } catch (error) {
+        if (!(error instanceof SyncWorkerUnavailable)) throw error
+        // The worker could not start (e.g. no IndexedDB in workers); sync here from now on
+        console.warn('Sync worker unavailable, syncing on the main thread:', error.message)
+        if (this.syncWorker === worker) this.syncWorker = null
+      }
+    }
+    return this.runCollectionSync(
+      task.dataType,
+      task.endpoint,
+      task.forceRefresh,
+      task.ttl ?? this.cacheConfig[task.dataType],
+      task.levels
+    )
+  }
+
+  private getCacheKey(endpoint: string): string {
+    // Keys include the account namespace so profiles sharing a browser stay isolated
+    return `wanikani-${endpoint.replace(/[^a-zA-Z0-9]/g, '_')}-${this.namespace}`
+  }
+
+  // Identifies a request for sharing, in this tab and through the leader tab. Only calls
+  // with the same options share, so e.g. a persisted call never rides on a non-persisted
+  // one and returns without writing its cache entry.
+  private getRequestKey(endpoint: string, useConditionalRequest: boolean, cacheTtl: number | undefined, persist: boolean): string {
+    return [endpoint, this.namespace, persist, useConditionalRequest, cacheTtl ?? ''].join('|')
+  }
+
+  private async getFromCache<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = await this.cacheStorage.get<T>(key)
+    return entry ? { ...entry, data: decodeSubjectPayload(entry.data) } : null
+  }
+
+  // Like getFromCache, but returns expired entries too
+  private async peekCache<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = await this.cacheStorage.peek<T>(key)
+    return entry ? { ...entry, data: decodeSubjectPayload(entry.data) } : null
+  }
+
+  private async setCache<T>(
+    key: string,
+    data: T,
+    etag?: string,
+    lastModified?: string,
+    ttl?: number,
+    endpoint?: string
+  ): Promise<boolean> {
+    // Subjects are kept in full (mnemonics, context sentences, audio) using a columnar encoding
+    const cacheData = encodeSubjectPayload(data)
 
     const entry: CacheEntry<T> = {
       data: cacheData,
+      endpoint,
       etag,
       lastModified,
       timestamp: Date.now(),
@@ -288,28 +346,26 @@ export class WaniKaniService {
       lastAccessed: Date.now()
     }
     
-    this.cacheStorage.set(key, entry)
+    return this.cacheStorage.set(key, entry)
   }
 
-  private clearExpiredCache(): void {
+  private async clearExpiredCache(): Promise<void> {
     const now = Date.now()
-    const keys = this.cacheStorage.getAllKeys()
+    const keys = await this.cacheStorage.getAllKeys()
     
     for (const key of keys) {
-      try {
-        const cached = localStorage.getItem(key)
-        if (cached) {
-          const entry = JSON.parse(cached)
-          if (entry.expiresAt && now > entry.expiresAt) {
-            this.cacheStorage.delete(key)
-          }
-        }
-      } catch {
-        this.cacheStorage.delete(key)
+      const entry = await this.cacheStorage.peek(key)
+      if (!entry || (entry.expiresAt && now > entry.expiresAt)) {
+        await this.cacheStorage.delete(key)
       }
     }
   }
 
+  // navigator.onLine exists in pages and workers; it is only trusted when it says offline
+  private isOffline(): boolean {
+    return !this.transport.local && typeof navigator !== 'undefined' && navigator.onLine === false
+  }
+
   private async sleep(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
@@ -317,31 +373,51 @@ export class WaniKaniService {
   private async makeRequest<T>(
     endpoint: string, 
     useConditionalRequest: boolean = true,
-    cacheTtl?: number
+    cacheTtl?: number,
+    persist: boolean = true,
+    priority: RequestPriority = 'background'
   ): Promise<{ data: T; fromCache: boolean }> {
-    const cacheKey = this.getCacheKey(endpoint)
-    const cached = this.getFromCache<T>(cacheKey)
+    // The leader tab performs the request when other tabs are open on this account
+    return this.coordinator.run(
+      `request:${this.getRequestKey(endpoint, useConditionalRequest, cacheTtl, persist)}`,
+      { kind: 'request', endpoint, useConditionalRequest, cacheTtl, persist, priority },
+      () => this.executeLocalRequest<T>(endpoint, useConditionalRequest, cacheTtl, persist, priority)
+    )
+  }
+
+  private async executeLocalRequest<T>(
+    endpoint: string,
+    useConditionalRequest: boolean,
+    cacheTtl: number | undefined,
+    persist: boolean,
+    priority: RequestPriority
+  ): Promise<{ data: T; fromCache: boolean }> {
+    // Non-persisted requests (e.g. incremental sync deltas) skip the response cache entirely
+    const cacheKey = persist ? this.getCacheKey(endpoint) : null
     
-    // Request deduplication: return existing in-flight request if present
-    const inflightKey = `${endpoint}-${this.apiToken.slice(-8)}`
+    // Request deduplication: return existing in-flight request if present.
+    // Checked before any await so concurrent callers share one request.
+    const inflightKey = this.getRequestKey(endpoint, useConditionalRequest, cacheTtl, persist)
     const existingRequest = this.inflightRequests.get(inflightKey)
     if (existingRequest) {
       return existingRequest as Promise<{ data: T; fromCache: boolean }>
     }
 
-    // Set inflight key before enqueueing to handle sync throws
-    let requestPromise: Promise<{ data: T; fromCache: boolean }>
-    
-    try {
-      requestPromise = this.requestQueue.enqueue(async () => {
-        return this.executeRequest<T>(endpoint, cacheKey, cached, useConditionalRequest, cacheTtl)
-      })
-      this.inflightRequests.set(inflightKey, requestPromise)
-    } catch (error) {
-      // Clean up if enqueue throws synchronously
-      this.inflightRequests.delete(inflightKey)
-      throw error
-    }
+    const requestPromise = (async () => {
+      // Offline: answer from the cache however old it is, without waiting on retries
+      if (this.isOffline()) {
+        const stale = cacheKey ? await this.peekCache<T>(cacheKey) : null
+        if (stale) return { data: stale.data, fromCache: true }
+        throw new WaniKaniNetworkError(endpoint, 'Offline')
+      }
+
+      const cached = cacheKey ? await this.getFromCache<T>(cacheKey) : null
+      await this.rateLimiter.acquire(priority)
+      return this.requestQueue.enqueue(async () => {
+        return this.executeRequest<T>(endpoint, cacheKey, cached, useConditionalRequest, priority, cacheTtl)
+      }, priority)
+    })()
+    this.inflightRequests.set(inflightKey, requestPromise)
     
     try {
       return await requestPromise as { data: T; fromCache: boolean }
@@ -352,9 +428,10 @@ export class WaniKaniService {
 
   private async executeRequest<T>(
     endpoint: string,
-    cacheKey: string,
+    cacheKey: string | null,
     cached: CacheEntry<T> | null,
     useConditionalRequest: boolean,
+    priority: RequestPriority,
     cacheTtl?: number
   ): Promise<{ data: T; fromCache: boolean }> {
     const headers: Record<string, string> = {
@@ -371,61 +448,50 @@ export class WaniKaniService {
       }
     }
 
-    let lastError: Error | null = null
+    let lastError: WaniKaniError | null = null
 
-    // Exponential backoff retry loop
+    // Exponential backoff retry loop - only transient errors (network, 5xx, 429) are retried
     for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
       try {
-        const response = await fetch(`${this.baseUrl}${endpoint}`, { headers })
-
-        // Handle rate limiting with exponential backoff
-        if (response.status === 429) {
-          const retryAfter = response.headers.get('Retry-After')
-          const delay = retryAfter 
-            ? parseInt(retryAfter) * 1000 
-            : this.baseRetryDelay * Math.pow(2, attempt)
-          
-          console.warn(`Rate limited (attempt ${attempt + 1}/${this.maxRetries + 1}). Retrying after ${delay}ms`)
-          
-          if (attempt < this.maxRetries) {
-            await this.sleep(delay)
-            continue
-          }
-          
-          // Last attempt failed - return cached data if available
-          if (cached) {
-            console.warn('Rate limit persists, using cached data')
-            return { data: cached.data, fromCache: true }
-          }
-          throw new Error('Rate limit exceeded. Please wait a moment and try again.')
+        // The first attempt took its token before entering the queue
+        if (attempt > 0) await this.rateLimiter.acquire(priority)
+
+        let response: Response
+        try {
+          response = await this.transport.fetch(`${this.baseUrl}${endpoint}`, { headers })
+        } catch (error) {
+          throw new WaniKaniNetworkError(endpoint, error)
         }
+        this.observeRateLimit(response)
 
-        return this.handleResponse(response, cacheKey, cached, cacheTtl)
+        return await this.handleResponse(response, endpoint, cacheKey, cached, cacheTtl)
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error))
-        
-        // Network error - retry with backoff
-        if (attempt < this.maxRetries && !lastError.message.includes('Invalid API token')) {
-          const delay = this.baseRetryDelay * Math.pow(2, attempt)
-          console.warn(`Request failed (attempt ${attempt + 1}/${this.maxRetries + 1}):`, lastError.message)
-          await this.sleep(delay)
-          continue
-        }
+        lastError = error instanceof WaniKaniError ? error : new WaniKaniParseError(endpoint)
+
+        // Retrying cannot help once the connection is gone
+        if (!lastError.retryable || attempt >= this.maxRetries || this.isOffline()) break
+
+        const delay = lastError instanceof WaniKaniRateLimitError && lastError.retryAfterMs !== null
+          ? lastError.retryAfterMs
+          : this.baseRetryDelay * Math.pow(2, attempt)
+        console.warn(`${lastError.name} (attempt ${attempt + 1}/${this.maxRetries + 1}). Retrying after ${delay}ms`)
+        await this.sleep(delay)
       }
     }
 
-    // All retries exhausted - return cached data if available
-    if (cached) {
-      console.warn('All retries failed, using cached data:', lastError?.message)
+    // Transient failure - return cached data if available
+    if (cached && lastError?.retryable) {
+      console.warn('All retries failed, using cached data:', lastError.message)
       return { data: cached.data, fromCache: true }
     }
     
-    throw lastError || new Error('Request failed after all retries')
+    throw lastError || new WaniKaniNetworkError(endpoint, 'Request failed after all retries')
   }
 
   private async handleResponse<T>(
     response: Response,
-    cacheKey: string,
+    endpoint: string,
+    cacheKey: string | null,
     cached: CacheEntry<T> | null,
     cacheTtl?: number
   ): Promise<{ data: T; fromCache: boolean }> {
@@ -437,24 +503,24 @@ export class WaniKaniService {
     }
 
     if (!response.ok) {
-      if (response.status === 401) {
-        throw new Error('Invalid API token. Please check your token and try again.')
-      } else if (response.status === 429) {
-        throw new Error('Rate limit exceeded. Please wait a moment and try again.')
-      } else if (response.status === 403) {
-        throw new Error('Access denied. Check your subscription level.')
-      } else {
-        throw new Error(`API error: ${response.status} ${response.statusText}`)
-      }
+      throw errorFromResponse(response, endpoint)
     }
 
-    const data = await response.json()
+    let data: T
+    try {
+      data = await response.json()
+    } catch {
+      throw new WaniKaniParseError(endpoint, response.status)
+    }
     
     // Cache the response with conditional request headers
     const etag = response.headers.get('ETag')
     const lastModified = response.headers.get('Last-Modified')
     
-    this.setCache(cacheKey, data, etag || undefined, lastModified || undefined, cacheTtl)
+    if (cacheKey) {
+      await this.setCache(cacheKey, data, etag || undefined, lastModified || undefined, cacheTtl, endpoint)
+      this.coordinator.announce({ scope: endpoint })
+    }
     
     return { data, fromCache: false }
   }
@@ -462,11 +528,15 @@ export class WaniKaniService {
   private async getAllPages<T>(
     endpoint: string, 
     updatedAfter?: string,
-    cacheTtl?: number
-  ): Promise<{ data: T[]; fromCache: boolean }> {
+    cacheTtl?: number,
+    persist: boolean = true
+  ): Promise<{ data: T[]; fromCache: boolean; dataUpdatedAt: string | null }> {
     let allData: T[] = []
     let nextUrl: string | undefined = endpoint
     let anyFromCache = false
+    let dataUpdatedAt: string | null = null
+    let page = 0
+    const collection = endpoint.split('?')[0].replace(/^\//, '')
     
     // Add updated_after filter if provided
     if (updatedAfter) {
@@ -478,23 +548,31 @@ export class WaniKaniService {
       const result: { data: ApiResponse<T[]>; fromCache: boolean } = await this.makeRequest<ApiResponse<T[]>>(
         nextUrl.replace(this.baseUrl, ''),
         true,
-        cacheTtl
+        cacheTtl,
+        persist
       )
       
       const { data: response, fromCache } = result
       
       if (fromCache) anyFromCache = true
+      // Every page reports the collection-wide timestamp; keep the first non-null one
+      dataUpdatedAt = dataUpdatedAt || response.data_updated_at || null
       
       allData = allData.concat(response.data)
       nextUrl = response.pages?.next_url
 
-      // Add delay to be respectful to the API (only if not from cache)
-      if (nextUrl && !fromCache) {
-        await new Promise(resolve => setTimeout(resolve, 100))
-      }
+      page++
+      const perPage = response.pages?.per_page
+      this.emitProgress({
+        collection,
+        page,
+        totalPages: response.total_count !== undefined && perPage
+          ? Math.max(1, Math.ceil(response.total_count / perPage))
+          : null
+      })
     }
 
-    return { data: allData, fromCache: anyFromCache }
+    return { data: allData, fromCache: anyFromCache, dataUpdatedAt }
   }
 
   // Check if user has access to a specific level based on subscription
@@ -508,6 +586,22 @@ export class WaniKaniService {
     return subjects.filter(subject => this.checkLevelAccess(userData, subject.data.level))
   }
 
+  // Look up the account behind the token without caching (the cache namespace is not known yet)
+  async identify(): Promise<UserData> {
+    const { data: response } = await this.makeRequest<ApiResponse<UserData>>('/user', false, undefined, false)
+    return response.data
+  }
+
+  // Identify the account and move the data cached under the token suffix to its id, for
+  // a profile whose id was not known yet. A failed migration only costs a re-sync.
+  async identifyAndMigrate(): Promise<UserData> {
+    const user = await this.identify()
+    await this.migrateCacheNamespace(user.id).catch(error => {
+      console.warn('Could not migrate cached data:', error)
+    })
+    return user
+  }
+
   async getUser(): Promise<UserData> {
     const { data: response } = await this.makeRequest<ApiResponse<UserData>>(
       '/user', 
@@ -598,59 +692,502 @@ export class WaniKaniService {
     return response
   }
 
-  async getSubject(id: number): Promise<Subject> {
-    const { data: response } = await this.makeRequest<ApiResponse<Subject>>(
+  async getSubject(id: number, priority: RequestPriority = 'background'): Promise<Subject> {
+    // Single resources are returned as { id, object, url, data_updated_at, data }
+    const { data: response } = await this.makeRequest<Subject>(
       `/subjects/${id}`,
       true,
-      this.cacheConfig.subjects
+      this.cacheConfig.subjects,
+      true,
+      priority
+    )
+    return { id: response.id, object: response.object, data: response.data }
+  }
+
+  // ==========================================================================
+  // Write calls (opt-in)
+  // ==========================================================================
+
+  // Allow write calls; the token needs the matching permission (e.g. assignments:start)
+  setWritesEnabled(enabled: boolean): void {
+    this.writesEnabled = enabled
+  }
+
+  canWrite(): boolean {
+    return this.writesEnabled
+  }
+
+  // Writes are never cached, deduplicated or shared between tabs. Only rate limits are
+  // retried: the request was rejected before it changed anything.
+  private async makeWriteRequest<T>(method: 'PUT' | 'POST', endpoint: string, body: unknown): Promise<T> {
+    if (!this.writesEnabled) {
+      throw new WaniKaniWriteDisabledError(endpoint)
+    }
+
+    const headers: Record<string, string> = {
+      'Authorization': `Bearer ${this.apiToken}`,
+      'Wanikani-Revision': '20170710',
+      'Content-Type': 'application/json; charset=utf-8'
+    }
+
+    // Writes come from a click, so they count as interactive
+    await this.rateLimiter.acquire('interactive')
+    return this.requestQueue.enqueue(async () => {
+      for (let attempt = 0; ; attempt++) {
+        if (attempt > 0) await this.rateLimiter.acquire('interactive')
+
+        let response: Response
+        try {
+          response = await this.transport.fetch(`${this.baseUrl}${endpoint}`, {
+            method,
+            headers,
+            body: JSON.stringify(body)
+          })
+        } catch (error) {
+          throw new WaniKaniNetworkError(endpoint, error)
+        }
+        this.observeRateLimit(response)
+
+        if (response.ok) {
+          try {
+            return await response.json() as T
+          } catch {
+            throw new WaniKaniParseError(endpoint, response.status)
+          }
+        }
+
+        const error = errorFromResponse(response, endpoint)
+        if (!(error instanceof WaniKaniRateLimitError) || attempt >= this.maxRetries) throw error
+        const delay = error.retryAfterMs ?? this.baseRetryDelay * Math.pow(2, attempt)
+        console.warn(`Rate limited on ${endpoint}. Retrying after ${delay}ms`)
+        await this.sleep(delay)
+      }
+    }, 'interactive')
+  }
+
+  // Start lessons (PUT /assignments/:id/start) one at a time, so one failure does not
+  // stop the rest. Started assignments are merged into the synced collection and the
+  // cached summary is dropped.
+  async startAssignments(
+    assignmentIds: number[]
+  ): Promise<{ started: Assignment[]; failed: Array<{ id: number; error: unknown }> }> {
+    const started: Assignment[] = []
+    const failed: Array<{ id: number; error: unknown }> = []
+
+    for (const id of assignmentIds) {
+      try {
+        // Single resources are returned as { id, object, url, data_updated_at, data }
+        const response = await this.makeWriteRequest<Assignment>('PUT', `/assignments/${id}/start`, {})
+        started.push({ id: response.id, data: response.data })
+      } catch (error) {
+        // Without write access or permission every other call would fail the same way
+        if (error instanceof WaniKaniError && (error.kind === 'writeDisabled' || error.kind === 'forbidden' || error.kind === 'auth')) {
+          throw error
+        }
+        failed.push({ id, error })
+      }
+    }
+
+    if (started.length > 0) {
+      await this.mergeIntoCollection('assignments', started)
+      await this.cacheStorage.delete(this.getCacheKey('/summary'))
+      this.coordinator.announce({ scope: '/summary' })
+    }
+
+    return { started, failed }
+  }
+
+  // Save notes and synonyms for a subject: creates its study material, or updates
+  // the existing one (a subject has at most one)
+  async saveStudyMaterial(
+    subjectId: number,
+    fields: StudyMaterialFields,
+    existingId?: number
+  ): Promise<StudyMaterial> {
+    const response = existingId
+      ? await this.makeWriteRequest<StudyMaterial>('PUT', `/study_materials/${existingId}`, { study_material: fields })
+      : await this.makeWriteRequest<StudyMaterial>('POST', '/study_materials', {
+          study_material: { subject_id: subjectId, ...fields }
+        })
+    const material: StudyMaterial = { id: response.id, data: response.data }
+    await this.mergeIntoCollection('studyMaterials', [material])
+    return material
+  }
+
+  // Record a finished review (POST /reviews). The assignment and review statistic it
+  // returns are merged into their collections; the new review arrives with the next
+  // delta sync. The cached summary is dropped, as the item left the review queue.
+  async submitReview(submission: ReviewSubmission): Promise<ReviewSubmissionResult> {
+    const response = await this.makeWriteRequest<Review & {
+      resources_updated?: { assignment?: Assignment | null; review_statistic?: ReviewStatistic | null }
+    }>('POST', '/reviews', { review: submission })
+
+    const updated = response.resources_updated ?? {}
+    const assignment = updated.assignment ? { id: updated.assignment.id, data: updated.assignment.data } : null
+    const reviewStatistic = updated.review_statistic
+      ? { id: updated.review_statistic.id, data: updated.review_statistic.data }
+      : null
+
+    if (assignment) await this.mergeIntoCollection('assignments', [assignment])
+    if (reviewStatistic) await this.mergeIntoCollection('reviewStats', [reviewStatistic])
+    await this.cacheStorage.delete(this.getCacheKey('/summary'))
+    this.coordinator.announce({ scope: '/summary' })
+
+    return { review: { id: response.id, data: response.data }, assignment, reviewStatistic }
+  }
+
+  // Fetch the summary again, ignoring the cached copy (e.g. after starting lessons)
+  async refreshSummary(): Promise<Summary> {
+    await this.cacheStorage.delete(this.getCacheKey('/summary'))
+    return this.getSummary()
+  }
+
+  // ==========================================================================
+  // Incremental sync
+  // ==========================================================================
+
+  private getCollectionKey(dataType: keyof CacheConfig): string {
+    return `wanikani-collection-${dataType}-${this.namespace}`
+  }
+
+  private mergeById<T extends { id: number }>(existing: T[], updates: T[]): T[] {
+    if (updates.length === 0) return existing
+    const byId = new Map<number, T>()
+    existing.forEach(record => byId.set(record.id, record))
+    updates.forEach(record => byId.set(record.id, record))
+    return Array.from(byId.values())
+  }
+
+  private newestTimestamp(...timestamps: Array<string | null | undefined>): string | null {
+    // ISO 8601 timestamps from the API sort lexicographically
+    return timestamps.reduce<string | null>(
+      (newest, ts) => (ts && (!newest || ts > newest) ? ts : newest),
+      null
+    )
+  }
+
+  private async syncCollection<T extends { id: number }>(
+    dataType: keyof CacheConfig,
+    endpoint: string,
+    forceRefresh: boolean,
+    levels?: number[]
+  ): Promise<T[]> {
+    // Only the leader tab syncs; followers receive the merged records
+    const task = { kind: 'sync' as const, dataType, endpoint, forceRefresh, levels, ttl: this.cacheConfig[dataType] }
+    return this.coordinator.run(
+      `sync:${dataType}:${forceRefresh}:${levels ? levels.join(',') : ''}`,
+      task,
+      () => this.runSyncTask(task) as Promise<T[]>
+    )
+  }
+
+  // Keeps a full copy of a collection in the cache storage. The first sync pulls every
+  // page; later syncs request only records with updated_after set to the last sync
+  // timestamp and merge them by id. Within the collection's TTL the stored copy is
+  // returned without a request unless forceRefresh is set.
+  private async runCollectionSync<T extends { id: number }>(
+    dataType: keyof CacheConfig,
+    endpoint: string,
+    forceRefresh: boolean,
+    ttl: number,
+    levels?: number[]
+  ): Promise<T[]> {
+    const key = this.getCollectionKey(dataType)
+    const stored = await this.peekCache<SyncedCollection<T>>(key)
+    // The timestamp is stored with its collection, so an evicted collection is fully re-synced
+    const lastSync = stored ? stored.data.syncedAt ?? this.getLegacySyncTimestamp(dataType) : null
+
+    const requestedLevels = levels
+      ? Array.from(new Set(levels)).sort((a, b) => a - b)
+      : undefined
+    const coveredLevels = stored?.data.levels ?? []
+    const missingLevels = requestedLevels
+      ? requestedLevels.filter(level => !coveredLevels.includes(level))
+      : []
+
+    const isFresh = stored && lastSync &&
+      Date.now() - stored.timestamp < ttl &&
+      missingLevels.length === 0
+    if (isFresh && !forceRefresh) {
+      return stored.data.records
+    }
+    // Offline: the stored copy is the best there is; the next online sync catches up
+    if (stored && this.isOffline()) {
+      return stored.data.records
+    }
+
+    const withLevels = (scope?: number[]) =>
+      scope ? `${endpoint}?levels=${scope.join(',')}` : endpoint
+
+    let records: T[]
+    let syncedAt: string | null
+    let syncedLevels = requestedLevels
+
+    if (stored && lastSync) {
+      records = stored.data.records
+      syncedAt = lastSync
+      syncedLevels = requestedLevels ? coveredLevels.concat(missingLevels).sort((a, b) => a - b) : undefined
+
+      // Delta for everything we already hold
+      if (!requestedLevels || coveredLevels.length > 0) {
+        const delta = await this.getAllPages<T>(
+          withLevels(requestedLevels ? coveredLevels : undefined),
+          lastSync,
+          undefined,
+          false
+        )
+        records = this.mergeById(records, delta.data)
+        syncedAt = this.newestTimestamp(syncedAt, delta.dataUpdatedAt)
+        console.log(`Incremental sync of ${dataType}: ${delta.data.length} updated records`)
+      }
+
+      // Full fetch for subject levels we have never synced (e.g. after a level-up)
+      if (missingLevels.length > 0) {
+        const added = await this.getAllPages<T>(withLevels(missingLevels), undefined, undefined, false)
+        records = this.mergeById(records, added.data)
+        syncedAt = this.newestTimestamp(syncedAt, added.dataUpdatedAt)
+      }
+    } else {
+      const full = await this.getAllPages<T>(withLevels(requestedLevels), undefined, undefined, false)
+      records = full.data
+      syncedAt = full.dataUpdatedAt
+      console.log(`Full sync of ${dataType}: ${records.length} records`)
+    }
+
+    const saved = await this.setCache<SyncedCollection<T>>(key, {
+      records,
+      levels: syncedLevels,
+      syncedAt: syncedAt ?? undefined
+    }, undefined, undefined, undefined, endpoint)
+    if (saved) {
+      this.coordinator.announce({ scope: dataType })
+    }
+
+    return records
+  }
+
+  // Put records returned by a write into the stored collection. The sync timestamp is
+  // left alone, so the next delta sync still fetches everything changed since.
+  private async mergeIntoCollection<T extends { id: number }>(dataType: keyof CacheConfig, updates: T[]): Promise<void> {
+    const key = this.getCollectionKey(dataType)
+    const stored = await this.peekCache<SyncedCollection<T>>(key)
+    if (!stored) return
+
+    const saved = await this.setCache<SyncedCollection<T>>(key, {
+      ...stored.data,
+      records: this.mergeById(stored.data.records, updates)
+    }, undefined, undefined, undefined, stored.endpoint)
+    if (saved) {
+      this.coordinator.announce({ scope: dataType })
+    }
+  }
+
+  async syncAssignments(forceRefresh: boolean = false): Promise<Assignment[]> {
+    return this.syncCollection<Assignment>('assignments', COLLECTION_ENDPOINTS.assignments, forceRefresh)
+  }
+
+  async syncReviewStatistics(forceRefresh: boolean = false): Promise<ReviewStatistic[]> {
+    return this.syncCollection<ReviewStatistic>('reviewStats', COLLECTION_ENDPOINTS.reviewStats, forceRefresh)
+  }
+
+  async syncLevelProgressions(forceRefresh: boolean = false): Promise<LevelProgression[]> {
+    return this.syncCollection<LevelProgression>('levelProgressions', COLLECTION_ENDPOINTS.levelProgressions, forceRefresh)
+  }
+
+  async syncReviews(forceRefresh: boolean = false): Promise<Review[]> {
+    return this.syncCollection<Review>('reviews', COLLECTION_ENDPOINTS.reviews, forceRefresh)
+  }
+
+  async syncResets(forceRefresh: boolean = false): Promise<Reset[]> {
+    return this.syncCollection<Reset>('resets', COLLECTION_ENDPOINTS.resets, forceRefresh)
+  }
+
+  async syncStudyMaterials(forceRefresh: boolean = false): Promise<StudyMaterial[]> {
+    return this.syncCollection<StudyMaterial>('studyMaterials', COLLECTION_ENDPOINTS.studyMaterials, forceRefresh)
+  }
+
+  async syncSubjects(userData: UserData, levels: number[], forceRefresh: boolean = false): Promise<Subject[]> {
+    const subjects = await this.syncCollection<Subject>('subjects', COLLECTION_ENDPOINTS.subjects, forceRefresh, levels)
+    this.subjectIndex = new Map(subjects.map(subject => [subject.id, subject]))
+    // The stored collection may cover levels beyond this request (e.g. after a reset)
+    const requested = new Set(levels)
+    return this.filterSubjectsBySubscription(
+      subjects.filter(subject => requested.has(subject.data.level)),
+      userData
     )
-    return response.data
   }
 
   // Get last sync timestamp for incremental updates
-  getLastSyncTimestamp(dataType: keyof CacheConfig): string | null {
-    const key = `wanikani-last-sync-${dataType}-${this.apiToken.slice(-8)}`
-    return localStorage.getItem(key)
+  async getLastSyncTimestamp(dataType: keyof CacheConfig): Promise<string | null> {
+    const stored = await this.peekCache<SyncedCollection<unknown>>(this.getCollectionKey(dataType))
+    return stored ? stored.data.syncedAt ?? this.getLegacySyncTimestamp(dataType) : null
   }
 
-  // Set last sync timestamp
-  setLastSyncTimestamp(dataType: keyof CacheConfig, timestamp: string): void {
-    const key = `wanikani-last-sync-${dataType}-${this.apiToken.slice(-8)}`
-    localStorage.setItem(key, timestamp)
+  // Collections saved before timestamps moved into them kept it in localStorage
+  // (which workers cannot read; they simply do one full sync)
+  private getLegacySyncTimestamp(dataType: keyof CacheConfig): string | null {
+    if (typeof localStorage === 'undefined') return null
+    return localStorage.getItem(`wanikani-last-sync-${dataType}-${this.apiToken.slice(-8)}`)
+  }
+
+  // ==========================================================================
+  // Cache management
+  // ==========================================================================
+
+  // Kept outside the wanikani- prefix, so clearing the cache keeps the settings
+  private getCacheTtlKey(): string {
+    return `cache-ttl-${this.namespace}`
+  }
+
+  private loadCacheTtls(): Partial<CacheConfig> {
+    if (typeof localStorage === 'undefined') return {}
+    try {
+      const saved = localStorage.getItem(this.getCacheTtlKey())
+      return saved ? JSON.parse(saved) as Partial<CacheConfig> : {}
+    } catch (error) {
+      console.warn('Error reading cache TTLs:', error)
+      return {}
+    }
+  }
+
+  getCacheConfig(): CacheConfig {
+    return { ...this.cacheConfig }
+  }
+
+  // Override one collection's TTL for this account; null restores the default
+  setCacheTtl(dataType: keyof CacheConfig, ttl: number | null): void {
+    const overrides = this.loadCacheTtls()
+    if (ttl === null) {
+      delete overrides[dataType]
+    } else {
+      overrides[dataType] = ttl
+    }
+    this.cacheConfig = { ...WaniKaniService.defaultCacheConfig, ...overrides }
+    localStorage.setItem(this.getCacheTtlKey(), JSON.stringify(overrides))
+  }
+
+  // Every cache entry of this account, largest first
+  async getCacheEntries(): Promise<CacheEntryInfo[]> {
+    const keys = await this.cacheStorage.getAllKeys()
+    const entries: CacheEntryInfo[] = []
+    const collectionPrefix = 'wanikani-collection-'
+
+    for (const key of keys) {
+      if (!key.endsWith(`-${this.namespace}`)) continue
+      const entry = await this.cacheStorage.peek(key)
+      if (!entry) continue
+
+      const collectionType = key.startsWith(collectionPrefix)
+        ? key.slice(collectionPrefix.length, key.length - this.namespace.length - 1) as keyof CacheConfig
+        : null
+      const endpoint = entry.endpoint ?? null
+      const responseType = endpoint
+        ? RESPONSE_DATA_TYPES.find(([prefix]) => endpoint === prefix || endpoint.startsWith(`${prefix}/`) || endpoint.startsWith(`${prefix}?`))
+        : undefined
+      const dataType = collectionType && collectionType in this.cacheConfig
+        ? collectionType
+        : responseType?.[1] ?? null
+
+      entries.push({
+        key,
+        endpoint: endpoint ?? key,
+        dataType,
+        collection: collectionType !== null,
+        // Approximate size as the serialized length, matching localStorage accounting
+        size: JSON.stringify(entry).length,
+        timestamp: entry.timestamp,
+        ttl: entry.expiresAt
+          ? entry.expiresAt - entry.timestamp
+          : collectionType && dataType ? this.cacheConfig[dataType] : null,
+        etag: entry.etag ?? null,
+        lastAccessed: entry.lastAccessed ?? null
+      })
+    }
+
+    return entries.sort((a, b) => b.size - a.size)
+  }
+
+  // Remove one entry of this account; a purged collection is fully re-synced next time
+  async purgeCacheEntry(key: string): Promise<void> {
+    if (!key.endsWith(`-${this.namespace}`)) return
+    await this.cacheStorage.delete(key)
+    if (key === this.getCollectionKey('subjects')) this.subjectIndex = null
+  }
+
+  // Sync a stored collection now, ignoring its TTL
+  async refreshCollection(dataType: keyof CacheConfig): Promise<void> {
+    if (!(dataType in COLLECTION_ENDPOINTS)) return
+    const syncedType = dataType as SyncedDataType
+    // Subjects are stored per level; refresh the levels already held
+    const stored = await this.peekCache<SyncedCollection<unknown>>(this.getCollectionKey(syncedType))
+    if (syncedType === 'subjects' && !stored) return
+    await this.syncCollection(syncedType, COLLECTION_ENDPOINTS[syncedType], true, stored?.data.levels)
+    if (syncedType === 'subjects') this.subjectIndex = null
+  }
+
+  // Move what was cached under the token suffix (the namespace until the account id is
+  // known) to the id's namespace, so identifying a profile does not cost a full re-sync.
+  // Entries the id already has win; the legacy ones are removed either way.
+  async migrateCacheNamespace(userId: string): Promise<void> {
+    const legacySuffix = `-${this.namespace}`
+    const targetSuffix = `-${userId}`
+    if (legacySuffix === targetSuffix) return
+
+    const keys = await this.cacheStorage.getAllKeys()
+    await Promise.all(keys.filter(key => key.endsWith(legacySuffix)).map(async key => {
+      const targetKey = key.slice(0, key.length - legacySuffix.length) + targetSuffix
+      const entry = await this.cacheStorage.peek(key)
+      if (entry && !keys.includes(targetKey)) {
+        await this.cacheStorage.set(targetKey, entry)
+      }
+      await this.cacheStorage.delete(key)
+    }))
+
+    if (typeof localStorage === 'undefined') return
+    const legacyTtls = localStorage.getItem(this.getCacheTtlKey())
+    if (legacyTtls !== null) {
+      if (localStorage.getItem(`cache-ttl-${userId}`) === null) {
+        localStorage.setItem(`cache-ttl-${userId}`, legacyTtls)
+      }
+      localStorage.removeItem(this.getCacheTtlKey())
+    }
   }
 
   // Clear all cache for current user
-  clearUserCache(): void {
-    const userSuffix = this.apiToken.slice(-8)
-    const keys = this.cacheStorage.getAllKeys()
+  async clearUserCache(): Promise<void> {
+    const keys = await this.cacheStorage.getAllKeys()
     
-    const keysToRemove = keys.filter(key => key.includes(`-${userSuffix}`))
-    keysToRemove.forEach(key => this.cacheStorage.delete(key))
+    const keysToRemove = keys.filter(key => key.endsWith(`-${this.namespace}`))
+    await Promise.all(keysToRemove.map(key => this.cacheStorage.delete(key)))
     console.log(`Cleared ${keysToRemove.length} user cache entries`)
   }
 
-  // Clear all WaniKani cache (for quota issues)
-  private clearAllCache(): void {
-    this.cacheStorage.clear()
+  // When the data shown offline was fetched: the newest of the user and core collections
+  async getCachedDataTimestamp(): Promise<number | null> {
+    const entries = await Promise.all([
+      this.peekCache(this.getCacheKey('/user')),
+      this.peekCache(this.getCollectionKey('assignments')),
+      this.peekCache(this.getCollectionKey('reviewStats'))
+    ])
+    return entries.reduce<number | null>(
+      (newest, entry) => (entry && (!newest || entry.timestamp > newest) ? entry.timestamp : newest),
+      null
+    )
   }
 
-  // Get cache statistics for debugging
-  getCacheStats(): { entries: number; totalSize: number; oldestEntry: number | null } {
-    const keys = this.cacheStorage.getAllKeys()
+  // Totals over every account's entries in this browser
+  async getCacheStats(): Promise<{ entries: number; totalSize: number; oldestEntry: number | null }> {
+    const keys = await this.cacheStorage.getAllKeys()
     let totalSize = 0
     let oldestTimestamp: number | null = null
 
     for (const key of keys) {
-      const value = localStorage.getItem(key)
-      if (value) {
-        totalSize += value.length
-        try {
-          const entry = JSON.parse(value)
-          if (!oldestTimestamp || (entry.lastAccessed && entry.lastAccessed < oldestTimestamp)) {
-            oldestTimestamp = entry.lastAccessed || entry.timestamp
-          }
-        } catch {
-          // Ignore parsing errors
+      const entry = await this.cacheStorage.peek(key)
+      if (entry) {
+        // Approximate size as the serialized length, matching localStorage accounting
+        totalSize += JSON.stringify(entry).length
+        if (!oldestTimestamp || (entry.lastAccessed && entry.lastAccessed < oldestTimestamp)) {
+          oldestTimestamp = entry.lastAccessed || entry.timestamp
         }
       }
     }
@@ -663,47 +1200,34 @@ export class WaniKaniService {
   }
 
   // Get stale cache data immediately (even if expired) for stale-while-revalidate
-  getStaleCache<T>(endpoint: string): T | null {
+  async getStaleCache<T>(endpoint: string): Promise<T | null> {
     const cacheKey = this.getCacheKey(endpoint)
-    try {
-      const cached = localStorage.getItem(cacheKey)
-      if (!cached) return null
-      
-      const entry: CacheEntry<T> = JSON.parse(cached)
-      return entry.data
-    } catch {
-      return null
-    }
+    const entry = await this.peekCache<T>(cacheKey)
+    return entry ? entry.data : null
   }
 
   // Check if fresh cache exists (not expired)
-  hasFreshCache(endpoint: string): boolean {
+  async hasFreshCache(endpoint: string): Promise<boolean> {
     const cacheKey = this.getCacheKey(endpoint)
-    const cached = this.getFromCache(cacheKey)
+    const cached = await this.getFromCache(cacheKey)
     return cached !== null
   }
 
-  // Fetch full subject details by ID (on-demand, not cached to save space)
+  // Look up a full subject by ID: synced subjects collection first, then the API.
+  // Called when the user opens a subject, so the request goes ahead of background paging.
   async getSubjectDetails(subjectId: number): Promise<Subject | null> {
+    if (!this.subjectIndex) {
+      const stored = await this.peekCache<SyncedCollection<Subject>>(this.getCollectionKey('subjects'))
+      this.subjectIndex = new Map((stored?.data.records ?? []).map(subject => [subject.id, subject]))
+    }
+
+    const cached = this.subjectIndex.get(subjectId)
+    if (cached) return cached
+
     try {
-      const response = await fetch(`${this.baseUrl}/subjects/${subjectId}`, {
-        headers: {
-          'Authorization': `Bearer ${this.apiToken}`,
-          'Wanikani-Revision': '20170710'
-        }
-      })
-      
-      if (!response.ok) {
-        console.error(`Failed to fetch subject ${subjectId}: ${response.status}`)
-        return null
-      }
-      
-      const data = await response.json()
-      return {
-        id: data.id,
-        object: data.object,
-        data: data.data
-      } as Subject
+      const subject = await this.getSubject(subjectId, 'interactive')
+      this.subjectIndex.set(subjectId, subject)
+      return subject
     } catch (error) {
       console.error(`Error fetching subject ${subjectId}:`, error)
       return null
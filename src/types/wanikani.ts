@@ -1,5 +1,5 @@
 export interface UserData {
-  id: number
+  id: string  // UUID
   username: string
   level: number
   started_at: string
@@ -10,6 +10,18 @@ export interface UserData {
     max_level_granted: number
     period_ends_at?: string | null
   }
+  preferences?: UserPreferences
+}
+
+export interface UserPreferences {
+  default_voice_actor_id: number
+  extra_study_autoplay_audio: boolean
+  lessons_autoplay_audio: boolean
+  lessons_batch_size: number
+  lessons_presentation_order: 'ascending_level_then_subject' | 'shuffled' | 'ascending_level_then_shuffled'
+  reviews_autoplay_audio: boolean
+  reviews_display_srs_indicator: boolean
+  reviews_presentation_order: 'shuffled' | 'lower_levels_first'
 }
 
 export interface ReviewStatistic {
@@ -43,11 +55,16 @@ export interface Subject {
     meanings: Array<{
       meaning: string
       primary: boolean
+      accepted_answer?: boolean
     }>
+    // Extra answers WaniKani accepts (whitelist) or marks wrong (blacklist)
+    auxiliary_meanings?: AuxiliaryAnswer<'meaning'>[]
+    auxiliary_readings?: AuxiliaryAnswer<'reading'>[]
     readings?: Array<{
       reading: string
       primary: boolean
-      type?: string
+      type?: string // onyomi / kunyomi / nanori for kanji
+      accepted_answer?: boolean
     }>
     hidden_at?: string | null
     created_at: string
@@ -56,7 +73,7 @@ export interface Subject {
     amalgamation_subject_ids?: number[]   // Kanji/vocab that use this subject as a component
     // Similar kanji fields
     visually_similar_subject_ids?: number[] // IDs of visually similar kanji
-    // Vocabulary study fields (fetched on-demand)
+    // Vocabulary study fields
     context_sentences?: ContextSentence[]
     pronunciation_audios?: PronunciationAudio[]
     meaning_mnemonic?: string
@@ -67,6 +84,10 @@ export interface Subject {
   }
 }
 
+export type AuxiliaryAnswer<K extends 'meaning' | 'reading'> = { [key in K]: string } & {
+  type: 'whitelist' | 'blacklist'
+}
+
 export interface ContextSentence {
   en: string
   ja: string
@@ -142,12 +163,12 @@ export interface Review {
   data: {
     assignment_id: number
     subject_id: number
-    subject_type: 'radical' | 'kanji' | 'vocabulary' | 'kana_vocabulary'
+    spaced_repetition_system_id: number
     created_at: string
-    meaning_correct: number
-    meaning_incorrect: number
-    reading_correct: number
-    reading_incorrect: number
+    starting_srs_stage: number
+    ending_srs_stage: number
+    incorrect_meaning_answers: number
+    incorrect_reading_answers: number
   }
 }
 
@@ -163,6 +184,47 @@ export interface LevelProgression {
   }
 }
 
+// A level reset; it takes effect once confirmed_at is set
+export interface Reset {
+  id: number
+  data: {
+    created_at: string
+    original_level: number
+    target_level: number
+    confirmed_at: string | null
+  }
+}
+
+// The user's own notes and synonyms for a subject (at most one per subject)
+export interface StudyMaterial {
+  id: number
+  data: {
+    subject_id: number
+    subject_type: 'radical' | 'kanji' | 'vocabulary' | 'kana_vocabulary'
+    meaning_note: string | null
+    reading_note: string | null
+    meaning_synonyms: string[]
+    hidden: boolean
+    created_at: string
+  }
+}
+
+export type StudyMaterialFields = Pick<StudyMaterial['data'], 'meaning_note' | 'reading_note' | 'meaning_synonyms'>
+
+// Body of POST /reviews: one finished review of an available assignment
+export interface ReviewSubmission {
+  assignment_id: number
+  incorrect_meaning_answers: number
+  incorrect_reading_answers: number
+}
+
+// POST /reviews returns the review with the records it changed
+export interface ReviewSubmissionResult {
+  review: Review
+  assignment: Assignment | null
+  reviewStatistic: ReviewStatistic | null
+}
+
 export interface ApiResponse<T> {
   object: string
   url: string
@@ -178,6 +240,7 @@ export interface ApiResponse<T> {
 
 export interface CacheEntry<T> {
   data: T
+  endpoint?: string  // API endpoint the data came from (recorded for the cache inspector)
   etag?: string
   lastModified?: string
   timestamp: number
@@ -191,8 +254,43 @@ export interface CacheConfig {
   user: number         // User data (1 hour)
   assignments: number  // Assignments (30 minutes)
   reviewStats: number  // Review statistics (30 minutes)
-  reviews: number      // Reviews (permanent - never change once recorded)
+  reviews: number      // Reviews (30 minutes - synced incrementally, records never change)
   summary: number      // Summary (1 hour - changes every hour)
   levelProgressions: number // Level progressions (1 hour)
   spacedRepetitionSystems: number // SRS definitions (12 hours)
+  studyMaterials: number // Notes and synonyms (30 minutes)
+  resets: number // Level resets (4 hours)
+}
+
+// One cache entry as shown in the cache inspector
+export interface CacheEntryInfo {
+  key: string
+  endpoint: string  // Falls back to the key for entries saved before endpoints were recorded
+  dataType: keyof CacheConfig | null
+  collection: boolean  // A synced collection (refreshable) rather than a cached response
+  size: number  // Approximate, as serialized characters
+  timestamp: number
+  ttl: number | null
+  etag: string | null
+  lastAccessed: number | null
+}
+
+export interface SyncedCollection<T> {
+  records: T[]
+  levels?: number[]  // Subject levels covered (subjects collection only)
+  syncedAt?: string  // data_updated_at of the last sync, used as the next updated_after
+}
+
+export interface SyncProgress {
+  collection: string  // Collection path, e.g. 'assignments'
+  page: number
+  totalPages: number | null  // Unknown when the API omits total_count
+}
+
+// API requests left in the current rate-limit window, as tracked by the service
+export interface RateLimitBudget {
+  limit: number
+  remaining: number
+  queued: number  // Requests waiting for a token
+  pausedUntil: number | null  // ms since epoch; set when the server reports the budget spent
 }
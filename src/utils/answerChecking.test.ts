@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { buildFixtures } from '@/services/mock/fixtures'
+import type { Subject } from '@/types/wanikani'
+import { checkMeaning, checkReading, normalizeMeaning, normalizeReading, typoTolerance } from './answerChecking'
+
+const subjects = buildFixtures(Date.UTC(2024, 0, 1)).subjects as unknown as Subject[]
+
+function subject(object: Subject['object'], characters: string): Subject {
+  const found = subjects.find(s => s.object === object && s.data.characters === characters)
+  if (!found) throw new Error(`No ${object} ${characters} in the fixtures`)
+  return found
+}
+
+describe('normalizeMeaning', () => {
+  it('turns hyphens and other punctuation into spaces', () => {
+    expect(normalizeMeaning('To-Do')).toBe('to do')
+    expect(normalizeMeaning('Man-Made')).toBe('man made')
+    expect(normalizeMeaning('well...  known!')).toBe('well known')
+  })
+
+  it('drops apostrophes', () => {
+    expect(normalizeMeaning("Don't")).toBe('dont')
+    expect(normalizeMeaning('Don’t')).toBe('dont')
+  })
+})
+
+describe('checkMeaning', () => {
+  it('accepts the meaning regardless of case and spacing', () => {
+    expect(checkMeaning(subject('kanji', '力'), '  power ')).toEqual({ verdict: 'correct', matched: 'Power' })
+    expect(checkMeaning(subject('vocabulary', '日本人'), 'japanese   person').verdict).toBe('correct')
+  })
+
+  it('treats a hyphen like a space', () => {
+    expect(checkMeaning(subject('vocabulary', '人工'), 'man-made')).toEqual({ verdict: 'correct', matched: 'Man Made' })
+    expect(checkMeaning(subject('vocabulary', '人工'), 'manmade').notice).toBe('typo')
+  })
+
+  it('accepts typos in proportion to the answer length', () => {
+    expect(checkMeaning(subject('kanji', '工'), 'constructoin')).toEqual({ verdict: 'correct', notice: 'typo', matched: 'Construction' })
+    expect(checkMeaning(subject('kanji', '力'), 'powr').notice).toBe('typo')
+  })
+
+  it('does not take a short input as a typo of a longer meaning', () => {
+    expect(checkMeaning(subject('kanji', '山'), 'mount').verdict).toBe('incorrect')
+    expect(checkMeaning(subject('kanji', '大'), 'bag').verdict).toBe('incorrect')
+  })
+
+  it('uses whitelisted and blacklisted auxiliary meanings', () => {
+    expect(checkMeaning(subject('kanji', '大'), 'large').verdict).toBe('correct')
+    expect(checkMeaning(subject('kanji', '大'), 'dog').verdict).toBe('incorrect')
+    expect(checkMeaning(subject('vocabulary', '人口'), 'artificial').verdict).toBe('incorrect')
+  })
+
+  it("accepts the user's synonyms", () => {
+    expect(checkMeaning(subject('kanji', '一'), 'uno').verdict).toBe('incorrect')
+    expect(checkMeaning(subject('kanji', '一'), 'uno', { userSynonyms: ['Uno'] })).toEqual({ verdict: 'correct', matched: 'Uno' })
+  })
+
+  it('sends back empty answers and kana', () => {
+    expect(checkMeaning(subject('kanji', '一'), '   ')).toEqual({ verdict: 'retry', notice: 'empty' })
+    expect(checkMeaning(subject('kanji', '一'), 'いち')).toEqual({ verdict: 'retry', notice: 'readingInMeaning' })
+  })
+})
+
+describe('checkReading', () => {
+  it('accepts kana, katakana and romaji', () => {
+    const one = subject('kanji', '一')
+    expect(checkReading(one, 'いち')).toEqual({ verdict: 'correct', matched: 'いち' })
+    expect(checkReading(one, 'イチ').verdict).toBe('correct')
+    expect(checkReading(one, 'ichi').verdict).toBe('correct')
+  })
+
+  it('turns a trailing n into ん', () => {
+    expect(normalizeReading('san')).toBe('さん')
+    expect(checkReading(subject('vocabulary', '本'), 'hon').verdict).toBe('correct')
+  })
+
+  it('asks for the wanted reading type when another reading of the kanji is given', () => {
+    expect(checkReading(subject('kanji', '一'), 'ひと')).toEqual({
+      verdict: 'retry',
+      notice: 'otherReadingType',
+      matched: 'ひと',
+      expectedReadingType: 'onyomi'
+    })
+  })
+
+  it('sends back English typed into the reading field', () => {
+    expect(checkReading(subject('kanji', '火'), 'ふぃれ')).toEqual({ verdict: 'retry', notice: 'meaningInReading', matched: 'Fire' })
+  })
+
+  it('sends back a single n before a vowel', () => {
+    expect(checkReading(subject('vocabulary', '女の子'), 'おんあのこ')).toEqual({ verdict: 'retry', notice: 'singleN', matched: 'おんなのこ' })
+  })
+
+  it('marks other readings wrong', () => {
+    expect(checkReading(subject('vocabulary', '山'), 'さん').verdict).toBe('incorrect')
+  })
+})
+
+describe('typoTolerance', () => {
+  it('allows no typos up to three letters', () => {
+    expect([1, 3, 4, 5, 6, 7, 8, 14].map(typoTolerance)).toEqual([0, 0, 1, 1, 2, 2, 3, 4])
+  })
+})
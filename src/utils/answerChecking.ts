@@ -0,0 +1,186 @@
+import { isJapanese, isKana, toHiragana } from 'wanakana'
+import type { Subject } from '@/types/wanikani'
+import { katakanaToHiragana, levenshteinDistance } from './japaneseCompare'
+
+/**
+ * Answer checking for typed quizzes, following WaniKani's review rules:
+ * - Meanings accept the subject's meanings, whitelisted auxiliary meanings and the
+ *   user's own synonyms, with typos allowed in proportion to the answer's length.
+ *   Blacklisted meanings are wrong even when they are within typo distance.
+ * - Readings must match exactly (katakana and a trailing "n" are fine). For kanji,
+ *   a reading WaniKani is not asking for is sent back with the type it wants.
+ * - Answers typed into the wrong field are sent back instead of being marked wrong.
+ */
+
+export type QuestionType = 'meaning' | 'reading'
+
+/**
+ * correct / incorrect count towards the review; retry means the answer was not
+ * accepted or rejected and the user should try again (WaniKani's "shake")
+ */
+export type AnswerVerdict = 'correct' | 'incorrect' | 'retry'
+
+export type AnswerNotice =
+  | 'typo'              // Accepted, but not spelled the way WaniKani has it
+  | 'readingInMeaning'  // Kana typed in the meaning field
+  | 'meaningInReading'  // English typed in the reading field
+  | 'otherReadingType'  // A reading of the kanji, but not the type WaniKani is looking for
+  | 'singleN'           // ん before a vowel where な-row was meant ("onna" -> おんあ)
+  | 'notKana'           // Reading contains something other than kana
+  | 'empty'
+
+export interface AnswerCheckResult {
+  verdict: AnswerVerdict
+  notice?: AnswerNotice
+  // Accepted answer the input matched (or was closest to)
+  matched?: string
+  // With otherReadingType: onyomi, kunyomi or nanori
+  expectedReadingType?: string
+}
+
+export interface AnswerCheckOptions {
+  // The user's own meaning synonyms (study material meaning_synonyms)
+  userSynonyms?: string[]
+}
+
+const NA_ROW: Record<string, string> = { あ: 'な', い: 'に', う: 'ぬ', え: 'ね', お: 'の' }
+
+/** Whether a subject is asked for its reading as well as its meaning */
+export function hasReadingQuestion(subject: Subject): boolean {
+  return (subject.object === 'kanji' || subject.object === 'vocabulary') && (subject.data.readings ?? []).length > 0
+}
+
+/**
+ * Lowercase, drop apostrophes and turn other punctuation into spaces, so "To-Do" and
+ * "to do" compare equal and "Don't" matches "dont"
+ */
+export function normalizeMeaning(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Turn a typed reading into hiragana. The IME leaves a final "n" as romaji until the
+ * next key, and "n'" is the usual way to force ん, so both become ん.
+ */
+export function normalizeReading(text: string): string {
+  const compact = text
+    .replace(/[！-～]/g, match => String.fromCharCode(match.charCodeAt(0) - 0xFEE0))
+    .replace(/[\s　]/g, '')
+    .toLowerCase()
+    .replace(/n'/g, 'ん')
+    .replace(/n$/, 'ん')
+  return katakanaToHiragana(toHiragana(compact))
+}
+
+/** Typos allowed for an answer of this length: none up to 3 letters, then more as it grows */
+export function typoTolerance(length: number): number {
+  if (length <= 3) return 0
+  if (length <= 5) return 1
+  if (length <= 7) return 2
+  return 2 + Math.floor(length / 7)
+}
+
+function meaningLists(subject: Subject, options: AnswerCheckOptions): { accepted: string[]; blacklisted: string[] } {
+  const accepted: string[] = []
+  const blacklisted: string[] = []
+  subject.data.meanings.forEach(m => {
+    if (m.accepted_answer === false) blacklisted.push(m.meaning)
+    else accepted.push(m.meaning)
+  })
+  ;(subject.data.auxiliary_meanings ?? []).forEach(aux => {
+    if (aux.type === 'whitelist') accepted.push(aux.meaning)
+    else blacklisted.push(aux.meaning)
+  })
+  ;(options.userSynonyms ?? []).forEach(synonym => accepted.push(synonym))
+  return { accepted, blacklisted }
+}
+
+function closestMeaning(answer: string, meanings: string[]): { meaning: string; distance: number } | null {
+  let closest: { meaning: string; distance: number } | null = null
+  for (const meaning of meanings) {
+    const distance = levenshteinDistance(answer, normalizeMeaning(meaning))
+    if (!closest || distance < closest.distance) closest = { meaning, distance }
+  }
+  return closest
+}
+
+/** Check an English answer against the subject's meanings and the user's synonyms */
+export function checkMeaning(subject: Subject, input: string, options: AnswerCheckOptions = {}): AnswerCheckResult {
+  if (!input.trim()) return { verdict: 'retry', notice: 'empty' }
+
+  // Kana in the meaning field is a field mixup, not a wrong meaning
+  if (isJapanese(input.trim())) return { verdict: 'retry', notice: 'readingInMeaning' }
+  const answer = normalizeMeaning(input)
+  if (!answer) return { verdict: 'retry', notice: 'empty' }
+
+  const { accepted, blacklisted } = meaningLists(subject, options)
+  const exact = accepted.find(meaning => normalizeMeaning(meaning) === answer)
+  if (exact) return { verdict: 'correct', matched: exact }
+  if (blacklisted.some(meaning => normalizeMeaning(meaning) === answer)) return { verdict: 'incorrect' }
+
+  // A typo only counts when no blacklisted meaning is at least as close. Tolerance follows
+  // what was typed, so a short input cannot pass as a typo of a longer meaning.
+  const closest = closestMeaning(answer, accepted)
+  if (!closest || closest.distance > typoTolerance(Math.min(answer.length, normalizeMeaning(closest.meaning).length))) {
+    return { verdict: 'incorrect' }
+  }
+  const closestBlacklisted = closestMeaning(answer, blacklisted)
+  if (closestBlacklisted && closestBlacklisted.distance <= closest.distance) return { verdict: 'incorrect' }
+
+  return { verdict: 'correct', notice: 'typo', matched: closest.meaning }
+}
+
+/** Check a kana answer against the subject's readings */
+export function checkReading(subject: Subject, input: string, options: AnswerCheckOptions = {}): AnswerCheckResult {
+  if (!input.trim()) return { verdict: 'retry', notice: 'empty' }
+  const answer = normalizeReading(input)
+
+  const readings = subject.data.readings ?? []
+  const auxiliary = subject.data.auxiliary_readings ?? []
+  const accepted = readings
+    .filter(r => r.accepted_answer !== false)
+    .map(r => r.reading)
+    .concat(auxiliary.filter(aux => aux.type === 'whitelist').map(aux => aux.reading))
+  const matches = (reading: string) => normalizeReading(reading) === answer
+
+  const exact = accepted.find(matches)
+  if (exact) return { verdict: 'correct', matched: exact }
+  if (auxiliary.some(aux => aux.type === 'blacklist' && matches(aux.reading))) return { verdict: 'incorrect' }
+
+  // A real reading of the kanji, just not the one asked for: "we were looking for the on'yomi"
+  const other = readings.find(r => r.accepted_answer === false && matches(r.reading))
+  const wanted = readings.find(r => r.accepted_answer !== false)?.type
+  if (other && subject.object === 'kanji' && wanted && wanted !== other.type) {
+    return { verdict: 'retry', notice: 'otherReadingType', matched: other.reading, expectedReadingType: wanted }
+  }
+
+  // The reading field converts as you type, so English arrives as kana ("fire" -> ふぃれ)
+  const meaning = meaningLists(subject, options).accepted
+    .find(m => toHiragana(normalizeMeaning(m).replace(/ /g, '')) === answer)
+  if (meaning) return { verdict: 'retry', notice: 'meaningInReading', matched: meaning }
+  if (!isKana(answer)) return { verdict: 'retry', notice: 'notKana' }
+
+  // The IME turns "nn" into ん before the vowel arrives, so "onna" becomes おんあ
+  if (/ん[あいうえお]/.test(answer)) {
+    const intended = answer.replace(/ん([あいうえお])/g, (_, vowel: string) => 'ん' + NA_ROW[vowel])
+    const reading = accepted.find(r => normalizeReading(r) === intended)
+    if (reading) return { verdict: 'retry', notice: 'singleN', matched: reading }
+  }
+
+  return { verdict: 'incorrect' }
+}
+
+/** Check an answer for either question type */
+export function checkAnswer(
+  subject: Subject,
+  type: QuestionType,
+  input: string,
+  options: AnswerCheckOptions = {}
+): AnswerCheckResult {
+  return type === 'meaning' ? checkMeaning(subject, input, options) : checkReading(subject, input, options)
+}
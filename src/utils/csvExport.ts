@@ -1,4 +1,5 @@
 import type { Assignment, ReviewStatistic, LevelProgression, Subject, SpacedRepetitionSystem } from '@/types/wanikani'
+import { createSrsModels, getSrsModel, getStageName, isBurnedStage } from './srsModel'
 
 /**
  * Escapes a CSV field value by wrapping in quotes if necessary
@@ -74,25 +75,6 @@ export function downloadCSV(csvContent: string, filename: string): void {
   URL.revokeObjectURL(url)
 }
 
-/**
- * Helper to get SRS stage name from stage number
- */
-function getSRSStageName(srsStage: number): string {
-  const stageNames: Record<number, string> = {
-    0: 'Lesson',
-    1: 'Apprentice 1',
-    2: 'Apprentice 2',
-    3: 'Apprentice 3',
-    4: 'Apprentice 4',
-    5: 'Guru 1',
-    6: 'Guru 2',
-    7: 'Master',
-    8: 'Enlightened',
-    9: 'Burned'
-  }
-  return stageNames[srsStage] || `Stage ${srsStage}`
-}
-
 /**
  * Calculate days between two dates
  */
@@ -124,25 +106,34 @@ export interface AssignmentExport {
   days_since_started: number | null
 }
 
-export function transformAssignments(assignments: Assignment[]): AssignmentExport[] {
+export function transformAssignments(
+  assignments: Assignment[],
+  subjects: Subject[],
+  srsSystems: SpacedRepetitionSystem[]
+): AssignmentExport[] {
   const now = new Date()
+  const subjectById = new Map(subjects.map(s => [s.id, s]))
+  const srsModels = createSrsModels(srsSystems)
   
-  return assignments.map(a => ({
-    id: a.id,
-    subject_id: a.data.subject_id,
-    subject_type: a.data.subject_type,
-    srs_stage: a.data.srs_stage,
-    srs_stage_name: getSRSStageName(a.data.srs_stage),
-    unlocked_at: a.data.unlocked_at || '',
-    started_at: a.data.started_at || '',
-    passed_at: a.data.passed_at || '',
-    burned_at: a.data.burned_at || '',
-    available_at: a.data.available_at || '',
-    resurrected_at: a.data.resurrected_at || '',
-    is_burned: a.data.srs_stage === 9,
-    days_since_unlock: daysBetween(a.data.unlocked_at, now),
-    days_since_started: daysBetween(a.data.started_at, now)
-  }))
+  return assignments.map(a => {
+    const srs = getSrsModel(srsModels, subjectById.get(a.data.subject_id))
+    return {
+      id: a.id,
+      subject_id: a.data.subject_id,
+      subject_type: a.data.subject_type,
+      srs_stage: a.data.srs_stage,
+      srs_stage_name: getStageName(srs, a.data.srs_stage),
+      unlocked_at: a.data.unlocked_at || '',
+      started_at: a.data.started_at || '',
+      passed_at: a.data.passed_at || '',
+      burned_at: a.data.burned_at || '',
+      available_at: a.data.available_at || '',
+      resurrected_at: a.data.resurrected_at || '',
+      is_burned: isBurnedStage(srs, a.data.srs_stage),
+      days_since_unlock: daysBetween(a.data.unlocked_at, now),
+      days_since_started: daysBetween(a.data.started_at, now)
+    }
+  })
 }
 
 export const assignmentColumns = [
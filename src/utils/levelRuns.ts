@@ -0,0 +1,95 @@
+import type { LevelProgression, Reset } from '@/types/wanikani'
+
+/**
+ * Level progressions across resets. A confirmed reset abandons the progressions
+ * from the target level up, and a new run starts at the target level; pacing is
+ * measured on that active run only.
+ */
+
+export interface LevelDuration {
+  level: number
+  passedAt: Date
+  durationMs: number
+}
+
+export interface ResetMarker {
+  date: Date
+  originalLevel: number
+  targetLevel: number
+}
+
+function progressionStart(progression: LevelProgression): string | undefined {
+  return progression.data.unlocked_at || progression.data.started_at
+}
+
+/**
+ * Most recent reset that took effect (unconfirmed resets change nothing yet)
+ */
+export function getLatestConfirmedReset(resets: Reset[]): Reset | null {
+  return resets.reduce<Reset | null>((latest, reset) => {
+    if (!reset.data.confirmed_at) return latest
+    return !latest || reset.data.confirmed_at > latest.data.confirmed_at! ? reset : latest
+  }, null)
+}
+
+/**
+ * Confirmed resets in date order, for drawing on timelines
+ */
+export function getResetMarkers(resets: Reset[]): ResetMarker[] {
+  return resets
+    .filter(reset => reset.data.confirmed_at)
+    .map(reset => ({
+      date: new Date(reset.data.confirmed_at!),
+      originalLevel: reset.data.original_level,
+      targetLevel: reset.data.target_level
+    }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+/**
+ * The account's current progression per level: abandoned ones dropped, and the
+ * latest one kept if a level was started more than once
+ */
+export function getCurrentProgressions(levelProgressions: LevelProgression[]): LevelProgression[] {
+  const byLevel = new Map<number, LevelProgression>()
+  levelProgressions.forEach(progression => {
+    if (progression.data.abandoned_at) return
+    const existing = byLevel.get(progression.data.level)
+    if (!existing || (progressionStart(progression) ?? '') > (progressionStart(existing) ?? '')) {
+      byLevel.set(progression.data.level, progression)
+    }
+  })
+  return Array.from(byLevel.values()).sort((a, b) => a.data.level - b.data.level)
+}
+
+/**
+ * Current progressions started after the latest confirmed reset (all of them without one)
+ */
+export function getActiveRunProgressions(levelProgressions: LevelProgression[], resets: Reset[]): LevelProgression[] {
+  const current = getCurrentProgressions(levelProgressions)
+  const reset = getLatestConfirmedReset(resets)
+  if (!reset) return current
+  const runStart = reset.data.confirmed_at!
+  return current.filter(progression => (progressionStart(progression) ?? progression.data.passed_at ?? '') >= runStart)
+}
+
+/**
+ * Time from unlock to level-up for each passed level of the active run
+ */
+export function getLevelDurations(
+  levelProgressions: LevelProgression[],
+  resets: Reset[],
+  userStartedAt: string
+): LevelDuration[] {
+  const runStart = getLatestConfirmedReset(resets)?.data.confirmed_at ?? userStartedAt
+  const passed = getActiveRunProgressions(levelProgressions, resets).filter(lp => lp.data.passed_at)
+
+  return passed
+    .map((progression, index) => {
+      const previousPassed = passed[index - 1]?.data.passed_at
+      const start = progressionStart(progression) || previousPassed || runStart
+      const passedAt = new Date(progression.data.passed_at!)
+      return { level: progression.data.level, passedAt, durationMs: passedAt.getTime() - new Date(start).getTime() }
+    })
+    .filter(duration => duration.durationMs > 0)
+}
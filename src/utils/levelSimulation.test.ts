@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { buildFixtures } from '@/services/mock/fixtures'
+import type { LevelProgression, Reset, ReviewStatistic, SpacedRepetitionSystem, Subject } from '@/types/wanikani'
+import { simulateLevelUps, type LevelSimulationInput } from './levelSimulation'
+
+const NOW = Date.UTC(2024, 0, 1)
+const fixtures = buildFixtures(NOW)
+const user = fixtures.user.data as { started_at: string }
+
+const input: LevelSimulationInput = {
+  levelProgressions: fixtures.levelProgressions as unknown as LevelProgression[],
+  resets: fixtures.resets as unknown as Reset[],
+  reviewStats: fixtures.reviewStatistics as unknown as ReviewStatistic[],
+  subjects: fixtures.subjects as unknown as Subject[],
+  srsSystems: fixtures.spacedRepetitionSystems as unknown as SpacedRepetitionSystem[],
+  userLevel: 4,
+  userStartedAt: user.started_at,
+  trials: 100,
+  seed: 7,
+  now: NOW
+}
+
+describe('simulateLevelUps', () => {
+  it('projects every level from the one in progress to 60', () => {
+    const result = simulateLevelUps(input)
+    expect(result.levels[0].level).toBe(4)
+    expect(result.levels[result.levels.length - 1].level).toBe(60)
+    expect(result.sampleSize).toBe(3)
+    expect(result.passRate).toBeGreaterThan(0)
+    expect(result.passRate).toBeLessThanOrEqual(1)
+  })
+
+  it('orders the bands and the levels', () => {
+    const { levels } = simulateLevelUps(input)
+    levels.forEach((eta, index) => {
+      expect(eta.p10.getTime()).toBeLessThanOrEqual(eta.p50.getTime())
+      expect(eta.p50.getTime()).toBeLessThanOrEqual(eta.p90.getTime())
+      if (index > 0) expect(eta.p50.getTime()).toBeGreaterThan(levels[index - 1].p50.getTime())
+    })
+    expect(levels[0].p10.getTime()).toBeGreaterThan(NOW)
+  })
+
+  it('gives the same bands for the same seed', () => {
+    expect(simulateLevelUps(input)).toEqual(simulateLevelUps(input))
+    expect(simulateLevelUps({ ...input, seed: 8 }).levels[10].p50).not.toEqual(simulateLevelUps(input).levels[10].p50)
+  })
+
+  it('takes at least the SRS path for a level without delays', () => {
+    const { medianDaysPerLevel } = simulateLevelUps(input)
+    // Radicals to Guru and then kanji to Guru take over six days on the standard system
+    expect(medianDaysPerLevel).toBeGreaterThan(6)
+  })
+
+  it('flags the levels on the accelerated system', () => {
+    const { levels } = simulateLevelUps(input)
+    expect(levels.filter(eta => eta.accelerated).map(eta => eta.level)).toEqual([43, 44, 45, 46, 47, 48, 49, 50, 51, 52, 53, 54, 55, 56, 57, 58, 59, 60])
+  })
+
+  it('has nothing to project past level 60', () => {
+    expect(simulateLevelUps({ ...input, levelProgressions: [], userLevel: 61 }).levels).toEqual([])
+  })
+})
@@ -0,0 +1,250 @@
+import type { LevelProgression, Reset, ReviewStatistic, SpacedRepetitionSystem, Subject } from '@/types/wanikani'
+import { getActiveRunProgressions, getLatestConfirmedReset, getLevelDurations } from './levelRuns'
+import { createLevelSrsLookup, createSrsModels, type SrsModel } from './srsModel'
+
+/**
+ * Monte Carlo level-up projection. Each trial plays every remaining level through
+ * the SRS: radicals to Guru, then kanji until 90% are Guru, each review passing with
+ * a pass rate drawn from the user's own review statistics. On top of that path comes
+ * a delay drawn from the user's past levels (how much longer they took than the SRS
+ * path would have), which covers lessons done late and reviews not done on time.
+ * Each level runs on the systems its radicals and kanji name (the accelerated one for
+ * levels 1-2 and 43+ when a level's subjects are not loaded).
+ */
+
+export interface LevelEta {
+  level: number
+  // Whether the level's radicals or kanji run on the accelerated system
+  accelerated: boolean
+  p10: Date
+  p50: Date
+  p90: Date
+}
+
+export interface LevelSimulationResult {
+  // One entry per future level, the level in progress first
+  levels: LevelEta[]
+  trials: number
+  // Past levels the delays were drawn from (0 = default pace)
+  sampleSize: number
+  // Median days per level over the simulated levels
+  medianDaysPerLevel: number
+  // Mean pass rate of radical and kanji reviews used in the trials
+  passRate: number
+}
+
+export interface LevelSimulationInput {
+  levelProgressions: LevelProgression[]
+  resets: Reset[]
+  reviewStats: ReviewStatistic[]
+  subjects: Subject[]
+  srsSystems: SpacedRepetitionSystem[]
+  userLevel: number
+  userStartedAt: string
+  trials?: number
+  seed?: number
+  now?: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const MAX_LEVEL = 60
+const DEFAULT_TRIALS = 500
+// Recent levels describe the current pace better than the first ones
+const HISTORY_WINDOW = 10
+// Without history, a level takes about a week
+const DEFAULT_LEVEL_DAYS = 7
+const DEFAULT_PASS_RATE = 0.85
+// Typical item counts when a level's subjects are not loaded
+const DEFAULT_RADICALS = 5
+const DEFAULT_KANJI = 30
+const LEVEL_UP_KANJI_SHARE = 0.9
+
+// Mulberry32, so the same data always gives the same bands
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state |= 0
+    state = (state + 0x6D2B79F5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))
+  return sorted[index]
+}
+
+/** Wait before each Apprentice review (stage 1-4), in ms */
+function apprenticeIntervals(model: SrsModel): number[] {
+  return model.intervals.slice(model.startingStage, model.passingStage)
+}
+
+/** Chance an item passes a review: both its meaning and its reading right */
+function getPassRates(reviewStats: ReviewStatistic[]): { radical: number[]; kanji: number[] } {
+  const rates = { radical: [] as number[], kanji: [] as number[] }
+  reviewStats.forEach(stat => {
+    if (stat.data.subject_type !== 'radical' && stat.data.subject_type !== 'kanji') return
+    const meaningTotal = stat.data.meaning_correct + stat.data.meaning_incorrect
+    if (meaningTotal === 0) return
+    const readingTotal = stat.data.reading_correct + stat.data.reading_incorrect
+    const meaning = stat.data.meaning_correct / meaningTotal
+    const reading = readingTotal > 0 ? stat.data.reading_correct / readingTotal : 1
+    rates[stat.data.subject_type].push(meaning * reading)
+  })
+  return rates
+}
+
+/** Time for one item to reach Guru: a miss drops it one Apprentice stage */
+function timeToGuru(intervals: number[], passRate: number, random: () => number): number {
+  let stage = 0
+  let elapsed = 0
+  let guard = 0
+  while (stage < intervals.length && guard++ < 200) {
+    elapsed += intervals[stage]
+    if (random() < passRate) stage++
+    else stage = Math.max(0, stage - 1)
+  }
+  return elapsed
+}
+
+interface LevelShape {
+  radicals: number
+  kanji: number
+}
+
+interface LevelSchedule {
+  radical: number[]
+  kanji: number[]
+}
+
+/** SRS path of one level: the slowest radical, then the kanji that makes 90% */
+function simulateLevelPath(
+  shape: LevelShape,
+  schedule: LevelSchedule,
+  rates: { radical: number[]; kanji: number[] },
+  random: () => number
+): number {
+  const draw = (pool: number[]) => pool.length > 0 ? pool[Math.floor(random() * pool.length)] : DEFAULT_PASS_RATE
+
+  let radicalPhase = 0
+  for (let i = 0; i < shape.radicals; i++) {
+    radicalPhase = Math.max(radicalPhase, timeToGuru(schedule.radical, draw(rates.radical), random))
+  }
+
+  const kanjiTimes: number[] = []
+  for (let i = 0; i < shape.kanji; i++) {
+    kanjiTimes.push(timeToGuru(schedule.kanji, draw(rates.kanji), random))
+  }
+  kanjiTimes.sort((a, b) => a - b)
+  const needed = Math.max(1, Math.ceil(shape.kanji * LEVEL_UP_KANJI_SHARE))
+  return radicalPhase + (kanjiTimes[needed - 1] ?? 0)
+}
+
+export function simulateLevelUps(input: LevelSimulationInput): LevelSimulationResult {
+  const trials = input.trials ?? DEFAULT_TRIALS
+  const random = createRandom(input.seed ?? 1)
+  const now = input.now ?? Date.now()
+
+  const srsModels = createSrsModels(input.srsSystems)
+  const srsFor = createLevelSrsLookup(srsModels, input.subjects)
+  const scheduleFor = (level: number): LevelSchedule => ({
+    radical: apprenticeIntervals(srsFor(level, 'radical')),
+    kanji: apprenticeIntervals(srsFor(level, 'kanji'))
+  })
+  const rates = getPassRates(input.reviewStats)
+  const allRates = rates.radical.concat(rates.kanji)
+  const passRate = allRates.length > 0 ? allRates.reduce((sum, r) => sum + r, 0) / allRates.length : DEFAULT_PASS_RATE
+
+  const shapes = new Map<number, LevelShape>()
+  input.subjects.forEach(subject => {
+    if (subject.object !== 'radical' && subject.object !== 'kanji') return
+    const shape = shapes.get(subject.data.level) ?? { radicals: 0, kanji: 0 }
+    if (subject.object === 'radical') shape.radicals++
+    else shape.kanji++
+    shapes.set(subject.data.level, shape)
+  })
+  const shapeFor = (level: number): LevelShape => {
+    const shape = shapes.get(level)
+    return shape && shape.kanji > 0 ? shape : { radicals: DEFAULT_RADICALS, kanji: DEFAULT_KANJI }
+  }
+
+  // Average SRS path of a level, to tell how much of a past level was the user's own delay
+  const meanPathCache = new Map<number, number>()
+  const meanPath = (level: number) => {
+    const cached = meanPathCache.get(level)
+    if (cached !== undefined) return cached
+    let total = 0
+    for (let i = 0; i < 100; i++) total += simulateLevelPath(shapeFor(level), scheduleFor(level), rates, random)
+    meanPathCache.set(level, total / 100)
+    return total / 100
+  }
+
+  const durations = getLevelDurations(input.levelProgressions, input.resets, input.userStartedAt).slice(-HISTORY_WINDOW)
+  const delays = durations.length > 0
+    ? durations.map(duration => Math.max(0, duration.durationMs - meanPath(duration.level)))
+    : [Math.max(0, DEFAULT_LEVEL_DAYS * DAY_MS - meanPath(Math.max(3, input.userLevel)))]
+
+  // The level in progress started when it unlocked; without one, at the last level-up
+  const active = getActiveRunProgressions(input.levelProgressions, input.resets)
+  const passed = active.filter(lp => lp.data.passed_at)
+  const lastPassed = passed[passed.length - 1]
+  const startLevel = Math.max((lastPassed?.data.level ?? 0) + 1, input.userLevel)
+  if (startLevel > MAX_LEVEL) {
+    return { levels: [], trials, sampleSize: durations.length, medianDaysPerLevel: 0, passRate }
+  }
+  const inProgress = active.find(lp => lp.data.level === startLevel && !lp.data.passed_at)
+  const startedAt = Date.parse(
+    inProgress?.data.unlocked_at || inProgress?.data.started_at || lastPassed?.data.passed_at ||
+    getLatestConfirmedReset(input.resets)?.data.confirmed_at || input.userStartedAt
+  )
+  const elapsed = Math.max(0, now - startedAt)
+
+  const levelCount = MAX_LEVEL - startLevel + 1
+  const finishes: number[][] = Array.from({ length: levelCount }, () => [])
+  const perLevelDays: number[] = []
+
+  for (let trial = 0; trial < trials; trial++) {
+    let clock = startedAt
+    for (let offset = 0; offset < levelCount; offset++) {
+      const level = startLevel + offset
+      const sample = () => simulateLevelPath(shapeFor(level), scheduleFor(level), rates, random) +
+        delays[Math.floor(random() * delays.length)]
+      let duration = sample()
+
+      // The current level has already run for a while: keep to trials that outlast it
+      if (offset === 0) {
+        for (let attempt = 0; duration <= elapsed && attempt < 20; attempt++) duration = sample()
+        if (duration <= elapsed) duration = elapsed + meanPath(level) / 2
+      }
+
+      clock += duration
+      finishes[offset].push(clock)
+      perLevelDays.push(duration / DAY_MS)
+    }
+  }
+
+  const levels = finishes.map((times, offset) => {
+    const sorted = times.sort((a, b) => a - b)
+    const level = startLevel + offset
+    return {
+      level,
+      accelerated: srsModels.accelerated !== srsModels.standard &&
+        (srsFor(level, 'radical') === srsModels.accelerated || srsFor(level, 'kanji') === srsModels.accelerated),
+      p10: new Date(percentile(sorted, 0.1)),
+      p50: new Date(percentile(sorted, 0.5)),
+      p90: new Date(percentile(sorted, 0.9))
+    }
+  })
+
+  return {
+    levels,
+    trials,
+    sampleSize: durations.length,
+    medianDaysPerLevel: percentile(perLevelDays.sort((a, b) => a - b), 0.5),
+    passRate
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * WebCrypto helpers for the passphrase lock: PBKDF2 key derivation and AES-GCM sealing
+ */
+
+export interface EncryptedPayload {
+  format: 'aes-gcm-v1'
+  iv: string // base64
+  data: string // base64 ciphertext
+}
+
+export const PBKDF2_ITERATIONS = 310000
+
+/**
+ * Base64 without spreading large arrays into String.fromCharCode
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.prototype.slice.call(bytes, i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+export function fromBase64(value: string): Uint8Array {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export function randomSalt(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(16))
+}
+
+/**
+ * Non-extractable AES-GCM key derived from a passphrase with PBKDF2-SHA-256
+ */
+export async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  return typeof value === 'object' && value !== null &&
+    (value as EncryptedPayload).format === 'aes-gcm-v1' &&
+    typeof (value as EncryptedPayload).iv === 'string' &&
+    typeof (value as EncryptedPayload).data === 'string'
+}
+
+/**
+ * Encrypt any JSON-serializable value
+ */
+export async function encryptJson(key: CryptoKey, value: unknown): Promise<EncryptedPayload> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const plaintext = new TextEncoder().encode(JSON.stringify(value))
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext)
+  return { format: 'aes-gcm-v1', iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) }
+}
+
+/**
+ * Decrypt a payload from encryptJson. Rejects when the key is wrong or the data was altered.
+ */
+export async function decryptJson<T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  )
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T
+}
@@ -0,0 +1,121 @@
+import { type EncryptedPayload, encryptJson, decryptJson } from './passphraseCrypto'
+
+/**
+ * Saved WaniKani accounts ("profiles") for households sharing one browser.
+ * With the passphrase lock enabled they are stored encrypted as a whole.
+ */
+
+export interface Profile {
+  id: string
+  label: string
+  token: string
+  color: string // Avatar background, hex
+  userId?: string // /user id once resolved; namespaces the cache
+  username?: string
+  level?: number
+  allowWrites?: boolean // Opted in to write calls (starting lessons)
+  preferredVoiceActorId?: number // Overrides the account's default voice actor
+  dailyReviewTarget?: number // Reviews a day the lesson pace is planned around
+}
+
+export interface ProfileState {
+  profiles: Profile[]
+  activeId: string | null
+}
+
+export const PROFILE_COLORS = ['#ff00aa', '#00aaff', '#aa00ff', '#00c48c', '#ff8a00', '#5c6bc0']
+
+const PROFILES_KEY = 'wanikani-profiles'
+const ENCRYPTED_PROFILES_KEY = 'wanikani-profiles-encrypted'
+// Single token saved before profiles existed
+const LEGACY_TOKEN_KEY = 'wanikani-api-token'
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * New profile; the color defaults to the first one not used yet
+ */
+export function createProfile(token: string, label: string, existing: Profile[], color?: string): Profile {
+  const used = new Set(existing.map(p => p.color))
+  return {
+    id: createId(),
+    label,
+    token,
+    color: color || PROFILE_COLORS.find(c => !used.has(c)) || PROFILE_COLORS[existing.length % PROFILE_COLORS.length]
+  }
+}
+
+function normalize(state: ProfileState): ProfileState {
+  const profiles = Array.isArray(state.profiles) ? state.profiles : []
+  const activeId = profiles.some(p => p.id === state.activeId) ? state.activeId : profiles[0]?.id ?? null
+  return { profiles, activeId }
+}
+
+/**
+ * Read saved profiles, turning a legacy single token into the first profile.
+ * Pass the lock key when the passphrase lock is enabled; a wrong key rejects.
+ */
+export async function loadProfiles(key: CryptoKey | null): Promise<ProfileState> {
+  if (key) {
+    const sealed = localStorage.getItem(ENCRYPTED_PROFILES_KEY)
+    if (sealed) {
+      return normalize(await decryptJson<ProfileState>(key, JSON.parse(sealed) as EncryptedPayload))
+    }
+  }
+
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY)
+    if (saved) {
+      return normalize(JSON.parse(saved) as ProfileState)
+    }
+
+    const legacyToken = localStorage.getItem(LEGACY_TOKEN_KEY)
+    if (legacyToken) {
+      const profile = createProfile(legacyToken, '', [])
+      const state = { profiles: [profile], activeId: profile.id }
+      await saveProfiles(state, key)
+      return state
+    }
+  } catch (error) {
+    console.error('Error loading profiles from localStorage:', error)
+  }
+  return { profiles: [], activeId: null }
+}
+
+/**
+ * Persist profiles and the active selection, encrypted when a lock key is given.
+ * Only one form is kept, so enabling or disabling the lock rewrites the other away.
+ */
+export async function saveProfiles(state: ProfileState, key: CryptoKey | null): Promise<void> {
+  try {
+    if (key) {
+      const sealed = await encryptJson(key, state)
+      localStorage.setItem(ENCRYPTED_PROFILES_KEY, JSON.stringify(sealed))
+      localStorage.removeItem(PROFILES_KEY)
+    } else {
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(state))
+      localStorage.removeItem(ENCRYPTED_PROFILES_KEY)
+    }
+    localStorage.removeItem(LEGACY_TOKEN_KEY)
+  } catch (error) {
+    console.error('Error saving profiles to localStorage:', error)
+  }
+}
+
+/**
+ * Forget every saved profile (used when a forgotten passphrase is reset)
+ */
+export function clearSavedProfiles(): void {
+  localStorage.removeItem(PROFILES_KEY)
+  localStorage.removeItem(ENCRYPTED_PROFILES_KEY)
+  localStorage.removeItem(LEGACY_TOKEN_KEY)
+}
+
+/**
+ * Name to show for a profile: its label, then the WaniKani username
+ */
+export function profileDisplayName(profile: Profile): string {
+  return profile.label || profile.username || `…${profile.token.slice(-4)}`
+}
@@ -0,0 +1,22 @@
+import type { PronunciationAudio } from '@/types/wanikani'
+
+/**
+ * Choosing between a subject's pronunciation recordings (one per voice actor
+ * and format), honoring the user's default voice actor preference.
+ */
+
+/**
+ * Recordings with the preferred voice actor first; the rest keep their order
+ */
+export function sortAudiosByPreference(audios: PronunciationAudio[], preferredVoiceActorId?: number): PronunciationAudio[] {
+  if (preferredVoiceActorId === undefined) return audios
+  const preferred = audios.filter(audio => audio.metadata.voice_actor_id === preferredVoiceActorId)
+  return preferred.concat(audios.filter(audio => audio.metadata.voice_actor_id !== preferredVoiceActorId))
+}
+
+/**
+ * Recording to play when only one is wanted
+ */
+export function pickPreferredAudio(audios: PronunciationAudio[], preferredVoiceActorId?: number): PronunciationAudio | undefined {
+  return sortAudiosByPreference(audios, preferredVoiceActorId)[0]
+}
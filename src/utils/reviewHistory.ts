@@ -0,0 +1,448 @@
+import type { Assignment, Review, SpacedRepetitionSystem, Subject } from '@/types/wanikani'
+import { createSrsModels, getReviewStages, getSrsModel } from './srsModel'
+
+/**
+ * Aggregations over study activity: the /reviews history (one record per
+ * completed review) and lesson/review events derived from assignments.
+ */
+
+export type DayKey = string // yyyy-mm-dd in local time
+
+export const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Local calendar day for a timestamp
+ */
+export function toDayKey(value: string | Date): DayKey {
+  const d = value instanceof Date ? value : new Date(value)
+  const year = d.getFullYear()
+  const month = `${d.getMonth() + 1}`.padStart(2, '0')
+  const day = `${d.getDate()}`.padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * A review counts as correct when both meaning and reading were answered without mistakes
+ */
+export function isReviewCorrect(review: Review): boolean {
+  return review.data.incorrect_meaning_answers === 0 && review.data.incorrect_reading_answers === 0
+}
+
+/**
+ * Reviews created within the last `days` days (all reviews when days is null)
+ */
+export function filterReviewsByDays(reviews: Review[], days: number | null, now: number = Date.now()): Review[] {
+  if (days === null) return reviews
+  const cutoff = now - days * DAY_MS
+  return reviews.filter(r => new Date(r.data.created_at).getTime() >= cutoff)
+}
+
+export interface DailyReviewStats {
+  day: DayKey
+  total: number
+  correct: number
+  accuracy: number // 0-100
+}
+
+/**
+ * Review count and accuracy per calendar day, oldest first.
+ * Days without reviews inside the covered range are included with zero counts.
+ */
+export function getDailyReviewStats(reviews: Review[]): DailyReviewStats[] {
+  if (reviews.length === 0) return []
+
+  const byDay = new Map<DayKey, { total: number; correct: number }>()
+  let earliest = Infinity
+  let latest = -Infinity
+
+  reviews.forEach(review => {
+    const time = new Date(review.data.created_at).getTime()
+    earliest = Math.min(earliest, time)
+    latest = Math.max(latest, time)
+
+    const key = toDayKey(review.data.created_at)
+    const entry = byDay.get(key) || { total: 0, correct: 0 }
+    entry.total++
+    if (isReviewCorrect(review)) entry.correct++
+    byDay.set(key, entry)
+  })
+
+  const result: DailyReviewStats[] = []
+  const start = new Date(earliest)
+  const cursor = new Date(start.getFullYear(), start.getMonth(), start.getDate())
+  const end = new Date(latest)
+
+  while (cursor <= end) {
+    const key = toDayKey(cursor)
+    const entry = byDay.get(key) || { total: 0, correct: 0 }
+    result.push({
+      day: key,
+      total: entry.total,
+      correct: entry.correct,
+      accuracy: entry.total > 0 ? (entry.correct / entry.total) * 100 : 0
+    })
+    cursor.setDate(cursor.getDate() + 1)
+  }
+
+  return result
+}
+
+/**
+ * Accuracy over a trailing window of days, smoothing out light days.
+ * Returns null for positions where the window holds no reviews.
+ */
+export function getRollingAccuracy(daily: DailyReviewStats[], windowDays: number = 7): Array<number | null> {
+  return daily.map((_, index) => {
+    const window = daily.slice(Math.max(0, index - windowDays + 1), index + 1)
+    const total = window.reduce((sum, d) => sum + d.total, 0)
+    const correct = window.reduce((sum, d) => sum + d.correct, 0)
+    return total > 0 ? (correct / total) * 100 : null
+  })
+}
+
+/**
+ * Count of reviews for each starting -> ending SRS stage pair.
+ * matrix[start][end], stages 0-9.
+ */
+export function getStageTransitionMatrix(reviews: Review[]): number[][] {
+  const matrix = Array.from({ length: 10 }, () => new Array<number>(10).fill(0))
+  reviews.forEach(review => {
+    const start = review.data.starting_srs_stage
+    const end = review.data.ending_srs_stage
+    if (start >= 0 && start <= 9 && end >= 0 && end <= 9) {
+      matrix[start][end]++
+    }
+  })
+  return matrix
+}
+
+export type RetentionSubjectType = 'radical' | 'kanji' | 'vocabulary'
+
+export const RETENTION_SUBJECT_TYPES: RetentionSubjectType[] = ['radical', 'kanji', 'vocabulary']
+
+export interface RetentionCell {
+  total: number
+  passed: number
+  rate: number | null // 0-100, null without reviews
+}
+
+export interface RetentionRow {
+  stage: number // starting SRS stage
+  all: RetentionCell
+  byType: Record<RetentionSubjectType, RetentionCell>
+}
+
+export interface RetentionMatrix {
+  rows: RetentionRow[]
+  overall: RetentionCell
+}
+
+export interface FailedItem {
+  subjectId: number
+  subject?: Subject
+  failures: number
+  reviews: number
+  lowestEndingStage: number
+  lastFailedAt: string
+}
+
+/**
+ * A review keeps the item when it moves up a stage; any mistake moves it down
+ */
+export function isReviewRetained(review: Review): boolean {
+  return review.data.ending_srs_stage > review.data.starting_srs_stage
+}
+
+function toRetentionType(subject: Subject | undefined): RetentionSubjectType | null {
+  if (!subject) return null
+  return subject.object === 'kana_vocabulary' ? 'vocabulary' : subject.object
+}
+
+function emptyCell(): RetentionCell {
+  return { total: 0, passed: 0, rate: null }
+}
+
+function addToCell(cell: RetentionCell, passed: boolean): void {
+  cell.total++
+  if (passed) cell.passed++
+  cell.rate = (cell.passed / cell.total) * 100
+}
+
+/**
+ * Share of reviews that moved an item up, per starting SRS stage and subject type.
+ * Reviews of subjects that are not loaded count towards the "all" column only.
+ */
+export function getRetentionMatrix(
+  reviews: Review[],
+  subjects: Subject[],
+  srsSystems: SpacedRepetitionSystem[]
+): RetentionMatrix {
+  const subjectById = new Map(subjects.map(s => [s.id, s]))
+  const rows: RetentionRow[] = getReviewStages(createSrsModels(srsSystems).standard).map(stage => ({
+    stage,
+    all: emptyCell(),
+    byType: { radical: emptyCell(), kanji: emptyCell(), vocabulary: emptyCell() }
+  }))
+  const rowByStage = new Map(rows.map(row => [row.stage, row]))
+  const overall = emptyCell()
+
+  reviews.forEach(review => {
+    const row = rowByStage.get(review.data.starting_srs_stage)
+    if (!row) return
+    const passed = isReviewRetained(review)
+    addToCell(row.all, passed)
+    addToCell(overall, passed)
+    const type = toRetentionType(subjectById.get(review.data.subject_id))
+    if (type) addToCell(row.byType[type], passed)
+  })
+
+  return { rows, overall }
+}
+
+/**
+ * Items that dropped from a starting stage (optionally of one subject type),
+ * most failures first
+ */
+export function getFailedItems(
+  reviews: Review[],
+  subjects: Subject[],
+  stage: number,
+  type: RetentionSubjectType | null
+): FailedItem[] {
+  const subjectById = new Map(subjects.map(s => [s.id, s]))
+  const items = new Map<number, FailedItem>()
+
+  reviews.forEach(review => {
+    if (review.data.starting_srs_stage !== stage) return
+    const subject = subjectById.get(review.data.subject_id)
+    if (type && toRetentionType(subject) !== type) return
+
+    const item = items.get(review.data.subject_id) || {
+      subjectId: review.data.subject_id,
+      subject,
+      failures: 0,
+      reviews: 0,
+      lowestEndingStage: stage,
+      lastFailedAt: ''
+    }
+    item.reviews++
+    if (!isReviewRetained(review)) {
+      item.failures++
+      item.lowestEndingStage = Math.min(item.lowestEndingStage, review.data.ending_srs_stage)
+      if (review.data.created_at > item.lastFailedAt) item.lastFailedAt = review.data.created_at
+    }
+    items.set(review.data.subject_id, item)
+  })
+
+  return Array.from(items.values())
+    .filter(item => item.failures > 0)
+    .sort((a, b) => b.failures - a.failures || b.lastFailedAt.localeCompare(a.lastFailedAt))
+}
+
+export interface HourlyReviewStats {
+  hour: number // 0-23, local time
+  total: number
+  correct: number
+  accuracy: number // 0-100
+}
+
+/**
+ * Review count and accuracy per local hour of day
+ */
+export function getReviewsByHour(reviews: Review[]): HourlyReviewStats[] {
+  const hours = Array.from({ length: 24 }, (_, hour) => ({ hour, total: 0, correct: 0, accuracy: 0 }))
+  reviews.forEach(review => {
+    const bucket = hours[new Date(review.data.created_at).getHours()]
+    bucket.total++
+    if (isReviewCorrect(review)) bucket.correct++
+  })
+  hours.forEach(bucket => {
+    bucket.accuracy = bucket.total > 0 ? (bucket.correct / bucket.total) * 100 : 0
+  })
+  return hours
+}
+
+export interface ReviewSession {
+  start: number // ms timestamp of the first review
+  end: number // ms timestamp of the last review
+  reviews: number
+  correct: number
+}
+
+export type DayPeriod = 'night' | 'morning' | 'afternoon' | 'evening'
+
+export const DAY_PERIODS: DayPeriod[] = ['morning', 'afternoon', 'evening', 'night']
+
+export interface SessionBucketStats {
+  sessions: number
+  reviews: number
+  correct: number
+  accuracy: number | null // 0-100
+  // Reviews per minute while answering, null until a session spans some time
+  itemsPerMinute: number | null
+  averageMinutes: number | null
+}
+
+/**
+ * Splits the review log into study sessions wherever no review was
+ * submitted for more than gapMinutes
+ */
+export function getReviewSessions(reviews: Review[], gapMinutes: number): ReviewSession[] {
+  const gap = gapMinutes * 60 * 1000
+  const sorted = reviews
+    .map(review => ({ time: new Date(review.data.created_at).getTime(), correct: isReviewCorrect(review) }))
+    .sort((a, b) => a.time - b.time)
+
+  const sessions: ReviewSession[] = []
+  let current: ReviewSession | null = null
+  sorted.forEach(({ time, correct }) => {
+    if (!current || time - current.end > gap) {
+      current = { start: time, end: time, reviews: 0, correct: 0 }
+      sessions.push(current)
+    }
+    current.end = time
+    current.reviews++
+    if (correct) current.correct++
+  })
+  return sessions
+}
+
+/** Local part of the day a session started in */
+export function getDayPeriod(time: number): DayPeriod {
+  const hour = new Date(time).getHours()
+  if (hour < 6) return 'night'
+  if (hour < 12) return 'morning'
+  if (hour < 18) return 'afternoon'
+  return 'evening'
+}
+
+/**
+ * Accuracy, pace and length of a group of sessions. The pace counts the gaps
+ * between reviews, as a session's first answer has no measured start.
+ */
+export function getSessionStats(sessions: ReviewSession[]): SessionBucketStats {
+  let reviews = 0
+  let correct = 0
+  let timedReviews = 0
+  let minutes = 0
+  sessions.forEach(session => {
+    reviews += session.reviews
+    correct += session.correct
+    minutes += (session.end - session.start) / 60000
+    timedReviews += session.reviews - 1
+  })
+  return {
+    sessions: sessions.length,
+    reviews,
+    correct,
+    accuracy: reviews > 0 ? (correct / reviews) * 100 : null,
+    itemsPerMinute: minutes > 0 ? timedReviews / minutes : null,
+    averageMinutes: sessions.length > 0 ? minutes / sessions.length : null
+  }
+}
+
+/**
+ * Session stats per bucket, with sessions placed by their local start time
+ * (keyOf returns 0..size-1, e.g. the hour or the weekday)
+ */
+export function getSessionStatsBy(
+  sessions: ReviewSession[],
+  size: number,
+  keyOf: (start: Date) => number
+): SessionBucketStats[] {
+  const buckets: ReviewSession[][] = Array.from({ length: size }, () => [])
+  sessions.forEach(session => buckets[keyOf(new Date(session.start))].push(session))
+  return buckets.map(getSessionStats)
+}
+
+export interface ActivityEvent {
+  subjectId: number
+  time: number // ms timestamp
+  kind: 'lesson' | 'review'
+}
+
+/**
+ * Lesson events from assignment start times
+ */
+export function getLessonEvents(assignments: Assignment[]): ActivityEvent[] {
+  return assignments
+    .filter(a => a.data.started_at)
+    .map(a => ({ subjectId: a.data.subject_id, time: new Date(a.data.started_at!).getTime(), kind: 'lesson' as const }))
+}
+
+/**
+ * Review events from the /reviews history
+ */
+export function getReviewEvents(reviews: Review[]): ActivityEvent[] {
+  return reviews.map(r => ({ subjectId: r.data.subject_id, time: new Date(r.data.created_at).getTime(), kind: 'review' as const }))
+}
+
+/**
+ * Best-effort review events when no review history is available.
+ * Assignments only keep their latest state, so this recovers at most three reviews
+ * per item: the one that passed it, the one that burned it, and the most recent one
+ * (next available_at minus the interval of the current stage).
+ */
+export function inferReviewEvents(
+  assignments: Assignment[],
+  subjects: Subject[],
+  srsSystems: SpacedRepetitionSystem[]
+): ActivityEvent[] {
+  const subjectById = new Map(subjects.map(s => [s.id, s]))
+  const srsModels = createSrsModels(srsSystems)
+  const events: ActivityEvent[] = []
+
+  assignments.forEach(a => {
+    if (!a.data.started_at || a.data.hidden) return
+    const subjectId = a.data.subject_id
+    const times = new Set<number>()
+
+    if (a.data.passed_at) times.add(new Date(a.data.passed_at).getTime())
+    if (a.data.burned_at) times.add(new Date(a.data.burned_at).getTime())
+
+    // Stage 1 is reached by the lesson itself, so only later stages imply a review
+    const srs = getSrsModel(srsModels, subjectById.get(subjectId))
+    const interval = srs.intervals[a.data.srs_stage] ?? 0
+    if (a.data.available_at && a.data.srs_stage > srs.startingStage && interval > 0) {
+      const lastReview = new Date(a.data.available_at).getTime() - interval
+      if (lastReview <= Date.now()) times.add(lastReview)
+    }
+
+    times.forEach(time => events.push({ subjectId, time, kind: 'review' }))
+  })
+
+  return events
+}
+
+/**
+ * Current and longest runs of consecutive active days.
+ * The current streak still counts if today has no activity yet but yesterday did.
+ */
+export function getDailyStreaks(activeDays: Set<DayKey>, today: Date = new Date()): { current: number; longest: number } {
+  const dayOffset = (offset: number) => {
+    const d = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+    d.setDate(d.getDate() + offset)
+    return toDayKey(d)
+  }
+
+  let current = 0
+  let offset = activeDays.has(dayOffset(0)) ? 0 : -1
+  while (activeDays.has(dayOffset(offset))) {
+    current++
+    offset--
+  }
+
+  let longest = 0
+  let run = 0
+  let previous: Date | null = null
+  Array.from(activeDays).sort().forEach(key => {
+    const [year, month, day] = key.split('-').map(Number)
+    const date = new Date(year, month - 1, day)
+    const expected = previous ? new Date(previous.getFullYear(), previous.getMonth(), previous.getDate() + 1) : null
+    run = expected && toDayKey(expected) === key ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previous = date
+  })
+
+  return { current, longest: Math.max(longest, current) }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { buildFixtures } from '@/services/mock/fixtures'
+import type { SpacedRepetitionSystem, Subject } from '@/types/wanikani'
+import {
+  createLevelSrsLookup,
+  createSrsModels,
+  getNextReviewAt,
+  getSrsModel,
+  getStageAfterReview,
+  getStageGroup,
+  getStageName,
+  getTimeToStage,
+  isBurnedStage,
+  isPassedStage
+} from './srsModel'
+
+const HOUR_MS = 60 * 60 * 1000
+
+const fixtures = buildFixtures(Date.UTC(2024, 0, 1))
+const systems = fixtures.spacedRepetitionSystems as unknown as SpacedRepetitionSystem[]
+const subjects = fixtures.subjects as unknown as Subject[]
+
+describe('createSrsModels', () => {
+  it("falls back to WaniKani's two systems", () => {
+    const models = createSrsModels([])
+    expect(models.standard.intervals[1]).toBe(4 * HOUR_MS)
+    expect(models.accelerated.intervals[1]).toBe(2 * HOUR_MS)
+    expect(models.standard.passingStage).toBe(5)
+  })
+
+  it('builds the models from the API definitions', () => {
+    const models = createSrsModels(systems)
+    expect(models.byId.size).toBe(2)
+    expect(models.standard.name).toBe('Default system for dictionary subjects')
+    expect(models.accelerated.name).toBe('Default system for Radicals and Kanji in Level 1 and 2')
+    expect(models.standard.intervals[1]).toBe(4 * HOUR_MS)
+    expect(models.standard.intervals).toHaveLength(10)
+  })
+
+  it("gives each subject its own system, the standard one when unknown", () => {
+    const models = createSrsModels(systems)
+    const kanji = (level: number) => subjects.find(s => s.object === 'kanji' && s.data.level === level)
+    expect(getSrsModel(models, kanji(1))).toBe(models.accelerated)
+    expect(getSrsModel(models, kanji(3))).toBe(models.standard)
+    expect(getSrsModel(models, 9999)).toBe(models.standard)
+    expect(getSrsModel(models, null)).toBe(models.standard)
+  })
+})
+
+describe('createLevelSrsLookup', () => {
+  const models = createSrsModels(systems)
+
+  it("takes each level's system from its subjects", () => {
+    const srsFor = createLevelSrsLookup(models, subjects)
+    expect(srsFor(1, 'radical')).toBe(models.accelerated)
+    expect(srsFor(2, 'kanji')).toBe(models.accelerated)
+    expect(srsFor(3, 'kanji')).toBe(models.standard)
+  })
+
+  it('follows the subjects rather than the level number', () => {
+    const moved = subjects
+      .filter(s => s.object === 'kanji' && s.data.level === 3)
+      .map(s => ({ ...s, data: { ...s.data, level: 10, spaced_repetition_system_id: models.accelerated.id } }))
+    const srsFor = createLevelSrsLookup(models, moved)
+    expect(srsFor(10, 'kanji')).toBe(models.accelerated)
+    expect(srsFor(10, 'radical')).toBe(models.standard)
+  })
+
+  it('falls back to the fast levels for levels without subjects', () => {
+    const srsFor = createLevelSrsLookup(models, [])
+    expect(srsFor(1, 'kanji')).toBe(models.accelerated)
+    expect(srsFor(20, 'kanji')).toBe(models.standard)
+    expect(srsFor(50, 'radical')).toBe(models.accelerated)
+    expect(srsFor(50, 'vocabulary')).toBe(models.standard)
+  })
+})
+
+describe('stages', () => {
+  const model = createSrsModels(systems).standard
+
+  it('names and groups the stages', () => {
+    expect([0, 1, 4, 5, 6, 7, 8, 9].map(stage => getStageName(model, stage))).toEqual([
+      'Lesson', 'Apprentice 1', 'Apprentice 4', 'Guru 1', 'Guru 2', 'Master', 'Enlightened', 'Burned'
+    ])
+    expect(getStageGroup(model, 3)).toBe('apprentice')
+    expect(isPassedStage(model, 4)).toBe(false)
+    expect(isPassedStage(model, 5)).toBe(true)
+    expect(isBurnedStage(model, 9)).toBe(true)
+  })
+
+  it('moves one stage up, or down twice as far from Guru up', () => {
+    expect(getStageAfterReview(model, 3, 0)).toBe(4)
+    expect(getStageAfterReview(model, 8, 0)).toBe(9)
+    expect(getStageAfterReview(model, 4, 1)).toBe(3)
+    expect(getStageAfterReview(model, 4, 3)).toBe(2)
+    expect(getStageAfterReview(model, 7, 1)).toBe(5)
+    expect(getStageAfterReview(model, 2, 4)).toBe(1)
+  })
+
+  it('schedules the next review on the hour', () => {
+    const reviewedAt = Date.UTC(2024, 0, 1, 10, 42)
+    expect(getNextReviewAt(model, 1, reviewedAt)).toBe(Date.UTC(2024, 0, 1, 14))
+    expect(getNextReviewAt(model, 9, reviewedAt)).toBeNull()
+    expect(getNextReviewAt(model, 0, reviewedAt)).toBeNull()
+  })
+
+  it('adds the wait for the next review to the intervals in between', () => {
+    const now = Date.UTC(2024, 0, 1)
+    const availableAt = new Date(now + 2 * HOUR_MS).toISOString()
+    expect(getTimeToStage(model, 1, availableAt, 5, now)).toBe((2 + 8 + 23 + 47) * HOUR_MS)
+    expect(getTimeToStage(model, 5, availableAt, 5, now)).toBe(0)
+    expect(getTimeToStage(model, 4, null, 5, now)).toBe(0)
+  })
+})
@@ -0,0 +1,235 @@
+import type { SpacedRepetitionSystem, Subject } from '@/types/wanikani'
+
+/**
+ * SRS stages as the API defines them. Each subject names its spaced repetition system,
+ * and the systems differ in their intervals (radicals and kanji of the fast levels run
+ * on the accelerated one), so stage names, passing/burning and review timing all come
+ * from the subject's system rather than from the standard 9-stage table.
+ */
+
+export type SrsStageGroup = 'lesson' | 'apprentice' | 'guru' | 'master' | 'enlightened' | 'burned'
+
+export type StartedStageGroup = Exclude<SrsStageGroup, 'lesson'>
+
+/** Groups of started items, in SRS order (for filters and breakdowns) */
+export const SRS_STAGE_GROUPS: StartedStageGroup[] = ['apprentice', 'guru', 'master', 'enlightened', 'burned']
+
+export interface SrsModel {
+  id: number
+  name: string
+  unlockingStage: number
+  startingStage: number
+  passingStage: number
+  burningStage: number
+  // Wait after reaching each stage, in ms, indexed by stage position (0 = no review)
+  intervals: number[]
+}
+
+export interface SrsModelSet {
+  byId: Map<number, SrsModel>
+  // The system with the longer way to Guru
+  standard: SrsModel
+  // The system with the shorter way to Guru (the standard one when only one is known)
+  accelerated: SrsModel
+}
+
+type IntervalUnit = SpacedRepetitionSystem['data']['stages'][number]['interval_unit']
+
+const HOUR_MS = 60 * 60 * 1000
+
+// WaniKani's two systems, used until the definitions are loaded
+const STANDARD_HOURS = [0, 4, 8, 23, 47, 167, 335, 719, 2879, 0]
+const ACCELERATED_HOURS = [0, 2, 4, 8, 23, 167, 335, 719, 2879, 0]
+
+function intervalToMs(interval: number | null, unit: IntervalUnit): number {
+  if (!interval || !unit) return 0
+  switch (unit) {
+    case 'milliseconds': return interval
+    case 'seconds': return interval * 1000
+    case 'minutes': return interval * 60 * 1000
+    case 'hours': return interval * 60 * 60 * 1000
+    case 'days': return interval * 24 * 60 * 60 * 1000
+    case 'weeks': return interval * 7 * 24 * 60 * 60 * 1000
+    default: return 0
+  }
+}
+
+function fallbackModel(id: number, name: string, hours: number[]): SrsModel {
+  return {
+    id,
+    name,
+    unlockingStage: 0,
+    startingStage: 1,
+    passingStage: 5,
+    burningStage: 9,
+    intervals: hours.map(h => h * HOUR_MS)
+  }
+}
+
+export function buildSrsModel(system: SpacedRepetitionSystem): SrsModel {
+  const burningStage = system.data.burning_stage_position
+  const intervals: number[] = []
+  for (let position = 0; position <= burningStage; position++) {
+    const stage = system.data.stages.find(s => s.position === position)
+    intervals.push(intervalToMs(stage?.interval ?? null, stage?.interval_unit ?? null))
+  }
+  return {
+    id: system.id,
+    name: system.data.name,
+    unlockingStage: system.data.unlocking_stage_position,
+    startingStage: system.data.starting_stage_position,
+    passingStage: system.data.passing_stage_position,
+    burningStage,
+    intervals
+  }
+}
+
+/** Time from the first review to Guru */
+function timeToPass(model: SrsModel): number {
+  return model.intervals.slice(model.startingStage, model.passingStage).reduce((sum, ms) => sum + ms, 0)
+}
+
+export function createSrsModels(systems: SpacedRepetitionSystem[]): SrsModelSet {
+  const models = systems.map(buildSrsModel)
+  if (models.length === 0) {
+    models.push(fallbackModel(1, 'Standard', STANDARD_HOURS), fallbackModel(2, 'Accelerated', ACCELERATED_HOURS))
+  }
+  const byPace = models.slice().sort((a, b) => timeToPass(b) - timeToPass(a))
+  return {
+    byId: new Map(models.map(model => [model.id, model])),
+    standard: byPace[0],
+    accelerated: byPace[byPace.length - 1]
+  }
+}
+
+/** The system a subject (or system id) uses; the standard one when unknown */
+export function getSrsModel(models: SrsModelSet, subjectOrId: Subject | number | null | undefined): SrsModel {
+  const id = typeof subjectOrId === 'number' ? subjectOrId : subjectOrId?.data.spaced_repetition_system_id
+  return (id !== undefined && models.byId.get(id)) || models.standard
+}
+
+/** Levels whose radicals and kanji WaniKani runs on the accelerated system */
+function isFastLevel(level: number): boolean {
+  return level <= 2 || level >= 43
+}
+
+export type LevelSubjectType = 'radical' | 'kanji' | 'vocabulary'
+
+/**
+ * The system a level's items of a type use: the one most of its loaded subjects name.
+ * Levels whose subjects are not loaded fall back to the accelerated system for the
+ * radicals and kanji of the fast levels and the standard one otherwise.
+ */
+export function createLevelSrsLookup(
+  models: SrsModelSet,
+  subjects: Subject[]
+): (level: number, type: LevelSubjectType) => SrsModel {
+  const counts = new Map<string, Map<number, number>>()
+  subjects.forEach(subject => {
+    const id = subject.data.spaced_repetition_system_id
+    if (id === undefined) return
+    const type = subject.object === 'kana_vocabulary' ? 'vocabulary' : subject.object
+    const key = `${subject.data.level}|${type}`
+    const byId = counts.get(key) ?? new Map<number, number>()
+    byId.set(id, (byId.get(id) ?? 0) + 1)
+    counts.set(key, byId)
+  })
+
+  const resolved = new Map<string, SrsModel>()
+  counts.forEach((byId, key) => {
+    let bestId = 0
+    let bestCount = 0
+    byId.forEach((count, id) => {
+      if (count > bestCount) { bestId = id; bestCount = count }
+    })
+    resolved.set(key, getSrsModel(models, bestId))
+  })
+
+  return (level, type) =>
+    resolved.get(`${level}|${type}`) ??
+    (type !== 'vocabulary' && isFastLevel(level) ? models.accelerated : models.standard)
+}
+
+export function getStageGroup(model: SrsModel, stage: number): SrsStageGroup {
+  if (stage >= model.burningStage) return 'burned'
+  if (stage < model.startingStage) return 'lesson'
+  if (stage < model.passingStage) return 'apprentice'
+  if (stage === model.burningStage - 1) return 'enlightened'
+  if (stage === model.burningStage - 2) return 'master'
+  return 'guru'
+}
+
+/** "Apprentice 3", "Guru 1", "Burned" ... */
+export function getStageName(model: SrsModel, stage: number): string {
+  switch (getStageGroup(model, stage)) {
+    case 'lesson': return 'Lesson'
+    case 'apprentice': return `Apprentice ${stage - model.startingStage + 1}`
+    case 'guru': return `Guru ${stage - model.passingStage + 1}`
+    case 'master': return 'Master'
+    case 'enlightened': return 'Enlightened'
+    case 'burned': return 'Burned'
+  }
+}
+
+/** Badge background for a stage group (Tailwind class) */
+export function getStageGroupColor(group: SrsStageGroup | undefined): string {
+  switch (group) {
+    case 'apprentice': return 'bg-pink-500'
+    case 'guru': return 'bg-purple-500'
+    case 'master': return 'bg-blue-500'
+    case 'enlightened': return 'bg-cyan-500'
+    case 'burned': return 'bg-amber-500'
+    default: return 'bg-gray-400'
+  }
+}
+
+/** Stages that get reviews: starting stage up to the one before burning */
+export function getReviewStages(model: SrsModel): number[] {
+  const stages: number[] = []
+  for (let stage = model.startingStage; stage < model.burningStage; stage++) stages.push(stage)
+  return stages
+}
+
+export function isPassedStage(model: SrsModel, stage: number): boolean {
+  return stage >= model.passingStage
+}
+
+export function isBurnedStage(model: SrsModel, stage: number): boolean {
+  return stage >= model.burningStage
+}
+
+/**
+ * WaniKani's stage change: one up when both answers were right, otherwise down by
+ * half the wrong answers (rounded up), twice as far from Guru up.
+ */
+export function getStageAfterReview(model: SrsModel, stage: number, incorrectAnswers: number): number {
+  if (incorrectAnswers <= 0) return Math.min(model.burningStage, stage + 1)
+  const penalty = stage >= model.passingStage ? 2 : 1
+  return Math.max(model.startingStage, stage - Math.ceil(incorrectAnswers / 2) * penalty)
+}
+
+/** When an item reaching this stage is due again (rounded down to the hour); null once burned */
+export function getNextReviewAt(model: SrsModel, stage: number, reviewedAt: number): number | null {
+  if (stage >= model.burningStage || stage < model.startingStage) return null
+  return Math.floor((reviewedAt + (model.intervals[stage] ?? 0)) / HOUR_MS) * HOUR_MS
+}
+
+/**
+ * Shortest time until an item reaches the target stage: the wait for its next
+ * review, then every interval in between, all answered correctly.
+ */
+export function getTimeToStage(
+  model: SrsModel,
+  stage: number,
+  availableAt: string | null | undefined,
+  targetStage: number,
+  now: number = Date.now()
+): number {
+  if (stage >= targetStage) return 0
+  const due = availableAt ? new Date(availableAt).getTime() : now
+  let remaining = Math.max(0, due - now)
+  for (let position = stage + 1; position < targetStage; position++) {
+    remaining += model.intervals[position] ?? 0
+  }
+  return remaining
+}
@@ -0,0 +1,127 @@
+import type { Subject } from '@/types/wanikani'
+
+/**
+ * Compact columnar encoding for subject arrays.
+ *
+ * Full subject records repeat the same ~20 field names thousands of times, which
+ * dominates their serialized size. Storing one array per field instead keeps every
+ * field (mnemonics, context sentences, audio, ...) while dropping that overhead.
+ */
+
+const FORMAT = 'subjects-columnar-v1'
+
+const SUBJECT_TYPES = new Set<string>(['radical', 'kanji', 'vocabulary', 'kana_vocabulary'])
+
+export interface EncodedSubjects {
+  format: typeof FORMAT
+  ids: number[]
+  objects: Subject['object'][]
+  // One array per data field, index-aligned with ids; null where a subject lacks the field
+  columns: Record<string, unknown[]>
+  // Top-level record fields other than id/object/data (url, data_updated_at, ...)
+  extras: Record<string, unknown[]>
+}
+
+function isSubjectArray(value: unknown): value is Subject[] {
+  return Array.isArray(value) && value.length > 0 && value.every(item =>
+    typeof item === 'object' && item !== null &&
+    typeof item.id === 'number' &&
+    SUBJECT_TYPES.has(item.object) &&
+    typeof item.data === 'object'
+  )
+}
+
+export function isEncodedSubjects(value: unknown): value is EncodedSubjects {
+  return typeof value === 'object' && value !== null &&
+    (value as { format?: unknown }).format === FORMAT
+}
+
+export function encodeSubjects(subjects: Subject[]): EncodedSubjects {
+  const columns: Record<string, unknown[]> = {}
+  const extras: Record<string, unknown[]> = {}
+
+  const setColumnValue = (target: Record<string, unknown[]>, field: string, index: number, value: unknown) => {
+    if (!target[field]) {
+      target[field] = new Array(subjects.length).fill(null)
+    }
+    target[field][index] = value
+  }
+
+  subjects.forEach((subject, index) => {
+    const data = subject.data as Record<string, unknown>
+    Object.keys(data).forEach(field => {
+      setColumnValue(columns, field, index, data[field])
+    })
+    const record = subject as unknown as Record<string, unknown>
+    Object.keys(record)
+      .filter(field => field !== 'id' && field !== 'object' && field !== 'data')
+      .forEach(field => setColumnValue(extras, field, index, record[field]))
+  })
+
+  return {
+    format: FORMAT,
+    ids: subjects.map(s => s.id),
+    objects: subjects.map(s => s.object),
+    columns,
+    extras
+  }
+}
+
+export function decodeSubjects(encoded: EncodedSubjects): Subject[] {
+  const dataFields = Object.keys(encoded.columns)
+  const extraFields = Object.keys(encoded.extras || {})
+
+  return encoded.ids.map((id, index) => {
+    const data: Record<string, unknown> = {}
+    dataFields.forEach(field => {
+      const value = encoded.columns[field][index]
+      // null marks a field the subject did not have (or an API null, which optional fields accept)
+      if (value !== null && value !== undefined) data[field] = value
+    })
+
+    const record: Record<string, unknown> = { id, object: encoded.objects[index], data }
+    extraFields.forEach(field => {
+      const value = encoded.extras[field][index]
+      if (value !== null && value !== undefined) record[field] = value
+    })
+    return record as unknown as Subject
+  })
+}
+
+// Encode subject arrays found at the top level of a cached payload or one level down
+// (ApiResponse.data, SyncedCollection.records). Other payloads pass through untouched.
+export function encodeSubjectPayload<T>(payload: T): T {
+  if (isSubjectArray(payload)) {
+    return encodeSubjects(payload) as unknown as T
+  }
+  if (typeof payload === 'object' && payload !== null && !Array.isArray(payload)) {
+    const result = { ...payload } as Record<string, unknown>
+    let changed = false
+    Object.keys(result).forEach(field => {
+      if (isSubjectArray(result[field])) {
+        result[field] = encodeSubjects(result[field] as Subject[])
+        changed = true
+      }
+    })
+    return changed ? result as T : payload
+  }
+  return payload
+}
+
+export function decodeSubjectPayload<T>(payload: T): T {
+  if (isEncodedSubjects(payload)) {
+    return decodeSubjects(payload) as unknown as T
+  }
+  if (typeof payload === 'object' && payload !== null && !Array.isArray(payload)) {
+    const result = { ...payload } as Record<string, unknown>
+    let changed = false
+    Object.keys(result).forEach(field => {
+      if (isEncodedSubjects(result[field])) {
+        result[field] = decodeSubjects(result[field] as EncodedSubjects)
+        changed = true
+      }
+    })
+    return changed ? result as T : payload
+  }
+  return payload
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { buildFixtures } from '@/services/mock/fixtures'
+import type { Assignment, Review, ReviewStatistic, SpacedRepetitionSystem, Subject } from '@/types/wanikani'
+import { createSrsModels } from './srsModel'
+import { expectedReviewsPerLesson, getStageAccuracy, simulateWorkload, type WorkloadInput } from './workloadSimulation'
+
+const NOW = Date.UTC(2024, 0, 1)
+const fixtures = buildFixtures(NOW)
+const srsSystems = fixtures.spacedRepetitionSystems as unknown as SpacedRepetitionSystem[]
+const reviews = fixtures.reviews as unknown as Review[]
+const reviewStats = fixtures.reviewStatistics as unknown as ReviewStatistic[]
+
+const input: WorkloadInput = {
+  assignments: fixtures.assignments as unknown as Assignment[],
+  subjects: fixtures.subjects as unknown as Subject[],
+  srsSystems,
+  stageAccuracy: getStageAccuracy(reviews, reviewStats),
+  userLevel: 4,
+  days: 30,
+  now: NOW
+}
+
+describe('expectedReviewsPerLesson', () => {
+  it('is one review per stage when every answer is right', () => {
+    expect(expectedReviewsPerLesson(new Array(9).fill(1))).toBeCloseTo(8)
+  })
+
+  it('grows as accuracy drops', () => {
+    const model = createSrsModels(srsSystems).standard
+    const good = expectedReviewsPerLesson(new Array(9).fill(0.95), model)
+    const poor = expectedReviewsPerLesson(new Array(9).fill(0.7), model)
+    expect(good).toBeGreaterThan(8)
+    expect(poor).toBeGreaterThan(good)
+  })
+})
+
+describe('getStageAccuracy', () => {
+  it('gives a rate between 0 and 1 for every review stage', () => {
+    const accuracy = getStageAccuracy(reviews, reviewStats)
+    accuracy.slice(1).forEach(rate => {
+      expect(rate).toBeGreaterThan(0)
+      expect(rate).toBeLessThanOrEqual(1)
+    })
+  })
+})
+
+describe('simulateWorkload', () => {
+  it('plays one entry per day', () => {
+    const result = simulateWorkload(input, 10)
+    expect(result.days).toHaveLength(30)
+    expect(result.lessonsPerDay).toBe(10)
+    expect(result.peakReviews).toBeGreaterThanOrEqual(result.averageReviews)
+  })
+
+  it('is deterministic', () => {
+    expect(simulateWorkload(input, 10)).toEqual(simulateWorkload(input, 10))
+  })
+
+  it('brings more reviews and level-ups with more lessons', () => {
+    const light = simulateWorkload(input, 1)
+    const heavy = simulateWorkload(input, 5)
+    expect(heavy.lessonsDone).toBeGreaterThan(light.lessonsDone)
+    expect(heavy.averageReviews).toBeGreaterThan(light.averageReviews)
+    expect(heavy.peakApprentice).toBeGreaterThan(light.peakApprentice)
+    expect(heavy.levelUps.length).toBeGreaterThanOrEqual(light.levelUps.length)
+  })
+
+  it('does no lessons at zero lessons a day', () => {
+    const result = simulateWorkload(input, 0)
+    expect(result.lessonsDone).toBe(0)
+    expect(result.days.every(day => day.lessons === 0)).toBe(true)
+  })
+})
@@ -0,0 +1,307 @@
+import type { Assignment, Review, ReviewStatistic, SpacedRepetitionSystem, Subject } from '@/types/wanikani'
+import { isReviewCorrect } from './reviewHistory'
+import { createLevelSrsLookup, createSrsModels, getSrsModel, getStageAfterReview, type LevelSubjectType, type SrsModel } from './srsModel'
+
+/**
+ * "What if I do N lessons a day": plays the next days hour by hour through the SRS.
+ * Items move as fractional cohorts (expected values, no randomness): at each review a
+ * cohort splits by the accuracy of its stage, and a miss counts as one wrong answer.
+ * Lessons are taken in WaniKani's order (level, then type); a level's kanji unlock
+ * once its radicals are Guru, and the level is passed when 90% of its kanji are.
+ */
+
+export const DEFAULT_DAILY_REVIEW_TARGET = 150
+export const SIMULATION_DAYS = 90
+
+export interface WorkloadDay {
+  date: Date
+  reviews: number
+  lessons: number
+  // Apprentice items at the end of the day
+  apprentice: number
+}
+
+export interface WorkloadResult {
+  lessonsPerDay: number
+  days: WorkloadDay[]
+  levelUps: Array<{ level: number; date: Date }>
+  averageReviews: number
+  peakReviews: number
+  peakApprentice: number
+  lessonsDone: number
+}
+
+export interface WorkloadInput {
+  assignments: Assignment[]
+  subjects: Subject[]
+  srsSystems: SpacedRepetitionSystem[]
+  // Pass rate per starting stage (index 1-8), from getStageAccuracy
+  stageAccuracy: number[]
+  userLevel: number
+  days?: number
+  now?: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const MAX_LEVEL = 60
+const LEVEL_UP_KANJI_SHARE = 0.9
+const DEFAULT_ACCURACY = 0.85
+// Stages with fewer reviews than this use the overall accuracy
+const MIN_STAGE_SAMPLES = 20
+// Typical level contents when a level's subjects are not loaded
+const DEFAULT_LEVEL_SHAPE = { radicals: 6, kanji: 32, vocabulary: 90 }
+
+// Stage layout for the accuracy table when no system is given (both WaniKani systems share it)
+const DEFAULT_SRS = createSrsModels([]).standard
+
+/**
+ * Share of reviews passed at each starting stage (index 1-8). Uses the review history
+ * when there is one, else the items' review statistics (same rate for every stage).
+ */
+export function getStageAccuracy(
+  reviews: Review[],
+  reviewStats: ReviewStatistic[],
+  srs: SrsModel = DEFAULT_SRS
+): number[] {
+  let overall = DEFAULT_ACCURACY
+  if (reviews.length > 0) {
+    overall = reviews.filter(isReviewCorrect).length / reviews.length
+  } else {
+    const rates = reviewStats
+      .filter(stat => stat.data.meaning_correct + stat.data.meaning_incorrect > 0)
+      .map(stat => {
+        const meaning = stat.data.meaning_correct / (stat.data.meaning_correct + stat.data.meaning_incorrect)
+        const readingTotal = stat.data.reading_correct + stat.data.reading_incorrect
+        return meaning * (readingTotal > 0 ? stat.data.reading_correct / readingTotal : 1)
+      })
+    if (rates.length > 0) overall = rates.reduce((sum, rate) => sum + rate, 0) / rates.length
+  }
+
+  const totals = Array.from({ length: srs.burningStage }, () => ({ total: 0, correct: 0 }))
+  reviews.forEach(review => {
+    const stage = review.data.starting_srs_stage
+    if (stage < srs.startingStage || stage >= srs.burningStage) return
+    totals[stage].total++
+    if (isReviewCorrect(review)) totals[stage].correct++
+  })
+  return totals.map(({ total, correct }) => total >= MIN_STAGE_SAMPLES ? correct / total : overall)
+}
+
+/** Reviews one lesson causes on its way to Burned */
+export function expectedReviewsPerLesson(stageAccuracy: number[], srs: SrsModel = DEFAULT_SRS): number {
+  // Expected reviews left from each stage, solved by iterating until it settles;
+  // a miss counts as one wrong answer
+  const remaining = new Array(srs.burningStage + 1).fill(0)
+  for (let iteration = 0; iteration < 500; iteration++) {
+    for (let stage = srs.burningStage - 1; stage >= srs.startingStage; stage--) {
+      const p = stageAccuracy[stage] ?? DEFAULT_ACCURACY
+      remaining[stage] = 1 + p * remaining[stage + 1] + (1 - p) * remaining[getStageAfterReview(srs, stage, 1)]
+    }
+  }
+  return remaining[srs.startingStage]
+}
+
+interface Cohort {
+  count: number
+  stage: number
+  srsId: number
+  // Radicals and kanji of a level still to pass (r:12 / k:12), else empty
+  tag: string
+}
+
+interface LessonGroup {
+  level: number
+  type: LevelSubjectType
+  count: number
+  srsId: number
+}
+
+const TYPE_ORDER = { radical: 0, kanji: 1, vocabulary: 2 }
+
+export function simulateWorkload(input: WorkloadInput, lessonsPerDay: number): WorkloadResult {
+  const dayCount = input.days ?? SIMULATION_DAYS
+  const now = input.now ?? Date.now()
+  const startHour = Math.floor(now / HOUR_MS)
+  const srsModels = createSrsModels(input.srsSystems)
+  const levelSrs = createLevelSrsLookup(srsModels, input.subjects)
+  const srsFor = (level: number, type: LessonGroup['type']) => levelSrs(level, type).id
+  // Interval after reaching each stage, in whole hours
+  const hoursById = new Map<number, number[]>()
+  const hoursFor = (srsId: number) => {
+    let hours = hoursById.get(srsId)
+    if (!hours) {
+      hours = getSrsModel(srsModels, srsId).intervals.map(ms => Math.round(ms / HOUR_MS))
+      hoursById.set(srsId, hours)
+    }
+    return hours
+  }
+  const accuracy = (stage: number) => input.stageAccuracy[stage] ?? DEFAULT_ACCURACY
+
+  const subjectMap = new Map(input.subjects.map(subject => [subject.id, subject]))
+  const shapes = new Map<number, { radicals: number; kanji: number; vocabulary: number }>()
+  input.subjects.forEach(subject => {
+    const shape = shapes.get(subject.data.level) ?? { radicals: 0, kanji: 0, vocabulary: 0 }
+    if (subject.object === 'radical') shape.radicals++
+    else if (subject.object === 'kanji') shape.kanji++
+    else shape.vocabulary++
+    shapes.set(subject.data.level, shape)
+  })
+  const shapeFor = (level: number) => {
+    const shape = shapes.get(level)
+    return shape && shape.kanji > 0 ? shape : DEFAULT_LEVEL_SHAPE
+  }
+
+  // Cohorts waiting for review, by hour from the start
+  const due = new Map<number, Map<string, Cohort>>()
+  const schedule = (hour: number, cohort: Cohort) => {
+    if (cohort.count <= 0 || cohort.stage >= getSrsModel(srsModels, cohort.srsId).burningStage) return
+    const bucket = due.get(hour) ?? new Map<string, Cohort>()
+    const key = `${cohort.srsId}|${cohort.stage}|${cohort.tag}`
+    const existing = bucket.get(key)
+    if (existing) existing.count += cohort.count
+    else bucket.set(key, { ...cohort })
+    due.set(hour, bucket)
+  }
+
+  let level = input.userLevel
+  let apprentice = 0
+  const guru = new Map<string, number>()
+  const addGuru = (tag: string, delta: number) => {
+    if (tag) guru.set(tag, (guru.get(tag) ?? 0) + delta)
+  }
+  const tagFor = (subject: Subject | undefined) => {
+    if (!subject || subject.data.level < level) return ''
+    if (subject.object === 'radical') return `r:${subject.data.level}`
+    if (subject.object === 'kanji') return `k:${subject.data.level}`
+    return ''
+  }
+
+  // Current items: started ones into the review schedule, unlocked ones into the lesson queue
+  const queue: LessonGroup[] = []
+  const unlockedKanji = new Set<number>()
+  input.assignments.forEach(assignment => {
+    const subject = subjectMap.get(assignment.data.subject_id)
+    const stage = assignment.data.srs_stage
+    const type = assignment.data.subject_type === 'kana_vocabulary' ? 'vocabulary' : assignment.data.subject_type
+    const subjectLevel = subject?.data.level ?? level
+    if (type === 'kanji' && subjectLevel === level && assignment.data.unlocked_at) unlockedKanji.add(assignment.data.subject_id)
+
+    if (!assignment.data.started_at) {
+      if (!assignment.data.unlocked_at) return
+      const group = queue.find(g => g.level === subjectLevel && g.type === type)
+      if (group) group.count++
+      else queue.push({ level: subjectLevel, type, count: 1, srsId: subject?.data.spaced_repetition_system_id ?? srsFor(subjectLevel, type) })
+      return
+    }
+
+    const tag = tagFor(subject)
+    const srs = getSrsModel(srsModels, subject)
+    if (stage >= srs.passingStage) addGuru(tag, 1)
+    if (stage >= srs.startingStage && stage < srs.passingStage) apprentice++
+    if (stage < srs.startingStage || stage >= srs.burningStage || !assignment.data.available_at) return
+    const hour = Math.max(0, Math.floor(Date.parse(assignment.data.available_at) / HOUR_MS) - startHour)
+    schedule(hour, { count: 1, stage, srsId: srs.id, tag })
+  })
+  queue.sort((a, b) => a.level - b.level || TYPE_ORDER[a.type] - TYPE_ORDER[b.type])
+
+  // Kanji of the current level that are still locked behind its radicals
+  const pendingKanji = new Map<number, number>()
+  const currentKanji = shapeFor(level).kanji
+  pendingKanji.set(level, Math.max(0, currentKanji - unlockedKanji.size))
+
+  const enqueue = (groupLevel: number, type: LessonGroup['type'], count: number) => {
+    if (count <= 0) return
+    queue.push({ level: groupLevel, type, count, srsId: srsFor(groupLevel, type) })
+    queue.sort((a, b) => a.level - b.level || TYPE_ORDER[a.type] - TYPE_ORDER[b.type])
+  }
+
+  const days: WorkloadDay[] = []
+  const levelUps: Array<{ level: number; date: Date }> = []
+  let lessonsDone = 0
+
+  for (let day = 0; day < dayCount; day++) {
+    let reviews = 0
+    let lessons = 0
+
+    // Lessons at the start of each day, from the front of the queue
+    let budget = lessonsPerDay
+    while (budget > 0 && queue.length > 0) {
+      const group = queue[0]
+      const taken = Math.min(budget, group.count)
+      group.count -= taken
+      budget -= taken
+      lessons += taken
+      apprentice += taken
+      const tag = group.type === 'vocabulary' || group.level < level ? '' : `${group.type === 'radical' ? 'r' : 'k'}:${group.level}`
+      const startingStage = getSrsModel(srsModels, group.srsId).startingStage
+      schedule(day * 24 + hoursFor(group.srsId)[startingStage], { count: taken, stage: startingStage, srsId: group.srsId, tag })
+      if (group.count <= 0) queue.shift()
+    }
+    lessonsDone += lessons
+
+    for (let hour = day * 24; hour < (day + 1) * 24; hour++) {
+      const bucket = due.get(hour)
+      if (bucket) {
+        due.delete(hour)
+        bucket.forEach(cohort => {
+          reviews += cohort.count
+          const srs = getSrsModel(srsModels, cohort.srsId)
+          const passed = cohort.count * accuracy(cohort.stage)
+          // A miss counts as one wrong answer
+          const outcomes: Array<[number, number]> = [
+            [getStageAfterReview(srs, cohort.stage, 0), passed],
+            [getStageAfterReview(srs, cohort.stage, 1), cohort.count - passed]
+          ]
+          outcomes.forEach(([stage, count]) => {
+            const wasApprentice = cohort.stage < srs.passingStage
+            const isApprentice = stage < srs.passingStage
+            if (wasApprentice && !isApprentice) { apprentice -= count; addGuru(cohort.tag, count) }
+            if (!wasApprentice && isApprentice) { apprentice += count; addGuru(cohort.tag, -count) }
+            schedule(hour + (hoursFor(cohort.srsId)[stage] ?? 0), { ...cohort, stage, count })
+          })
+        })
+      }
+
+      // Kanji unlock once the level's radicals are Guru
+      const locked = pendingKanji.get(level) ?? 0
+      const radicals = shapeFor(level).radicals
+      if (locked > 0 && (radicals === 0 || (guru.get(`r:${level}`) ?? 0) >= radicals * LEVEL_UP_KANJI_SHARE)) {
+        enqueue(level, 'kanji', locked)
+        pendingKanji.set(level, 0)
+      }
+
+      // Level-up: the next level's radicals unlock, and this level's vocabulary
+      const kanji = shapeFor(level).kanji
+      if (level < MAX_LEVEL && (guru.get(`k:${level}`) ?? 0) >= kanji * LEVEL_UP_KANJI_SHARE) {
+        enqueue(level, 'vocabulary', shapeFor(level).vocabulary - (level === input.userLevel ? countStarted(input, level, subjectMap) : 0))
+        level++
+        levelUps.push({ level, date: new Date((startHour + hour) * HOUR_MS) })
+        enqueue(level, 'radical', shapeFor(level).radicals)
+        pendingKanji.set(level, shapeFor(level).kanji)
+      }
+    }
+
+    days.push({ date: new Date((startHour + day * 24) * HOUR_MS), reviews, lessons, apprentice: Math.max(0, apprentice) })
+  }
+
+  const totalReviews = days.reduce((sum, d) => sum + d.reviews, 0)
+  return {
+    lessonsPerDay,
+    days,
+    levelUps,
+    averageReviews: days.length > 0 ? totalReviews / days.length : 0,
+    peakReviews: days.reduce((max, d) => Math.max(max, d.reviews), 0),
+    peakApprentice: days.reduce((max, d) => Math.max(max, d.apprentice), 0),
+    lessonsDone
+  }
+}
+
+// Vocabulary of the current level already unlocked (queued or started), not to be added twice
+function countStarted(input: WorkloadInput, level: number, subjectMap: Map<number, Subject>): number {
+  return input.assignments.filter(assignment => {
+    const subject = subjectMap.get(assignment.data.subject_id)
+    return subject?.data.level === level &&
+      (subject.object === 'vocabulary' || subject.object === 'kana_vocabulary') &&
+      !!assignment.data.unlocked_at
+  }).length
+}
@@ -0,0 +1,5 @@
+// Kept out of WaniKaniService so the worker bundle (which imports the service) does not
+// reference its own entry point
+export function createSyncWorker(): Worker {
+  return new Worker(new URL('./sync.worker.ts', import.meta.url))
+}
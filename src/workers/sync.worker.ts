@@ -0,0 +1,49 @@
+import { WaniKaniService } from '@/services/wanikani'
+import { toErrorData } from '@/services/errors'
+import { setCacheEncryptionKey } from '@/services/cacheStorage'
+import type { SyncWorkerRequest, SyncWorkerResponse } from '@/services/syncWorkerProtocol'
+
+// Runs WaniKaniService collection syncs (paging, JSON parsing, cache encoding) off the
+// main thread. The worker writes to the same IndexedDB cache the page reads from.
+
+// The project compiles against the DOM lib, so type the worker scope by hand
+const scope = self as unknown as {
+  postMessage: (message: SyncWorkerResponse) => void
+  onmessage: ((event: MessageEvent<SyncWorkerRequest>) => void) | null
+}
+
+let service: WaniKaniService | null = null
+
+scope.onmessage = event => {
+  const message = event.data
+
+  if (message.type === 'init') {
+    if (typeof indexedDB === 'undefined') {
+      scope.postMessage({ type: 'unavailable', reason: 'IndexedDB is not available in workers' })
+      return
+    }
+    setCacheEncryptionKey(message.cacheKey)
+    service = new WaniKaniService(message.apiToken, message.namespace)
+    service.onSyncProgress(progress => scope.postMessage({ type: 'progress', progress }))
+    service.onCacheUpdate(update => scope.postMessage({ type: 'cache-updated', update }))
+    service.onRateLimitObservation(observation => scope.postMessage({ type: 'rate-limit', observation }))
+    scope.postMessage({ type: 'ready' })
+    return
+  }
+
+  if (message.type === 'rate-limit') {
+    service?.applyRateLimitObservation(message.observation)
+    return
+  }
+
+  const { id, task } = message
+  if (!service) {
+    scope.postMessage({ type: 'error', id, error: toErrorData(new Error('Sync worker not initialized'), task.endpoint) })
+    return
+  }
+
+  service.runTask(task).then(
+    value => scope.postMessage({ type: 'result', id, value }),
+    error => scope.postMessage({ type: 'error', id, error: toErrorData(error, task.endpoint) })
+  )
+}